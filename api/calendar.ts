@@ -0,0 +1,58 @@
+// api/calendar.ts
+// Vercel serverless function: subscribable iCalendar feed of the current season's matches.
+//   GET /api/calendar?team=Mark%20P%2FMatt%20O   → one team's matches
+//   GET /api/calendar?division=Advanced         → every match in a division
+//   (&season=season4 for a specific season; defaults to the active one)
+// Relative imports: the function is bundled by Vercel, not Metro, so the @/ alias isn't available.
+
+import { buildMatchCalendar, calendarFileName, type CalendarScope } from '../constants/ics';
+import {
+  LEGACY_SEASON_ID,
+  fetchMatches,
+  fetchSeasonSettings,
+  fetchSeasons,
+  isDivision,
+} from '../constants/leagueData';
+import { fetchLeagueNightConfig } from '../constants/leagueNights';
+
+function textResponse(status: number, body: string) {
+  return new Response(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+}
+
+export async function GET(request: Request): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const team = (params.get('team') ?? '').trim();
+  const division = (params.get('division') ?? '').trim();
+
+  let scope: CalendarScope;
+  if (team) scope = { kind: 'team', team };
+  else if (isDivision(division)) scope = { kind: 'division', division };
+  else return textResponse(400, 'Pass ?team=<team name> or ?division=<division name>');
+
+  try {
+    const seasons = await fetchSeasons();
+    const requested = (params.get('season') ?? '').trim();
+    const season =
+      seasons.find((s) => s.id === requested) ?? seasons.find((s) => s.status === 'active') ?? null;
+    const seasonId = season?.id ?? LEGACY_SEASON_ID;
+
+    const [matches, settings, nights] = await Promise.all([
+      fetchMatches(seasonId),
+      fetchSeasonSettings(seasonId),
+      fetchLeagueNightConfig(seasonId),
+    ]);
+    const body = buildMatchCalendar(matches, scope, settings?.week1Date ?? null, season?.name ?? 'Season 3', nights);
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `inline; filename="${calendarFileName(scope)}"`,
+        // Calendar apps poll; a short CDN cache keeps Supabase traffic down
+        'Cache-Control': 'public, max-age=0, s-maxage=300',
+      },
+    });
+  } catch (e: any) {
+    return textResponse(502, e?.message || 'Could not load the schedule.');
+  }
+}
@@ -0,0 +1,38 @@
+// api/playoffs.ts
+// Vercel serverless function: moves playoff winners (and double-elimination losers) into their next game.
+//   POST /api/playoffs  { season }   → { upserts, deletes } (playoff matches added / updated / removed)
+// Apps call it after a confirmed score syncs: matches are admin-only for them, so the next-round rows
+// are written here with the service-role key. Safe for anyone to trigger — the result only follows the
+// verified scores already in Supabase.
+// Needs SUPABASE_SERVICE_ROLE_KEY in the Vercel environment (never an EXPO_PUBLIC_ variable).
+// Relative imports: the function is bundled by Vercel, not Metro, so the @/ alias isn't available.
+
+import { fetchSeasons, setActiveSeasonId } from '../constants/leagueData';
+import { advancePlayoffs } from '../constants/playoffs';
+import { setSupabaseServerKey } from '../constants/supabase';
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const serviceKey = (process.env.SUPABASE_SERVICE_ROLE_KEY || '').trim();
+  if (!serviceKey) return jsonResponse(500, { error: 'Playoffs are not configured (SUPABASE_SERVICE_ROLE_KEY).' });
+  setSupabaseServerKey(serviceKey);
+
+  const body = await request.json().catch(() => null);
+  const requested = typeof body?.season === 'string' ? body.season.trim() : '';
+
+  try {
+    const seasons = await fetchSeasons();
+    const season = seasons.find((s) => s.id === requested) ?? seasons.find((s) => s.status === 'active') ?? null;
+    if (!season) return jsonResponse(404, { error: 'No such season.' });
+
+    // advancePlayoffs reads and writes the active season
+    setActiveSeasonId(season.id);
+    const changes = await advancePlayoffs();
+    return jsonResponse(200, { upserts: changes.upserts.length, deletes: changes.deletes.length });
+  } catch (e: any) {
+    return jsonResponse(502, { error: e?.message || 'Could not update playoff matches.' });
+  }
+}
@@ -0,0 +1,109 @@
+// api/push.ts
+// Vercel serverless function: sends league push notifications. Apps can only register their own token
+// (push_tokens is write-only for them), so every send goes through here with the service-role key.
+//   POST /api/push  { kind: 'announcement', message }            → everyone (league_admin)
+//   POST /api/push  { kind: 'schedule', season, matchIds }        → the teams in those matches (league_admin)
+//   POST /api/push  { kind: 'score', season, matchId }            → whoever has to act on the saved score
+//                                                                    (a scorekeeper or a player in the match)
+// Every send needs the caller's Supabase session: Authorization: Bearer <access token>.
+// A score is announced once per saved change (match_scores.updated_at), however many devices report it.
+// Needs SUPABASE_SERVICE_ROLE_KEY in the Vercel environment (never an EXPO_PUBLIC_ variable).
+// Relative imports: the function is bundled by Vercel, not Metro, so the @/ alias isn't available.
+
+import { claimScoreNotice, fetchRolesForEmail } from '../constants/leagueData';
+import {
+  isScoreParticipant,
+  loadSavedScore,
+  loadScheduleMatches,
+  sendAnnouncement,
+  sendSchedulePublished,
+  sendScoreSaved,
+  type PushRequest,
+  type PushSendResult,
+} from '../constants/pushServer';
+import { SUPABASE_ANON_KEY, SUPABASE_AUTH_URL, setSupabaseServerKey } from '../constants/supabase';
+
+const NOTHING_SENT: PushSendResult = { sent: 0, failed: 0, pruned: 0 };
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function parseRequest(body: any): PushRequest | null {
+  const str = (v: unknown) => (typeof v === 'string' ? v.trim() : '');
+  switch (body?.kind) {
+    case 'announcement':
+      return str(body.message) ? { kind: 'announcement', message: str(body.message) } : null;
+    case 'schedule': {
+      const matchIds = Array.isArray(body.matchIds) ? body.matchIds.map(str).filter(Boolean) : [];
+      return str(body.season) ? { kind: 'schedule', season: str(body.season), matchIds } : null;
+    }
+    case 'score':
+      return str(body.season) && str(body.matchId)
+        ? { kind: 'score', season: str(body.season), matchId: str(body.matchId) }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// The caller's email from their session JWT (GoTrue checks the signature), null = not signed in
+async function callerEmail(request: Request): Promise<string | null> {
+  const bearer = (request.headers.get('Authorization') ?? '').replace(/^Bearer\s+/i, '').trim();
+  if (!bearer) return null;
+  const res = await fetch(`${SUPABASE_AUTH_URL}/user`, {
+    headers: { apikey: SUPABASE_ANON_KEY, Authorization: `Bearer ${bearer}` },
+  });
+  if (!res.ok) return null;
+  const user = await res.json().catch(() => null);
+  const email = String(user?.email ?? '').trim().toLowerCase();
+  return email || null;
+}
+
+async function isLeagueAdmin(request: Request): Promise<boolean> {
+  const email = await callerEmail(request);
+  if (!email) return false;
+  const roles = await fetchRolesForEmail(email);
+  return roles.some((r) => r.role === 'league_admin');
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const serviceKey = (process.env.SUPABASE_SERVICE_ROLE_KEY || '').trim();
+  if (!serviceKey) return jsonResponse(500, { error: 'Push is not configured (SUPABASE_SERVICE_ROLE_KEY).' });
+  setSupabaseServerKey(serviceKey);
+
+  const req = parseRequest(await request.json().catch(() => null));
+  if (!req) return jsonResponse(400, { error: 'Pass { kind: "announcement" | "schedule" | "score", ... }' });
+
+  try {
+    if (req.kind !== 'score' && !(await isLeagueAdmin(request))) {
+      return jsonResponse(403, { error: 'Only a league admin can send this notification.' });
+    }
+
+    switch (req.kind) {
+      case 'announcement':
+        return jsonResponse(200, await sendAnnouncement(req.message));
+      case 'schedule':
+        return jsonResponse(200, await sendSchedulePublished(await loadScheduleMatches(req.season, req.matchIds)));
+      case 'score': {
+        const email = await callerEmail(request);
+        if (!email) return jsonResponse(401, { error: 'Sign in to send score notifications.' });
+
+        // Built from the stored score, so a caller can only announce what is really saved
+        const saved = await loadSavedScore(req.season, req.matchId);
+        if (!saved) return jsonResponse(200, NOTHING_SENT);
+        if (!(await isScoreParticipant(email, req.season, saved.match))) {
+          return jsonResponse(403, { error: 'Only a scorekeeper or a player in this match can send this notification.' });
+        }
+
+        // Retries and the other team's devices report the same save: only the first one sends
+        const updatedAt = saved.score.updatedAt;
+        if (!updatedAt || !(await claimScoreNotice(saved.match.id, updatedAt))) return jsonResponse(200, NOTHING_SENT);
+
+        return jsonResponse(200, (await sendScoreSaved(saved.match, saved.score)) ?? NOTHING_SENT);
+      }
+    }
+  } catch (e: any) {
+    return jsonResponse(502, { error: e?.message || 'Could not send the notification.' });
+  }
+}
@@ -1,29 +1,33 @@
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Tabs, useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { ActivityIndicator, View } from 'react-native';
 
-const TEAM_KEY = 'ppl_selected_team';
-const PLAYER_NAME_KEY = 'ppl_selected_player_name';
+import { loadIdentity, refreshIdentityIds } from '@/constants/identity';
+import { syncPushRegistration } from '@/constants/push';
+import { useMatchReminders } from '@/hooks/use-match-reminders';
 
 export default function TabLayout() {
   const router = useRouter();
   const [checkingGate, setCheckingGate] = useState(true);
 
+  // 🔔 Opted-in match reminders follow schedule edits while the app runs
+  useMatchReminders();
+
   useEffect(() => {
     let mounted = true;
 
     const checkGate = async () => {
       try {
-        const team = await AsyncStorage.getItem(TEAM_KEY);
-        const player = await AsyncStorage.getItem(PLAYER_NAME_KEY);
-
         // Force team selection first
-        if (!team || !player) {
+        if (!(await loadIdentity())) {
           router.replace('/team');
           return;
         }
+
+        // Picked before player records existed: pick up the ids in the background
+        // (then re-tag this device's push token with them)
+        void refreshIdentityIds().then(syncPushRegistration);
       } finally {
         if (mounted) setCheckingGate(false);
       }
@@ -76,6 +80,16 @@ export default function TabLayout() {
         }}
       />
 
+      <Tabs.Screen
+        name="live"
+        options={{
+          title: 'Live',
+          tabBarIcon: ({ color, size }) => (
+            <Ionicons name="pulse" size={size} color={color} />
+          ),
+        }}
+      />
+
       <Tabs.Screen
         name="standings"
         options={{
@@ -138,10 +152,26 @@ export default function TabLayout() {
       />
 
       {/* Hidden internal admin routes */}
+      <Tabs.Screen name="player-profile" options={{ href: null }} />
+      <Tabs.Screen name="availability" options={{ href: null }} />
+      <Tabs.Screen name="reminders" options={{ href: null }} />
+      <Tabs.Screen name="calendar" options={{ href: null }} />
+      <Tabs.Screen name="playoffs" options={{ href: null }} />
       <Tabs.Screen name="admin" options={{ href: null }} />
       <Tabs.Screen name="admin-schedule" options={{ href: null }} />
+      <Tabs.Screen name="admin-season-planner" options={{ href: null }} />
+      <Tabs.Screen name="admin-seasons" options={{ href: null }} />
+      <Tabs.Screen name="admin-divisions" options={{ href: null }} />
+      <Tabs.Screen name="admin-league-nights" options={{ href: null }} />
+      <Tabs.Screen name="admin-playoffs" options={{ href: null }} />
+      <Tabs.Screen name="admin-promotions" options={{ href: null }} />
+      <Tabs.Screen name="admin-subs" options={{ href: null }} />
       <Tabs.Screen name="admin-attendance" options={{ href: null }} />
       <Tabs.Screen name="admin-announcements" options={{ href: null }} />
+      <Tabs.Screen name="admin-standings-rules" options={{ href: null }} />
+      <Tabs.Screen name="admin-game-rules" options={{ href: null }} />
+      <Tabs.Screen name="admin-roles" options={{ href: null }} />
+      <Tabs.Screen name="admin-score-disputes" options={{ href: null }} />
     </Tabs>
   );
 }
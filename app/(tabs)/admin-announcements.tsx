@@ -1,9 +1,11 @@
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { notifyAnnouncement } from "@/constants/push";
 import { supabaseHeaders, supabaseRestUrl } from "@/constants/supabase";
-import * as Notifications from "expo-notifications";
+import { useRoleGuard } from "@/hooks/use-role-guard";
 import React, { useEffect, useMemo, useState } from "react";
 import {
+  ActivityIndicator,
   Alert,
   FlatList,
   Image,
@@ -36,6 +38,7 @@ type Post = AnnouncementRow & { replies: ReplyRow[] };
 const OFFICIAL_BADGE_IMG = require("../../assets/images/ppl-season3-logo 2.png");
 
 export default function AdminAnnouncementsScreen() {
+  const allowed = useRoleGuard("league_admin");
   const [loading, setLoading] = useState(true);
   const [posts, setPosts] = useState<Post[]>([]);
   const [text, setText] = useState("");
@@ -109,32 +112,15 @@ export default function AdminAnnouncementsScreen() {
   const canDeletePost = (_p: Post) => true;
   const canDeleteReply = (_r: ReplyRow) => true;
 
-  async function triggerAdminPostNotification(message: string) {
+  // 🔔 Fan the announcement out to every registered device (not just this phone)
+  async function notifyLeague(message: string) {
     try {
-      if (Platform.OS === "web") return;
-
-      const { status: existingStatus } = await Notifications.getPermissionsAsync();
-      let finalStatus = existingStatus;
-
-      if (existingStatus !== "granted") {
-        const req = await Notifications.requestPermissionsAsync();
-        finalStatus = req.status;
+      const result = await notifyAnnouncement(message);
+      if (result.failed > 0) {
+        Alert.alert("Notifications", `Sent to ${result.sent} device(s); ${result.failed} could not be reached.`);
       }
-
-      if (finalStatus !== "granted") return;
-
-      const body = message.length > 120 ? message.slice(0, 117) + "..." : message;
-
-      await Notifications.scheduleNotificationAsync({
-        content: {
-          title: "PPL Admin Announcement",
-          body,
-          sound: "default",
-        },
-        trigger: null,
-      });
     } catch {
-      // silent
+      // the post itself is saved — notifications are best effort
     }
   }
 
@@ -163,7 +149,7 @@ export default function AdminAnnouncementsScreen() {
 
     setText("");
     await loadAll();
-    await triggerAdminPostNotification(trimmed);
+    await notifyLeague(trimmed);
   }
 
   async function onDeletePost(post: Post) {
@@ -293,6 +279,14 @@ export default function AdminAnnouncementsScreen() {
     </View>
   );
 
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: "center", justifyContent: "center" }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
   return (
     <ThemedView style={{ flex: 1 }}>
       <KeyboardAvoidingView behavior={Platform.OS === "ios" ? "padding" : undefined}>
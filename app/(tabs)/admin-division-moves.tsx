@@ -1,68 +1,38 @@
-import { supabaseHeaders, supabaseRestUrl } from '@/constants/supabase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Picker } from '@react-native-picker/picker';
 import { useFocusEffect, useRouter } from 'expo-router';
 import React, { useCallback, useMemo, useState } from 'react';
-import { Alert, Platform, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import {
+  DEFAULT_DIVISION_MOVE_POLICY,
+  DIVISION_MOVE_POLICY_LABELS,
+  divisionInWeek,
+  divisionTimeline,
+  moveProblems,
+  normalizeDivisionMovePolicy,
+  type DivisionMovePolicy,
+} from '@/constants/divisionHistory';
+import {
+  deleteDivisionMove,
+  divisionColor,
+  divisionOrder,
+  emptyByDivision,
+  fetchDivisionMoves,
+  fetchSeasonSettings,
+  fetchTeamsByDivision,
+  getActiveSeasonId,
+  upsertDivisionMove,
+  upsertSeasonDivisionMovePolicy,
+  type Division,
+  type DivisionMove,
+  type Team,
+} from '@/constants/leagueData';
+import { baselineTeamsFor } from '@/constants/seasons';
+import { useRoleGuard } from '@/hooks/use-role-guard';
 
-const ADMIN_UNLOCK_KEY = 'ppl_admin_unlocked';
 const STORAGE_KEY_DIVISION_MOVES = 'ppl_division_moves_v1';
 
-type Division = 'Beginner' | 'Intermediate' | 'Advanced';
-
-type DivisionMove = {
-  id: string; // local UI id (not Supabase id)
-  team: string;
-  fromDivision: Division;
-  toDivision: Division;
-  effectiveWeek: number;
-  createdAt: number;
-};
-
-const TEAMS_BY_DIVISION: Record<Division, string[]> = {
-  Advanced: [
-    'Ishai/Greg',
-    'Adam/Jon',
-    'Bradley/Ben',
-    'Peter/Ray',
-    'Andrew/Brent',
-    'Mark D/Craig',
-    'Alex/Anibal',
-    'Radek/Alexi',
-    'Ricky/John',
-    'Brandon/Ikewa',
-    'Andrew/Dan',
-    'Eric/Meir',
-    'David/Guy',
-    'Mark P/Matt O',
-  ],
-  Intermediate: [
-    'Ashley/Julie',
-    'Stephanie/Misty',
-    'Eric/Sunil',
-    'Dan/Relu',
-    'Domencio/Keith',
-    'YG/Haaris',
-    'Nicole/Joshua',
-    'Amy/Nik',
-    'Elaine/Valerie',
-    'Marat/Marta',
-    'Beatriz/Joe',
-    'Alejandro/William',
-  ],
-  Beginner: [
-    'Eric/Tracy',
-    'Rachel/Jaime',
-    'Amy/Ellen',
-    'Lashonda/Lynette',
-    'Michael/JP',
-    'Fran/Scott',
-    'Robert/Adam',
-    'Cynthia/Maureen',
-    'Marina/Sharon',
-  ],
-};
-
 function safeInt(value: string, fallback: number) {
   const n = parseInt(value, 10);
   return Number.isFinite(n) ? n : fallback;
@@ -96,107 +66,98 @@ function confirmPopup(title: string, message: string): Promise<boolean> {
 
 export default function AdminDivisionMovesScreen() {
   const router = useRouter();
+  const allowed = useRoleGuard('league_admin');
 
   const [moves, setMoves] = useState<DivisionMove[]>([]);
   const [movesLoaded, setMovesLoaded] = useState(false);
 
   // ✅ Team dropdown value (no typing)
   const [moveTeam, setMoveTeam] = useState<string>('');
-  const [moveFrom, setMoveFrom] = useState<Division>('Intermediate');
-  const [moveTo, setMoveTo] = useState<Division>('Advanced');
+  // Defaults to moving a team up one division
+  const [moveFrom, setMoveFrom] = useState<Division>(() => divisionOrder()[1] ?? divisionOrder()[0] ?? '');
+  const [moveTo, setMoveTo] = useState<Division>(() => divisionOrder()[0] ?? '');
   const [moveWeek, setMoveWeek] = useState<string>('1');
+  const [policy, setPolicy] = useState<DivisionMovePolicy>(DEFAULT_DIVISION_MOVE_POLICY);
+
+  // Starting rosters: the hardcoded baseline + Supabase teams
+  const [rosters, setRosters] = useState<Record<Division, string[]>>(() => baselineTeamsFor());
 
   const allTeams = useMemo(() => {
     const set = new Set<string>();
-    (Object.keys(TEAMS_BY_DIVISION) as Division[]).forEach((d) => {
-      TEAMS_BY_DIVISION[d].forEach((t) => set.add(t));
+    (Object.keys(rosters) as Division[]).forEach((d) => {
+      rosters[d].forEach((t) => set.add(t));
     });
     return Array.from(set).sort((a, b) => a.localeCompare(b));
-  }, []);
+  }, [rosters]);
 
-  // ✅ Always load from Supabase (source of truth)
-  const loadMoves = useCallback(async () => {
-    try {
-      const res = await fetch(
-        supabaseRestUrl('/division_moves?select=*&order=created_at.desc'),
-        { headers: supabaseHeaders() }
-      );
-      const json = await res.json().catch(() => null);
-
-      if (!res.ok) {
-        Alert.alert('Load failed', json?.message || 'Unknown error');
-        setMoves([]);
-        return;
-      }
+  // The team's roster division (where it starts when it has no moves)
+  const rosterDivision = useCallback(
+    (team: string): Division => {
+      const found = (Object.keys(rosters) as Division[]).find((d) => rosters[d].includes(team));
+      return found ?? divisionOrder()[divisionOrder().length - 1] ?? '';
+    },
+    [rosters]
+  );
 
-      const rows = Array.isArray(json) ? json : [];
+  const timeline = useMemo(
+    () => (moveTeam ? divisionTimeline(moveTeam, moves, rosterDivision(moveTeam)) : []),
+    [moveTeam, moves, rosterDivision]
+  );
 
-      // Convert supabase rows -> local UI shape
-      const list: DivisionMove[] = rows.map((r: any) => ({
-        id: String(r.id), // ✅ USE SUPABASE ID so delete works
-        team: String(r.team || ''),
-        fromDivision: (r.from_division as Division) || 'Beginner',
-        toDivision: (r.to_division as Division) || 'Beginner',
-        effectiveWeek: Number(r.effective_week ?? r.start_week ?? 1),
-        createdAt: new Date(r.created_at).getTime(),
-      }));
+  // ✅ "From" follows the team's division the week before the move
+  const prefillFrom = (team: string, week: string, list: DivisionMove[]) => {
+    if (!team) return;
+    const wk = safeInt(week, 1);
+    setMoveFrom(divisionInWeek(team, Math.max(wk - 1, 1), wk > 1 ? list : [], rosterDivision(team)));
+  };
 
+  // ✅ Always load from Supabase (source of truth)
+  const loadMoves = useCallback(async () => {
+    try {
+      const [list, teams, settings] = await Promise.all([
+        fetchDivisionMoves(),
+        fetchTeamsByDivision().catch(() => emptyByDivision<Team[]>(() => [])),
+        fetchSeasonSettings(getActiveSeasonId()).catch(() => null),
+      ]);
       const sorted = sortMoves(list);
       setMoves(sorted);
+      setPolicy(normalizeDivisionMovePolicy(settings?.divisionMovePolicy));
+
+      const base = baselineTeamsFor();
+      const merged: Record<Division, string[]> = {};
+      for (const d of new Set([...Object.keys(base), ...Object.keys(teams)])) {
+        merged[d] = Array.from(new Set([...(base[d] ?? []), ...(teams[d] ?? []).map((t) => t.name)]));
+      }
+      setRosters(merged);
       // keep a local cache too (optional)
       await AsyncStorage.setItem(STORAGE_KEY_DIVISION_MOVES, JSON.stringify(sorted));
-    } catch {
+    } catch (e: any) {
+      Alert.alert('Load failed', e?.message || 'Unknown error');
       setMoves([]);
     } finally {
       setMovesLoaded(true);
     }
   }, []);
 
-  // ✅ Upsert to Supabase (one row per team, you already have unique index)
+  // ✅ Upsert to Supabase (one row per team per week — saving the same week again replaces it)
   const saveMoveToSupabase = useCallback(
     async (nextMove: { team: string; fromDivision: Division; toDivision: Division; effectiveWeek: number }) => {
-      const payload = {
-        team: nextMove.team.trim(),
-        from_division: nextMove.fromDivision,
-        to_division: nextMove.toDivision,
-        effective_week: nextMove.effectiveWeek,
-      };
-
-      const res = await fetch(
-        supabaseRestUrl('/division_moves?on_conflict=team'),
-        {
-          method: 'POST',
-          headers: supabaseHeaders({
-            Prefer: 'return=representation,resolution=merge-duplicates',
-          }),
-          body: JSON.stringify(payload),
-        }
-      );
-
-      const json = await res.json().catch(() => null);
-
-      if (!res.ok) {
-        Alert.alert('Save failed', json?.message || 'Unknown error');
+      try {
+        await upsertDivisionMove(nextMove);
+        return true;
+      } catch (e: any) {
+        Alert.alert('Save failed', e?.message || 'Unknown error');
         return false;
       }
-
-      return true;
     },
     []
   );
 
-  // ✅ Guard screen + load data each time you open it
+  // ✅ Load data each time you open it (once the role guard allows)
   useFocusEffect(
     useCallback(() => {
-      (async () => {
-        const unlocked = await AsyncStorage.getItem(ADMIN_UNLOCK_KEY);
-        if (unlocked !== 'true') {
-          router.replace('/admin-lock');
-          return;
-        }
-        await loadMoves();
-      })();
-    }, [router, loadMoves])
+      if (allowed) void loadMoves();
+    }, [allowed, loadMoves])
   );
 
   const addMove = async () => {
@@ -211,17 +172,15 @@ export default function AdminDivisionMovesScreen() {
       Alert.alert('Invalid week', 'Effective week must be 1 or higher.');
       return;
     }
-    if (moveFrom === moveTo) {
-      Alert.alert('Invalid move', 'From Division and To Division must be different.');
+
+    const draft = { team, fromDivision: moveFrom, toDivision: moveTo, effectiveWeek: wk };
+    const problems = moveProblems(draft, moves, rosterDivision(team));
+    if (problems.length > 0) {
+      Alert.alert('Invalid move', problems.join('\n\n'));
       return;
     }
 
-    const ok = await saveMoveToSupabase({
-      team,
-      fromDivision: moveFrom,
-      toDivision: moveTo,
-      effectiveWeek: wk,
-    });
+    const ok = await saveMoveToSupabase(draft);
 
     if (!ok) return;
 
@@ -233,6 +192,17 @@ export default function AdminDivisionMovesScreen() {
     await loadMoves();
   };
 
+  const savePolicy = async (next: DivisionMovePolicy) => {
+    const prev = policy;
+    setPolicy(next);
+    try {
+      await upsertSeasonDivisionMovePolicy(getActiveSeasonId(), next);
+    } catch (e: any) {
+      setPolicy(prev);
+      Alert.alert('Save failed', e?.message || 'Unknown error');
+    }
+  };
+
   const deleteMove = async (id: string) => {
     const target = moves.find((m) => m.id === id);
     if (!target) return;
@@ -244,33 +214,66 @@ export default function AdminDivisionMovesScreen() {
     if (!ok) return;
 
     // ✅ DELETE FROM SUPABASE BY ID (this is the missing piece)
-    const res = await fetch(supabaseRestUrl(`/division_moves?id=eq.${id}`), {
-      method: 'DELETE',
-      headers: supabaseHeaders(),
-    });
-
-    Alert.alert('DELETE status', String(res.status));
-
-    if (!res.ok) {
-      const j = await res.json().catch(() => null);
-      Alert.alert('Delete failed', j?.message || 'Unknown error');
+    try {
+      await deleteDivisionMove(id);
+    } catch (e: any) {
+      Alert.alert('Delete failed', e?.message || 'Unknown error');
       return;
     }
 
     await loadMoves();
   };
 
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
   return (
     <ScrollView contentContainerStyle={{ padding: 24, paddingBottom: 40 }}>
       <Text style={{ fontSize: 24, fontWeight: 'bold', marginBottom: 12 }}>Division Moves</Text>
 
       <Text style={{ marginBottom: 16, color: '#444' }}>
-        Choose a team and save a division change. Standings & schedule builder will use Supabase.
+        Choose a team and save a division change. A team can move more than once; each move starts on its
+        effective week. Standings & schedule builder will use Supabase.
       </Text>
 
+      <Text style={{ fontWeight: '800', marginBottom: 6 }}>A moved team’s record</Text>
+      <View style={{ gap: 8, marginBottom: 16 }}>
+        {(Object.keys(DIVISION_MOVE_POLICY_LABELS) as DivisionMovePolicy[]).map((p) => {
+          const active = policy === p;
+          return (
+            <Pressable
+              key={p}
+              onPress={() => void savePolicy(p)}
+              style={{
+                alignSelf: 'flex-start',
+                paddingVertical: 8,
+                paddingHorizontal: 14,
+                borderRadius: 10,
+                borderWidth: 1,
+                borderColor: active ? '#111' : '#ccc',
+                backgroundColor: active ? '#111' : 'white',
+              }}
+            >
+              <Text style={{ fontWeight: '900', color: active ? 'white' : '#111' }}>{DIVISION_MOVE_POLICY_LABELS[p]}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
       <Text style={{ fontWeight: '800', marginBottom: 6 }}>Team</Text>
       <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
-        <Picker selectedValue={moveTeam} onValueChange={(v) => setMoveTeam(String(v))}>
+        <Picker
+          selectedValue={moveTeam}
+          onValueChange={(v) => {
+            setMoveTeam(String(v));
+            prefillFrom(String(v), moveWeek, moves);
+          }}
+        >
           <Picker.Item label="Select a team..." value="" />
           {allTeams.map((t) => (
             <Picker.Item key={t} label={t} value={t} />
@@ -281,25 +284,28 @@ export default function AdminDivisionMovesScreen() {
       <Text style={{ fontWeight: '800', marginBottom: 6 }}>From Division</Text>
       <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
         <Picker selectedValue={moveFrom} onValueChange={(v) => setMoveFrom(v as Division)}>
-          <Picker.Item label="Beginner" value="Beginner" />
-          <Picker.Item label="Intermediate" value="Intermediate" />
-          <Picker.Item label="Advanced" value="Advanced" />
+          {divisionOrder().map((d) => (
+            <Picker.Item key={d} label={d} value={d} />
+          ))}
         </Picker>
       </View>
 
       <Text style={{ fontWeight: '800', marginBottom: 6 }}>To Division</Text>
       <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
         <Picker selectedValue={moveTo} onValueChange={(v) => setMoveTo(v as Division)}>
-          <Picker.Item label="Beginner" value="Beginner" />
-          <Picker.Item label="Intermediate" value="Intermediate" />
-          <Picker.Item label="Advanced" value="Advanced" />
+          {divisionOrder().map((d) => (
+            <Picker.Item key={d} label={d} value={d} />
+          ))}
         </Picker>
       </View>
 
       <Text style={{ fontWeight: '800', marginBottom: 6 }}>Effective Week (starting week)</Text>
       <TextInput
         value={moveWeek}
-        onChangeText={setMoveWeek}
+        onChangeText={(v) => {
+          setMoveWeek(v);
+          prefillFrom(moveTeam, v, moves);
+        }}
         keyboardType="number-pad"
         placeholder="e.g. 5"
         style={{
@@ -325,6 +331,27 @@ export default function AdminDivisionMovesScreen() {
         <Text style={{ color: 'white', fontSize: 16, fontWeight: '800' }}>Save Division Move</Text>
       </Pressable>
 
+      {/* ✅ Where the selected team plays, week by week */}
+      {moveTeam ? (
+        <View style={{ borderWidth: 1, borderColor: '#e5e5e5', borderRadius: 12, padding: 10, marginBottom: 14 }}>
+          <Text style={{ fontWeight: '900', marginBottom: 6 }}>{moveTeam} — Division Timeline</Text>
+          {timeline.map((stint) => (
+            <View key={stint.fromWeek} style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 4 }}>
+              <View style={{ width: 10, height: 10, borderRadius: 5, backgroundColor: divisionColor(stint.division) }} />
+              <Text style={{ fontWeight: '800' }}>
+                {stint.toWeek == null
+                  ? `Week ${stint.fromWeek} on`
+                  : stint.toWeek === stint.fromWeek
+                    ? `Week ${stint.fromWeek}`
+                    : `Weeks ${stint.fromWeek}–${stint.toWeek}`}
+                : {stint.division}
+              </Text>
+              {stint.move ? <Text style={{ color: '#666' }}>(from {stint.move.fromDivision})</Text> : null}
+            </View>
+          ))}
+        </View>
+      ) : null}
+
       <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 8 }}>Saved Moves</Text>
 
       {!movesLoaded ? (
@@ -0,0 +1,244 @@
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, Switch, Text, TextInput, View } from 'react-native';
+
+import { DIVISION_COLORS, loadDivisions, saveDivisions } from '@/constants/divisions';
+import { getDivisions, type DivisionDef } from '@/constants/leagueData';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+function normalizeName(s: string) {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+export default function AdminDivisionsScreen() {
+  const allowed = useRoleGuard('league_admin');
+
+  const [list, setList] = useState<DivisionDef[]>(getDivisions());
+  // Names already in Supabase — teams, matches and standings store the name, so it can't change
+  const [savedNames, setSavedNames] = useState<Set<string>>(new Set(getDivisions().map((d) => d.name)));
+  const [newName, setNewName] = useState('');
+
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const next = await loadDivisions(true);
+      setList(next);
+      setSavedNames(new Set(next.map((d) => d.name)));
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load divisions from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // ✅ Load divisions each time you open it (once the role guard allows)
+  useFocusEffect(
+    useCallback(() => {
+      if (!allowed) return;
+      setStatusMsg('');
+      void load();
+    }, [allowed, load])
+  );
+
+  const update = (idx: number, patch: Partial<DivisionDef>) => {
+    setList(list.map((d, i) => (i === idx ? { ...d, ...patch } : d)));
+    setStatusMsg('');
+    setErrorMsg('');
+  };
+
+  const move = (idx: number, delta: number) => {
+    const target = idx + delta;
+    if (target < 0 || target >= list.length) return;
+    const next = [...list];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    setList(next);
+    setStatusMsg('');
+  };
+
+  const onAdd = () => {
+    setStatusMsg('');
+    setErrorMsg('');
+    const name = normalizeName(newName);
+    if (!name) {
+      setErrorMsg('Enter a division name.');
+      return;
+    }
+    if (list.some((d) => d.name.toLowerCase() === name.toLowerCase())) {
+      setErrorMsg(`${name} already exists.`);
+      return;
+    }
+    const color = DIVISION_COLORS.find((c) => !list.some((d) => d.color === c)) ?? DIVISION_COLORS[0];
+    setList([...list, { name, sortOrder: list.length + 1, color, skillBand: null, active: true }]);
+    setNewName('');
+  };
+
+  // Only divisions that were never saved can be dropped (saved ones are deactivated instead)
+  const onRemoveUnsaved = (idx: number) => {
+    setList(list.filter((_, i) => i !== idx));
+    setStatusMsg('');
+  };
+
+  const onSave = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+    if (!list.some((d) => d.active)) {
+      setErrorMsg('Keep at least one division active.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const saved = await saveDivisions(
+        list.map((d) => ({ ...d, skillBand: normalizeName(d.skillBand ?? '') || null }))
+      );
+      setList(saved);
+      setSavedNames(new Set(saved.map((d) => d.name)));
+      setStatusMsg('✅ Saved. Every screen now lists these divisions in this order.');
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save divisions to Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const smallBtn = {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: 'white',
+  };
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — Divisions</Text>
+
+      <Text style={{ color: '#444', marginBottom: 16 }}>
+        The schedule builder, attendance, standings, results and team pickers list these divisions top to bottom.
+        Turning a division off hides it from new schedules and teams; its past matches and standings stay visible.
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <View style={{ gap: 10, marginBottom: 16 }}>
+        {list.map((d, idx) => {
+          const saved = savedNames.has(d.name);
+          return (
+            <View
+              key={d.name}
+              style={{
+                gap: 10,
+                borderWidth: 1,
+                borderColor: '#ddd',
+                borderLeftWidth: 6,
+                borderLeftColor: d.color,
+                borderRadius: 12,
+                padding: 12,
+                backgroundColor: d.active ? 'white' : '#f6f6f6',
+              }}
+            >
+              <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                <Text style={{ width: 28, fontWeight: '900' }}>{idx + 1}.</Text>
+                <Text style={{ flex: 1, fontWeight: '900', fontSize: 16, color: d.color }}>
+                  {d.name}
+                  {saved ? '' : ' (new)'}
+                </Text>
+                <Pressable onPress={() => move(idx, -1)} style={[smallBtn, { opacity: idx === 0 ? 0.4 : 1 }]}>
+                  <Text style={{ fontWeight: '900' }}>▲</Text>
+                </Pressable>
+                <Pressable
+                  onPress={() => move(idx, 1)}
+                  style={[smallBtn, { opacity: idx === list.length - 1 ? 0.4 : 1 }]}
+                >
+                  <Text style={{ fontWeight: '900' }}>▼</Text>
+                </Pressable>
+                {saved ? null : (
+                  <Pressable onPress={() => onRemoveUnsaved(idx)} style={smallBtn}>
+                    <Text style={{ fontWeight: '900', color: '#c62828' }}>Remove</Text>
+                  </Pressable>
+                )}
+              </View>
+
+              <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+                {DIVISION_COLORS.map((c) => (
+                  <Pressable
+                    key={c}
+                    onPress={() => update(idx, { color: c })}
+                    style={{
+                      width: 28,
+                      height: 28,
+                      borderRadius: 14,
+                      backgroundColor: c,
+                      borderWidth: 3,
+                      borderColor: d.color === c ? '#111' : 'white',
+                    }}
+                  />
+                ))}
+              </View>
+
+              <TextInput
+                value={d.skillBand ?? ''}
+                onChangeText={(v) => update(idx, { skillBand: v })}
+                placeholder="Skill band (e.g. 4.0+)"
+                style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 10 }}
+              />
+
+              <View style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}>
+                <Switch value={d.active} onValueChange={(v) => update(idx, { active: v })} />
+                <Text style={{ fontWeight: '800', color: d.active ? '#111' : '#777' }}>
+                  {d.active ? 'Active' : 'Inactive (kept for past seasons)'}
+                </Text>
+              </View>
+            </View>
+          );
+        })}
+      </View>
+
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 10 }}>Add a division</Text>
+      <View style={{ flexDirection: 'row', gap: 8, marginBottom: 6 }}>
+        <TextInput
+          value={newName}
+          onChangeText={setNewName}
+          placeholder="Division name"
+          style={{ flex: 1, borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 10 }}
+        />
+        <Pressable onPress={onAdd} style={[smallBtn, { justifyContent: 'center' }]}>
+          <Text style={{ fontWeight: '900' }}>+ Add</Text>
+        </Pressable>
+      </View>
+      <Text style={{ color: '#666', marginBottom: 16 }}>
+        A division&apos;s name can&apos;t be changed once saved — teams and matches are filed under it.
+      </Text>
+
+      <Pressable
+        onPress={onSave}
+        disabled={loading}
+        style={{
+          backgroundColor: 'black',
+          padding: 14,
+          borderRadius: 10,
+          alignItems: 'center',
+          opacity: loading ? 0.6 : 1,
+        }}
+      >
+        <Text style={{ color: 'white', fontSize: 16, fontWeight: '900' }}>Save</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
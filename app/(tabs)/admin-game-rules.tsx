@@ -0,0 +1,243 @@
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import {
+  DEFAULT_GAME_RULES,
+  POINTS_TO_OPTIONS,
+  SCORING_LABELS,
+  describeGameRules,
+  normalizeGameRules,
+  validateGame,
+  type GameRules,
+  type ScoringSystem,
+} from '@/constants/gameRules';
+import {
+  fetchSeasonSettings,
+  getActiveSeasonId,
+  upsertSeasonGameRules,
+  upsertSeasonSubRule,
+} from '@/constants/leagueData';
+import { DEFAULT_SUB_RULE, SUB_RULE_LABELS, normalizeSubRule, type SubRule } from '@/constants/substitutes';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+export default function AdminGameRulesScreen() {
+  const allowed = useRoleGuard('league_admin');
+
+  const [rules, setRules] = useState<GameRules>(DEFAULT_GAME_RULES);
+  const [capText, setCapText] = useState('');
+  const [subRule, setSubRule] = useState<SubRule>(DEFAULT_SUB_RULE);
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const settings = await fetchSeasonSettings(getActiveSeasonId());
+      const next = normalizeGameRules(settings?.gameRules);
+      setRules(next);
+      setCapText(next.cap != null ? String(next.cap) : '');
+      setSubRule(normalizeSubRule(settings?.subRule));
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load season settings from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // ✅ Load settings each time you open it (once the role guard allows)
+  useFocusEffect(
+    useCallback(() => {
+      if (!allowed) return;
+      setStatusMsg('');
+      void load();
+    }, [allowed, load])
+  );
+
+  const update = (patch: Partial<GameRules>) => {
+    setRules((prev) => ({ ...prev, ...patch }));
+    setStatusMsg('');
+    setErrorMsg('');
+  };
+
+  const onSave = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const capDigits = capText.replace(/[^\d]/g, '');
+    const cap = capDigits === '' ? null : parseInt(capDigits, 10);
+    if (cap != null && (cap < rules.pointsTo || cap > 99)) {
+      setErrorMsg(`The cap must be between ${rules.pointsTo} and 99 (or blank for no cap).`);
+      return;
+    }
+
+    const next: GameRules = { ...rules, cap };
+
+    setLoading(true);
+    try {
+      await upsertSeasonGameRules(getActiveSeasonId(), next);
+      await upsertSeasonSubRule(getActiveSeasonId(), subRule);
+      setRules(next);
+      setStatusMsg('✅ Saved. Scores are checked against these rules from now on, and standings use the sub rule.');
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save season settings to Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const chip = (active: boolean) => ({
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: active ? '#111' : '#ccc',
+    backgroundColor: active ? '#111' : 'white',
+  });
+
+  const chipText = (active: boolean) => ({ fontWeight: '900' as const, color: active ? 'white' : '#111' });
+
+  // A few sample results so the admin can see what the rules accept
+  const previewCap = parseInt(capText, 10);
+  const previewRules: GameRules = { ...rules, cap: Number.isFinite(previewCap) ? previewCap : null };
+  const samples: [number, number][] = [
+    [rules.pointsTo, rules.pointsTo - 2],
+    [rules.pointsTo, rules.pointsTo - 1],
+    [rules.pointsTo + 2, rules.pointsTo],
+    [rules.pointsTo + 3, rules.pointsTo],
+  ];
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — Game Rules</Text>
+
+      <Text style={{ color: '#444', marginBottom: 16 }}>
+        Every entered game is checked against these rules ({getActiveSeasonId()}). Teams can’t save impossible results
+        (ties, 11–10, games that should have ended sooner); admins can still save them as an override.
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Games to</Text>
+      <View style={{ flexDirection: 'row', gap: 8, marginBottom: 14 }}>
+        {POINTS_TO_OPTIONS.map((n) => (
+          <Pressable key={n} onPress={() => update({ pointsTo: n })} style={chip(rules.pointsTo === n)}>
+            <Text style={chipText(rules.pointsTo === n)}>{n}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Win by</Text>
+      <View style={{ flexDirection: 'row', gap: 8, marginBottom: 14 }}>
+        {[2, 1].map((n) => (
+          <Pressable key={n} onPress={() => update({ winBy: n })} style={chip(rules.winBy === n)}>
+            <Text style={chipText(rules.winBy === n)}>{n}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Cap (optional)</Text>
+      <TextInput
+        value={capText}
+        onChangeText={(t) => {
+          setCapText(t.replace(/[^\d]/g, '').slice(0, 2));
+          setStatusMsg('');
+        }}
+        keyboardType="number-pad"
+        inputMode="numeric"
+        placeholder="No cap"
+        style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12, marginBottom: 4, fontSize: 16, maxWidth: 160 }}
+      />
+      <Text style={{ color: '#666', marginBottom: 14 }}>The first team to reach the cap wins, even by one point.</Text>
+
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Scoring</Text>
+      <View style={{ gap: 8, marginBottom: 16 }}>
+        {(Object.keys(SCORING_LABELS) as ScoringSystem[]).map((s) => (
+          <Pressable
+            key={s}
+            onPress={() => update({ scoring: s })}
+            style={[chip(rules.scoring === s), { borderRadius: 10, alignSelf: 'flex-start' }]}
+          >
+            <Text style={chipText(rules.scoring === s)}>{SCORING_LABELS[s]}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Matches played with a substitute</Text>
+      <View style={{ gap: 8, marginBottom: 16 }}>
+        {(Object.keys(SUB_RULE_LABELS) as SubRule[]).map((r) => (
+          <Pressable
+            key={r}
+            onPress={() => {
+              setSubRule(r);
+              setStatusMsg('');
+            }}
+            style={[chip(subRule === r), { borderRadius: 10, alignSelf: 'flex-start' }]}
+          >
+            <Text style={chipText(subRule === r)}>{SUB_RULE_LABELS[r]}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <View style={{ borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, backgroundColor: 'white', marginBottom: 16 }}>
+        <Text style={{ fontWeight: '900', marginBottom: 6 }}>{describeGameRules(previewRules)}</Text>
+        {samples.map(([a, b]) => {
+          const err = validateGame(String(a), String(b), previewRules);
+          return (
+            <Text key={`${a}-${b}`} style={{ color: err ? '#b00020' : 'green', fontWeight: '700' }}>
+              {a}–{b}: {err ?? 'OK'}
+            </Text>
+          );
+        })}
+      </View>
+
+      <View style={{ flexDirection: 'row', gap: 10 }}>
+        <Pressable
+          onPress={onSave}
+          disabled={loading}
+          style={{
+            backgroundColor: 'black',
+            padding: 14,
+            borderRadius: 10,
+            alignItems: 'center',
+            flex: 1,
+            opacity: loading ? 0.6 : 1,
+          }}
+        >
+          <Text style={{ color: 'white', fontSize: 16, fontWeight: '900' }}>Save</Text>
+        </Pressable>
+
+        <Pressable
+          onPress={() => {
+            setRules({ ...DEFAULT_GAME_RULES });
+            setCapText('');
+            setSubRule(DEFAULT_SUB_RULE);
+            setStatusMsg('');
+          }}
+          style={{
+            borderWidth: 1,
+            borderColor: '#ccc',
+            padding: 14,
+            borderRadius: 10,
+            alignItems: 'center',
+            flex: 1,
+          }}
+        >
+          <Text style={{ fontSize: 16, fontWeight: '900' }}>Reset to League Default</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
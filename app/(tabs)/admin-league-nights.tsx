@@ -0,0 +1,527 @@
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, Switch, Text, TextInput, View } from 'react-native';
+
+import { parseMatchTime } from '@/constants/leagueCalendar';
+import {
+  deleteLeagueNight,
+  deleteSlotTemplate,
+  getActiveSeasonId,
+  upsertLeagueNight,
+  upsertSeasonNightDefaults,
+  upsertSlotTemplate,
+  upsertVenue,
+  type SlotTemplate,
+  type Venue,
+} from '@/constants/leagueData';
+import {
+  DEFAULT_LEAGUE_NIGHT_CONFIG,
+  DEFAULT_SLOT_TEMPLATE,
+  DEFAULT_VENUE,
+  fetchLeagueNightConfig,
+  resolveLeagueNight,
+  slotTimes,
+  venueCourts,
+  type LeagueNightConfig,
+} from '@/constants/leagueNights';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+function safeInt(value: string, fallback: number) {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function uid() {
+  return `${Date.now()}_${Math.random().toString(16).slice(2)}`;
+}
+
+function normalizeName(s: string) {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+// "5:30pm" → "5:30 PM"; null when it isn't a time
+function normalizeStartTime(s: string) {
+  const m = /^(\d{1,2}):(\d{2})\s*([ap])\.?\s*m\.?$/i.exec((s ?? '').trim());
+  const time = m ? `${Number(m[1])}:${m[2]} ${m[3].toUpperCase()}M` : '';
+  return parseMatchTime(time) ? time : null;
+}
+
+function slotRange(t: SlotTemplate) {
+  const times = slotTimes(t);
+  return times.length > 0 ? `${times[0]} – ${times[times.length - 1]} (${times.length} slots)` : 'no slots';
+}
+
+export default function AdminLeagueNightsScreen() {
+  const allowed = useRoleGuard('league_admin');
+
+  const [config, setConfig] = useState<LeagueNightConfig>(DEFAULT_LEAGUE_NIGHT_CONFIG);
+  // Venue being edited (court names / count / active), saved as a whole
+  const [editingVenue, setEditingVenue] = useState<Venue | null>(null);
+
+  const [newVenueName, setNewVenueName] = useState('');
+  const [newVenueCourts, setNewVenueCourts] = useState('8');
+
+  const [newTemplateName, setNewTemplateName] = useState('');
+  const [newTemplateStart, setNewTemplateStart] = useState('5:30 PM');
+  const [newTemplateStep, setNewTemplateStep] = useState('15');
+  const [newTemplateCount, setNewTemplateCount] = useState('16');
+
+  // Week exception form (null venue / template = season default)
+  const [nightWeek, setNightWeek] = useState('');
+  const [nightVenueId, setNightVenueId] = useState<string | null>(null);
+  const [nightTemplateId, setNightTemplateId] = useState<string | null>(null);
+  const [nightClosed, setNightClosed] = useState<Set<number>>(new Set());
+  const [nightNote, setNightNote] = useState('');
+
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      setConfig(await fetchLeagueNightConfig());
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load league nights from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // ✅ Load config each time you open it (once the role guard allows)
+  useFocusEffect(
+    useCallback(() => {
+      if (!allowed) return;
+      setStatusMsg('');
+      void load();
+    }, [allowed, load])
+  );
+
+  // Wraps a write: status / error lines + reload
+  const run = async (action: () => Promise<void>, success: string) => {
+    setStatusMsg('');
+    setErrorMsg('');
+    setLoading(true);
+    try {
+      await action();
+      setConfig(await fetchLeagueNightConfig());
+      setStatusMsg(success);
+    } catch (e: any) {
+      setErrorMsg(e?.message || String(e));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // =============================
+  // Venues
+  // =============================
+  const onAddVenue = async () => {
+    const name = normalizeName(newVenueName);
+    const count = safeInt(newVenueCourts, 0);
+    if (!name) {
+      setErrorMsg('Enter a venue name.');
+      return;
+    }
+    if (count <= 0 || count > 40) {
+      setErrorMsg('Courts must be between 1 and 40.');
+      return;
+    }
+    await run(async () => {
+      await upsertVenue({ id: uid(), name, courts: venueCourts(count), active: true });
+      setNewVenueName('');
+    }, `✅ Added ${name}.`);
+  };
+
+  const onSaveVenue = async () => {
+    if (!editingVenue) return;
+    const venue: Venue = {
+      ...editingVenue,
+      name: normalizeName(editingVenue.name),
+      courts: editingVenue.courts.map((c) => ({ ...c, name: normalizeName(c.name) || `Court ${c.number}` })),
+    };
+    if (!venue.name) {
+      setErrorMsg('Enter a venue name.');
+      return;
+    }
+    await run(async () => {
+      await upsertVenue(venue);
+      setEditingVenue(null);
+    }, `✅ Saved ${venue.name}.`);
+  };
+
+  const setEditingCourtCount = (count: number) => {
+    if (!editingVenue || count < 1 || count > 40) return;
+    const courts = venueCourts(count).map((c) => editingVenue.courts.find((x) => x.number === c.number) ?? c);
+    setEditingVenue({ ...editingVenue, courts });
+  };
+
+  // =============================
+  // Slot templates
+  // =============================
+  const onAddTemplate = async () => {
+    const name = normalizeName(newTemplateName);
+    const startTime = normalizeStartTime(newTemplateStart);
+    const stepMinutes = safeInt(newTemplateStep, 0);
+    const slotCount = safeInt(newTemplateCount, 0);
+    if (!name) {
+      setErrorMsg('Enter a name for the time slots (e.g. "Early start").');
+      return;
+    }
+    if (!startTime) {
+      setErrorMsg('Start time must look like 5:30 PM.');
+      return;
+    }
+    if (stepMinutes < 5 || stepMinutes > 120 || slotCount < 1 || slotCount > 48) {
+      setErrorMsg('Minutes between slots must be 5–120 and the number of slots 1–48.');
+      return;
+    }
+    await run(async () => {
+      await upsertSlotTemplate({ id: uid(), name, startTime, stepMinutes, slotCount });
+      setNewTemplateName('');
+    }, `✅ Added ${name}.`);
+  };
+
+  const onDeleteTemplate = async (t: SlotTemplate) => {
+    await run(() => deleteSlotTemplate(t.id), `✅ Removed ${t.name}. Weeks that used it fall back to the season default.`);
+  };
+
+  // =============================
+  // Season defaults + week exceptions
+  // =============================
+  const onSetDefaults = async (venueId: string | null, templateId: string | null) => {
+    await run(
+      () => upsertSeasonNightDefaults(getActiveSeasonId(), venueId, templateId),
+      '✅ Season default updated.'
+    );
+  };
+
+  const nightWeekNum = safeInt(nightWeek, 0);
+
+  // The form's venue (courts to close) resolves like a real week would
+  const formVenue = useMemo(() => {
+    const preview = resolveLeagueNight({ ...config, overrides: [] }, Math.max(1, nightWeekNum));
+    return config.venues.find((v) => v.id === nightVenueId) ?? preview.venue;
+  }, [config, nightVenueId, nightWeekNum]);
+
+  const startWeekEdit = (week: number) => {
+    const o = config.overrides.find((x) => x.week === week);
+    setNightWeek(String(week));
+    setNightVenueId(o?.venueId ?? null);
+    setNightTemplateId(o?.slotTemplateId ?? null);
+    setNightClosed(new Set(o?.closedCourts ?? []));
+    setNightNote(o?.note ?? '');
+    setStatusMsg('');
+    setErrorMsg('');
+  };
+
+  // Typing a week that already has an exception loads it into the form
+  const onWeekChange = (v: string) => {
+    const week = safeInt(v, 0);
+    if (config.overrides.some((o) => o.week === week)) startWeekEdit(week);
+    else setNightWeek(v);
+  };
+
+  const toggleClosed = (court: number) => {
+    const next = new Set(nightClosed);
+    if (next.has(court)) next.delete(court);
+    else next.add(court);
+    setNightClosed(next);
+  };
+
+  const onSaveWeek = async () => {
+    if (nightWeekNum <= 0) {
+      setErrorMsg('Enter a week number first.');
+      return;
+    }
+    const closedCourts = Array.from(nightClosed)
+      .filter((n) => formVenue.courts.some((c) => c.number === n))
+      .sort((a, b) => a - b);
+    if (closedCourts.length >= formVenue.courts.length) {
+      setErrorMsg('Leave at least one court open (or skip the week in the Season Planner).');
+      return;
+    }
+    await run(
+      () =>
+        upsertLeagueNight({
+          week: nightWeekNum,
+          venueId: nightVenueId,
+          slotTemplateId: nightTemplateId,
+          closedCourts,
+          note: normalizeName(nightNote) || null,
+        }),
+      `✅ Saved Week ${nightWeekNum}. Check the Schedule Builder for matches that no longer fit.`
+    );
+  };
+
+  const onRemoveWeek = async (id: string, week: number) => {
+    await run(() => deleteLeagueNight(id), `✅ Week ${week} is back to the season default.`);
+  };
+
+  const defaultVenue = config.venues.find((v) => v.id === config.defaultVenueId) ?? null;
+  const defaultTemplate = config.templates.find((t) => t.id === config.defaultSlotTemplateId) ?? null;
+  const activeVenues = config.venues.filter((v) => v.active);
+
+  const inputStyle = { borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 10 };
+  const cardStyle = { borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, marginBottom: 10 };
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={{
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        borderRadius: 999,
+        borderWidth: 1,
+        borderColor: active ? '#111' : '#ccc',
+        backgroundColor: active ? '#111' : 'white',
+      }}
+    >
+      <Text style={{ fontWeight: '800', color: active ? 'white' : '#111' }}>{label}</Text>
+    </Pressable>
+  );
+
+  const button = (label: string, onPress: () => void, dark = true) => (
+    <Pressable
+      onPress={onPress}
+      disabled={loading}
+      style={{
+        backgroundColor: dark ? 'black' : 'white',
+        borderWidth: 1,
+        borderColor: dark ? 'black' : '#ccc',
+        paddingVertical: 10,
+        paddingHorizontal: 14,
+        borderRadius: 10,
+        alignItems: 'center',
+        opacity: loading ? 0.6 : 1,
+      }}
+    >
+      <Text style={{ color: dark ? 'white' : '#111', fontWeight: '900' }}>{label}</Text>
+    </Pressable>
+  );
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — League Nights</Text>
+
+      <Text style={{ color: '#444', marginBottom: 16 }}>
+        Where matches are played and when they start. The Schedule Builder, Season Planner, CSV import and print
+        sheets use each week&apos;s venue, open courts and time slots ({getActiveSeasonId()}).
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      {/* ✅ Season default */}
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 6 }}>Every week this season</Text>
+      <Text style={{ color: '#666', marginBottom: 8 }}>
+        {(defaultVenue ?? DEFAULT_VENUE).name} • {slotRange(defaultTemplate ?? DEFAULT_SLOT_TEMPLATE)}
+      </Text>
+      <Text style={{ fontWeight: '800', marginBottom: 6 }}>Venue</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 10 }}>
+        {chip(`${DEFAULT_VENUE.name} (8 courts)`, !defaultVenue, () =>
+          void onSetDefaults(null, config.defaultSlotTemplateId)
+        )}
+        {activeVenues.map((v) =>
+          chip(v.name, defaultVenue?.id === v.id, () => void onSetDefaults(v.id, config.defaultSlotTemplateId))
+        )}
+      </View>
+      <Text style={{ fontWeight: '800', marginBottom: 6 }}>Time slots</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 18 }}>
+        {chip(DEFAULT_SLOT_TEMPLATE.name, !defaultTemplate, () => void onSetDefaults(config.defaultVenueId, null))}
+        {config.templates.map((t) =>
+          chip(t.name, defaultTemplate?.id === t.id, () => void onSetDefaults(config.defaultVenueId, t.id))
+        )}
+      </View>
+
+      {/* ✅ Week exceptions */}
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 6 }}>Week exceptions</Text>
+      <Text style={{ color: '#666', marginBottom: 8 }}>
+        A different venue or start time for one week, or courts closed for resurfacing / events.
+      </Text>
+
+      {config.overrides.map((o) => {
+        const n = resolveLeagueNight(config, o.week);
+        return (
+          <View key={o.id} style={cardStyle}>
+            <Text style={{ fontWeight: '900' }}>
+              Week {o.week}: {n.venue.name} • {n.times[0] ?? '?'} – {n.times[n.times.length - 1] ?? '?'}
+            </Text>
+            {n.closedCourts.length > 0 ? (
+              <Text style={{ color: '#b26a00' }}>Closed: {n.closedCourts.map((c) => c.name).join(', ')}</Text>
+            ) : null}
+            {n.note ? <Text style={{ color: '#444' }}>{n.note}</Text> : null}
+            <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
+              {button('Edit', () => startWeekEdit(o.week), false)}
+              {button('Remove', () => void onRemoveWeek(o.id, o.week), false)}
+            </View>
+          </View>
+        );
+      })}
+
+      <View style={[cardStyle, { gap: 10, marginBottom: 18 }]}>
+        <Text style={{ fontWeight: '800' }}>Week</Text>
+        <TextInput
+          value={nightWeek}
+          onChangeText={onWeekChange}
+          keyboardType="number-pad"
+          placeholder="e.g. 6"
+          style={[inputStyle, { maxWidth: 120 }]}
+        />
+
+        <Text style={{ fontWeight: '800' }}>Venue</Text>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+          {chip('Season default', nightVenueId === null, () => {
+            setNightVenueId(null);
+            setNightClosed(new Set());
+          })}
+          {activeVenues.map((v) =>
+            chip(v.name, nightVenueId === v.id, () => {
+              setNightVenueId(v.id);
+              setNightClosed(new Set());
+            })
+          )}
+        </View>
+
+        <Text style={{ fontWeight: '800' }}>Time slots</Text>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+          {chip('Season default', nightTemplateId === null, () => setNightTemplateId(null))}
+          {config.templates.map((t) => chip(t.name, nightTemplateId === t.id, () => setNightTemplateId(t.id)))}
+        </View>
+
+        <Text style={{ fontWeight: '800' }}>Courts closed at {formVenue.name}</Text>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+          {formVenue.courts.map((c) =>
+            chip(`${nightClosed.has(c.number) ? '⛔' : '✅'} ${c.name}`, nightClosed.has(c.number), () =>
+              toggleClosed(c.number)
+            )
+          )}
+        </View>
+
+        <TextInput
+          value={nightNote}
+          onChangeText={setNightNote}
+          placeholder="Note (e.g. Courts 7–8 closed for a tournament)"
+          style={inputStyle}
+        />
+
+        {button(nightWeekNum > 0 ? `Save Week ${nightWeekNum}` : 'Save Week', () => void onSaveWeek())}
+      </View>
+
+      {/* ✅ Venues */}
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 6 }}>Venues</Text>
+      {config.venues.map((v) =>
+        editingVenue?.id === v.id ? (
+          <View key={v.id} style={[cardStyle, { gap: 8 }]}>
+            <TextInput
+              value={editingVenue.name}
+              onChangeText={(name) => setEditingVenue({ ...editingVenue, name })}
+              style={inputStyle}
+            />
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+              {button('− Court', () => setEditingCourtCount(editingVenue.courts.length - 1), false)}
+              <Text style={{ fontWeight: '900' }}>{editingVenue.courts.length} court(s)</Text>
+              {button('+ Court', () => setEditingCourtCount(editingVenue.courts.length + 1), false)}
+            </View>
+            {editingVenue.courts.map((c) => (
+              <View key={c.number} style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+                <Text style={{ width: 28, fontWeight: '900' }}>{c.number}.</Text>
+                <TextInput
+                  value={c.name}
+                  onChangeText={(name) =>
+                    setEditingVenue({
+                      ...editingVenue,
+                      courts: editingVenue.courts.map((x) => (x.number === c.number ? { ...x, name } : x)),
+                    })
+                  }
+                  style={[inputStyle, { flex: 1 }]}
+                />
+              </View>
+            ))}
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}>
+              <Switch
+                value={editingVenue.active}
+                onValueChange={(active) => setEditingVenue({ ...editingVenue, active })}
+              />
+              <Text style={{ fontWeight: '800' }}>{editingVenue.active ? 'Active' : 'Inactive (kept for past seasons)'}</Text>
+            </View>
+            <View style={{ flexDirection: 'row', gap: 8 }}>
+              {button('Save Venue', () => void onSaveVenue())}
+              {button('Cancel', () => setEditingVenue(null), false)}
+            </View>
+          </View>
+        ) : (
+          <View key={v.id} style={[cardStyle, { opacity: v.active ? 1 : 0.6 }]}>
+            <Text style={{ fontWeight: '900' }}>
+              {v.name}
+              {v.active ? '' : ' (inactive)'}
+            </Text>
+            <Text style={{ color: '#444', marginBottom: 8 }}>{v.courts.map((c) => c.name).join(', ')}</Text>
+            {button('Edit', () => setEditingVenue({ ...v, courts: v.courts.map((c) => ({ ...c })) }), false)}
+          </View>
+        )
+      )}
+      <View style={{ flexDirection: 'row', gap: 8, marginBottom: 18 }}>
+        <TextInput
+          value={newVenueName}
+          onChangeText={setNewVenueName}
+          placeholder="Venue name"
+          style={[inputStyle, { flex: 2 }]}
+        />
+        <TextInput
+          value={newVenueCourts}
+          onChangeText={setNewVenueCourts}
+          keyboardType="number-pad"
+          placeholder="Courts"
+          style={[inputStyle, { flex: 1 }]}
+        />
+        {button('+ Add', () => void onAddVenue(), false)}
+      </View>
+
+      {/* ✅ Slot templates */}
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 6 }}>Time slots</Text>
+      <View style={cardStyle}>
+        <Text style={{ fontWeight: '900' }}>{DEFAULT_SLOT_TEMPLATE.name} (built in)</Text>
+        <Text style={{ color: '#444' }}>{slotRange(DEFAULT_SLOT_TEMPLATE)}</Text>
+      </View>
+      {config.templates.map((t) => (
+        <View key={t.id} style={cardStyle}>
+          <Text style={{ fontWeight: '900' }}>{t.name}</Text>
+          <Text style={{ color: '#444', marginBottom: 8 }}>
+            {slotRange(t)} • every {t.stepMinutes} min
+          </Text>
+          {button('Remove', () => void onDeleteTemplate(t), false)}
+        </View>
+      ))}
+      <View style={[cardStyle, { gap: 8 }]}>
+        <TextInput value={newTemplateName} onChangeText={setNewTemplateName} placeholder="Name (e.g. Early start)" style={inputStyle} />
+        <View style={{ flexDirection: 'row', gap: 8 }}>
+          <View style={{ flex: 1 }}>
+            <Text style={{ fontWeight: '800', marginBottom: 4 }}>First slot</Text>
+            <TextInput value={newTemplateStart} onChangeText={setNewTemplateStart} style={inputStyle} />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Text style={{ fontWeight: '800', marginBottom: 4 }}>Minutes apart</Text>
+            <TextInput value={newTemplateStep} onChangeText={setNewTemplateStep} keyboardType="number-pad" style={inputStyle} />
+          </View>
+          <View style={{ flex: 1 }}>
+            <Text style={{ fontWeight: '800', marginBottom: 4 }}>Slots</Text>
+            <TextInput value={newTemplateCount} onChangeText={setNewTemplateCount} keyboardType="number-pad" style={inputStyle} />
+          </View>
+        </View>
+        {button('+ Add Time Slots', () => void onAddTemplate())}
+      </View>
+    </ScrollView>
+  );
+}
@@ -1,89 +1,102 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect, useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
-import { Alert, Pressable, Text, TextInput, View } from 'react-native';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Pressable, Text, View } from 'react-native';
 
-const ADMIN_UNLOCK_KEY = 'ppl_admin_unlocked';
-const ADMIN_PASSCODE = '2468'; // change this to whatever you want
+import { EmailSignIn } from '@/components/email-sign-in';
+import { currentUserHasRole, getAuthState, hasRole, refreshRoles, signOut, type AuthState } from '@/constants/auth';
 
 export default function AdminLockScreen() {
   const router = useRouter();
-  const [code, setCode] = useState('');
+  const [checking, setChecking] = useState(true);
+  const [auth, setAuth] = useState<AuthState>({ session: null, roles: [] });
 
-  useEffect(() => {
-    (async () => {
-      const unlocked = await AsyncStorage.getItem(ADMIN_UNLOCK_KEY);
-      if (unlocked === 'true') {
-        router.replace('/admin');
+  // Cached roles say league admin, but user_roles couldn't be reached to confirm it
+  const [unconfirmed, setUnconfirmed] = useState(false);
+
+  const route = useCallback(
+    async (state: AuthState) => {
+      setAuth(state);
+      setUnconfirmed(false);
+      if (!state.session || !hasRole(state.roles, 'league_admin')) return;
+
+      // Only roles just read from the server open the admin tools
+      if (await currentUserHasRole('league_admin')) router.replace('/admin');
+      else {
+        const latest = await getAuthState();
+        setAuth(latest);
+        setUnconfirmed(hasRole(latest.roles, 'league_admin'));
       }
-    })();
-  }, [router]);
+    },
+    [router]
+  );
 
-  // ✅ Every time this screen is shown, clear the passcode field
+  // ✅ Every time this screen is shown, re-check the signed-in user's roles (server-side)
   useFocusEffect(
     useCallback(() => {
-      setCode('');
-      return () => {
-        setCode('');
-      };
-    }, [])
+      (async () => {
+        setChecking(true);
+        try {
+          const state = await getAuthState();
+          await route(state.session ? await refreshRoles() : state);
+        } finally {
+          setChecking(false);
+        }
+      })();
+    }, [route])
   );
 
-  const onUnlock = async () => {
-    const entered = code.trim();
+  const onSignOut = async () => {
+    await signOut();
+    setAuth({ session: null, roles: [] });
+  };
 
-    if (entered !== ADMIN_PASSCODE) {
-      Alert.alert('Wrong code', 'Try again.');
-      return;
-    }
+  if (checking) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
 
-    await AsyncStorage.setItem(ADMIN_UNLOCK_KEY, 'true');
-    setCode(''); // ✅ clear immediately after success
-    router.replace('/admin');
-  };
+  // Signed in, but not a league admin
+  if (auth.session) {
+    return (
+      <View style={{ flex: 1, padding: 24, justifyContent: 'center' }}>
+        <Text style={{ fontSize: 26, fontWeight: '800', marginBottom: 12 }}>Admin Access</Text>
 
-  return (
-    <View style={{ flex: 1, padding: 24, justifyContent: 'center' }}>
-      <Text style={{ fontSize: 26, fontWeight: '800', marginBottom: 12 }}>
-        Admin Access
-      </Text>
+        <Text style={{ marginBottom: 8 }}>
+          Signed in as <Text style={{ fontWeight: '800' }}>{auth.session.email}</Text>
+        </Text>
+        <Text style={{ marginBottom: 16, color: '#444' }}>
+          {unconfirmed
+            ? "Couldn't confirm your league admin role with the server. Check your connection and open Admin again."
+            : auth.roles.length > 0
+            ? `Your roles: ${auth.roles.map((r) => r.role.replace('_', ' ')).join(', ')}. Admin tools need the league admin role.`
+            : 'This account has no league roles yet. Ask the league admin to add your email.'}
+        </Text>
 
-      <Text style={{ marginBottom: 16 }}>Enter passcode to continue.</Text>
+        <Pressable
+          onPress={onSignOut}
+          style={{
+            backgroundColor: 'black',
+            padding: 14,
+            borderRadius: 10,
+            alignItems: 'center',
+          }}
+        >
+          <Text style={{ color: 'white', fontSize: 18, fontWeight: '700' }}>Sign Out</Text>
+        </Pressable>
+      </View>
+    );
+  }
 
-      <TextInput
-        value={code}
-        onChangeText={setCode}
-        placeholder="Passcode"
-        keyboardType="number-pad"
-        secureTextEntry
-        autoCorrect={false}
-        autoCapitalize="none"
-        textContentType="oneTimeCode"
-        autoComplete="off"
-        importantForAutofill="no"
-        style={{
-          borderWidth: 1,
-          borderColor: '#ccc',
-          borderRadius: 10,
-          padding: 14,
-          fontSize: 18,
-          marginBottom: 12,
-        }}
+  return (
+    <View style={{ flex: 1, padding: 24, justifyContent: 'center' }}>
+      <EmailSignIn
+        title="Admin Access"
+        subtitle="Sign in with the email address the league has on file for you."
+        onSignedIn={route}
       />
-
-      <Pressable
-        onPress={onUnlock}
-        style={{
-          backgroundColor: 'black',
-          padding: 14,
-          borderRadius: 10,
-          alignItems: 'center',
-        }}
-      >
-        <Text style={{ color: 'white', fontSize: 18, fontWeight: '700' }}>
-          Unlock
-        </Text>
-      </Pressable>
     </View>
   );
 }
@@ -0,0 +1,535 @@
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import { PlayoffBracketView } from '@/components/playoff-bracket';
+import {
+  deleteMatchesByIds,
+  deletePlayoffBracket,
+  divisionColor,
+  divisionOrder,
+  fetchMatchScores,
+  fetchMatches,
+  fetchPlayoffBrackets,
+  upsertPlayoffBracket,
+  type BracketFormat,
+  type PersistedMatchScore,
+  type PlayoffBracket,
+  type SavedMatch,
+} from '@/constants/leagueData';
+import {
+  DEFAULT_LEAGUE_NIGHT_CONFIG,
+  courtLabel,
+  fetchLeagueNightConfig,
+  resolveLeagueNight,
+  type LeagueNightConfig,
+} from '@/constants/leagueNights';
+import {
+  BRACKET_FORMAT_LABELS,
+  MAX_PLAYOFF_TEAMS,
+  MIN_PLAYOFF_TEAMS,
+  advancePlayoffs,
+  bracketRounds,
+  buildBracketGames,
+  fetchSeedingStandings,
+  resolveBracket,
+  scheduleRound,
+  type BracketRound,
+} from '@/constants/playoffs';
+import { type StandingsSection } from '@/constants/standings';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+function safeInt(value: string, fallback: number) {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function uid() {
+  return `${Date.now()}_${Math.random().toString(16).slice(2)}`;
+}
+
+// ✅ confirm helper that works on web + native
+function confirmPopup(title: string, message: string, okText: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    const ok = typeof window !== 'undefined' ? window.confirm(`${title}\n\n${message}`) : false;
+    return Promise.resolve(ok);
+  }
+
+  return new Promise((resolve) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: okText, style: 'destructive', onPress: () => resolve(true) },
+    ]);
+  });
+}
+
+const FORMATS: BracketFormat[] = ['single', 'double'];
+
+type RoundForm = { week: string; time: string };
+
+export default function AdminPlayoffsScreen() {
+  const allowed = useRoleGuard('league_admin');
+
+  const [brackets, setBrackets] = useState<PlayoffBracket[]>([]);
+  const [matches, setMatches] = useState<SavedMatch[]>([]);
+  const [scores, setScores] = useState<Record<string, PersistedMatchScore>>({});
+  const [standings, setStandings] = useState<StandingsSection[]>([]);
+  const [nightConfig, setNightConfig] = useState<LeagueNightConfig>(DEFAULT_LEAGUE_NIGHT_CONFIG);
+
+  const [division, setDivision] = useState<string>(divisionOrder()[0] ?? '');
+
+  // New bracket form: every team in standings order; the first `teamCount` are seeded
+  const [format, setFormat] = useState<BracketFormat>('single');
+  const [teamCount, setTeamCount] = useState('8');
+  const [seedDraft, setSeedDraft] = useState<string[]>([]);
+
+  const [roundForms, setRoundForms] = useState<Record<string, RoundForm>>({});
+
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const [list, matchList, scoreMap, sections, config] = await Promise.all([
+        fetchPlayoffBrackets(),
+        fetchMatches(),
+        fetchMatchScores(),
+        fetchSeedingStandings(),
+        fetchLeagueNightConfig(),
+      ]);
+      setBrackets(list);
+      setMatches(matchList);
+      setScores(scoreMap);
+      setStandings(sections);
+      setNightConfig(config);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load playoffs from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // ✅ Load brackets and standings each time you open it (once the role guard allows)
+  useFocusEffect(
+    useCallback(() => {
+      if (!allowed) return;
+      setStatusMsg('');
+      void load();
+    }, [allowed, load])
+  );
+
+  const ranked = useMemo(
+    () => standings.find((s) => s.division === division)?.rows.map((r) => r.row.team) ?? [],
+    [standings, division]
+  );
+
+  // Seeds start from the standings whenever the division (or the table) changes
+  useEffect(() => {
+    setSeedDraft(ranked);
+    setTeamCount(String(Math.min(ranked.length, 8)));
+  }, [ranked]);
+
+  const bracket = brackets.find((b) => b.division === division) ?? null;
+  const resolved = useMemo(
+    () => (bracket ? resolveBracket(bracket, matches, scores) : null),
+    [bracket, matches, scores]
+  );
+  const rounds = useMemo(() => (bracket ? bracketRounds(bracket) : []), [bracket]);
+
+  // Playoffs default to the week after the last scheduled league night
+  const nextWeek = useMemo(
+    () => Math.max(0, ...matches.filter((m) => m.stage !== 'playoff').map((m) => m.week)) + 1,
+    [matches]
+  );
+
+  const count = safeInt(teamCount, 0);
+
+  const courtName = useCallback(
+    (week: number, court: number) => courtLabel(resolveLeagueNight(nightConfig, week), court),
+    [nightConfig]
+  );
+
+  const moveSeed = (idx: number, delta: number) => {
+    const target = idx + delta;
+    if (target < 0 || target >= seedDraft.length) return;
+    const next = [...seedDraft];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    setSeedDraft(next);
+    setStatusMsg('');
+  };
+
+  const onCreate = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    if (count < MIN_PLAYOFF_TEAMS || count > Math.min(MAX_PLAYOFF_TEAMS, seedDraft.length)) {
+      setErrorMsg(
+        `Playoffs need between ${MIN_PLAYOFF_TEAMS} and ${Math.min(MAX_PLAYOFF_TEAMS, seedDraft.length)} teams in ${division}.`
+      );
+      return;
+    }
+
+    const seeds = seedDraft.slice(0, count);
+    const ok = await confirmPopup(
+      `Create ${division} playoffs?`,
+      `${BRACKET_FORMAT_LABELS[format]}, ${count} teams:\n\n${seeds.map((t, i) => `${i + 1}. ${t}`).join('\n')}`,
+      'Create Bracket'
+    );
+    if (!ok) return;
+
+    setLoading(true);
+    try {
+      await upsertPlayoffBracket({ id: uid(), division, format, seeds, games: buildBracketGames(count, format) });
+      setStatusMsg(`✅ ${division} bracket created. Schedule the first round below.`);
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save the bracket to Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formFor = (round: BracketRound): RoundForm => {
+    const saved = round.games.find((g) => g.week && g.time);
+    return (
+      roundForms[`${division}|${round.key}`] ?? {
+        week: String(saved?.week ?? nextWeek),
+        time: saved?.time ?? '',
+      }
+    );
+  };
+
+  const setForm = (round: BracketRound, patch: Partial<RoundForm>) => {
+    setRoundForms((prev) => ({ ...prev, [`${division}|${round.key}`]: { ...formFor(round), ...patch } }));
+  };
+
+  const onScheduleRound = async (round: BracketRound) => {
+    if (!bracket || !resolved) return;
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const form = formFor(round);
+    const week = safeInt(form.week, 0);
+    if (week <= 0) {
+      setErrorMsg('Enter a week number for this round.');
+      return;
+    }
+    const night = resolveLeagueNight(nightConfig, week);
+    const startTime = night.times.includes(form.time) ? form.time : night.times[0];
+    if (!startTime || night.courts.length === 0) {
+      setErrorMsg(`Week ${week} has no open courts or time slots (see League Nights).`);
+      return;
+    }
+
+    // Byes and games with a score keep what they have
+    const byId = new Map(resolved.games.map((r) => [r.game.id, r]));
+    const toPlace = round.games.filter((g) => {
+      const r = byId.get(g.id);
+      return !!r && r.status !== 'bye' && !r.score;
+    });
+    if (toPlace.length === 0) {
+      setStatusMsg('Nothing to schedule in this round (byes or already played).');
+      return;
+    }
+
+    const ownIds = new Set(toPlace.map((g) => byId.get(g.id)!.matchId));
+    const booked = matches.filter((m) => m.week === week && !ownIds.has(m.id));
+    const placed = scheduleRound(toPlace, week, startTime, night, booked);
+    const placedById = new Map(placed.games.map((g) => [g.id, g]));
+
+    setLoading(true);
+    try {
+      await upsertPlayoffBracket({ ...bracket, games: bracket.games.map((g) => placedById.get(g.id) ?? g) });
+      await advancePlayoffs();
+      setStatusMsg(
+        placed.unplaced > 0
+          ? `⚠️ ${round.label}: ${placed.unplaced} game(s) didn't fit in Week ${week} after ${startTime}. Pick an earlier start or another week.`
+          : `✅ ${round.label} scheduled in Week ${week} from ${startTime}. Games appear on the schedule once both teams are known.`
+      );
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save the bracket to Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onSync = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+    setLoading(true);
+    try {
+      const changes = await advancePlayoffs();
+      setStatusMsg(
+        changes.upserts.length + changes.deletes.length > 0
+          ? `✅ ${changes.upserts.length} playoff match(es) added or updated, ${changes.deletes.length} removed.`
+          : '✅ Playoff matches are already up to date.'
+      );
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to update playoff matches.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onDelete = async () => {
+    if (!bracket || !resolved) return;
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const matchIds = resolved.games.map((r) => r.match?.id).filter(Boolean) as string[];
+    const played = resolved.games.filter((r) => !!r.score).length;
+    const ok = await confirmPopup(
+      `Delete ${division} playoffs?`,
+      `This removes the bracket and its ${matchIds.length} scheduled playoff match(es)` +
+        (played > 0 ? `, including ${played} with scores entered.` : '.'),
+      'Delete'
+    );
+    if (!ok) return;
+
+    setLoading(true);
+    try {
+      await deleteMatchesByIds(matchIds);
+      await deletePlayoffBracket(bracket.id);
+      setStatusMsg(`✅ ${division} playoffs deleted.`);
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to delete the bracket.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const tied = resolved?.games.filter((r) => r.status === 'tied') ?? [];
+
+  const inputStyle = { borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 10 };
+  const smallBtn = {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: 'white',
+  };
+  const blackBtn = {
+    backgroundColor: 'black',
+    padding: 12,
+    borderRadius: 10,
+    alignItems: 'center' as const,
+    opacity: loading ? 0.6 : 1,
+  };
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — Playoffs</Text>
+
+      <Text style={{ color: '#444', marginBottom: 16 }}>
+        Seed each division from the standings, schedule the rounds, and winners move on by themselves once a
+        playoff score is confirmed (or saved as official) on the Scoring tab. Update Playoff Matches Now re-runs
+        that by hand. Playoff games don&apos;t count in the standings.
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 16 }}>
+        {divisionOrder().map((d) => {
+          const active = d === division;
+          const seeded = brackets.some((b) => b.division === d);
+          return (
+            <Pressable
+              key={d}
+              onPress={() => {
+                setDivision(d);
+                setStatusMsg('');
+                setErrorMsg('');
+              }}
+              style={{
+                paddingVertical: 8,
+                paddingHorizontal: 12,
+                borderRadius: 999,
+                borderWidth: 1,
+                borderColor: divisionColor(d),
+                backgroundColor: active ? divisionColor(d) : 'white',
+              }}
+            >
+              <Text style={{ fontWeight: '900', color: active ? 'white' : divisionColor(d) }}>
+                {d}
+                {seeded ? ' 🏆' : ''}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {resolved && bracket ? (
+        <View>
+          <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 4 }}>
+            {division} — {BRACKET_FORMAT_LABELS[bracket.format]}
+          </Text>
+          {resolved.champion ? (
+            <Text style={{ fontWeight: '900', marginBottom: 8 }}>🏆 Champion: {resolved.champion}</Text>
+          ) : null}
+          {tied.map((r) => (
+            <Text key={r.game.id} style={{ color: '#b26a00', fontWeight: '800', marginBottom: 6 }}>
+              ⚠️ {r.game.id} is tied on games and points — correct the score on the Scoring tab (Save as Official).
+            </Text>
+          ))}
+
+          <PlayoffBracketView resolved={resolved} color={divisionColor(division)} courtName={courtName} />
+
+          <Text style={{ fontSize: 18, fontWeight: '900', marginTop: 16, marginBottom: 6 }}>Schedule rounds</Text>
+          <Text style={{ color: '#666', marginBottom: 10 }}>
+            Games are placed on that week&apos;s open courts from the start time on, skipping courts already booked.
+          </Text>
+
+          {rounds.map((round) => {
+            const form = formFor(round);
+            const week = safeInt(form.week, 0);
+            const night = week > 0 ? resolveLeagueNight(nightConfig, week) : null;
+            const byeCount = round.games.filter(
+              (g) => resolved.games.find((r) => r.game.id === g.id)?.status === 'bye'
+            ).length;
+            const scheduledCount = round.games.filter((g) => g.week && g.time && g.court).length;
+
+            return (
+              <View
+                key={round.key}
+                style={{ borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, marginBottom: 10, gap: 8 }}
+              >
+                <Text style={{ fontWeight: '900' }}>
+                  {round.label} • {round.games.length} game(s)
+                  {byeCount > 0 ? ` • ${byeCount} bye/not needed` : ''} • {scheduledCount} scheduled
+                </Text>
+                <View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+                  <Text style={{ fontWeight: '800' }}>Week</Text>
+                  <TextInput
+                    value={form.week}
+                    onChangeText={(v) => setForm(round, { week: v })}
+                    keyboardType="number-pad"
+                    style={[inputStyle, { width: 80 }]}
+                  />
+                  <View style={{ flex: 1, borderWidth: 1, borderColor: '#ccc', borderRadius: 10 }}>
+                    <Picker selectedValue={form.time} onValueChange={(v) => setForm(round, { time: String(v) })}>
+                      <Picker.Item label="First slot of the night" value="" />
+                      {(night?.times ?? []).map((t) => (
+                        <Picker.Item key={t} label={`From ${t}`} value={t} />
+                      ))}
+                    </Picker>
+                  </View>
+                </View>
+                {night ? (
+                  <Text style={{ color: '#666' }}>
+                    {night.venue.name} • {night.courts.length} open court(s)
+                    {night.note ? ` • ${night.note}` : ''}
+                  </Text>
+                ) : null}
+                <Pressable onPress={() => void onScheduleRound(round)} disabled={loading} style={smallBtn}>
+                  <Text style={{ fontWeight: '900', textAlign: 'center' }}>
+                    {scheduledCount > 0 ? 'Reschedule Round' : 'Schedule Round'}
+                  </Text>
+                </Pressable>
+              </View>
+            );
+          })}
+
+          <Pressable onPress={() => void onSync()} disabled={loading} style={[blackBtn, { marginTop: 6 }]}>
+            <Text style={{ color: 'white', fontWeight: '900' }}>Update Playoff Matches Now</Text>
+          </Pressable>
+
+          <Pressable onPress={() => void onDelete()} disabled={loading} style={[smallBtn, { marginTop: 12 }]}>
+            <Text style={{ fontWeight: '900', color: '#c62828', textAlign: 'center' }}>Delete {division} Bracket</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <View>
+          <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 6 }}>Seed {division}</Text>
+
+          <View style={{ flexDirection: 'row', gap: 8, marginBottom: 10 }}>
+            {FORMATS.map((f) => (
+              <Pressable
+                key={f}
+                onPress={() => setFormat(f)}
+                style={[smallBtn, f === format ? { backgroundColor: '#111', borderColor: '#111' } : null]}
+              >
+                <Text style={{ fontWeight: '900', color: f === format ? 'white' : '#111' }}>
+                  {BRACKET_FORMAT_LABELS[f]}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          <View style={{ flexDirection: 'row', gap: 8, alignItems: 'center', marginBottom: 10 }}>
+            <Text style={{ fontWeight: '800' }}>Teams in the playoffs</Text>
+            <TextInput
+              value={teamCount}
+              onChangeText={setTeamCount}
+              keyboardType="number-pad"
+              style={[inputStyle, { width: 80 }]}
+            />
+            <Text style={{ color: '#666' }}>of {seedDraft.length}</Text>
+          </View>
+
+          {seedDraft.length === 0 ? (
+            <Text style={{ color: '#666', marginBottom: 10 }}>No teams in {division} standings yet.</Text>
+          ) : (
+            <Text style={{ color: '#666', marginBottom: 10 }}>
+              In standings order — use ▲/▼ to change a seed. Byes go to the top seeds.
+            </Text>
+          )}
+
+          <View style={{ gap: 6, marginBottom: 16 }}>
+            {seedDraft.map((team, idx) => {
+              const seeded = idx < count;
+              return (
+                <View
+                  key={team}
+                  style={{
+                    flexDirection: 'row',
+                    alignItems: 'center',
+                    gap: 8,
+                    borderWidth: 1,
+                    borderColor: seeded ? divisionColor(division) : '#eee',
+                    borderRadius: 10,
+                    padding: 8,
+                    opacity: seeded ? 1 : 0.5,
+                  }}
+                >
+                  <Text style={{ width: 28, fontWeight: '900' }}>{seeded ? idx + 1 : '–'}</Text>
+                  <Text style={{ flex: 1, fontWeight: '800' }}>{team}</Text>
+                  <Pressable onPress={() => moveSeed(idx, -1)} style={[smallBtn, { opacity: idx === 0 ? 0.4 : 1 }]}>
+                    <Text style={{ fontWeight: '900' }}>▲</Text>
+                  </Pressable>
+                  <Pressable
+                    onPress={() => moveSeed(idx, 1)}
+                    style={[smallBtn, { opacity: idx === seedDraft.length - 1 ? 0.4 : 1 }]}
+                  >
+                    <Text style={{ fontWeight: '900' }}>▼</Text>
+                  </Pressable>
+                </View>
+              );
+            })}
+          </View>
+
+          <Pressable onPress={() => void onCreate()} disabled={loading} style={blackBtn}>
+            <Text style={{ color: 'white', fontSize: 16, fontWeight: '900' }}>Create Bracket</Text>
+          </Pressable>
+        </View>
+      )}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,368 @@
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import { moveProblems } from '@/constants/divisionHistory';
+import {
+  divisionColor,
+  fetchSeasonSettings,
+  getActiveSeasonId,
+  sortDivisions,
+  upsertDivisionMove,
+  upsertSeasonPromotionRules,
+} from '@/constants/leagueData';
+import {
+  DEFAULT_PROMOTION_RULES,
+  MAX_PROMOTION_COUNT,
+  describePromotionRules,
+  lastCompleteWeek,
+  normalizePromotionRules,
+  recommendMoves,
+  weekProgress,
+  type PromotionProposal,
+  type PromotionRules,
+} from '@/constants/promotions';
+import { computeStandings, fetchStandingsInput, getMaxVerifiedWeek, type StandingsInput } from '@/constants/standings';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+function safeInt(value: string, fallback: number) {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+// ✅ confirm helper that works on web + native
+function confirmPopup(title: string, message: string, okText: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    const ok = typeof window !== 'undefined' ? window.confirm(`${title}\n\n${message}`) : false;
+    return Promise.resolve(ok);
+  }
+
+  return new Promise((resolve) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: okText, onPress: () => resolve(true) },
+    ]);
+  });
+}
+
+type RulesForm = Record<keyof PromotionRules, string>;
+
+function toForm(rules: PromotionRules): RulesForm {
+  return {
+    promoteCount: String(rules.promoteCount),
+    promoteMinWinPct: String(rules.promoteMinWinPct),
+    relegateCount: String(rules.relegateCount),
+    relegateMaxWinPct: String(rules.relegateMaxWinPct),
+    minGames: String(rules.minGames),
+  };
+}
+
+const RULE_FIELDS: { key: keyof PromotionRules; label: string; max: number }[] = [
+  { key: 'promoteCount', label: 'Teams moving up per division', max: MAX_PROMOTION_COUNT },
+  { key: 'promoteMinWinPct', label: 'Move up at a game win rate of at least (%)', max: 100 },
+  { key: 'relegateCount', label: 'Teams moving down per division', max: MAX_PROMOTION_COUNT },
+  { key: 'relegateMaxWinPct', label: 'Move down at a game win rate of at most (%)', max: 100 },
+  { key: 'minGames', label: 'Games played before a team can move', max: 99 },
+];
+
+export default function AdminPromotionsScreen() {
+  const router = useRouter();
+  const allowed = useRoleGuard('league_admin');
+
+  const [input, setInput] = useState<StandingsInput | null>(null);
+  const [form, setForm] = useState<RulesForm>(() => toForm(DEFAULT_PROMOTION_RULES));
+  const [weekText, setWeekText] = useState('');
+
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const [next, settings] = await Promise.all([
+        fetchStandingsInput(getActiveSeasonId()),
+        fetchSeasonSettings(getActiveSeasonId()).catch(() => null),
+      ]);
+      setInput(next);
+      setForm(toForm(normalizePromotionRules(settings?.promotionRules)));
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load standings from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // ✅ Load standings each time you open it (once the role guard allows)
+  useFocusEffect(
+    useCallback(() => {
+      if (!allowed) return;
+      setStatusMsg('');
+      void load();
+    }, [allowed, load])
+  );
+
+  // Proposals follow the rules as typed; Save Rules keeps them for the season
+  const rules = useMemo(
+    () => normalizePromotionRules(Object.fromEntries(Object.entries(form).map(([k, v]) => [k, parseInt(v, 10)]))),
+    [form]
+  );
+
+  const progress = useMemo(() => (input ? weekProgress(input.matches, input.scores) : []), [input]);
+
+  // Defaults to the latest week with every score confirmed
+  const defaultWeek = useMemo(
+    () => lastCompleteWeek(progress) ?? (input ? getMaxVerifiedWeek(input.matches, input.scores) : 1),
+    [progress, input]
+  );
+  const week = Math.max(safeInt(weekText, defaultWeek), 1);
+  const weekStatus = progress.find((p) => p.week === week) ?? null;
+
+  const proposals = useMemo(() => {
+    if (!input) return [];
+    const sections = computeStandings({ ...input, throughWeek: week });
+    return recommendMoves(sections, rules, input.divisionMoves, week);
+  }, [input, rules, week]);
+
+  const divisions = sortDivisions(proposals.map((p) => p.fromDivision));
+  const acceptable = proposals.filter((p) => p.eligible && !p.scheduled);
+
+  const onSaveRules = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    for (const f of RULE_FIELDS) {
+      const n = parseInt(form[f.key], 10);
+      if (!Number.isInteger(n) || n < 0 || n > f.max) {
+        setErrorMsg(`${f.label}: enter a whole number from 0 to ${f.max}.`);
+        return;
+      }
+    }
+
+    setLoading(true);
+    try {
+      await upsertSeasonPromotionRules(getActiveSeasonId(), rules);
+      setForm(toForm(rules));
+      setStatusMsg('✅ Rules saved for this season.');
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save season settings to Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Saves the proposals as division moves starting the week after; stops at the first one that doesn't fit
+  const accept = async (list: PromotionProposal[]) => {
+    if (!input || list.length === 0) return;
+    setStatusMsg('');
+    setErrorMsg('');
+
+    setLoading(true);
+    let saved = 0;
+    try {
+      for (const p of list) {
+        const draft = {
+          team: p.team,
+          fromDivision: p.fromDivision,
+          toDivision: p.toDivision,
+          effectiveWeek: p.effectiveWeek,
+        };
+        const problems = moveProblems(draft, input.divisionMoves, p.fromDivision);
+        if (problems.length > 0) {
+          setErrorMsg(problems.join(' '));
+          break;
+        }
+        await upsertDivisionMove(draft);
+        saved += 1;
+      }
+      if (saved > 0) {
+        setStatusMsg(`✅ ${saved} division move(s) saved, starting Week ${week + 1}. See Division Moves to undo.`);
+      }
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save the division move to Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onAcceptAll = async () => {
+    const ok = await confirmPopup(
+      `Accept ${acceptable.length} move(s)?`,
+      acceptable
+        .map((p) => `${p.team}: ${p.fromDivision} → ${p.toDivision}`)
+        .concat(`Starting Week ${week + 1}.`)
+        .join('\n'),
+      'Accept'
+    );
+    if (ok) await accept(acceptable);
+  };
+
+  const inputStyle = { borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 10, width: 80 };
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — Promotion / Relegation</Text>
+
+      <Text style={{ color: '#444', marginBottom: 16 }}>
+        After each week’s scores are confirmed, these rules suggest who moves up or down a division. Accepting a
+        suggestion saves a division move starting the next week ({getActiveSeasonId()}).
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <View style={{ borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, marginBottom: 16 }}>
+        <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 10 }}>Rules</Text>
+        {RULE_FIELDS.map((f) => (
+          <View key={f.key} style={{ flexDirection: 'row', alignItems: 'center', gap: 10, marginBottom: 8 }}>
+            <TextInput
+              value={form[f.key]}
+              onChangeText={(v) => {
+                setForm((prev) => ({ ...prev, [f.key]: v.replace(/[^\d]/g, '') }));
+                setStatusMsg('');
+              }}
+              keyboardType="number-pad"
+              style={inputStyle}
+            />
+            <Text style={{ flex: 1, fontWeight: '700' }}>{f.label}</Text>
+          </View>
+        ))}
+        <Text style={{ color: '#666', marginBottom: 10 }}>{describePromotionRules(rules)}.</Text>
+        <Pressable
+          onPress={onSaveRules}
+          disabled={loading}
+          style={{ backgroundColor: 'black', padding: 12, borderRadius: 10, alignItems: 'center', opacity: loading ? 0.6 : 1 }}
+        >
+          <Text style={{ color: 'white', fontWeight: '900' }}>Save Rules</Text>
+        </Pressable>
+      </View>
+
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 10, marginBottom: 6 }}>
+        <Text style={{ fontWeight: '900' }}>Standings through Week</Text>
+        <TextInput
+          value={weekText}
+          onChangeText={(v) => setWeekText(v.replace(/[^\d]/g, ''))}
+          placeholder={String(defaultWeek)}
+          keyboardType="number-pad"
+          style={inputStyle}
+        />
+      </View>
+      {weekStatus ? (
+        <Text
+          style={{
+            color: weekStatus.verified === weekStatus.total ? '#2e7d32' : '#b26a00',
+            fontWeight: '800',
+            marginBottom: 14,
+          }}
+        >
+          {weekStatus.verified === weekStatus.total
+            ? `All ${weekStatus.total} Week ${week} scores confirmed.`
+            : `⚠️ ${weekStatus.total - weekStatus.verified} of ${weekStatus.total} Week ${week} scores still unconfirmed — suggestions may change.`}
+        </Text>
+      ) : (
+        <Text style={{ color: '#666', marginBottom: 14 }}>No regular-season matches in Week {week}.</Text>
+      )}
+
+      {input && proposals.length === 0 ? (
+        <Text style={{ color: '#666', fontWeight: '800', marginBottom: 14 }}>No suggested moves for Week {week}.</Text>
+      ) : null}
+
+      {divisions.map((division) => (
+        <View key={division} style={{ marginBottom: 16 }}>
+          <Text style={{ fontSize: 18, fontWeight: '900', color: divisionColor(division), marginBottom: 8 }}>
+            {division}
+          </Text>
+
+          {proposals
+            .filter((p) => p.fromDivision === division)
+            .map((p) => (
+              <View
+                key={`${p.direction}_${p.team}`}
+                style={{
+                  borderWidth: 1,
+                  borderColor: p.eligible ? divisionColor(p.toDivision) : '#e5e5e5',
+                  borderRadius: 12,
+                  padding: 10,
+                  marginBottom: 8,
+                  opacity: p.eligible ? 1 : 0.7,
+                }}
+              >
+                <Text style={{ fontWeight: '900' }}>
+                  {p.direction === 'up' ? '⬆️' : '⬇️'} {p.team} → {p.toDivision}
+                </Text>
+                <Text style={{ color: '#444', marginTop: 2 }}>{p.reason}</Text>
+
+                {p.scheduled ? (
+                  <Text style={{ color: '#666', fontWeight: '800', marginTop: 6 }}>
+                    Already moving {p.scheduled.fromDivision} → {p.scheduled.toDivision} from Week{' '}
+                    {p.scheduled.effectiveWeek}.
+                  </Text>
+                ) : p.eligible ? (
+                  <Pressable
+                    onPress={() => void accept([p])}
+                    disabled={loading}
+                    style={{
+                      marginTop: 8,
+                      alignSelf: 'flex-start',
+                      paddingVertical: 8,
+                      paddingHorizontal: 12,
+                      borderRadius: 10,
+                      backgroundColor: '#111',
+                      opacity: loading ? 0.6 : 1,
+                    }}
+                  >
+                    <Text style={{ color: 'white', fontWeight: '900' }}>Accept — starts Week {p.effectiveWeek}</Text>
+                  </Pressable>
+                ) : (
+                  <Text style={{ color: '#666', fontWeight: '800', marginTop: 6 }}>Doesn’t meet the rules yet.</Text>
+                )}
+              </View>
+            ))}
+        </View>
+      ))}
+
+      {acceptable.length > 1 ? (
+        <Pressable
+          onPress={() => void onAcceptAll()}
+          disabled={loading}
+          style={{
+            backgroundColor: 'black',
+            padding: 14,
+            borderRadius: 10,
+            alignItems: 'center',
+            marginBottom: 14,
+            opacity: loading ? 0.6 : 1,
+          }}
+        >
+          <Text style={{ color: 'white', fontSize: 16, fontWeight: '900' }}>Accept All {acceptable.length} Moves</Text>
+        </Pressable>
+      ) : null}
+
+      <Pressable
+        onPress={() => router.back()}
+        style={{
+          marginTop: 10,
+          borderWidth: 1,
+          borderColor: '#999',
+          padding: 12,
+          borderRadius: 10,
+          alignItems: 'center',
+          maxWidth: 260,
+        }}
+      >
+        <Text style={{ fontWeight: '900' }}>Back</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,243 @@
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import { getAuthState } from '@/constants/auth';
+import {
+  ROLE_ORDER,
+  deleteUserRole,
+  fetchAllUserRoles,
+  upsertUserRole,
+  type Role,
+  type UserRole,
+} from '@/constants/leagueData';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+const ROLE_LABELS: Record<Role, string> = {
+  league_admin: 'League Admin',
+  scorekeeper: 'Scorekeeper',
+  captain: 'Captain',
+  player: 'Player',
+};
+
+// ✅ confirm helper that works on web + native
+function confirmPopup(title: string, message: string, okText: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    const ok = typeof window !== 'undefined' ? window.confirm(`${title}\n\n${message}`) : false;
+    return Promise.resolve(ok);
+  }
+
+  return new Promise((resolve) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: okText, style: 'destructive', onPress: () => resolve(true) },
+    ]);
+  });
+}
+
+export default function AdminRolesScreen() {
+  const allowed = useRoleGuard('league_admin');
+
+  const [roles, setRoles] = useState<UserRole[]>([]);
+  const [myEmail, setMyEmail] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('player');
+  const [team, setTeam] = useState('');
+
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      setRoles(await fetchAllUserRoles());
+      setMyEmail((await getAuthState()).session?.email ?? '');
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load roles from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (allowed) void load();
+    }, [allowed, load])
+  );
+
+  const byEmail = useMemo(() => {
+    const map = new Map<string, UserRole[]>();
+    for (const r of roles) {
+      if (!map.has(r.email)) map.set(r.email, []);
+      map.get(r.email)!.push(r);
+    }
+    return Array.from(map.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+  }, [roles]);
+
+  const onAdd = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const cleaned = email.trim().toLowerCase();
+    if (!cleaned.includes('@')) {
+      setErrorMsg('Enter a valid email address.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await upsertUserRole(cleaned, role, team.trim() || null);
+      setEmail('');
+      setTeam('');
+      setStatusMsg(`✅ ${cleaned} is now ${ROLE_LABELS[role]}.`);
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save role to Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRemove = async (r: UserRole) => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const adminCount = roles.filter((x) => x.role === 'league_admin').length;
+    if (r.role === 'league_admin' && adminCount <= 1) {
+      setErrorMsg('The league needs at least one League Admin.');
+      return;
+    }
+
+    const self = r.email === myEmail && r.role === 'league_admin';
+    const ok = await confirmPopup(
+      'Remove role?',
+      self
+        ? 'You are removing your own League Admin role. You will lose access to admin tools.'
+        : `Remove ${ROLE_LABELS[r.role]} from ${r.email}?`,
+      'Remove'
+    );
+    if (!ok) return;
+
+    setLoading(true);
+    try {
+      await deleteUserRole(r.id);
+      setStatusMsg(`🗑️ Removed ${ROLE_LABELS[r.role]} from ${r.email}.`);
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to remove role.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — Members & Roles</Text>
+
+      <Text style={{ color: '#444', marginBottom: 16 }}>
+        People sign in with their email. Anyone with a role can open the app; Scorekeepers can score and lock any
+        match; League Admins can use every admin tool.
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Email</Text>
+      <TextInput
+        value={email}
+        onChangeText={setEmail}
+        placeholder="player@example.com"
+        keyboardType="email-address"
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12, marginBottom: 10, fontSize: 16 }}
+      />
+
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Role</Text>
+      <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
+        <Picker selectedValue={role} onValueChange={(v) => setRole(v as Role)}>
+          {ROLE_ORDER.map((r) => (
+            <Picker.Item key={r} label={ROLE_LABELS[r]} value={r} />
+          ))}
+        </Picker>
+      </View>
+
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Team (optional)</Text>
+      <TextInput
+        value={team}
+        onChangeText={setTeam}
+        placeholder='e.g. "Adam/Jon"'
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12, marginBottom: 10, fontSize: 16 }}
+      />
+
+      <Pressable
+        onPress={onAdd}
+        disabled={loading}
+        style={{
+          backgroundColor: 'black',
+          padding: 14,
+          borderRadius: 10,
+          alignItems: 'center',
+          marginBottom: 18,
+          opacity: loading ? 0.6 : 1,
+        }}
+      >
+        <Text style={{ color: 'white', fontSize: 16, fontWeight: '900' }}>Add Role</Text>
+      </Pressable>
+
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 10 }}>Members ({byEmail.length})</Text>
+
+      <View style={{ gap: 10 }}>
+        {byEmail.map(([addr, list]) => (
+          <View
+            key={addr}
+            style={{ borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, backgroundColor: 'white' }}
+          >
+            <Text style={{ fontWeight: '900', fontSize: 16, marginBottom: 8 }}>
+              {addr}
+              {addr === myEmail ? ' (you)' : ''}
+            </Text>
+
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+              {list.map((r) => (
+                <Pressable
+                  key={r.id}
+                  onPress={() => onRemove(r)}
+                  style={{
+                    flexDirection: 'row',
+                    gap: 6,
+                    paddingVertical: 6,
+                    paddingHorizontal: 10,
+                    borderRadius: 999,
+                    borderWidth: 1,
+                    borderColor: '#ccc',
+                  }}
+                >
+                  <Text style={{ fontWeight: '800' }}>
+                    {ROLE_LABELS[r.role]}
+                    {r.team ? ` • ${r.team}` : ''}
+                  </Text>
+                  <Text style={{ fontWeight: '900', color: '#c62828' }}>✕</Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
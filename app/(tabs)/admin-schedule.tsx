@@ -2,6 +2,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Picker } from '@react-native-picker/picker';
 import React, { useEffect, useMemo, useState } from 'react';
 import {
+  ActivityIndicator,
   Alert,
   Platform,
   Pressable,
@@ -12,20 +13,44 @@ import {
   useWindowDimensions,
 } from 'react-native';
 
-import { supabaseHeaders, supabaseRestUrl } from '@/constants/supabase';
-
-type Division = 'Beginner' | 'Intermediate' | 'Advanced';
-
-type SavedMatch = {
-  id: string;
-  week: number;
-  division: Division;
-  time: string; // e.g. "6:15 PM"
-  court: number; // 1..8
-  teamA: string;
-  teamB: string;
-  createdAt: number; // Date.now() ms (legacy + used for ordering/labels)
-};
+import { useRoleGuard } from '@/hooks/use-role-guard';
+import { CSV_MIME_TYPE, csvFileName, matchesCsv } from '@/constants/csv';
+import { pickTextFileOnWeb, shareTextFile } from '@/constants/fileExport';
+import { notifySchedulePublished } from '@/constants/push';
+import {
+  validateScheduleImport,
+  weeksInScheduleCsv,
+  type ScheduleImportReport,
+} from '@/constants/scheduleImport';
+import { matchTimeMinutes } from '@/constants/leagueCalendar';
+import { generateWeek, matchupKey, type WeekGeneratorResult } from '@/constants/scheduleGenerator';
+import {
+  DEFAULT_LEAGUE_NIGHT_CONFIG,
+  courtLabel,
+  fetchLeagueNightConfig,
+  matchesOutsideNight,
+  resolveLeagueNight,
+  slotProblems,
+  type LeagueNightConfig,
+} from '@/constants/leagueNights';
+import {
+  applyDivisionMoves,
+  bulkInsertMatches,
+  deleteMatchById,
+  deleteMatchesForWeek,
+  divisionOrder,
+  emptyByDivision,
+  fetchAttendanceMap,
+  fetchDivisionMoves,
+  fetchMatches,
+  fetchTeamsByDivision,
+  sortDivisions,
+  upsertMatch,
+  type Division,
+  type SavedMatch,
+  type Team,
+} from '@/constants/leagueData';
+import { baselineTeamsFor } from '@/constants/seasons';
 
 // ✅ LEGACY (deprecated) — matches are now stored in Supabase `public.matches`
 // Keeping the constant only for one-time migration import if Supabase is empty.
@@ -50,99 +75,6 @@ const STORAGE_KEY_LEGACY_CUSTOM_TEAMS = 'ppl_custom_teams_v1';
 // ✅ One-time migration flag (so we do NOT dual-source long term)
 const STORAGE_KEY_MATCHES_MIGRATED = 'ppl_matches_migrated_to_supabase_v1';
 
-// --- Default teams (baseline) ---
-const TEAMS_BY_DIVISION: Record<Division, string[]> = {
-  Advanced: [
-    'Ishai/Greg',
-    'Adam/Jon',
-    'Bradley/Ben',
-    'Peter/Ray',
-    'Andrew/Brent',
-    'Mark D/Craig',
-    'Alex/Anibal',
-    'Radek/Alexi',
-    'Ricky/John',
-    'Brandon/Ikewa',
-    'Andrew/Dan',
-    'Eric/Meir',
-    'David/Guy',
-    'Mark P/Matt O',
-  ],
-  Intermediate: [
-    'Ashley/Julie',
-    'Stephanie/Misty',
-    'Eric/Sunil',
-    'Dan/Relu',
-    'Domencio/Keith',
-    'YG/Haaris',
-    'Nicole/Joshua',
-    'Amy/Nik',
-    'Elaine/Valerie',
-    'Marat/Marta',
-    'Beatriz/Joe',
-    'Alejandro/William',
-  ],
-  Beginner: [
-    'Eric/Tracy',
-    'Rachel/Jaime',
-    'Amy/Ellen',
-    'Lashonda/Lynette',
-    'Michael/JP',
-    'Fran/Scott',
-    'Robert/Adam',
-    'Cynthia/Maureen',
-    'Marina/Sharon',
-  ],
-};
-
-const COURTS = [1, 2, 3, 4, 5, 6, 7, 8];
-
-// 6:00 PM → 9:45 PM, every 15 minutes
-const TIMES: string[] = (() => {
-  const result: string[] = [];
-  let hour = 18; // 6 PM
-  let minute = 0;
-
-  while (hour < 22) {
-    const displayHour = hour > 12 ? hour - 12 : hour;
-    const displayMinute = String(minute).padStart(2, '0');
-    result.push(`${displayHour}:${displayMinute} PM`);
-
-    minute += 15;
-    if (minute >= 60) {
-      minute = 0;
-      hour += 1;
-    }
-
-    // stop after 9:45 PM
-    if (hour === 21 && minute === 60) break;
-    if (hour === 22) break;
-  }
-
-  const last = result[result.length - 1];
-  if (last !== '9:45 PM') {
-    return [
-      '6:00 PM',
-      '6:15 PM',
-      '6:30 PM',
-      '6:45 PM',
-      '7:00 PM',
-      '7:15 PM',
-      '7:30 PM',
-      '7:45 PM',
-      '8:00 PM',
-      '8:15 PM',
-      '8:30 PM',
-      '8:45 PM',
-      '9:00 PM',
-      '9:15 PM',
-      '9:30 PM',
-      '9:45 PM',
-    ];
-  }
-  return result;
-})();
-
 function safeInt(value: string, fallback: number) {
   const n = parseInt(value, 10);
   return Number.isFinite(n) ? n : fallback;
@@ -152,7 +84,7 @@ function sortMatches(list: SavedMatch[]) {
   return [...list].sort((a, b) => {
     if (a.week !== b.week) return a.week - b.week;
     if (a.division !== b.division) return a.division.localeCompare(b.division);
-    if (a.time !== b.time) return a.time.localeCompare(b.time);
+    if (a.time !== b.time) return matchTimeMinutes(a.time) - matchTimeMinutes(b.time);
     return a.court - b.court;
   });
 }
@@ -168,12 +100,6 @@ function getNewestWeekFromMatches(list: SavedMatch[]): number | null {
   return max === -Infinity ? null : max;
 }
 
-// ✅ A vs B equals B vs A
-function matchupKey(a: string, b: string) {
-  const pair = [a.trim(), b.trim()].sort((x, y) => x.localeCompare(y));
-  return `${pair[0]}__VS__${pair[1]}`;
-}
-
 // ✅ Popup helper that works on BOTH web + native
 function showPopup(title: string, message: string) {
   if (Platform.OS === 'web') {
@@ -191,303 +117,15 @@ function uniqSorted(list: string[]) {
     .sort((a, b) => a.localeCompare(b));
 }
 
-function isDivision(v: any): v is Division {
-  return v === 'Beginner' || v === 'Intermediate' || v === 'Advanced';
-}
-
-type SupabaseTeamRow = {
-  id: string;
-  created_at: string;
-  division: string;
-  name: string;
-};
-
-async function fetchTeamsFromSupabase(): Promise<Record<Division, SupabaseTeamRow[]>> {
-  const url = supabaseRestUrl('teams?select=id,created_at,division,name&order=created_at.asc');
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseTeamRow[];
-
-  const grouped: Record<Division, SupabaseTeamRow[]> = {
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  };
-
-  for (const r of rows) {
-    if (isDivision(r.division)) grouped[r.division].push(r);
-  }
-
-  return grouped;
-}
-
-// =============================
-// ✅ Supabase Attendance (Schedule Builder reads THIS)
-// =============================
-type SupabaseAttendanceRow = {
-  team: string;
-  present: boolean;
-};
-
-async function fetchAttendanceFromSupabase(week: number): Promise<Record<string, boolean>> {
-  if (week <= 0) return {};
-
-  const url = supabaseRestUrl(`attendance?select=team,present&week=eq.${week}`);
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase attendance SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseAttendanceRow[];
-  const map: Record<string, boolean> = {};
-
-  for (const r of rows) {
-    const team = String(r.team || '').trim();
-    if (!team) continue;
-    map[team] = Boolean(r.present);
-  }
-
-  return map;
-}
-
-// =============================
-// ✅ Supabase Matches (Schedule)
-// =============================
-type SupabaseMatchRow = {
-  id: string;
-  created_at: string;
-  week: number;
-  division: string;
-  time: string;
-  court: number;
-  team_a: string;
-  team_b: string;
-  created_at_ms: number;
-};
-
-function rowToSavedMatch(r: SupabaseMatchRow): SavedMatch | null {
-  if (!r) return null;
-  if (!isDivision(r.division)) return null;
-
-  return {
-    id: String(r.id),
-    week: Number(r.week),
-    division: r.division as Division,
-    time: String(r.time),
-    court: Number(r.court),
-    teamA: String(r.team_a),
-    teamB: String(r.team_b),
-    createdAt: Number(r.created_at_ms),
-  };
-}
-
-function savedMatchToRow(m: SavedMatch): Omit<SupabaseMatchRow, 'created_at'> {
-  return {
-    id: m.id,
-    week: m.week,
-    division: m.division,
-    time: m.time,
-    court: m.court,
-    team_a: m.teamA,
-    team_b: m.teamB,
-    created_at_ms: m.createdAt,
-  };
-}
-
-async function fetchMatchesFromSupabase(): Promise<SavedMatch[]> {
-  const url = supabaseRestUrl(
-    'matches?select=id,created_at,week,division,time,court,team_a,team_b,created_at_ms&order=created_at_ms.asc'
-  );
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase matches SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseMatchRow[];
-  const list: SavedMatch[] = [];
-
-  for (const r of rows) {
-    const m = rowToSavedMatch(r);
-    if (m) list.push(m);
-  }
-
-  return sortMatches(list);
-}
-
-async function upsertMatchToSupabase(match: SavedMatch): Promise<void> {
-  // Upsert by id
-  const url = supabaseRestUrl('matches?on_conflict=id');
-
-  const headers = {
-    ...supabaseHeaders(),
-    Prefer: 'resolution=merge-duplicates,return=minimal',
-    'Content-Type': 'application/json',
-  };
-
-  const res = await fetch(url, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(savedMatchToRow(match)),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase matches UPSERT failed: ${res.status} ${txt}`);
-  }
-}
-
-async function deleteMatchFromSupabase(id: string): Promise<void> {
-  const url = supabaseRestUrl(`matches?id=eq.${encodeURIComponent(id)}`);
-
-  const res = await fetch(url, {
-    method: 'DELETE',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase matches DELETE failed: ${res.status} ${txt}`);
-  }
-}
-
-async function deleteWeekFromSupabase(week: number): Promise<void> {
-  const url = supabaseRestUrl(`matches?week=eq.${week}`);
-
-  const res = await fetch(url, {
-    method: 'DELETE',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase matches DELETE week failed: ${res.status} ${txt}`);
-  }
-}
-
-async function bulkInsertMatchesToSupabase(matches: SavedMatch[]): Promise<void> {
-  if (!matches || matches.length === 0) return;
-
-  const url = supabaseRestUrl('matches');
-
-  const headers = {
-    ...supabaseHeaders(),
-    Prefer: 'return=minimal',
-    'Content-Type': 'application/json',
-  };
-
-  const payload = matches.map((m) => savedMatchToRow(m));
-
-  const res = await fetch(url, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(payload),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase matches BULK INSERT failed: ${res.status} ${txt}`);
-  }
-}
-
-// =============================
-// ✅ Supabase Division Moves
-// =============================
-type DivisionMoveRow = {
-  id: string;
-  team: string;
-  from_division: Division;
-  to_division: Division;
-  effective_week: number;
-  created_at: string;
-};
-
-async function fetchDivisionMovesFromSupabase(): Promise<DivisionMoveRow[]> {
-  const url = supabaseRestUrl('division_moves?select=*&order=created_at.desc');
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase division_moves SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as any;
-  return Array.isArray(rows) ? (rows as DivisionMoveRow[]) : [];
-}
-
-function applyDivisionMovesToTeams(
-  base: Record<Division, string[]>,
-  moves: DivisionMoveRow[],
-  currentWeek: number
-): Record<Division, string[]> {
-  const next: Record<Division, string[]> = {
-    Beginner: [...(base.Beginner ?? [])],
-    Intermediate: [...(base.Intermediate ?? [])],
-    Advanced: [...(base.Advanced ?? [])],
-  };
-
-  for (const m of moves) {
-    const team = String(m.team || '').trim();
-    const toDiv = m.to_division as Division;
-    const effWeek = Number(m.effective_week ?? 1);
-
-    if (!team || !toDiv) continue;
-    if (effWeek > currentWeek) continue;
-
-    (Object.keys(next) as Division[]).forEach((d) => {
-      next[d] = next[d].filter((t) => t !== team);
-    });
-
-    if (!next[toDiv].includes(team)) next[toDiv].push(team);
-  }
-
-  (Object.keys(next) as Division[]).forEach((d) => {
-    next[d] = uniqSorted(next[d]);
-  });
-
-  return next;
-}
-
 export default function AdminScheduleScreen() {
+  const allowed = useRoleGuard('league_admin');
   const { width } = useWindowDimensions();
 
   // ✅ Legacy local custom teams (often null now, since admin-teams.tsx clears ppl_teams_by_division_v1)
-  const [customTeams, setCustomTeams] = useState<CustomTeams>({
-    Beginner: [],
-    Intermediate: [],
-    Advanced: [],
-  });
+  const [customTeams, setCustomTeams] = useState<CustomTeams>(() => emptyByDivision(() => []));
 
   // ✅ Supabase teams (source of truth for Manage Teams)
-  const [dbTeams, setDbTeams] = useState<Record<Division, SupabaseTeamRow[]>>({
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  });
+  const [dbTeams, setDbTeams] = useState<Record<Division, Team[]>>(() => emptyByDivision(() => []));
 
   // ✅ DEBUG readout state (shows what AsyncStorage actually has)
   const [debugTeamsByDivisionRaw, setDebugTeamsByDivisionRaw] = useState<string>('(loading)');
@@ -521,107 +159,90 @@ export default function AdminScheduleScreen() {
       const raw = await AsyncStorage.getItem(STORAGE_KEY_CUSTOM_TEAMS);
       const parsed = raw ? JSON.parse(raw) : null;
 
-      const next: CustomTeams = {
-        Beginner: parsed && Array.isArray(parsed.Beginner) ? parsed.Beginner : [],
-        Intermediate: parsed && Array.isArray(parsed.Intermediate) ? parsed.Intermediate : [],
-        Advanced: parsed && Array.isArray(parsed.Advanced) ? parsed.Advanced : [],
-      };
+      const next: CustomTeams = emptyByDivision(() => []);
+      for (const [d, list] of Object.entries(parsed ?? {})) {
+        if (Array.isArray(list)) next[d] = uniqSorted(list);
+      }
 
-      setCustomTeams({
-        Beginner: uniqSorted(next.Beginner),
-        Intermediate: uniqSorted(next.Intermediate),
-        Advanced: uniqSorted(next.Advanced),
-      });
+      setCustomTeams(next);
     } catch {
-      setCustomTeams({ Beginner: [], Intermediate: [], Advanced: [] });
+      setCustomTeams(emptyByDivision(() => []));
     }
   };
 
   const loadTeamsFromSupabase = async () => {
     try {
-      const grouped = await fetchTeamsFromSupabase();
+      const grouped = await fetchTeamsByDivision();
       setDbTeams(grouped);
     } catch {
       // don't hard-fail UI — schedule builder still works with defaults
-      setDbTeams({ Advanced: [], Intermediate: [], Beginner: [] });
+      setDbTeams(emptyByDivision(() => []));
     }
   };
 
   const dbTeamNamesByDivision = useMemo(() => {
-    return {
-      Advanced: uniqSorted((dbTeams.Advanced ?? []).map((r) => r.name)),
-      Intermediate: uniqSorted((dbTeams.Intermediate ?? []).map((r) => r.name)),
-      Beginner: uniqSorted((dbTeams.Beginner ?? []).map((r) => r.name)),
-    };
+    const names: Record<Division, string[]> = {};
+    for (const [d, rows] of Object.entries(dbTeams)) names[d] = uniqSorted(rows.map((r) => r.name));
+    return names;
   }, [dbTeams]);
 
   // Form state
   const [week, setWeek] = useState('2'); // typed week field
-  const [division, setDivision] = useState<Division>('Beginner');
-  const [time, setTime] = useState<string>(TIMES[0]);
+  const [division, setDivision] = useState<Division>(() => divisionOrder()[divisionOrder().length - 1] ?? '');
+  const [time, setTime] = useState<string>('');
   const [court, setCourt] = useState<number>(1);
 
   const weekNum = safeInt(week, 0);
 
+  // ✅ Venue, open courts and time slots for the typed week (Admin → League Nights)
+  const [nightConfig, setNightConfig] = useState<LeagueNightConfig>(DEFAULT_LEAGUE_NIGHT_CONFIG);
+  const night = useMemo(() => resolveLeagueNight(nightConfig, weekNum), [nightConfig, weekNum]);
+
   // ✅ Effective team lists (baseline + teams table + legacy custom) + APPLY division_moves
-  const [teamsByDivision, setTeamsByDivision] = useState<Record<Division, string[]>>({
-    Beginner: uniqSorted([...TEAMS_BY_DIVISION.Beginner]),
-    Intermediate: uniqSorted([...TEAMS_BY_DIVISION.Intermediate]),
-    Advanced: uniqSorted([...TEAMS_BY_DIVISION.Advanced]),
+  const [teamsByDivision, setTeamsByDivision] = useState<Record<Division, string[]>>(() => {
+    const baseline = baselineTeamsFor();
+    const next = emptyByDivision<string[]>(() => []);
+    for (const d of Object.keys(baseline)) next[d] = uniqSorted(baseline[d]);
+    return next;
   });
 
+  // ✅ Base team lists before division_moves (baseline + teams table + legacy custom)
+  const baseTeamsByDivision = useMemo<Record<Division, string[]>>(() => {
+    const baseline = baselineTeamsFor();
+    const merged = emptyByDivision<string[]>(() => []);
+    const all = sortDivisions([
+      ...Object.keys(merged),
+      ...Object.keys(baseline),
+      ...Object.keys(dbTeamNamesByDivision),
+      ...Object.keys(customTeams),
+    ]);
+    for (const d of all) {
+      merged[d] = uniqSorted([
+        ...(baseline[d] ?? []),
+        ...(dbTeamNamesByDivision[d] ?? []),
+        ...(customTeams[d] ?? []),
+      ]);
+    }
+    return merged;
+  }, [dbTeamNamesByDivision, customTeams]);
+
   useEffect(() => {
     (async () => {
       try {
-        const base: Record<Division, string[]> = {
-          Beginner: uniqSorted([
-            ...(TEAMS_BY_DIVISION.Beginner ?? []),
-            ...(dbTeamNamesByDivision.Beginner ?? []),
-            ...(customTeams.Beginner ?? []),
-          ]),
-          Intermediate: uniqSorted([
-            ...(TEAMS_BY_DIVISION.Intermediate ?? []),
-            ...(dbTeamNamesByDivision.Intermediate ?? []),
-            ...(customTeams.Intermediate ?? []),
-          ]),
-          Advanced: uniqSorted([
-            ...(TEAMS_BY_DIVISION.Advanced ?? []),
-            ...(dbTeamNamesByDivision.Advanced ?? []),
-            ...(customTeams.Advanced ?? []),
-          ]),
-        };
-
         if (weekNum <= 0) {
-          setTeamsByDivision(base);
+          setTeamsByDivision(baseTeamsByDivision);
           return;
         }
 
-        const moves = await fetchDivisionMovesFromSupabase();
-        const next = applyDivisionMovesToTeams(base, moves, weekNum);
+        const moves = await fetchDivisionMoves();
+        const next = applyDivisionMoves(baseTeamsByDivision, moves, weekNum);
         setTeamsByDivision(next);
       } catch {
         // If anything fails, just show the base teams so scheduling still works
-        const fallback: Record<Division, string[]> = {
-          Beginner: uniqSorted([
-            ...(TEAMS_BY_DIVISION.Beginner ?? []),
-            ...(dbTeamNamesByDivision.Beginner ?? []),
-            ...(customTeams.Beginner ?? []),
-          ]),
-          Intermediate: uniqSorted([
-            ...(TEAMS_BY_DIVISION.Intermediate ?? []),
-            ...(dbTeamNamesByDivision.Intermediate ?? []),
-            ...(customTeams.Intermediate ?? []),
-          ]),
-          Advanced: uniqSorted([
-            ...(TEAMS_BY_DIVISION.Advanced ?? []),
-            ...(dbTeamNamesByDivision.Advanced ?? []),
-            ...(customTeams.Advanced ?? []),
-          ]),
-        };
-        setTeamsByDivision(fallback);
+        setTeamsByDivision(baseTeamsByDivision);
       }
     })();
-  }, [dbTeamNamesByDivision, customTeams, weekNum]);
+  }, [baseTeamsByDivision, weekNum]);
 
   // ✅ Teams list for the CURRENT division (already includes division_moves)
   const teams = useMemo(() => {
@@ -648,6 +269,23 @@ export default function AdminScheduleScreen() {
   const [showClearWeekConfirm, setShowClearWeekConfirm] = useState(false);
   const [clearWeekConfirmText, setClearWeekConfirmText] = useState('');
 
+  // ✅ Generate Week inputs + preview (nothing is written until "Save Generated Week")
+  const [genMatchesPerTeam, setGenMatchesPerTeam] = useState('1');
+  const [genCourtCount, setGenCourtCount] = useState('');
+  const [genSlotsPerRound, setGenSlotsPerRound] = useState<number>(1);
+  const [genStartTime, setGenStartTime] = useState<string>('');
+  const [genPreview, setGenPreview] = useState<{
+    week: number;
+    result: WeekGeneratorResult<Division>;
+  } | null>(null);
+  const [genSaving, setGenSaving] = useState(false);
+
+  // ✅ CSV import (paste / choose a file → dry run report → import)
+  const [csvText, setCsvText] = useState('');
+  const [csvReport, setCsvReport] = useState<ScheduleImportReport | null>(null);
+  const [csvChecking, setCsvChecking] = useState(false);
+  const [csvImporting, setCsvImporting] = useState(false);
+
   // ✅ Attendance map for the TYPED week (Week input field)
   const [attendance, setAttendance] = useState<AttendanceMap>({});
   const getAttendanceKeyForWeek = (w: number) => `${ATTENDANCE_KEY_PREFIX}${w}`; // legacy, not used now
@@ -660,7 +298,7 @@ export default function AdminScheduleScreen() {
       }
 
       // ✅ SOURCE OF TRUTH: Supabase attendance table
-      const map = await fetchAttendanceFromSupabase(w);
+      const map = await fetchAttendanceMap(w);
       setAttendance(map);
     } catch {
       // If Supabase fails, don't crash—assume everyone present
@@ -673,6 +311,24 @@ export default function AdminScheduleScreen() {
     void loadAttendanceForTypedWeek(weekNum);
   }, [weekNum]);
 
+  // ✅ Keep the pickers on this week's slots + open courts (an edited match keeps its own until saved)
+  useEffect(() => {
+    setGenCourtCount(String(night.courts.length));
+  }, [night]);
+
+  useEffect(() => {
+    if (!night.times.includes(genStartTime)) setGenStartTime(night.times[0] ?? '');
+  }, [night, genStartTime]);
+
+  useEffect(() => {
+    if (editingId) return;
+    if (!night.times.includes(time)) setTime(night.times[0] ?? '');
+    if (!night.courts.some((c) => c.number === court)) setCourt(night.courts[0]?.number ?? 0);
+  }, [night, editingId, time, court]);
+
+  // Saved matches this week that the night's setup no longer allows (court closed, slots changed)
+  const misplacedThisWeek = useMemo(() => matchesOutsideNight(night, savedMatches), [night, savedMatches]);
+
   const isTeamOutForTypedWeek = (teamName: string) => {
     // default is present unless explicitly false
     return attendance[teamName] === false;
@@ -702,7 +358,7 @@ export default function AdminScheduleScreen() {
     weekNum > 0 && !!time && !!court && !!teamA && !!teamB && teamA !== teamB;
 
   const refreshMatches = async () => {
-    const list = await fetchMatchesFromSupabase();
+    const list = sortMatches(await fetchMatches());
     setSavedMatches(list);
   };
 
@@ -713,7 +369,7 @@ export default function AdminScheduleScreen() {
       const migratedFlag = await AsyncStorage.getItem(STORAGE_KEY_MATCHES_MIGRATED);
       if (migratedFlag === 'true') return;
 
-      const currentDb = await fetchMatchesFromSupabase();
+      const currentDb = await fetchMatches();
       if (currentDb.length > 0) {
         await AsyncStorage.setItem(STORAGE_KEY_MATCHES_MIGRATED, 'true');
         return;
@@ -736,7 +392,7 @@ export default function AdminScheduleScreen() {
       }
 
       // Import
-      await bulkInsertMatchesToSupabase(sortMatches(legacyList));
+      await bulkInsertMatches(sortMatches(legacyList));
       await AsyncStorage.setItem(STORAGE_KEY_MATCHES_MIGRATED, 'true');
     } catch {
       // If migration fails, do NOT fall back to legacy as a dual source of truth.
@@ -753,6 +409,9 @@ export default function AdminScheduleScreen() {
       // ✅ load teams from Supabase
       await loadTeamsFromSupabase();
 
+      // ✅ venues / time slots / per-week exceptions (defaults if not configured)
+      setNightConfig(await fetchLeagueNightConfig());
+
       // ✅ also load debug storage values
       await refreshDebugStorage();
 
@@ -761,7 +420,7 @@ export default function AdminScheduleScreen() {
         await maybeMigrateLegacyMatches();
 
         // ✅ load matches from Supabase (single source of truth)
-        const list = await fetchMatchesFromSupabase();
+        const list = sortMatches(await fetchMatches());
         setSavedMatches(list);
 
         let defaultWeek: number | null = null;
@@ -814,7 +473,7 @@ export default function AdminScheduleScreen() {
     if (!conflict) return null;
 
     if (conflict.court === court && conflict.time === time && conflict.week === weekNum) {
-      return `Court ${court} is already booked at ${time} (Week ${weekNum}, ${conflict.division}).`;
+      return `${courtLabel(night, court)} is already booked at ${time} (Week ${weekNum}, ${conflict.division}).`;
     }
 
     return `One of these teams is already scheduled at ${time} (Week ${weekNum}, ${division}).`;
@@ -883,7 +542,7 @@ export default function AdminScheduleScreen() {
     };
 
     try {
-      await upsertMatchToSupabase(record);
+      await upsertMatch(record);
       await refreshMatches();
 
       setListWeekFilter(String(weekNum));
@@ -933,6 +592,15 @@ export default function AdminScheduleScreen() {
       return;
     }
 
+    // ✅ Hard-block 0: this week's venue setup (closed courts, slot template)
+    const problems = slotProblems(night, time, court);
+    if (problems.length > 0) {
+      const msg = problems.join('\n');
+      setErrorMsg(msg);
+      showPopup('League Night', msg);
+      return;
+    }
+
     // ✅ Hard-block 1: Attendance
     if (isTeamOutForTypedWeek(teamA) || isTeamOutForTypedWeek(teamB)) {
       const msg = `One or more selected teams are marked OUT for Week ${weekNum}. Please choose teams that are PRESENT.`;
@@ -987,7 +655,7 @@ export default function AdminScheduleScreen() {
     setStatusMsg('');
     setErrorMsg('');
     try {
-      await deleteMatchFromSupabase(id);
+      await deleteMatchById(id);
       await refreshMatches();
       if (editingId === id) setEditingId(null);
       setStatusMsg('🗑️ Deleted match.');
@@ -1027,7 +695,7 @@ export default function AdminScheduleScreen() {
     }
 
     try {
-      await deleteWeekFromSupabase(targetWeek);
+      await deleteMatchesForWeek(targetWeek);
       await refreshMatches();
 
       setShowClearWeekConfirm(false);
@@ -1047,6 +715,273 @@ export default function AdminScheduleScreen() {
     setClearWeekConfirmText('');
   };
 
+  // =============================
+  // ✅ Generate Week (round-robin from PRESENT teams)
+  // =============================
+  const generateWeekNow = () => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    if (weekNum <= 0) {
+      setErrorMsg('Enter a valid week number first.');
+      return;
+    }
+
+    const rounds = safeInt(genMatchesPerTeam, 0);
+    if (rounds <= 0) {
+      setErrorMsg('Matches per team must be 1 or higher.');
+      return;
+    }
+
+    const courtCount = Math.min(night.courts.length, safeInt(genCourtCount, 0));
+    if (courtCount <= 0) {
+      setErrorMsg(
+        night.courts.length === 0
+          ? `No courts are open in Week ${weekNum}.`
+          : `Courts must be between 1 and ${night.courts.length}.`
+      );
+      return;
+    }
+
+    const divisions = divisionOrder().map((d) => ({
+      division: d,
+      teams: (teamsByDivision[d] ?? []).filter((t) => !isTeamOutForTypedWeek(t)),
+    }));
+
+    const thisWeek = savedMatches.filter((m) => m.week === weekNum);
+
+    const result = generateWeek<Division>({
+      week: weekNum,
+      divisions,
+      times: night.times,
+      courts: night.courts.slice(0, courtCount).map((c) => c.number),
+      matchesPerTeam: rounds,
+      slotsPerRound: genSlotsPerRound,
+      startTime: genStartTime,
+      history: savedMatches.map((m) => ({ week: m.week, teamA: m.teamA, teamB: m.teamB })),
+      booked: thisWeek.map((m) => ({ time: m.time, court: m.court, teamA: m.teamA, teamB: m.teamB })),
+    });
+
+    if (result.matches.length === 0) {
+      setGenPreview(null);
+      setErrorMsg(result.warnings[0] ?? `Nothing to generate for Week ${weekNum}.`);
+      return;
+    }
+
+    setGenPreview({ week: weekNum, result });
+  };
+
+  const discardGeneratedWeek = () => {
+    setGenPreview(null);
+  };
+
+  const doSaveGeneratedWeek = async () => {
+    if (!genPreview) return;
+
+    const now = Date.now();
+    const records: SavedMatch[] = genPreview.result.matches.map((g, i) => ({
+      id: `${now}_${i}_${Math.random().toString(16).slice(2)}`,
+      week: g.week,
+      division: g.division,
+      time: g.time,
+      court: g.court,
+      teamA: g.teamA,
+      teamB: g.teamB,
+      createdAt: now + i,
+    }));
+
+    try {
+      setGenSaving(true);
+      await bulkInsertMatches(sortMatches(records));
+      await refreshMatches();
+
+      // 🔔 Each team playing gets its times + opponents (best effort)
+      const pushed = await notifySchedulePublished(records).catch(() => null);
+
+      setListWeekFilter(String(genPreview.week));
+      setStatusMsg(
+        `✅ Saved ${records.length} generated matches for Week ${genPreview.week}.` +
+          (pushed ? ` Notified ${pushed.sent} device(s).` : '')
+      );
+      setGenPreview(null);
+    } catch (e: any) {
+      const msg = e?.message || String(e);
+      setErrorMsg(msg);
+      showPopup('Supabase Error', msg);
+    } finally {
+      setGenSaving(false);
+    }
+  };
+
+  const saveGeneratedWeek = async () => {
+    if (!genPreview) return;
+
+    const existing = savedMatches.filter((m) => m.week === genPreview.week).length;
+    if (existing === 0) {
+      await doSaveGeneratedWeek();
+      return;
+    }
+
+    const message = `Week ${genPreview.week} already has ${existing} saved match(es).\n\nThe generated matches avoid their courts/times and will be ADDED alongside them.\n\nDo you want to continue?`;
+
+    if (Platform.OS === 'web') {
+      const ok = typeof window !== 'undefined' ? window.confirm(message) : false;
+      if (ok) await doSaveGeneratedWeek();
+      return;
+    }
+
+    Alert.alert('Save Generated Week', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Continue', style: 'destructive', onPress: () => void doSaveGeneratedWeek() },
+    ]);
+  };
+
+  // =============================
+  // ✅ CSV export / import
+  // =============================
+  const exportMatchesCsv = async (allDivisions: boolean) => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const w = listWeekFilter === 'ALL' ? 0 : safeInt(listWeekFilter, 0);
+    const list = savedMatches.filter(
+      (m) => (w <= 0 || m.week === w) && (allDivisions || m.division === division)
+    );
+    if (list.length === 0) {
+      setErrorMsg('No saved matches to export for this week.');
+      return;
+    }
+
+    const fileName = csvFileName([
+      'matches',
+      w > 0 ? `week ${w}` : 'all weeks',
+      allDivisions ? 'all divisions' : division,
+    ]);
+
+    try {
+      await shareTextFile(fileName, matchesCsv(list), CSV_MIME_TYPE);
+      setStatusMsg(`✅ Exported ${list.length} match(es) to ${fileName}.`);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Could not create the CSV file.');
+    }
+  };
+
+  const changeCsvText = (text: string) => {
+    setCsvText(text);
+    setCsvReport(null);
+  };
+
+  const chooseCsvFile = async () => {
+    const text = await pickTextFileOnWeb('.csv,text/csv');
+    if (text != null) changeCsvText(text);
+  };
+
+  // Dry run: validates every row against what Supabase has right now. Nothing is written.
+  const checkCsvImport = async (): Promise<ScheduleImportReport | null> => {
+    setStatusMsg('');
+    setErrorMsg('');
+    setCsvChecking(true);
+
+    try {
+      const weeks = weeksInScheduleCsv(csvText);
+      const [existing, moves, attendanceMaps] = await Promise.all([
+        fetchMatches(),
+        fetchDivisionMoves(),
+        Promise.all(weeks.map((w) => fetchAttendanceMap(w))),
+      ]);
+
+      const teamsByWeek: Record<number, Record<Division, string[]>> = {};
+      const attendanceByWeek: Record<number, AttendanceMap> = {};
+      weeks.forEach((w, i) => {
+        teamsByWeek[w] = applyDivisionMoves(baseTeamsByDivision, moves, w);
+        attendanceByWeek[w] = attendanceMaps[i];
+      });
+
+      const config = await fetchLeagueNightConfig();
+      setNightConfig(config);
+
+      const report = validateScheduleImport(csvText, {
+        nightForWeek: (w) => resolveLeagueNight(config, w),
+        existing,
+        teamsByWeek,
+        attendanceByWeek,
+      });
+
+      setSavedMatches(sortMatches(existing));
+      setCsvReport(report);
+      return report;
+    } catch (e: any) {
+      const msg = e?.message || String(e);
+      setCsvReport(null);
+      setErrorMsg(msg);
+      showPopup('Supabase Error', msg);
+      return null;
+    } finally {
+      setCsvChecking(false);
+    }
+  };
+
+  const doImportCsv = async (report: ScheduleImportReport) => {
+    const now = Date.now();
+    const records: SavedMatch[] = report.matches.map((m, i) => ({
+      ...m,
+      id: `${now}_${i}_${Math.random().toString(16).slice(2)}`,
+      createdAt: now + i,
+    }));
+
+    try {
+      setCsvImporting(true);
+      await bulkInsertMatches(sortMatches(records));
+      await refreshMatches();
+
+      // 🔔 Same heads-up as a generated week (best effort)
+      const pushed = await notifySchedulePublished(records).catch(() => null);
+
+      const weeks = Array.from(new Set(records.map((r) => r.week))).sort((a, b) => a - b);
+      setListWeekFilter(String(weeks[0]));
+      setStatusMsg(
+        `✅ Imported ${records.length} matches (Week ${weeks.join(', ')}).` +
+          (pushed ? ` Notified ${pushed.sent} device(s).` : '')
+      );
+      setCsvText('');
+      setCsvReport(null);
+    } catch (e: any) {
+      const msg = e?.message || String(e);
+      setErrorMsg(msg);
+      showPopup('Supabase Error', msg);
+    } finally {
+      setCsvImporting(false);
+    }
+  };
+
+  const importCsv = async () => {
+    // Re-check right before writing so matches saved since the dry run are accounted for
+    const report = await checkCsvImport();
+    if (!report) return;
+
+    if (report.fileError || report.errorCount > 0 || report.matches.length === 0) {
+      setErrorMsg(
+        report.fileError ?? `Fix the ${report.errorCount} row(s) with errors, then check again.`
+      );
+      return;
+    }
+
+    const message =
+      `Import ${report.matches.length} match(es)?` +
+      (report.warningCount > 0 ? `\n\n${report.warningCount} row(s) have warnings (see the report).` : '');
+
+    if (Platform.OS === 'web') {
+      const ok = typeof window !== 'undefined' ? window.confirm(message) : false;
+      if (ok) await doImportCsv(report);
+      return;
+    }
+
+    Alert.alert('Import Matches', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Import', style: 'destructive', onPress: () => void doImportCsv(report) },
+    ]);
+  };
+
   // ✅ When division OR team sources change, keep team selection valid
   useEffect(() => {
     const list = teams;
@@ -1076,6 +1011,10 @@ export default function AdminScheduleScreen() {
   const targetWeekPreview = getTargetWeekForClearWeek();
   const deleteEnabled = clearWeekConfirmText.trim() === 'Delete';
 
+  // ✅ Import only after a clean dry run
+  const csvReady =
+    !!csvReport && !csvReport.fileError && csvReport.errorCount === 0 && csvReport.matches.length > 0;
+
   const COLOR_GREEN = '#1f8a3b';
   const COLOR_RED = '#b3261e';
   const COLOR_YELLOW = '#f4c542';
@@ -1154,6 +1093,14 @@ export default function AdminScheduleScreen() {
     return count;
   };
 
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
   return (
     <ScrollView contentContainerStyle={{ padding: contentPadding }}>
       <Text style={{ fontSize: 24, fontWeight: 'bold', marginBottom: 12 }}>
@@ -1199,9 +1146,32 @@ export default function AdminScheduleScreen() {
         }}
       />
 
+      {/* ✅ This week's league night (venue, slots, closed courts) */}
+      {weekNum > 0 ? (
+        <View style={{ borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, marginBottom: 14 }}>
+          <Text style={{ fontWeight: '900' }}>
+            {night.venue.name} • {night.times[0] ?? '?'} – {night.times[night.times.length - 1] ?? '?'} •{' '}
+            {night.courts.length} court(s) open
+          </Text>
+          {night.closedCourts.length > 0 ? (
+            <Text style={{ color: '#b26a00', marginTop: 4 }}>
+              Closed this week: {night.closedCourts.map((c) => c.name).join(', ')}
+            </Text>
+          ) : null}
+          {night.note ? <Text style={{ color: '#444', marginTop: 4 }}>{night.note}</Text> : null}
+          {misplacedThisWeek.length > 0 ? (
+            <Text style={{ color: '#b00020', fontWeight: '800', marginTop: 6 }}>
+              ⚠️ {misplacedThisWeek.length} saved match(es) don&apos;t fit this night:{' '}
+              {misplacedThisWeek.map((m) => `${m.time} ${courtLabel(night, m.court)}`).join(', ')}. Edit them to move
+              them.
+            </Text>
+          ) : null}
+        </View>
+      ) : null}
+
       <Text style={{ fontWeight: '800', marginBottom: 6 }}>Division</Text>
-      <View style={{ flexDirection: 'row', gap: 8, marginBottom: 14 }}>
-        {(['Advanced', 'Intermediate', 'Beginner'] as Division[]).map((d) => {
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 14 }}>
+        {divisionOrder().map((d) => {
           const active = d === division;
           return (
             <Pressable
@@ -1225,7 +1195,7 @@ export default function AdminScheduleScreen() {
       <Text style={{ fontWeight: '800', marginBottom: 6 }}>Time</Text>
       <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 14 }}>
         <Picker selectedValue={time} onValueChange={(v) => setTime(String(v))}>
-          {TIMES.map((t) => (
+          {night.times.map((t) => (
             <Picker.Item key={t} label={t} value={t} />
           ))}
         </Picker>
@@ -1234,8 +1204,8 @@ export default function AdminScheduleScreen() {
       <Text style={{ fontWeight: '800', marginBottom: 6 }}>Court</Text>
       <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 14 }}>
         <Picker selectedValue={court} onValueChange={(v) => setCourt(Number(v))}>
-          {COURTS.map((c) => (
-            <Picker.Item key={c} label={`${c}`} value={c} />
+          {night.courts.map((c) => (
+            <Picker.Item key={c.number} label={c.name} value={c.number} />
           ))}
         </Picker>
       </View>
@@ -1362,6 +1332,314 @@ export default function AdminScheduleScreen() {
         </View>
       ) : null}
 
+      {/* ✅ Generate Week */}
+      <View
+        style={{
+          borderWidth: 1,
+          borderColor: '#ccc',
+          borderRadius: 12,
+          padding: 12,
+          marginBottom: 18,
+        }}
+      >
+        <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 6 }}>
+          Generate Week {weekNum > 0 ? weekNum : ''}
+        </Text>
+        <Text style={{ color: '#444', marginBottom: 10 }}>
+          Builds a full round-robin night from teams marked PRESENT, avoiding rematches across the
+          season. You get a preview first — nothing is saved until you confirm.
+        </Text>
+
+        <View style={{ flexDirection: 'row', gap: 10, marginBottom: 10 }}>
+          <View style={{ flex: 1 }}>
+            <Text style={{ fontWeight: '800', marginBottom: 6 }}>Matches per team</Text>
+            <TextInput
+              value={genMatchesPerTeam}
+              onChangeText={setGenMatchesPerTeam}
+              keyboardType="number-pad"
+              style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12 }}
+            />
+          </View>
+
+          <View style={{ flex: 1 }}>
+            <Text style={{ fontWeight: '800', marginBottom: 6 }}>Courts (of {night.courts.length} open)</Text>
+            <TextInput
+              value={genCourtCount}
+              onChangeText={setGenCourtCount}
+              keyboardType="number-pad"
+              style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12 }}
+            />
+          </View>
+        </View>
+
+        <Text style={{ fontWeight: '800', marginBottom: 6 }}>First round starts at</Text>
+        <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
+          <Picker selectedValue={genStartTime} onValueChange={(v) => setGenStartTime(String(v))}>
+            {night.times.map((t) => (
+              <Picker.Item key={t} label={t} value={t} />
+            ))}
+          </Picker>
+        </View>
+
+        <Text style={{ fontWeight: '800', marginBottom: 6 }}>Round length</Text>
+        <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 12 }}>
+          <Picker selectedValue={genSlotsPerRound} onValueChange={(v) => setGenSlotsPerRound(Number(v))}>
+            {[1, 2, 3, 4].map((n) => (
+              <Picker.Item key={n} label={`${n * night.template.stepMinutes} minutes`} value={n} />
+            ))}
+          </Picker>
+        </View>
+
+        <Pressable
+          onPress={generateWeekNow}
+          disabled={weekNum <= 0}
+          style={{
+            backgroundColor: weekNum > 0 ? 'black' : '#999',
+            padding: 14,
+            borderRadius: 10,
+            alignItems: 'center',
+            opacity: weekNum > 0 ? 1 : 0.5,
+          }}
+        >
+          <Text style={{ color: 'white', fontSize: 16, fontWeight: '900' }}>
+            Generate Week {weekNum > 0 ? weekNum : ''}
+          </Text>
+        </Pressable>
+
+        {genPreview ? (
+          <View style={{ marginTop: 14 }}>
+            <Text style={{ fontWeight: '900', marginBottom: 4 }}>
+              Preview — Week {genPreview.week}: {genPreview.result.matches.length} matches •{' '}
+              {genPreview.result.rematches} rematch(es)
+            </Text>
+
+            {genPreview.result.byes.length > 0 ? (
+              <Text style={{ color: '#444', marginBottom: 4 }}>
+                Byes:{' '}
+                {genPreview.result.byes.map((b) => `${b.team} (round ${b.round})`).join(', ')}
+              </Text>
+            ) : null}
+
+            {genPreview.result.warnings.map((w, i) => (
+              <Text key={`gen-warn-${i}`} style={{ color: '#b00020', fontWeight: '800', marginBottom: 4 }}>
+                ⚠️ {w}
+              </Text>
+            ))}
+
+            <View style={{ borderWidth: 1, borderColor: '#eee', borderRadius: 12, marginTop: 6, marginBottom: 10 }}>
+              {sortMatches(
+                genPreview.result.matches.map((g, i) => ({ ...g, id: String(i), createdAt: i }))
+              ).map((g, idx) => (
+                <View
+                  key={`gen-${g.id}`}
+                  style={{
+                    flexDirection: 'row',
+                    paddingVertical: 8,
+                    paddingHorizontal: 10,
+                    borderTopWidth: idx === 0 ? 0 : 1,
+                    borderTopColor: '#eee',
+                  }}
+                >
+                  <Text style={{ width: 80, fontWeight: '800', fontSize: 12 }}>{g.time}</Text>
+                  <Text style={{ width: 50, fontSize: 12 }}>Ct {g.court}</Text>
+                  <Text style={{ flex: 1, fontSize: 12 }}>
+                    {g.teamA} vs {g.teamB}
+                  </Text>
+                  <Text style={{ width: 90, fontSize: 12, color: '#666', textAlign: 'right' }}>
+                    {g.division}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            <View style={{ flexDirection: 'row', gap: 10 }}>
+              <Pressable
+                onPress={() => void saveGeneratedWeek()}
+                disabled={genSaving}
+                style={{
+                  backgroundColor: genSaving ? '#999' : '#1f8a3b',
+                  paddingVertical: 12,
+                  borderRadius: 10,
+                  alignItems: 'center',
+                  flex: 1,
+                }}
+              >
+                <Text style={{ color: 'white', fontWeight: '900' }}>
+                  {genSaving ? 'Saving…' : 'Save Generated Week'}
+                </Text>
+              </Pressable>
+
+              <Pressable
+                onPress={discardGeneratedWeek}
+                disabled={genSaving}
+                style={{
+                  borderWidth: 1,
+                  borderColor: '#999',
+                  paddingVertical: 12,
+                  borderRadius: 10,
+                  alignItems: 'center',
+                  flex: 1,
+                }}
+              >
+                <Text style={{ fontWeight: '900' }}>Discard</Text>
+              </Pressable>
+            </View>
+          </View>
+        ) : null}
+      </View>
+
+      {/* ✅ Spreadsheet (CSV) export + import */}
+      <View
+        style={{
+          borderWidth: 1,
+          borderColor: '#ccc',
+          borderRadius: 12,
+          padding: 12,
+          marginBottom: 18,
+        }}
+      >
+        <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 6 }}>Spreadsheet (CSV)</Text>
+        <Text style={{ color: '#444', marginBottom: 10 }}>
+          Export uses the week picked under View Saved Matches. Import reads the same columns: week,
+          division, time, court, team_a, team_b. Court can be a number or the court&apos;s name at that week&apos;s
+          venue.
+        </Text>
+
+        <View style={{ flexDirection: 'row', gap: 10, marginBottom: 14 }}>
+          <Pressable
+            onPress={() => void exportMatchesCsv(false)}
+            style={{
+              borderWidth: 1,
+              borderColor: '#111',
+              paddingVertical: 12,
+              borderRadius: 10,
+              alignItems: 'center',
+              flex: 1,
+            }}
+          >
+            <Text style={{ fontWeight: '900' }}>Export {division}</Text>
+          </Pressable>
+
+          <Pressable
+            onPress={() => void exportMatchesCsv(true)}
+            style={{
+              borderWidth: 1,
+              borderColor: '#111',
+              paddingVertical: 12,
+              borderRadius: 10,
+              alignItems: 'center',
+              flex: 1,
+            }}
+          >
+            <Text style={{ fontWeight: '900' }}>Export All Divisions</Text>
+          </Pressable>
+        </View>
+
+        <Text style={{ fontWeight: '800', marginBottom: 6 }}>Import matches</Text>
+        {Platform.OS === 'web' ? (
+          <Pressable onPress={() => void chooseCsvFile()} style={{ marginBottom: 8 }}>
+            <Text style={{ fontWeight: '900', color: '#1565c0' }}>📄 Choose a .csv file…</Text>
+          </Pressable>
+        ) : null}
+        <TextInput
+          value={csvText}
+          onChangeText={changeCsvText}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          placeholder={'week,division,time,court,team_a,team_b\n3,Beginner,6:00 PM,1,Team One,Team Two'}
+          style={{
+            borderWidth: 1,
+            borderColor: '#ccc',
+            borderRadius: 10,
+            padding: 12,
+            minHeight: 110,
+            textAlignVertical: 'top',
+            marginBottom: 10,
+          }}
+        />
+
+        <View style={{ flexDirection: 'row', gap: 10 }}>
+          <Pressable
+            onPress={() => void checkCsvImport()}
+            disabled={csvChecking || csvImporting || !csvText.trim()}
+            style={{
+              borderWidth: 1,
+              borderColor: '#999',
+              paddingVertical: 12,
+              borderRadius: 10,
+              alignItems: 'center',
+              flex: 1,
+              opacity: csvChecking || csvImporting || !csvText.trim() ? 0.5 : 1,
+            }}
+          >
+            <Text style={{ fontWeight: '900' }}>{csvChecking ? 'Checking…' : 'Check (Dry Run)'}</Text>
+          </Pressable>
+
+          <Pressable
+            onPress={() => void importCsv()}
+            disabled={!csvReady || csvChecking || csvImporting}
+            style={{
+              backgroundColor: csvReady && !csvChecking && !csvImporting ? '#1f8a3b' : '#999',
+              paddingVertical: 12,
+              borderRadius: 10,
+              alignItems: 'center',
+              flex: 1,
+            }}
+          >
+            <Text style={{ color: 'white', fontWeight: '900' }}>
+              {csvImporting ? 'Importing…' : csvReady ? `Import ${csvReport.matches.length} Match(es)` : 'Import'}
+            </Text>
+          </Pressable>
+        </View>
+
+        {csvReport ? (
+          <View style={{ marginTop: 14 }}>
+            {csvReport.fileError ? (
+              <Text style={{ color: '#b00020', fontWeight: '800' }}>⚠️ {csvReport.fileError}</Text>
+            ) : (
+              <>
+                <Text style={{ fontWeight: '900', marginBottom: 6 }}>
+                  Dry run — {csvReport.rows.length} row(s): {csvReport.matches.length} ready •{' '}
+                  {csvReport.errorCount} with errors • {csvReport.warningCount} with warnings
+                </Text>
+
+                <View style={{ borderWidth: 1, borderColor: '#eee', borderRadius: 12 }}>
+                  {csvReport.rows.map((r, idx) => (
+                    <View
+                      key={`csv-${r.line}`}
+                      style={{
+                        paddingVertical: 8,
+                        paddingHorizontal: 10,
+                        borderTopWidth: idx === 0 ? 0 : 1,
+                        borderTopColor: '#eee',
+                      }}
+                    >
+                      <Text style={{ fontSize: 12, fontWeight: '800' }}>
+                        {r.errors.length > 0 ? '⛔' : '✅'} Line {r.line}
+                        {r.match
+                          ? ` • Week ${r.match.week} • ${r.match.time} • Ct ${r.match.court} • ${r.match.teamA} vs ${r.match.teamB} (${r.match.division})`
+                          : ''}
+                      </Text>
+                      {r.errors.map((e, i) => (
+                        <Text key={`csv-${r.line}-e${i}`} style={{ fontSize: 12, color: '#b00020' }}>
+                          {e}
+                        </Text>
+                      ))}
+                      {r.warnings.map((w, i) => (
+                        <Text key={`csv-${r.line}-w${i}`} style={{ fontSize: 12, color: '#b26a00' }}>
+                          ⚠️ {w}
+                        </Text>
+                      ))}
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+        ) : null}
+      </View>
+
       <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 10 }}>Saved Matches</Text>
 
       {filteredSavedMatches.length === 0 ? (
@@ -0,0 +1,273 @@
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, Text, View } from 'react-native';
+
+import {
+  fetchMatchScores,
+  fetchMatches,
+  upsertMatchScore,
+  type PersistedMatchScore,
+  type SavedMatch,
+  type ScoreFields,
+} from '@/constants/leagueData';
+import { advancePlayoffs } from '@/constants/playoffs';
+import { overrideScore, scoreStatusLabel } from '@/constants/scoreConfirmation';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+const GAMES: (keyof ScoreFields)[] = ['g1', 'g2', 'g3'];
+
+// ✅ confirm helper that works on web + native
+function confirmPopup(title: string, message: string, okText: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    const ok = typeof window !== 'undefined' ? window.confirm(`${title}\n\n${message}`) : false;
+    return Promise.resolve(ok);
+  }
+
+  return new Promise((resolve) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: okText, onPress: () => resolve(true) },
+    ]);
+  });
+}
+
+function gameText(teamA: ScoreFields, teamB: ScoreFields, g: keyof ScoreFields) {
+  return `${teamA[g] || '-'} – ${teamB[g] || '-'}`;
+}
+
+type QueueItem = { match: SavedMatch; score: PersistedMatchScore };
+
+export default function AdminScoreDisputesScreen() {
+  const allowed = useRoleGuard('league_admin');
+
+  const [matches, setMatches] = useState<SavedMatch[]>([]);
+  const [scores, setScores] = useState<Record<string, PersistedMatchScore>>({});
+
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const [list, map] = await Promise.all([fetchMatches(), fetchMatchScores()]);
+      setMatches(list);
+      setScores(map);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load match scores from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (allowed) void load();
+    }, [allowed, load])
+  );
+
+  // ✅ Realtime: new disputes / confirmations show up while the queue is open
+  useLiveRefresh(['match_scores'], () => {
+    if (allowed) void load();
+  });
+
+  const byStatus = useMemo(() => {
+    const disputed: QueueItem[] = [];
+    const waiting: QueueItem[] = [];
+
+    for (const match of matches) {
+      const score = scores[match.id];
+      if (!score) continue;
+      if (score.status === 'disputed' && score.dispute) disputed.push({ match, score });
+      else if (score.status === 'submitted') waiting.push({ match, score });
+    }
+
+    const byWeek = (a: QueueItem, b: QueueItem) => a.match.week - b.match.week || a.match.court - b.match.court;
+    return { disputed: disputed.sort(byWeek), waiting: waiting.sort(byWeek) };
+  }, [matches, scores]);
+
+  const onAccept = async (item: QueueItem, teamA: ScoreFields, teamB: ScoreFields, source: string) => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const { match: m } = item;
+    const ok = await confirmPopup(
+      'Make official?',
+      `Week ${m.week} • ${m.teamA} vs ${m.teamB}\n\nUse ${source}'s scores: ${GAMES.map((g) => gameText(teamA, teamB, g)).join(', ')}`,
+      'Make Official'
+    );
+    if (!ok) return;
+
+    setLoading(true);
+    try {
+      await upsertMatchScore(overrideScore(item.score, m.id, teamA, teamB, 'ADMIN'));
+      if (m.stage === 'playoff') await advancePlayoffs().catch(() => null);
+      setStatusMsg(`✅ Week ${m.week} ${m.teamA} vs ${m.teamB} now uses ${source}'s scores.`);
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save scores to Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  const cell = { flex: 1, textAlign: 'center' as const, paddingVertical: 6 };
+
+  const actionBtn = {
+    flex: 1,
+    backgroundColor: '#111',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    alignItems: 'center' as const,
+  };
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — Score Disputes</Text>
+
+      <Text style={{ color: '#444', marginBottom: 16 }}>
+        Scores count in the standings only after the other team confirms them, or after you make a version official
+        here. Differences between the two versions are highlighted.
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 10 }}>
+        Disputed ({byStatus.disputed.length})
+      </Text>
+
+      {byStatus.disputed.length === 0 ? (
+        <Text style={{ color: '#666', marginBottom: 18 }}>No disputes right now.</Text>
+      ) : (
+        <View style={{ gap: 12, marginBottom: 18 }}>
+          {byStatus.disputed.map((item) => {
+            const { match: m, score: p } = item;
+            const d = p.dispute!;
+            const submitter = p.submittedByTeam ?? 'Submitted';
+
+            return (
+              <View
+                key={m.id}
+                style={{ borderWidth: 2, borderColor: '#b26a00', borderRadius: 12, padding: 12, backgroundColor: 'white' }}
+              >
+                <Text style={{ fontWeight: '900', fontSize: 16 }}>
+                  Week {m.week} • {m.division} • {m.time} • Court {m.court}
+                </Text>
+                <Text style={{ fontWeight: '800', marginBottom: 8 }}>
+                  {m.teamA} vs {m.teamB}
+                </Text>
+
+                <View style={{ flexDirection: 'row', borderBottomWidth: 1, borderBottomColor: '#000' }}>
+                  <Text style={[cell, { flex: 0.6, fontWeight: '900' }]}>Game</Text>
+                  <Text style={[cell, { fontWeight: '900' }]} numberOfLines={2}>
+                    {submitter}
+                  </Text>
+                  <Text style={[cell, { fontWeight: '900' }]} numberOfLines={2}>
+                    {d.team}
+                  </Text>
+                </View>
+
+                {GAMES.map((g, idx) => {
+                  const differs = p.teamA[g] !== d.teamA[g] || p.teamB[g] !== d.teamB[g];
+                  return (
+                    <View
+                      key={g}
+                      style={{ flexDirection: 'row', backgroundColor: differs ? '#fff3e0' : 'white' }}
+                    >
+                      <Text style={[cell, { flex: 0.6, fontWeight: '800' }]}>G{idx + 1}</Text>
+                      <Text style={[cell, { fontWeight: differs ? '900' : '400' }]}>{gameText(p.teamA, p.teamB, g)}</Text>
+                      <Text style={[cell, { fontWeight: differs ? '900' : '400' }]}>{gameText(d.teamA, d.teamB, g)}</Text>
+                    </View>
+                  );
+                })}
+
+                <Text style={{ color: '#666', marginTop: 6, marginBottom: 10 }}>
+                  Scores shown as {m.teamA} – {m.teamB}. Submitted by {p.submittedBy ?? submitter}; disputed by{' '}
+                  {d.by ?? d.team}.
+                </Text>
+
+                <View style={{ flexDirection: 'row', gap: 10 }}>
+                  <Pressable
+                    onPress={() => onAccept(item, p.teamA, p.teamB, submitter)}
+                    disabled={loading}
+                    style={[actionBtn, { opacity: loading ? 0.6 : 1 }]}
+                  >
+                    <Text style={{ color: 'white', fontWeight: '900' }} numberOfLines={2}>
+                      Use {submitter}
+                    </Text>
+                  </Pressable>
+                  <Pressable
+                    onPress={() => onAccept(item, d.teamA, d.teamB, d.team)}
+                    disabled={loading}
+                    style={[actionBtn, { opacity: loading ? 0.6 : 1 }]}
+                  >
+                    <Text style={{ color: 'white', fontWeight: '900' }} numberOfLines={2}>
+                      Use {d.team}
+                    </Text>
+                  </Pressable>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 10 }}>
+        Waiting for Confirmation ({byStatus.waiting.length})
+      </Text>
+
+      {byStatus.waiting.length === 0 ? (
+        <Text style={{ color: '#666' }}>Every submitted score has been confirmed.</Text>
+      ) : (
+        <View style={{ gap: 10 }}>
+          {byStatus.waiting.map((item) => {
+            const { match: m, score: p } = item;
+            return (
+              <View
+                key={m.id}
+                style={{ borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, backgroundColor: 'white' }}
+              >
+                <Text style={{ fontWeight: '900' }}>
+                  Week {m.week} • {m.teamA} vs {m.teamB}
+                </Text>
+                <Text style={{ color: '#333', marginBottom: 4 }}>
+                  {GAMES.map((g) => gameText(p.teamA, p.teamB, g)).join(', ')}
+                </Text>
+                <Text style={{ color: '#666', marginBottom: 8 }}>{scoreStatusLabel(p)}</Text>
+
+                <Pressable
+                  onPress={() => onAccept(item, p.teamA, p.teamB, p.submittedByTeam ?? 'the submitting team')}
+                  disabled={loading}
+                  style={{
+                    alignSelf: 'flex-start',
+                    borderWidth: 1,
+                    borderColor: '#111',
+                    paddingVertical: 8,
+                    paddingHorizontal: 12,
+                    borderRadius: 10,
+                    opacity: loading ? 0.6 : 1,
+                  }}
+                >
+                  <Text style={{ fontWeight: '900' }}>Make Official</Text>
+                </Pressable>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,654 @@
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect, useRouter } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import { matchTimeMinutes } from '@/constants/leagueCalendar';
+import {
+  DEFAULT_LEAGUE_NIGHT_CONFIG,
+  courtLabel,
+  fetchLeagueNightConfig,
+  resolveLeagueNight,
+  type LeagueNightConfig,
+} from '@/constants/leagueNights';
+import { notifySchedulePublished } from '@/constants/push';
+import { planSeason, type DeclaredBye, type SeasonPlan } from '@/constants/scheduleGenerator';
+import {
+  compareDivisions,
+  divisionOrder,
+  emptyByDivision,
+  applyDivisionMoves,
+  bulkInsertMatches,
+  deleteMatchesForWeek,
+  deleteTeamBye,
+  fetchDivisionMoves,
+  fetchMatchScores,
+  fetchMatches,
+  fetchTeamByes,
+  fetchTeamsByDivision,
+  upsertTeamBye,
+  type Division,
+  type DivisionMove,
+  type SavedMatch,
+  type TeamBye,
+} from '@/constants/leagueData';
+import { baselineTeamsFor } from '@/constants/seasons';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+function safeInt(value: string, fallback: number) {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function weekNames(weeks: number[]) {
+  return weeks.map((w) => `Week ${w}`).join(', ');
+}
+
+function uniqSorted(list: string[]) {
+  const set = new Set<string>();
+  for (const t of list) set.add((t || '').trim());
+  return Array.from(set)
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+// ✅ confirm helper that works on web + native
+function confirmPopup(title: string, message: string, okText: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    const ok = typeof window !== 'undefined' ? window.confirm(`${title}\n\n${message}`) : false;
+    return Promise.resolve(ok);
+  }
+
+  return new Promise((resolve) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: okText, style: 'destructive', onPress: () => resolve(true) },
+    ]);
+  });
+}
+
+export default function AdminSeasonPlannerScreen() {
+  const router = useRouter();
+  const allowed = useRoleGuard('league_admin');
+
+  const [loading, setLoading] = useState(true);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const [dbTeams, setDbTeams] = useState<Record<Division, string[]>>(() => emptyByDivision<string[]>(() => []));
+  const [savedMatches, setSavedMatches] = useState<SavedMatch[]>([]);
+  const [moves, setMoves] = useState<DivisionMove[]>([]);
+  const [byes, setByes] = useState<TeamBye[]>([]);
+  const [nightConfig, setNightConfig] = useState<LeagueNightConfig>(DEFAULT_LEAGUE_NIGHT_CONFIG);
+
+  // Planner inputs
+  const [fromWeek, setFromWeek] = useState('1');
+  const [weekCount, setWeekCount] = useState('10');
+  const [matchesPerTeam, setMatchesPerTeam] = useState('1');
+  const [courtCount, setCourtCount] = useState(''); // blank = every open court
+  const [startTime, setStartTime] = useState<string>('');
+  const [slotsPerRound, setSlotsPerRound] = useState<number>(1);
+
+  // Bye input
+  const [byeTeam, setByeTeam] = useState('');
+  const [byeWeek, setByeWeek] = useState('');
+
+  // Plan + review
+  const [plan, setPlan] = useState<SeasonPlan<Division> | null>(null);
+  const [reviewWeek, setReviewWeek] = useState<number | null>(null);
+  const [committing, setCommitting] = useState(false);
+
+  const loadAll = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const [t, m, mv, b, nights] = await Promise.all([
+        fetchTeamsByDivision(),
+        fetchMatches(),
+        fetchDivisionMoves(),
+        fetchTeamByes(),
+        fetchLeagueNightConfig(),
+      ]);
+      const names: Record<Division, string[]> = {};
+      for (const [division, list] of Object.entries(t)) names[division] = list.map((r) => r.name);
+      setDbTeams(names);
+      setSavedMatches(m);
+      setMoves(mv);
+      setByes(b);
+      setNightConfig(nights);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load planner data from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // ✅ Load data each time you open it (once the role guard allows)
+  useFocusEffect(
+    useCallback(() => {
+      if (allowed) void loadAll();
+    }, [allowed, loadAll])
+  );
+
+  // ✅ Rosters = baseline + teams table (division moves are applied per planned week)
+  const baseRosters = useMemo(() => {
+    const baseline = baselineTeamsFor();
+    const out: Record<Division, string[]> = {};
+    for (const d of divisionOrder()) out[d] = uniqSorted([...(baseline[d] ?? []), ...(dbTeams[d] ?? [])]);
+    return out;
+  }, [dbTeams]);
+
+  const allTeams = useMemo(() => {
+    return uniqSorted(Object.values(baseRosters).flat());
+  }, [baseRosters]);
+
+  const fromWeekNum = safeInt(fromWeek, 0);
+
+  // The first planned week's night drives the start-time / round-length pickers;
+  // each planned week still uses its own venue, slots and open courts
+  const firstNight = useMemo(
+    () => resolveLeagueNight(nightConfig, Math.max(1, fromWeekNum)),
+    [nightConfig, fromWeekNum]
+  );
+
+  const onAddBye = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const team = byeTeam.trim();
+    const wk = safeInt(byeWeek, 0);
+    if (!team) {
+      setErrorMsg('Choose a team for the bye.');
+      return;
+    }
+    if (wk <= 0) {
+      setErrorMsg('Bye week must be 1 or higher.');
+      return;
+    }
+
+    try {
+      await upsertTeamBye(team, wk);
+      setByes(await fetchTeamByes());
+      setByeWeek('');
+      setStatusMsg(`✅ ${team} has a bye in Week ${wk}.`);
+    } catch (e: any) {
+      setErrorMsg(e?.message || String(e));
+    }
+  };
+
+  const onDeleteBye = async (row: TeamBye) => {
+    try {
+      await deleteTeamBye(row.id);
+      setByes(await fetchTeamByes());
+    } catch (e: any) {
+      setErrorMsg(e?.message || String(e));
+    }
+  };
+
+  const runPlanner = () => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const weeks = safeInt(weekCount, 0);
+    const rounds = safeInt(matchesPerTeam, 0);
+    const courts = courtCount.trim() === '' ? Number.MAX_SAFE_INTEGER : safeInt(courtCount, 0);
+
+    if (fromWeekNum <= 0 || weeks <= 0) {
+      setErrorMsg('Enter a starting week and number of weeks (both 1 or higher).');
+      return;
+    }
+    if (rounds <= 0) {
+      setErrorMsg('Matches per team must be 1 or higher.');
+      return;
+    }
+    if (courts <= 0) {
+      setErrorMsg('Courts must be 1 or higher (leave it blank to use every open court).');
+      return;
+    }
+
+    // Weeks before the re-plan point are kept and count toward balance
+    const kept = savedMatches.filter((m) => m.week < fromWeekNum);
+
+    const result = planSeason<Division>({
+      fromWeek: fromWeekNum,
+      weeks,
+      rostersForWeek: (w) => {
+        const rosters = applyDivisionMoves(baseRosters, moves, w);
+        return divisionOrder().map((d) => ({ division: d, teams: rosters[d] ?? [] }));
+      },
+      byes: byes.map((b): DeclaredBye => ({ team: b.team, week: Number(b.week) })),
+      times: firstNight.times,
+      courts: firstNight.courts.slice(0, courts).map((c) => c.number),
+      nightForWeek: (w) => {
+        const n = resolveLeagueNight(nightConfig, w);
+        return { times: n.times, courts: n.courts.slice(0, courts).map((c) => c.number) };
+      },
+      matchesPerTeam: rounds,
+      slotsPerRound,
+      startTime,
+      history: kept.map((m) => ({ week: m.week, teamA: m.teamA, teamB: m.teamB })),
+      historySlots: kept.map((m) => ({ teamA: m.teamA, teamB: m.teamB, time: m.time, court: m.court })),
+    });
+
+    setPlan(result);
+    setReviewWeek(result.weeks[0]?.week ?? null);
+  };
+
+  const existingCountForWeek = (w: number) => savedMatches.filter((m) => m.week === w).length;
+
+  const commitWeeks = async (weeks: number[]) => {
+    if (!plan || weeks.length === 0) return;
+
+    setStatusMsg('');
+    setErrorMsg('');
+
+    // Fresh matches + scores: a week with any saved score (submitted, confirmed or official) keeps its matches
+    let current: SavedMatch[];
+    let scoredWeeks: number[];
+    try {
+      const [list, scores] = await Promise.all([fetchMatches(), fetchMatchScores()]);
+      current = list;
+      scoredWeeks = weeks.filter((w) => list.some((m) => m.week === w && scores[m.id]));
+      setSavedMatches(list);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to check saved scores.');
+      return;
+    }
+
+    const toWrite = weeks.filter((w) => !scoredWeeks.includes(w));
+    if (toWrite.length === 0) {
+      setErrorMsg(
+        `${weekNames(scoredWeeks)} already ${scoredWeeks.length === 1 ? 'has' : 'have'} saved scores, so nothing was ` +
+          'replaced. Clear those scores first to re-plan them.'
+      );
+      return;
+    }
+
+    const savedIn = (w: number) => current.filter((m) => m.week === w).length;
+    const replacing = toWrite.reduce((sum, w) => sum + savedIn(w), 0);
+    const label =
+      toWrite.length === 1
+        ? `Week ${toWrite[0]}`
+        : scoredWeeks.length > 0
+          ? weekNames(toWrite)
+          : `Weeks ${toWrite[0]}–${toWrite[toWrite.length - 1]}`;
+    const skipped =
+      scoredWeeks.length > 0
+        ? `\n\nSkipped: ${weekNames(scoredWeeks)} already ${scoredWeeks.length === 1 ? 'has' : 'have'} saved scores ` +
+          'and keep their matches.'
+        : '';
+
+    const ok = await confirmPopup(
+      `Commit ${label}?`,
+      (replacing > 0
+        ? `This REPLACES ${replacing} saved match(es) in ${label} with the planned schedule.`
+        : `This writes the planned schedule for ${label} to the matches table.`) + skipped,
+      'Commit'
+    );
+    if (!ok) return;
+
+    setCommitting(true);
+    try {
+      const now = Date.now();
+      let written = 0;
+      const published: SavedMatch[] = [];
+
+      for (const w of toWrite) {
+        const planned = plan.weeks.find((p) => p.week === w);
+        if (!planned) continue;
+
+        const records: SavedMatch[] = planned.result.matches.map((g, i) => ({
+          id: `${now}_${w}_${i}_${Math.random().toString(16).slice(2)}`,
+          week: g.week,
+          division: g.division,
+          time: g.time,
+          court: g.court,
+          teamA: g.teamA,
+          teamB: g.teamB,
+          createdAt: now + written + i,
+        }));
+
+        if (savedIn(w) > 0) await deleteMatchesForWeek(w);
+        await bulkInsertMatches(records);
+        written += records.length;
+        published.push(...records);
+      }
+
+      setSavedMatches(await fetchMatches());
+
+      // 🔔 One notification per device for the whole commit (best effort)
+      const pushed = await notifySchedulePublished(published).catch(() => null);
+      setStatusMsg(
+        `✅ Committed ${written} matches for ${label}.` +
+          (pushed ? ` Notified ${pushed.sent} device(s).` : '') +
+          (scoredWeeks.length > 0 ? ` Skipped ${weekNames(scoredWeeks)} (saved scores).` : '')
+      );
+    } catch (e: any) {
+      setErrorMsg(e?.message || String(e));
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const reviewed = useMemo(() => {
+    if (!plan || reviewWeek === null) return null;
+    const w = plan.weeks.find((p) => p.week === reviewWeek);
+    if (!w) return null;
+
+    const list = [...w.result.matches].sort((a, b) => {
+      const ta = matchTimeMinutes(a.time);
+      const tb = matchTimeMinutes(b.time);
+      if (ta !== tb) return ta - tb;
+      return a.court - b.court;
+    });
+
+    return { ...w, list, night: resolveLeagueNight(nightConfig, w.week) };
+  }, [plan, reviewWeek, nightConfig]);
+
+  const inputStyle = {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+    fontSize: 16,
+  };
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 24, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 24, fontWeight: 'bold', marginBottom: 12 }}>Season Planner</Text>
+
+      <Text style={{ marginBottom: 16, color: '#444' }}>
+        Lays out a whole season so every team meets each opponent a balanced number of times and gets a
+        fair spread of early/late slots and courts. Review each week, then commit it to the schedule.
+        To re-plan after teams are added or moved, set the starting week — earlier weeks are kept.
+      </Text>
+
+      {loading ? <Text style={{ marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? (
+        <Text style={{ color: 'green', marginBottom: 8, fontWeight: '800' }}>{statusMsg}</Text>
+      ) : null}
+      {errorMsg ? (
+        <Text style={{ color: 'red', marginBottom: 8, fontWeight: '800' }}>{errorMsg}</Text>
+      ) : null}
+
+      <View style={{ flexDirection: 'row', gap: 10 }}>
+        <View style={{ flex: 1 }}>
+          <Text style={{ fontWeight: '800', marginBottom: 6 }}>Plan from week</Text>
+          <TextInput value={fromWeek} onChangeText={setFromWeek} keyboardType="number-pad" style={inputStyle} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={{ fontWeight: '800', marginBottom: 6 }}>Number of weeks</Text>
+          <TextInput value={weekCount} onChangeText={setWeekCount} keyboardType="number-pad" style={inputStyle} />
+        </View>
+      </View>
+
+      <View style={{ flexDirection: 'row', gap: 10 }}>
+        <View style={{ flex: 1 }}>
+          <Text style={{ fontWeight: '800', marginBottom: 6 }}>Matches per team / night</Text>
+          <TextInput
+            value={matchesPerTeam}
+            onChangeText={setMatchesPerTeam}
+            keyboardType="number-pad"
+            style={inputStyle}
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={{ fontWeight: '800', marginBottom: 6 }}>Courts</Text>
+          <TextInput
+            value={courtCount}
+            onChangeText={setCourtCount}
+            keyboardType="number-pad"
+            placeholder={`All open (${firstNight.courts.length})`}
+            style={inputStyle}
+          />
+        </View>
+      </View>
+
+      <Text style={{ fontWeight: '800', marginBottom: 6 }}>First round starts at</Text>
+      <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
+        <Picker selectedValue={startTime} onValueChange={(v) => setStartTime(String(v))}>
+          {firstNight.times.map((t) => (
+            <Picker.Item key={t} label={t} value={t} />
+          ))}
+        </Picker>
+      </View>
+
+      <Text style={{ fontWeight: '800', marginBottom: 6 }}>Round length</Text>
+      <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 16 }}>
+        <Picker selectedValue={slotsPerRound} onValueChange={(v) => setSlotsPerRound(Number(v))}>
+          {[1, 2, 3, 4].map((n) => (
+            <Picker.Item key={n} label={`${n * firstNight.template.stepMinutes} minutes`} value={n} />
+          ))}
+        </Picker>
+      </View>
+
+      {/* ✅ Pre-declared bye weeks */}
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 8 }}>Bye Weeks</Text>
+      <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
+        <Picker selectedValue={byeTeam} onValueChange={(v) => setByeTeam(String(v))}>
+          <Picker.Item label="Select a team..." value="" />
+          {allTeams.map((t) => (
+            <Picker.Item key={t} label={t} value={t} />
+          ))}
+        </Picker>
+      </View>
+      <TextInput
+        value={byeWeek}
+        onChangeText={setByeWeek}
+        keyboardType="number-pad"
+        placeholder="Bye week (e.g. 5)"
+        style={inputStyle}
+      />
+      <Pressable
+        onPress={() => void onAddBye()}
+        style={{
+          backgroundColor: '#111',
+          padding: 12,
+          borderRadius: 10,
+          alignItems: 'center',
+          marginBottom: 10,
+          maxWidth: 260,
+        }}
+      >
+        <Text style={{ color: 'white', fontWeight: '800' }}>Add Bye</Text>
+      </Pressable>
+
+      {byes.length === 0 ? (
+        <Text style={{ color: '#555', marginBottom: 16 }}>No bye weeks declared.</Text>
+      ) : (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 16 }}>
+          {byes.map((b) => (
+            <Pressable
+              key={b.id}
+              onPress={() => void onDeleteBye(b)}
+              style={{
+                paddingVertical: 8,
+                paddingHorizontal: 10,
+                borderRadius: 999,
+                borderWidth: 1,
+                borderColor: '#ccc',
+              }}
+            >
+              <Text style={{ fontWeight: '700' }}>
+                Wk {b.week} • {b.team} ✕
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      <Pressable
+        onPress={runPlanner}
+        disabled={loading}
+        style={{
+          backgroundColor: loading ? '#999' : 'black',
+          padding: 14,
+          borderRadius: 10,
+          alignItems: 'center',
+          marginBottom: 18,
+        }}
+      >
+        <Text style={{ color: 'white', fontSize: 16, fontWeight: '900' }}>Plan Season</Text>
+      </Pressable>
+
+      {plan ? (
+        <View>
+          <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 8 }}>Review</Text>
+
+          <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
+            <Picker selectedValue={reviewWeek ?? undefined} onValueChange={(v) => setReviewWeek(Number(v))}>
+              {plan.weeks.map((w) => (
+                <Picker.Item
+                  key={w.week}
+                  label={`Week ${w.week} — ${w.result.matches.length} matches${
+                    existingCountForWeek(w.week) > 0 ? ' (replaces saved)' : ''
+                  }`}
+                  value={w.week}
+                />
+              ))}
+            </Picker>
+          </View>
+
+          {reviewed ? (
+            <View style={{ marginBottom: 14 }}>
+              <Text style={{ fontWeight: '800', marginBottom: 4 }}>
+                Week {reviewed.week}: {reviewed.list.length} matches • {reviewed.result.rematches} rematch(es)
+              </Text>
+
+              <Text style={{ color: '#444', marginBottom: 4 }}>
+                {reviewed.night.venue.name} • {reviewed.night.courts.length} court(s) open
+                {reviewed.night.closedCourts.length > 0
+                  ? ` • closed: ${reviewed.night.closedCourts.map((c) => c.name).join(', ')}`
+                  : ''}
+                {reviewed.night.note ? ` • ${reviewed.night.note}` : ''}
+              </Text>
+
+              {reviewed.byeTeams.length > 0 ? (
+                <Text style={{ color: '#444', marginBottom: 4 }}>Declared byes: {reviewed.byeTeams.join(', ')}</Text>
+              ) : null}
+
+              {reviewed.result.byes.length > 0 ? (
+                <Text style={{ color: '#444', marginBottom: 4 }}>
+                  Odd-count byes: {reviewed.result.byes.map((b) => `${b.team} (round ${b.round})`).join(', ')}
+                </Text>
+              ) : null}
+
+              {reviewed.result.warnings.map((w, i) => (
+                <Text key={`plan-warn-${i}`} style={{ color: '#b00020', fontWeight: '800', marginBottom: 4 }}>
+                  ⚠️ {w}
+                </Text>
+              ))}
+
+              <View style={{ borderWidth: 1, borderColor: '#eee', borderRadius: 12, marginTop: 6, marginBottom: 10 }}>
+                {reviewed.list.map((g, idx) => (
+                  <View
+                    key={`${g.time}_${g.court}`}
+                    style={{
+                      flexDirection: 'row',
+                      paddingVertical: 8,
+                      paddingHorizontal: 10,
+                      borderTopWidth: idx === 0 ? 0 : 1,
+                      borderTopColor: '#eee',
+                    }}
+                  >
+                    <Text style={{ width: 80, fontWeight: '800', fontSize: 12 }}>{g.time}</Text>
+                    <Text style={{ width: 90, fontSize: 12 }}>{courtLabel(reviewed.night, g.court)}</Text>
+                    <Text style={{ flex: 1, fontSize: 12 }}>
+                      {g.teamA} vs {g.teamB}
+                    </Text>
+                    <Text style={{ width: 90, fontSize: 12, color: '#666', textAlign: 'right' }}>{g.division}</Text>
+                  </View>
+                ))}
+              </View>
+
+              <View style={{ flexDirection: 'row', gap: 10 }}>
+                <Pressable
+                  onPress={() => void commitWeeks([reviewed.week])}
+                  disabled={committing}
+                  style={{
+                    backgroundColor: committing ? '#999' : '#1f8a3b',
+                    paddingVertical: 12,
+                    borderRadius: 10,
+                    alignItems: 'center',
+                    flex: 1,
+                  }}
+                >
+                  <Text style={{ color: 'white', fontWeight: '900' }}>Commit Week {reviewed.week}</Text>
+                </Pressable>
+
+                <Pressable
+                  onPress={() => void commitWeeks(plan.weeks.map((w) => w.week))}
+                  disabled={committing}
+                  style={{
+                    backgroundColor: committing ? '#999' : 'black',
+                    paddingVertical: 12,
+                    borderRadius: 10,
+                    alignItems: 'center',
+                    flex: 1,
+                  }}
+                >
+                  <Text style={{ color: 'white', fontWeight: '900' }}>Commit All Weeks</Text>
+                </Pressable>
+              </View>
+            </View>
+          ) : null}
+
+          {/* ✅ Fairness summary (planned weeks only) */}
+          <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 8 }}>Balance</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator>
+            <View style={{ minWidth: 620, borderWidth: 1, borderColor: '#ddd', borderRadius: 12 }}>
+              <View style={{ flexDirection: 'row', backgroundColor: '#fafafa', paddingVertical: 8 }}>
+                <Text style={{ width: 180, paddingHorizontal: 8, fontWeight: '900' }}>Team</Text>
+                <Text style={{ width: 70, textAlign: 'center', fontWeight: '900' }}>Matches</Text>
+                <Text style={{ width: 80, textAlign: 'center', fontWeight: '900' }}>Opponents</Text>
+                <Text style={{ width: 90, textAlign: 'center', fontWeight: '900' }}>Max vs same</Text>
+                <Text style={{ width: 90, textAlign: 'center', fontWeight: '900' }}>Avg time</Text>
+                <Text style={{ width: 110, textAlign: 'center', fontWeight: '900' }}>Courts used</Text>
+              </View>
+
+              {[...plan.teams].sort((a, b) => compareDivisions(a.division, b.division)).map((t) => (
+                <View
+                  key={t.team}
+                  style={{ flexDirection: 'row', paddingVertical: 6, borderTopWidth: 1, borderTopColor: '#eee' }}
+                >
+                  <Text style={{ width: 180, paddingHorizontal: 8, fontWeight: '700' }} numberOfLines={1}>
+                    {t.team}
+                  </Text>
+                  <Text style={{ width: 70, textAlign: 'center' }}>{t.matches}</Text>
+                  <Text style={{ width: 80, textAlign: 'center' }}>{t.opponents}</Text>
+                  <Text style={{ width: 90, textAlign: 'center' }}>{t.maxMeetings}</Text>
+                  <Text style={{ width: 90, textAlign: 'center' }}>{firstNight.times[Math.round(t.avgSlot)] ?? '-'}</Text>
+                  <Text style={{ width: 110, textAlign: 'center' }}>{Object.keys(t.courts).length}</Text>
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        </View>
+      ) : null}
+
+      <Pressable
+        onPress={() => router.back()}
+        style={{
+          marginTop: 16,
+          borderWidth: 1,
+          borderColor: '#999',
+          padding: 12,
+          borderRadius: 10,
+          alignItems: 'center',
+          maxWidth: 260,
+        }}
+      >
+        <Text style={{ fontWeight: '900' }}>Back</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,303 @@
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import {
+  applyDivisionMoves,
+  fetchDivisionMoves,
+  fetchSeasonSettings,
+  emptyByDivision,
+  fetchTeamsByDivision,
+  getActiveSeasonId,
+  sortDivisions,
+  upsertSeasonWeek1Date,
+  type Division,
+  type DivisionMove,
+  type Season,
+  type Team,
+} from '@/constants/leagueData';
+import { formatLeagueNight, parseDateInput, weekDate } from '@/constants/leagueCalendar';
+import { findRosterTeam, loadRoster, type Roster } from '@/constants/roster';
+import { baselineTeamsFor, listSeasons, seasonIdFromName, startNewSeason } from '@/constants/seasons';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+// ✅ confirm helper that works on web + native
+function confirmPopup(title: string, message: string, okText: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    const ok = typeof window !== 'undefined' ? window.confirm(`${title}\n\n${message}`) : false;
+    return Promise.resolve(ok);
+  }
+
+  return new Promise((resolve) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: okText, style: 'destructive', onPress: () => resolve(true) },
+    ]);
+  });
+}
+
+function uniqSorted(list: string[]) {
+  const set = new Set(list.map((x) => (x || '').trim()).filter(Boolean));
+  return Array.from(set).sort((a, b) => a.localeCompare(b));
+}
+
+export default function AdminSeasonsScreen() {
+  const allowed = useRoleGuard('league_admin');
+
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [dbTeams, setDbTeams] = useState<Record<Division, Team[]>>(() => emptyByDivision(() => []));
+  const [moves, setMoves] = useState<DivisionMove[]>([]);
+  const [roster, setRoster] = useState<Roster | null>(null);
+
+  const [newName, setNewName] = useState('');
+  // ✅ Week 1 league night (reminders + calendar use it to date every match)
+  const [week1Date, setWeek1Date] = useState('');
+  // Teams NOT carried forward (everyone is carried by default)
+  const [dropped, setDropped] = useState<Set<string>>(new Set());
+
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const [list, teams, mv, r, settings] = await Promise.all([
+        listSeasons(),
+        fetchTeamsByDivision(),
+        fetchDivisionMoves(),
+        loadRoster(),
+        fetchSeasonSettings(getActiveSeasonId()).catch(() => null),
+      ]);
+      setSeasons(list);
+      setWeek1Date(settings?.week1Date ?? '');
+      setDbTeams(teams);
+      setMoves(mv);
+      setRoster(r);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load seasons from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (allowed) void load();
+    }, [allowed, load])
+  );
+
+  const current = seasons.find((s) => s.id === getActiveSeasonId()) ?? null;
+  const archived = seasons.filter((s) => s.id !== getActiveSeasonId());
+
+  // End-of-season rosters: baseline + Supabase teams, with every division move applied
+  const finalRosters = useMemo(() => {
+    const base = baselineTeamsFor();
+    const merged: Record<Division, string[]> = {};
+    for (const division of sortDivisions([...Object.keys(base), ...Object.keys(dbTeams)])) {
+      merged[division] = uniqSorted([...(base[division] ?? []), ...(dbTeams[division] ?? []).map((t) => t.name)]);
+    }
+    return applyDivisionMoves(merged, moves, Number.MAX_SAFE_INTEGER);
+  }, [dbTeams, moves]);
+
+  const finalDivisions = sortDivisions(Object.keys(finalRosters));
+
+  const carriedCount = finalDivisions.reduce(
+    (n, d) => n + finalRosters[d].filter((t) => !dropped.has(t)).length,
+    0
+  );
+
+  const toggle = (team: string) => {
+    setStatusMsg('');
+    setDropped((prev) => {
+      const next = new Set(prev);
+      if (next.has(team)) next.delete(team);
+      else next.add(team);
+      return next;
+    });
+  };
+
+  const onSaveWeek1Date = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const text = week1Date.trim();
+    if (text && !parseDateInput(text)) {
+      setErrorMsg('Enter the Week 1 date as YYYY-MM-DD (e.g. 2026-10-20).');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await upsertSeasonWeek1Date(getActiveSeasonId(), text || null);
+      const first = weekDate(text, 1);
+      setStatusMsg(first ? `✅ Week 1 is ${formatLeagueNight(first)}; each week after is 7 days later.` : '✅ Week 1 date cleared.');
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save the Week 1 date.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onStart = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    const name = newName.trim();
+    const id = seasonIdFromName(name);
+    if (!name || !id) {
+      setErrorMsg('Enter a name for the new season (e.g. "Season 4").');
+      return;
+    }
+    if (seasons.some((s) => s.id === id)) {
+      setErrorMsg(`A season with the id "${id}" already exists.`);
+      return;
+    }
+    if (!current) {
+      setErrorMsg('Could not find the current season. Refresh and try again.');
+      return;
+    }
+
+    const ok = await confirmPopup(
+      `Start ${name}?`,
+      `${current.name} will be archived (read-only) and ${name} becomes the current season for everyone.\n\n` +
+        `${carriedCount} team${carriedCount === 1 ? '' : 's'} will be carried forward. Schedules, scores, attendance and ` +
+        'division moves start empty. Tiebreakers, game rules, the sub rule and the venue / time slots are copied.',
+      'Start Season'
+    );
+    if (!ok) return;
+
+    setLoading(true);
+    try {
+      const teams = finalDivisions.flatMap((division) =>
+        finalRosters[division]
+          .filter((t) => !dropped.has(t))
+          .map((t) => {
+            // Player records move with the team; teams without records keep deriving from the name
+            const rt = roster ? findRosterTeam(roster, t) : null;
+            const playerIds = (rt?.players ?? []).flatMap((p) => (p.id ? [p.id] : []));
+            return { division, name: t, playerIds };
+          })
+      );
+      await startNewSeason({ id, name, teams }, current);
+      setNewName('');
+      setDropped(new Set());
+      setStatusMsg(`✅ ${name} started with ${teams.length} teams. ${current.name} is now archived.`);
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to start the new season.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — Seasons</Text>
+
+      <Text style={{ color: '#444', marginBottom: 16 }}>
+        Current season: <Text style={{ fontWeight: '900' }}>{current?.name ?? getActiveSeasonId()}</Text>
+        {archived.length > 0 ? `\nArchived: ${archived.map((s) => s.name).join(', ')}` : ''}
+        {'\n'}Past seasons stay browsable (read-only) from Schedule, Results and Standings.
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 6 }}>League Nights</Text>
+      <Text style={{ color: '#666', marginBottom: 10 }}>
+        Date of Week 1 for {current?.name ?? 'this season'}. Every later week is 7 days after it — players&apos; match
+        reminders use these dates.
+      </Text>
+      <View style={{ flexDirection: 'row', gap: 10, marginBottom: 22 }}>
+        <TextInput
+          value={week1Date}
+          onChangeText={setWeek1Date}
+          placeholder="YYYY-MM-DD"
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={{ flex: 1, borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12, fontSize: 16 }}
+        />
+        <Pressable
+          onPress={onSaveWeek1Date}
+          disabled={loading}
+          style={{ backgroundColor: 'black', paddingHorizontal: 16, borderRadius: 10, justifyContent: 'center' }}
+        >
+          <Text style={{ color: 'white', fontWeight: '900' }}>Save</Text>
+        </Pressable>
+      </View>
+
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 10 }}>Start a New Season</Text>
+
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Season name</Text>
+      <TextInput
+        value={newName}
+        onChangeText={setNewName}
+        placeholder='e.g. "Season 4"'
+        style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12, marginBottom: 12, fontSize: 16 }}
+      />
+
+      <Text style={{ fontWeight: '900', marginBottom: 4 }}>Carry teams forward ({carriedCount})</Text>
+      <Text style={{ color: '#666', marginBottom: 10 }}>
+        Teams keep their end-of-season division (division moves applied) and their current players. Tap a team to
+        leave it out.
+      </Text>
+
+      <View style={{ gap: 14, marginBottom: 18 }}>
+        {finalDivisions.map((division) => (
+          <View key={division}>
+            <Text style={{ fontWeight: '900', marginBottom: 6 }}>{division}</Text>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+              {finalRosters[division].map((team) => {
+                const carried = !dropped.has(team);
+                return (
+                  <Pressable
+                    key={team}
+                    onPress={() => toggle(team)}
+                    style={{
+                      paddingVertical: 6,
+                      paddingHorizontal: 10,
+                      borderRadius: 999,
+                      borderWidth: 1,
+                      borderColor: carried ? '#111' : '#ccc',
+                      backgroundColor: carried ? 'white' : '#f2f2f2',
+                    }}
+                  >
+                    <Text style={{ fontWeight: '800', color: carried ? '#111' : '#999' }}>
+                      {carried ? '✅' : '⬜'} {team}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+              {finalRosters[division].length === 0 ? <Text style={{ color: '#666' }}>No teams.</Text> : null}
+            </View>
+          </View>
+        ))}
+      </View>
+
+      <Pressable
+        onPress={onStart}
+        disabled={loading}
+        style={{
+          backgroundColor: 'black',
+          padding: 14,
+          borderRadius: 10,
+          alignItems: 'center',
+          opacity: loading ? 0.6 : 1,
+        }}
+      >
+        <Text style={{ color: 'white', fontSize: 16, fontWeight: '900' }}>Start New Season</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,198 @@
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, Text, View } from 'react-native';
+
+import { fetchSeasonSettings, getActiveSeasonId, upsertSeasonTiebreakers } from '@/constants/leagueData';
+import {
+  ALL_TIEBREAKERS,
+  DEFAULT_TIEBREAKERS,
+  TIEBREAKER_LABELS,
+  normalizeTiebreakers,
+  type TiebreakerId,
+} from '@/constants/tiebreakers';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+export default function AdminStandingsRulesScreen() {
+  const allowed = useRoleGuard('league_admin');
+
+  const [order, setOrder] = useState<TiebreakerId[]>(DEFAULT_TIEBREAKERS);
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const settings = await fetchSeasonSettings(getActiveSeasonId());
+      setOrder(normalizeTiebreakers(settings?.tiebreakers));
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load season settings from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // ✅ Load settings each time you open it (once the role guard allows)
+  useFocusEffect(
+    useCallback(() => {
+      if (!allowed) return;
+      setStatusMsg('');
+      void load();
+    }, [allowed, load])
+  );
+
+  const move = (idx: number, delta: number) => {
+    const target = idx + delta;
+    if (target < 0 || target >= order.length) return;
+    const next = [...order];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    setOrder(next);
+    setStatusMsg('');
+  };
+
+  const toggle = (id: TiebreakerId) => {
+    setStatusMsg('');
+    setErrorMsg('');
+    if (order.includes(id)) {
+      if (order.length === 1) {
+        setErrorMsg('Keep at least one tiebreaker (team name is always the final fallback).');
+        return;
+      }
+      setOrder(order.filter((t) => t !== id));
+    } else {
+      setOrder([...order, id]);
+    }
+  };
+
+  const onSave = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+    setLoading(true);
+    try {
+      await upsertSeasonTiebreakers(getActiveSeasonId(), order);
+      setStatusMsg('✅ Saved. Standings use the new order on next refresh.');
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save season settings to Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const unused = ALL_TIEBREAKERS.filter((t) => !order.includes(t));
+
+  const smallBtn = {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    backgroundColor: 'white',
+  };
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — Standings Tiebreakers</Text>
+
+      <Text style={{ color: '#444', marginBottom: 16 }}>
+        Teams are ranked by game wins. When teams are tied, these rules are applied top to bottom ({getActiveSeasonId()}).
+        Head-to-head only counts games between the tied teams; when a rule separates some but not all of them,
+        the list starts over for the teams still tied.
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <View style={{ gap: 10, marginBottom: 16 }}>
+        {order.map((id, idx) => (
+          <View
+            key={id}
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              gap: 8,
+              borderWidth: 1,
+              borderColor: '#ddd',
+              borderRadius: 12,
+              padding: 12,
+              backgroundColor: 'white',
+            }}
+          >
+            <Text style={{ width: 28, fontWeight: '900' }}>{idx + 1}.</Text>
+            <Text style={{ flex: 1, fontWeight: '800' }}>{TIEBREAKER_LABELS[id]}</Text>
+            <Pressable onPress={() => move(idx, -1)} style={[smallBtn, { opacity: idx === 0 ? 0.4 : 1 }]}>
+              <Text style={{ fontWeight: '900' }}>▲</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => move(idx, 1)}
+              style={[smallBtn, { opacity: idx === order.length - 1 ? 0.4 : 1 }]}
+            >
+              <Text style={{ fontWeight: '900' }}>▼</Text>
+            </Pressable>
+            <Pressable onPress={() => toggle(id)} style={smallBtn}>
+              <Text style={{ fontWeight: '900', color: '#c62828' }}>Remove</Text>
+            </Pressable>
+          </View>
+        ))}
+
+        <Text style={{ color: '#666' }}>Final fallback: team name (A → Z)</Text>
+      </View>
+
+      {unused.length > 0 ? (
+        <>
+          <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 10 }}>Not used</Text>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 16 }}>
+            {unused.map((id) => (
+              <Pressable key={id} onPress={() => toggle(id)} style={smallBtn}>
+                <Text style={{ fontWeight: '800' }}>+ {TIEBREAKER_LABELS[id]}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      ) : null}
+
+      <View style={{ flexDirection: 'row', gap: 10 }}>
+        <Pressable
+          onPress={onSave}
+          disabled={loading}
+          style={{
+            backgroundColor: 'black',
+            padding: 14,
+            borderRadius: 10,
+            alignItems: 'center',
+            flex: 1,
+            opacity: loading ? 0.6 : 1,
+          }}
+        >
+          <Text style={{ color: 'white', fontSize: 16, fontWeight: '900' }}>Save</Text>
+        </Pressable>
+
+        <Pressable
+          onPress={() => {
+            setOrder([...DEFAULT_TIEBREAKERS]);
+            setStatusMsg('');
+          }}
+          style={{
+            borderWidth: 1,
+            borderColor: '#ccc',
+            padding: 14,
+            borderRadius: 10,
+            alignItems: 'center',
+            flex: 1,
+          }}
+        >
+          <Text style={{ fontSize: 16, fontWeight: '900' }}>Reset to League Default</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
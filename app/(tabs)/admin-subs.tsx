@@ -0,0 +1,315 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import {
+  deleteMatchSub,
+  fetchMatchSubs,
+  fetchMatches,
+  insertPlayers,
+  setPlayerSubPool,
+  upsertMatchSub,
+  type MatchSub,
+  type Player,
+  type SavedMatch,
+} from '@/constants/leagueData';
+import { findRosterTeam, loadRoster, type Roster, type RosterPlayer } from '@/constants/roster';
+import { subLabel, subsByMatch, subsForTeam } from '@/constants/substitutes';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
+
+const STORAGE_KEY_CURRENT_WEEK = 'ppl_current_week_v1';
+
+// The sub being recorded (one team in one match)
+type SubDraft = {
+  matchId: string;
+  team: string;
+  absent: RosterPlayer | null;
+  poolPlayer: Player | null;
+  freeText: string;
+};
+
+function chipStyle(active: boolean) {
+  return {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: active ? '#111' : '#ccc',
+    backgroundColor: active ? '#111' : 'white',
+  };
+}
+
+function chipTextStyle(active: boolean) {
+  return { fontWeight: '800' as const, color: active ? 'white' : '#111' };
+}
+
+export default function AdminSubsScreen() {
+  const allowed = useRoleGuard('league_admin');
+
+  const [matches, setMatches] = useState<SavedMatch[]>([]);
+  const [subs, setSubs] = useState<MatchSub[]>([]);
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [week, setWeek] = useState<number | null>(null);
+
+  const [draft, setDraft] = useState<SubDraft | null>(null);
+  const [newPoolName, setNewPoolName] = useState('');
+
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const [m, s, r] = await Promise.all([fetchMatches(), fetchMatchSubs(), loadRoster()]);
+      setMatches(m);
+      setSubs(s);
+      setRoster(r);
+
+      const stored = parseInt((await AsyncStorage.getItem(STORAGE_KEY_CURRENT_WEEK)) ?? '', 10);
+      setWeek((prev) => prev ?? (Number.isFinite(stored) && stored > 0 ? stored : (m[0]?.week ?? 1)));
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load matches and subs from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      if (allowed) void load();
+    }, [allowed, load])
+  );
+
+  useLiveRefresh(['match_subs', 'matches'], load);
+
+  const weeks = useMemo(() => Array.from(new Set(matches.map((m) => m.week))).sort((a, b) => a - b), [matches]);
+
+  const weekMatches = useMemo(
+    () => matches.filter((m) => m.week === week).sort((a, b) => a.time.localeCompare(b.time) || a.court - b.court),
+    [matches, week]
+  );
+
+  const subsMap = useMemo(() => subsByMatch(subs), [subs]);
+  const pool = useMemo(() => (roster?.players ?? []).filter((p) => p.subPool), [roster]);
+
+  const run = async (work: () => Promise<void>, okMsg: string) => {
+    setStatusMsg('');
+    setErrorMsg('');
+    setLoading(true);
+    try {
+      await work();
+      setStatusMsg(okMsg);
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save to Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onSaveSub = async () => {
+    if (!draft) return;
+    const subName = draft.poolPlayer?.name ?? draft.freeText.trim();
+    if (!draft.absent) {
+      setErrorMsg('Pick the player who is out.');
+      return;
+    }
+    if (!subName) {
+      setErrorMsg('Pick a sub from the pool or type a name.');
+      return;
+    }
+
+    const absent = draft.absent;
+    await run(async () => {
+      await upsertMatchSub({
+        matchId: draft.matchId,
+        team: draft.team,
+        absentPlayerId: absent.id,
+        absentPlayerName: absent.name,
+        subPlayerId: draft.poolPlayer?.id ?? null,
+        subName,
+      });
+      setDraft(null);
+    }, `✅ ${subName} subs for ${absent.name} (${draft.team}).`);
+  };
+
+  const onAddToPool = async () => {
+    const name = newPoolName.trim();
+    if (!name) return;
+    await run(async () => {
+      await insertPlayers([name], true);
+      setNewPoolName('');
+    }, `✅ Added ${name} to the sub pool.`);
+  };
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — Substitutes</Text>
+      <Text style={{ color: '#444', marginBottom: 12 }}>
+        Record who subbed for whom on a specific match. The absent player never gets credit for a sub’s games; whether
+        the match counts is set under Game Rules.
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Week</Text>
+      <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 14 }}>
+        <Picker selectedValue={week ?? ''} onValueChange={(v) => setWeek(Number(v))}>
+          {weeks.map((w) => (
+            <Picker.Item key={w} label={`Week ${w}`} value={w} />
+          ))}
+        </Picker>
+      </View>
+
+      {weekMatches.length === 0 && !loading ? <Text style={{ color: '#666' }}>No matches this week.</Text> : null}
+
+      <View style={{ gap: 12, marginBottom: 24 }}>
+        {weekMatches.map((m) => (
+          <View key={m.id} style={{ borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, backgroundColor: 'white' }}>
+            <Text style={{ fontWeight: '900', marginBottom: 8 }}>
+              {m.time} • Court {m.court} • {m.division}
+            </Text>
+
+            {[m.teamA, m.teamB].map((team) => {
+              const teamSubs = subsForTeam(subsMap.get(m.id), team);
+              const editing = draft?.matchId === m.id && draft.team === team;
+              const teamPlayers = (roster && findRosterTeam(roster, team)?.players) || [];
+
+              return (
+                <View key={team} style={{ marginBottom: 10 }}>
+                  <Text style={{ fontWeight: '800' }}>{team}</Text>
+
+                  {teamSubs.map((s) => (
+                    <View key={s.id} style={{ flexDirection: 'row', alignItems: 'center', gap: 10, marginTop: 4 }}>
+                      <Text style={{ flex: 1, color: '#b26a00', fontWeight: '800' }}>🔁 Sub: {subLabel(s)}</Text>
+                      <Pressable onPress={() => run(() => deleteMatchSub(s.id), `✅ Removed ${s.subName}.`)}>
+                        <Text style={{ color: '#c62828', fontWeight: '900' }}>Remove</Text>
+                      </Pressable>
+                    </View>
+                  ))}
+
+                  {editing && draft ? (
+                    <View style={{ gap: 8, marginTop: 8, borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 10 }}>
+                      <Text style={{ fontWeight: '900' }}>Who is out?</Text>
+                      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
+                        {teamPlayers.map((p) => {
+                          const active = draft.absent?.name === p.name;
+                          return (
+                            <Pressable key={p.id ?? p.name} onPress={() => setDraft({ ...draft, absent: p })} style={chipStyle(active)}>
+                              <Text style={chipTextStyle(active)}>{p.name}</Text>
+                            </Pressable>
+                          );
+                        })}
+                      </View>
+
+                      <Text style={{ fontWeight: '900' }}>Sub</Text>
+                      {pool.length > 0 ? (
+                        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
+                          {pool.map((p) => {
+                            const active = draft.poolPlayer?.id === p.id;
+                            return (
+                              <Pressable
+                                key={p.id}
+                                onPress={() => setDraft({ ...draft, poolPlayer: active ? null : p, freeText: '' })}
+                                style={chipStyle(active)}
+                              >
+                                <Text style={chipTextStyle(active)}>{p.name}</Text>
+                              </Pressable>
+                            );
+                          })}
+                        </View>
+                      ) : null}
+                      <TextInput
+                        value={draft.freeText}
+                        onChangeText={(t) => setDraft({ ...draft, freeText: t, poolPlayer: null })}
+                        placeholder={pool.length > 0 ? '…or type a name (not in the pool)' : 'Sub’s name'}
+                        autoCorrect={false}
+                        style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 10 }}
+                      />
+
+                      <View style={{ flexDirection: 'row', gap: 10 }}>
+                        <Pressable
+                          onPress={onSaveSub}
+                          disabled={loading}
+                          style={{ flex: 1, backgroundColor: 'black', paddingVertical: 10, borderRadius: 10, alignItems: 'center' }}
+                        >
+                          <Text style={{ color: 'white', fontWeight: '900' }}>Save Sub</Text>
+                        </Pressable>
+                        <Pressable
+                          onPress={() => setDraft(null)}
+                          style={{ flex: 1, borderWidth: 1, borderColor: '#999', paddingVertical: 10, borderRadius: 10, alignItems: 'center' }}
+                        >
+                          <Text style={{ fontWeight: '900' }}>Cancel</Text>
+                        </Pressable>
+                      </View>
+                    </View>
+                  ) : (
+                    <Pressable
+                      onPress={() => {
+                        setStatusMsg('');
+                        setErrorMsg('');
+                        setDraft({ matchId: m.id, team, absent: null, poolPlayer: null, freeText: '' });
+                      }}
+                      style={{ marginTop: 4 }}
+                    >
+                      <Text style={{ fontWeight: '900', color: '#1565c0' }}>+ Record a Sub</Text>
+                    </Pressable>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+
+      <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 6 }}>Sub Pool</Text>
+      <Text style={{ color: '#444', marginBottom: 10 }}>
+        Players available to sub. Subs from the pool have a player record, so their games can show on their profile.
+      </Text>
+
+      <View style={{ gap: 6, marginBottom: 10 }}>
+        {pool.map((p) => (
+          <View key={p.id} style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}>
+            <Text style={{ flex: 1, fontWeight: '700' }}>{p.name}</Text>
+            <Pressable onPress={() => run(() => setPlayerSubPool(p.id, false), `✅ Removed ${p.name} from the pool.`)}>
+              <Text style={{ color: '#c62828', fontWeight: '900' }}>Remove</Text>
+            </Pressable>
+          </View>
+        ))}
+        {pool.length === 0 ? <Text style={{ color: '#666' }}>Nobody in the pool yet.</Text> : null}
+      </View>
+
+      <View style={{ flexDirection: 'row', gap: 10 }}>
+        <TextInput
+          value={newPoolName}
+          onChangeText={setNewPoolName}
+          placeholder="New sub’s name"
+          autoCorrect={false}
+          style={{ flex: 1, borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12 }}
+        />
+        <Pressable
+          onPress={onAddToPool}
+          disabled={loading}
+          style={{ backgroundColor: 'black', paddingHorizontal: 16, borderRadius: 10, justifyContent: 'center' }}
+        >
+          <Text style={{ color: 'white', fontWeight: '900' }}>Add</Text>
+        </Pressable>
+      </View>
+    </ScrollView>
+  );
+}
@@ -1,33 +1,33 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Picker } from '@react-native-picker/picker';
 import React, { useEffect, useMemo, useState } from 'react';
-import { Pressable, ScrollView, Text, TextInput, View } from 'react-native';
-
-import { supabaseHeaders, supabaseRestUrl } from '@/constants/supabase';
-
-type Division = 'Beginner' | 'Intermediate' | 'Advanced';
-
-type SavedMatch = {
-  id: string;
-  week: number;
-  division: Division;
-  time: string;
-  court: number;
-  teamA: string;
-  teamB: string;
-  createdAt?: number;
-};
-
-type ScoreFields = { g1: string; g2: string; g3: string };
-
-type PersistedMatchScore = {
-  matchId: string;
-  teamA: ScoreFields;
-  teamB: ScoreFields;
-  verified: boolean;
-  verifiedBy: string | null;
-  verifiedAt: number | null;
-};
+import { ActivityIndicator, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import {
+  deleteTeam,
+  divisionOrder,
+  emptyByDivision,
+  fetchTeamsByDivision,
+  type Division,
+  type PersistedMatchScore,
+  type Player,
+  type SavedMatch,
+  type Team,
+} from '@/constants/leagueData';
+import {
+  addPlayerToTeam,
+  backfillRosterPlayers,
+  createTeamWithPlayers,
+  hasPlayerRecords,
+  loadRoster,
+  removePlayerFromTeam,
+  teamNameFromPlayers,
+  type Roster,
+  type RosterPlayer,
+  type RosterTeam,
+} from '@/constants/roster';
+import { baselineTeamsFor } from '@/constants/seasons';
+import { useRoleGuard } from '@/hooks/use-role-guard';
 
 // --- Storage keys used across your app ---
 const STORAGE_KEY_MATCHES = 'ppl_matches_v1';
@@ -38,58 +38,6 @@ const ATTENDANCE_KEY_PREFIX = 'ppl_team_attendance_week_v1_';
 // ✅ LEGACY (old local teams list) — we will clear this so Schedule Builder stops showing old deleted teams like "b/b"
 const LEGACY_STORAGE_KEY_TEAMS = 'ppl_teams_by_division_v1';
 
-// --- Default teams (baseline) ---
-const DEFAULT_TEAMS_BY_DIVISION: Record<Division, string[]> = {
-  Advanced: [
-    'Ishai/Greg',
-    'Adam/Jon',
-    'Bradley/Ben',
-    'Peter/Ray',
-    'Andrew/Brent',
-    'Mark D/Craig',
-    'Alex/Anibal',
-    'Radek/Alexi',
-    'Ricky/John',
-    'Brandon/Ikewa',
-    'Andrew/Dan',
-    'Eric/Meir',
-    'David/Guy',
-    'Mark P/Matt O',
-  ],
-  Intermediate: [
-    'Ashley/Julie',
-    'Stephanie/Misty',
-    'Eric/Sunil',
-    'Dan/Relu',
-    'Domencio/Keith',
-    'YG/Haaris',
-    'Nicole/Joshua',
-    'Amy/Nik',
-    'Elaine/Valerie',
-    'Marat/Marta',
-    'Beatriz/Joe',
-    'Alejandro/William',
-  ],
-  Beginner: [
-    'Eric/Tracy',
-    'Rachel/Jaime',
-    'Amy/Ellen',
-    'Lashonda/Lynette',
-    'Michael/JP',
-    'Fran/Scott',
-    'Robert/Adam',
-    'Cynthia/Maureen',
-    'Marina/Sharon',
-  ],
-};
-
-type SupabaseTeamRow = {
-  id: string;
-  created_at: string;
-  division: string;
-  name: string;
-};
-
 function normalizeName(s: string) {
   return (s || '').trim();
 }
@@ -114,81 +62,19 @@ async function safeSetJSON(key: string, value: any) {
   await AsyncStorage.setItem(key, JSON.stringify(value));
 }
 
-function isDivision(v: any): v is Division {
-  return v === 'Beginner' || v === 'Intermediate' || v === 'Advanced';
-}
-
-async function fetchTeamsFromSupabase(): Promise<Record<Division, SupabaseTeamRow[]>> {
-  const url = supabaseRestUrl('teams?select=id,created_at,division,name&order=created_at.asc');
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseTeamRow[];
-
-  const grouped: Record<Division, SupabaseTeamRow[]> = {
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  };
-
-  for (const r of rows) {
-    if (isDivision(r.division)) {
-      grouped[r.division].push(r);
-    }
-  }
-
-  return grouped;
-}
-
-async function insertTeamToSupabase(division: Division, name: string) {
-  const url = supabaseRestUrl('teams');
-
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      ...supabaseHeaders(),
-      Prefer: 'return=representation',
-    },
-    body: JSON.stringify([{ division, name }]),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase INSERT failed: ${res.status} ${txt}`);
-  }
-}
-
-async function deleteTeamFromSupabaseById(id: string) {
-  const url = supabaseRestUrl(`teams?id=eq.${encodeURIComponent(id)}`);
-
-  const res = await fetch(url, {
-    method: 'DELETE',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase DELETE failed: ${res.status} ${txt}`);
-  }
-}
-
 export default function AdminTeamsScreen() {
-  const [division, setDivision] = useState<Division>('Intermediate');
+  const allowed = useRoleGuard('league_admin');
+  const [division, setDivision] = useState<Division>(() => divisionOrder()[0] ?? '');
   const [teamName, setTeamName] = useState('');
+  const [player1, setPlayer1] = useState('');
+  const [player2, setPlayer2] = useState('');
 
-  const [dbTeams, setDbTeams] = useState<Record<Division, SupabaseTeamRow[]>>({
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  });
+  const [roster, setRoster] = useState<Roster | null>(null);
+  // Team card with the "add player" box open
+  const [addingTo, setAddingTo] = useState<string | null>(null);
+  const [newPlayerName, setNewPlayerName] = useState('');
+
+  const [dbTeams, setDbTeams] = useState<Record<Division, Team[]>>(() => emptyByDivision(() => []));
 
   const [status, setStatus] = useState('');
   const [error, setError] = useState('');
@@ -205,8 +91,9 @@ export default function AdminTeamsScreen() {
     setStatus('');
     setLoading(true);
     try {
-      const grouped = await fetchTeamsFromSupabase();
+      const [grouped, nextRoster] = await Promise.all([fetchTeamsByDivision(), loadRoster()]);
       setDbTeams(grouped);
+      setRoster(nextRoster);
     } catch (e: any) {
       setError(e?.message || 'Failed to load teams from Supabase.');
     } finally {
@@ -225,50 +112,60 @@ export default function AdminTeamsScreen() {
     })();
   }, []);
 
-  const dbTeamsByDivisionNames = useMemo(() => {
-    return {
-      Advanced: uniqSorted((dbTeams.Advanced ?? []).map((r) => r.name)),
-      Intermediate: uniqSorted((dbTeams.Intermediate ?? []).map((r) => r.name)),
-      Beginner: uniqSorted((dbTeams.Beginner ?? []).map((r) => r.name)),
-    };
+  const mergedTeamsByDivision = useMemo(() => {
+    const baseline = baselineTeamsFor();
+    const merged: Record<Division, string[]> = {};
+    for (const d of new Set([...Object.keys(baseline), ...Object.keys(dbTeams)])) {
+      merged[d] = uniqSorted([...(baseline[d] ?? []), ...(dbTeams[d] ?? []).map((r) => r.name)]);
+    }
+    return merged;
   }, [dbTeams]);
 
-  const mergedTeamsByDivision = useMemo(() => {
-    return {
-      Advanced: uniqSorted([...DEFAULT_TEAMS_BY_DIVISION.Advanced, ...dbTeamsByDivisionNames.Advanced]),
-      Intermediate: uniqSorted([
-        ...DEFAULT_TEAMS_BY_DIVISION.Intermediate,
-        ...dbTeamsByDivisionNames.Intermediate,
-      ]),
-      Beginner: uniqSorted([...DEFAULT_TEAMS_BY_DIVISION.Beginner, ...dbTeamsByDivisionNames.Beginner]),
-    };
-  }, [dbTeamsByDivisionNames]);
-
-  const teamsInThisDivision = mergedTeamsByDivision[division];
+  const teamsInThisDivision = mergedTeamsByDivision[division] ?? [];
 
+  // Baseline teams can get a Supabase row (for player records) but still aren't deletable
   const deletableNameToRow = useMemo(() => {
-    const map = new Map<string, SupabaseTeamRow>();
+    const baseline = new Set(baselineTeamsFor()[division] ?? []);
+    const map = new Map<string, Team>();
     for (const row of dbTeams[division] ?? []) {
-      map.set(row.name, row);
+      if (!baseline.has(row.name)) map.set(row.name, row);
     }
     return map;
   }, [dbTeams, division]);
 
+  const rosterTeamByName = useMemo(() => {
+    const map = new Map<string, RosterTeam>();
+    for (const t of roster?.teamsByDivision[division] ?? []) map.set(t.name, t);
+    return map;
+  }, [roster, division]);
+
+  const teamsWithoutPlayerRecords = useMemo(() => {
+    if (!roster) return 0;
+    return Object.values(roster.teamsByDivision)
+      .flat()
+      .filter((t) => t.players.length > 0 && !hasPlayerRecords(t)).length;
+  }, [roster]);
+
+  // Existing players matching the "add player" box (people can move between teams)
+  const playerSuggestions = useMemo(() => {
+    const q = normalizeName(newPlayerName).toLowerCase();
+    if (!roster || q.length < 2) return [];
+    return roster.players.filter((p) => p.name.toLowerCase().includes(q)).slice(0, 6);
+  }, [roster, newPlayerName]);
+
   const onAddTeam = async () => {
     setStatus('');
     setError('');
 
-    const name = normalizeName(teamName);
-    if (!name) {
-      setError('Enter a team name.');
+    const playerNames = [normalizeName(player1), normalizeName(player2)].filter(Boolean);
+    if (playerNames.length === 0) {
+      setError('Enter the players on the team.');
       return;
     }
 
-    const allTeams = new Set<string>([
-      ...mergedTeamsByDivision.Advanced,
-      ...mergedTeamsByDivision.Intermediate,
-      ...mergedTeamsByDivision.Beginner,
-    ]);
+    const name = normalizeName(teamName) || teamNameFromPlayers(playerNames);
+
+    const allTeams = new Set<string>(Object.values(mergedTeamsByDivision).flat());
 
     if (allTeams.has(name)) {
       setError('That team already exists.');
@@ -277,9 +174,11 @@ export default function AdminTeamsScreen() {
 
     setLoading(true);
     try {
-      await insertTeamToSupabase(division, name);
+      await createTeamWithPlayers(division, name, playerNames);
       setTeamName('');
-      setStatus(`✅ Added "${name}" to ${division}.`);
+      setPlayer1('');
+      setPlayer2('');
+      setStatus(`✅ Added "${name}" to ${division} (${playerNames.join(', ')}).`);
       await refreshTeams();
     } catch (e: any) {
       setError(e?.message || 'Failed to add team to Supabase.');
@@ -288,6 +187,60 @@ export default function AdminTeamsScreen() {
     }
   };
 
+  const onBackfill = async () => {
+    if (!roster) return;
+    setStatus('');
+    setError('');
+    setLoading(true);
+    try {
+      const n = await backfillRosterPlayers(roster);
+      setStatus(`✅ Created player records for ${n} team${n === 1 ? '' : 's'}.`);
+      await refreshTeams();
+    } catch (e: any) {
+      setError(e?.message || 'Failed to create player records.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onAddPlayer = async (team: RosterTeam, player: Player | string) => {
+    setStatus('');
+    setError('');
+    const label = typeof player === 'string' ? normalizeName(player) : player.name;
+    if (!label) {
+      setError('Enter a player name.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await addPlayerToTeam(team, typeof player === 'string' ? label : player);
+      setAddingTo(null);
+      setNewPlayerName('');
+      setStatus(`✅ Added ${label} to "${team.name}".`);
+      await refreshTeams();
+    } catch (e: any) {
+      setError(e?.message || 'Failed to add player.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRemovePlayer = async (team: RosterTeam, player: RosterPlayer) => {
+    setStatus('');
+    setError('');
+    setLoading(true);
+    try {
+      await removePlayerFromTeam(player);
+      setStatus(`✅ ${player.name} left "${team.name}" (kept in team history).`);
+      await refreshTeams();
+    } catch (e: any) {
+      setError(e?.message || 'Failed to remove player.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const openDelete = (name: string) => {
     setStatus('');
     setError('');
@@ -330,7 +283,7 @@ export default function AdminTeamsScreen() {
 
     setLoading(true);
     try {
-      await deleteTeamFromSupabaseById(id);
+      await deleteTeam(id);
 
       const matches = await safeGetJSON<SavedMatch[]>(STORAGE_KEY_MATCHES, []);
       const scores = await safeGetJSON<Record<string, PersistedMatchScore>>(STORAGE_KEY_SCORES, {});
@@ -381,13 +334,21 @@ export default function AdminTeamsScreen() {
     }
   };
 
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
   return (
     <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
       <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Admin — Manage Teams</Text>
 
       <Text style={{ color: '#444', marginBottom: 16 }}>
-        Add a team mid-season (stored in Supabase), or delete a team you added (deleting also removes any
-        local matches/scores involving that team).
+        Add a team mid-season (stored in Supabase), manage each team’s players, or delete a team you added
+        (deleting also removes any local matches/scores involving that team).
       </Text>
 
       {loading ? (
@@ -404,17 +365,53 @@ export default function AdminTeamsScreen() {
       <Text style={{ fontWeight: '900', marginBottom: 6 }}>Division</Text>
       <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 14 }}>
         <Picker selectedValue={division} onValueChange={(v) => setDivision(v as Division)}>
-          <Picker.Item label="Advanced" value="Advanced" />
-          <Picker.Item label="Intermediate" value="Intermediate" />
-          <Picker.Item label="Beginner" value="Beginner" />
+          {divisionOrder().map((d) => (
+            <Picker.Item key={d} label={d} value={d} />
+          ))}
         </Picker>
       </View>
 
+      {teamsWithoutPlayerRecords > 0 ? (
+        <View style={{ borderWidth: 1, borderColor: '#b26a00', borderRadius: 12, padding: 12, marginBottom: 14 }}>
+          <Text style={{ fontWeight: '900', marginBottom: 6 }}>
+            {teamsWithoutPlayerRecords} team{teamsWithoutPlayerRecords === 1 ? '' : 's'} only have players in the team
+            name
+          </Text>
+          <Text style={{ color: '#444', marginBottom: 10 }}>
+            Create a player record for each name (e.g. “Mark P/Matt O” → Mark P + Matt O) so scores, attendance and
+            announcements can point at real players.
+          </Text>
+          <Pressable
+            onPress={onBackfill}
+            disabled={loading}
+            style={{ backgroundColor: '#b26a00', padding: 12, borderRadius: 10, alignItems: 'center' }}
+          >
+            <Text style={{ color: 'white', fontWeight: '900' }}>Create Player Records</Text>
+          </Pressable>
+        </View>
+      ) : null}
+
       <Text style={{ fontWeight: '900', marginBottom: 6 }}>Add Team</Text>
+      <View style={{ flexDirection: 'row', gap: 10 }}>
+        <TextInput
+          value={player1}
+          onChangeText={setPlayer1}
+          placeholder="Player 1"
+          autoCorrect={false}
+          style={{ flex: 1, borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12, marginBottom: 10, fontSize: 16 }}
+        />
+        <TextInput
+          value={player2}
+          onChangeText={setPlayer2}
+          placeholder="Player 2"
+          autoCorrect={false}
+          style={{ flex: 1, borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12, marginBottom: 10, fontSize: 16 }}
+        />
+      </View>
       <TextInput
         value={teamName}
         onChangeText={setTeamName}
-        placeholder='e.g. "Chris/Mike"'
+        placeholder={`Team name (default "${teamNameFromPlayers([player1, player2]) || 'Chris/Mike'}")`}
         autoCapitalize="none"
         autoCorrect={false}
         style={{
@@ -449,6 +446,7 @@ export default function AdminTeamsScreen() {
       <View style={{ gap: 10, marginBottom: 16 }}>
         {teamsInThisDivision.map((t) => {
           const canDelete = deletableNameToRow.has(t);
+          const rt = rosterTeamByName.get(t);
 
           return (
             <View
@@ -463,6 +461,82 @@ export default function AdminTeamsScreen() {
             >
               <Text style={{ fontWeight: '900', fontSize: 16, marginBottom: 8 }}>{t}</Text>
 
+              {rt ? (
+                <View style={{ marginBottom: 10, gap: 6 }}>
+                  {rt.players.map((p) => (
+                    <View key={p.id ?? p.name} style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}>
+                      <Text style={{ flex: 1, fontWeight: '700' }}>
+                        {p.name}
+                        {p.id ? '' : ' (from team name)'}
+                      </Text>
+                      {p.membershipId ? (
+                        <Pressable onPress={() => onRemovePlayer(rt, p)} disabled={loading}>
+                          <Text style={{ color: '#c62828', fontWeight: '900' }}>Remove</Text>
+                        </Pressable>
+                      ) : null}
+                    </View>
+                  ))}
+
+                  {rt.history.map((h) => (
+                    <Text key={h.membership.id} style={{ color: '#888' }}>
+                      {h.player.name} — left {(h.membership.leftAt ?? '').slice(0, 10)}
+                    </Text>
+                  ))}
+
+                  {addingTo === t ? (
+                    <View style={{ gap: 8 }}>
+                      <TextInput
+                        value={newPlayerName}
+                        onChangeText={setNewPlayerName}
+                        placeholder="Player name"
+                        autoCorrect={false}
+                        style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 10 }}
+                      />
+                      {playerSuggestions.length > 0 ? (
+                        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
+                          {playerSuggestions.map((p) => (
+                            <Pressable
+                              key={p.id}
+                              onPress={() => onAddPlayer(rt, p)}
+                              style={{ borderWidth: 1, borderColor: '#111', borderRadius: 999, paddingVertical: 4, paddingHorizontal: 10 }}
+                            >
+                              <Text style={{ fontWeight: '800' }}>Existing: {p.name}</Text>
+                            </Pressable>
+                          ))}
+                        </View>
+                      ) : null}
+                      <View style={{ flexDirection: 'row', gap: 10 }}>
+                        <Pressable
+                          onPress={() => onAddPlayer(rt, newPlayerName)}
+                          disabled={loading}
+                          style={{ flex: 1, backgroundColor: 'black', paddingVertical: 10, borderRadius: 10, alignItems: 'center' }}
+                        >
+                          <Text style={{ color: 'white', fontWeight: '900' }}>Add New Player</Text>
+                        </Pressable>
+                        <Pressable
+                          onPress={() => {
+                            setAddingTo(null);
+                            setNewPlayerName('');
+                          }}
+                          style={{ flex: 1, borderWidth: 1, borderColor: '#999', paddingVertical: 10, borderRadius: 10, alignItems: 'center' }}
+                        >
+                          <Text style={{ fontWeight: '900' }}>Cancel</Text>
+                        </Pressable>
+                      </View>
+                    </View>
+                  ) : (
+                    <Pressable
+                      onPress={() => {
+                        setAddingTo(t);
+                        setNewPlayerName('');
+                      }}
+                    >
+                      <Text style={{ fontWeight: '900', color: '#1565c0' }}>+ Add Player</Text>
+                    </Pressable>
+                  )}
+                </View>
+              ) : null}
+
               {canDelete ? (
                 <Pressable
                   onPress={() => openDelete(t)}
@@ -1,9 +1,8 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFocusEffect, useRouter } from 'expo-router';
 import React, { useCallback, useState } from 'react';
 import { ActivityIndicator, Alert, Pressable, Text, View } from 'react-native';
 
-const ADMIN_UNLOCK_KEY = 'ppl_admin_unlocked';
+import { currentUserHasRole, signOut } from '@/constants/auth';
 
 export default function AdminScreen() {
   const router = useRouter();
@@ -12,8 +11,7 @@ export default function AdminScreen() {
 
   const checkAdmin = useCallback(async () => {
     try {
-      const v = await AsyncStorage.getItem(ADMIN_UNLOCK_KEY);
-      const ok = v === 'true';
+      const ok = await currentUserHasRole('league_admin');
       setIsUnlocked(ok);
 
       if (!ok) {
@@ -32,10 +30,10 @@ export default function AdminScreen() {
   );
 
   const onLock = async () => {
-    await AsyncStorage.setItem(ADMIN_UNLOCK_KEY, 'false');
+    await signOut();
     setIsUnlocked(false);
 
-    Alert.alert('Locked', 'Admin has been locked.');
+    Alert.alert('Signed out', 'You have been signed out.');
     router.replace('/admin-lock');
   };
 
@@ -43,10 +41,18 @@ export default function AdminScreen() {
     router.push('/admin-schedule');
   };
 
+  const goToSeasonPlanner = () => {
+    router.push('/admin-season-planner' as any);
+  };
+
   const goToAttendance = () => {
     router.push('/admin-attendance' as any);
   };
 
+  const goToPrintSheets = () => {
+    router.push('/print-sheets' as any);
+  };
+
   const goToAdminAnnouncements = () => {
     router.push('/admin-announcements');
   };
@@ -55,10 +61,50 @@ export default function AdminScreen() {
     router.push('/admin-division-moves' as any);
   };
 
+  const goToPromotions = () => {
+    router.push('/admin-promotions' as any);
+  };
+
+  const goToDivisions = () => {
+    router.push('/admin-divisions' as any);
+  };
+
+  const goToLeagueNights = () => {
+    router.push('/admin-league-nights' as any);
+  };
+
+  const goToPlayoffs = () => {
+    router.push('/admin-playoffs' as any);
+  };
+
   const goToManageTeams = () => {
     router.push('/admin-teams' as any);
   };
 
+  const goToStandingsRules = () => {
+    router.push('/admin-standings-rules' as any);
+  };
+
+  const goToSeasons = () => {
+    router.push('/admin-seasons' as any);
+  };
+
+  const goToSubs = () => {
+    router.push('/admin-subs' as any);
+  };
+
+  const goToGameRules = () => {
+    router.push('/admin-game-rules' as any);
+  };
+
+  const goToRoles = () => {
+    router.push('/admin-roles' as any);
+  };
+
+  const goToScoreDisputes = () => {
+    router.push('/admin-score-disputes' as any);
+  };
+
   if (checking) {
     return (
       <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
@@ -71,7 +117,7 @@ export default function AdminScreen() {
     return (
       <View style={{ flex: 1, padding: 24 }}>
         <Text style={{ fontSize: 18, fontWeight: '800' }}>
-          Redirecting to Admin Lock…
+          Redirecting to Admin Sign-In…
         </Text>
       </View>
     );
@@ -104,24 +150,72 @@ export default function AdminScreen() {
         <Text style={buttonTextStyle}>Schedule Builder</Text>
       </Pressable>
 
+      <Pressable onPress={goToSeasonPlanner} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Season Planner</Text>
+      </Pressable>
+
+      <Pressable onPress={goToPlayoffs} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Playoffs (Brackets)</Text>
+      </Pressable>
+
+      <Pressable onPress={goToSeasons} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Seasons (Start New Season)</Text>
+      </Pressable>
+
       <Pressable onPress={goToAttendance} style={buttonStyle}>
         <Text style={buttonTextStyle}>Attendance</Text>
       </Pressable>
 
+      <Pressable onPress={goToSubs} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Substitutes</Text>
+      </Pressable>
+
+      <Pressable onPress={goToPrintSheets} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Print Sheets (Match Night)</Text>
+      </Pressable>
+
       <Pressable onPress={goToAdminAnnouncements} style={buttonStyle}>
         <Text style={buttonTextStyle}>Admin Announcements</Text>
       </Pressable>
 
+      <Pressable onPress={goToDivisions} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Divisions</Text>
+      </Pressable>
+
+      <Pressable onPress={goToLeagueNights} style={buttonStyle}>
+        <Text style={buttonTextStyle}>League Nights (Venues & Time Slots)</Text>
+      </Pressable>
+
       {/* ✅ RESTORED: Division Moves button */}
       <Pressable onPress={goToDivisionMoves} style={buttonStyle}>
         <Text style={buttonTextStyle}>Division Moves (Mid-Season)</Text>
       </Pressable>
 
+      <Pressable onPress={goToPromotions} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Promotion / Relegation (Weekly Review)</Text>
+      </Pressable>
+
       {/* ✅ NEW: Manage Teams button */}
       <Pressable onPress={goToManageTeams} style={buttonStyle}>
         <Text style={buttonTextStyle}>Manage Teams (Add Mid-Season)</Text>
       </Pressable>
 
+      <Pressable onPress={goToScoreDisputes} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Score Disputes</Text>
+      </Pressable>
+
+      <Pressable onPress={goToStandingsRules} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Standings Tiebreakers</Text>
+      </Pressable>
+
+      <Pressable onPress={goToGameRules} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Game Rules</Text>
+      </Pressable>
+
+      <Pressable onPress={goToRoles} style={buttonStyle}>
+        <Text style={buttonTextStyle}>Members & Roles</Text>
+      </Pressable>
+
       <Pressable
         onPress={onLock}
         style={{
@@ -134,7 +228,7 @@ export default function AdminScreen() {
         }}
       >
         <Text style={{ color: 'white', fontSize: 16, fontWeight: '700' }}>
-          Lock Admin
+          Sign Out
         </Text>
       </Pressable>
     </View>
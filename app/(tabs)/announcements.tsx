@@ -1,7 +1,9 @@
 import { ThemedText } from "@/components/themed-text";
 import { ThemedView } from "@/components/themed-view";
+import { identityLabel, identityRef, loadIdentity } from "@/constants/identity";
+import type { PlayerRef } from "@/constants/leagueData";
 import { supabaseHeaders, supabaseRestUrl } from "@/constants/supabase";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useLiveRefresh } from "@/hooks/use-live-refresh";
 import React, { useEffect, useMemo, useState } from "react";
 import {
   FlatList,
@@ -14,10 +16,12 @@ import {
   View,
 } from "react-native";
 
+// announcements + announcement_replies: author (display string), author_player_id, author_team_id
 type Reply = {
   id: string;
   announcement_id: string;
   author: string;
+  author_player_id?: string | null;
   message: string;
   created_at: string;
 };
@@ -26,6 +30,7 @@ type Post = {
   id: string;
   scope: "community" | "admin";
   author: string;
+  author_player_id?: string | null;
   message: string;
   created_at: string;
   replies: Reply[];
@@ -40,6 +45,7 @@ export default function AnnouncementsScreen() {
   const [replyText, setReplyText] = useState("");
 
   const [currentAuthor, setCurrentAuthor] = useState<string>("Community");
+  const [currentRef, setCurrentRef] = useState<PlayerRef>(identityRef(null));
 
   useEffect(() => {
     (async () => {
@@ -48,21 +54,16 @@ export default function AnnouncementsScreen() {
     })();
   }, []);
 
+  // ✅ Realtime: new posts (community + admin) appear without reopening the tab
+  useLiveRefresh(["announcements"], () => {
+    void loadAll();
+  });
+
   async function loadAuthor() {
     try {
-      const name = (await AsyncStorage.getItem("ppl_selected_player_name"))?.trim() || "";
-      const team = (await AsyncStorage.getItem("ppl_selected_team"))?.trim() || "";
-
-      if (name && team) {
-        setCurrentAuthor(`${name} (${team})`);
-        return;
-      }
-      if (name) {
-        setCurrentAuthor(name);
-        return;
-      }
-
-      setCurrentAuthor("Community");
+      const me = await loadIdentity();
+      setCurrentRef(identityRef(me));
+      setCurrentAuthor(me ? identityLabel(me) : "Community");
     } catch {
       setCurrentAuthor("Community");
     }
@@ -104,18 +105,24 @@ export default function AnnouncementsScreen() {
     );
   }
 
+  // Posts from player records match by id (survives team renames); older posts by author string
+  const isMine = (item: { author: string; author_player_id?: string | null }) => {
+    if (item.author_player_id && currentRef.playerId) return item.author_player_id === currentRef.playerId;
+    return item.author === currentAuthor;
+  };
+
   // ✅ Community users can delete ONLY their own items
   const canDeletePost = (p: Post) => {
     // If you’re browsing as ADMIN for any reason, allow it
     if (currentAuthor === "ADMIN") return true;
 
     // Community tab: only allow deleting community posts that match your author string
-    return p.scope === "community" && p.author === currentAuthor;
+    return p.scope === "community" && isMine(p);
   };
 
   const canDeleteReply = (r: Reply) => {
     if (currentAuthor === "ADMIN") return true;
-    return r.author === currentAuthor;
+    return isMine(r);
   };
 
   async function postAnnouncement() {
@@ -127,6 +134,8 @@ export default function AnnouncementsScreen() {
       body: JSON.stringify({
         scope: "community",
         author: currentAuthor,
+        author_player_id: currentRef.playerId,
+        author_team_id: currentRef.teamId,
         message: text.trim(),
       }),
     });
@@ -144,6 +153,8 @@ export default function AnnouncementsScreen() {
       body: JSON.stringify({
         announcement_id: postId,
         author: currentAuthor,
+        author_player_id: currentRef.playerId,
+        author_team_id: currentRef.teamId,
         message: replyText.trim(),
       }),
     });
@@ -0,0 +1,165 @@
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { Pressable, ScrollView, Text, View } from 'react-native';
+
+import { identityLabel, loadIdentity, type Identity } from '@/constants/identity';
+import { fetchRsvpCutoffs, fetchRsvpsForWeek, type Rsvp, type RsvpCutoff, type RsvpStatus } from '@/constants/leagueData';
+import { findRosterTeam, loadRoster, splitTeamName } from '@/constants/roster';
+import {
+  RSVP_LABELS,
+  isPastCutoff,
+  openRsvpWeeks,
+  submitRsvp,
+  summarizeTeamRsvps,
+  type TeamRsvpSummary,
+} from '@/constants/rsvp';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
+
+const STATUS_ORDER: RsvpStatus[] = ['in', 'maybe', 'out'];
+
+const STATUS_COLORS: Record<RsvpStatus, string> = { in: '#1f8a3b', maybe: '#b26a00', out: '#b3261e' };
+
+type WeekCard = {
+  cutoff: RsvpCutoff;
+  summary: TeamRsvpSummary;
+  mine: RsvpStatus | null;
+};
+
+export default function AvailabilityScreen() {
+  const [me, setMe] = useState<Identity | null>(null);
+  const [cards, setCards] = useState<WeekCard[]>([]);
+
+  const [loading, setLoading] = useState(false);
+  const [savingWeek, setSavingWeek] = useState<number | null>(null);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const identity = await loadIdentity();
+      setMe(identity);
+      if (!identity) {
+        setCards([]);
+        return;
+      }
+
+      const [cutoffs, roster] = await Promise.all([fetchRsvpCutoffs(), loadRoster().catch(() => null)]);
+      const rosterTeam = roster ? findRosterTeam(roster, identity.team) : null;
+      const players = rosterTeam ? rosterTeam.players.map((p) => p.name) : splitTeamName(identity.team);
+
+      const weeks = openRsvpWeeks(cutoffs);
+      const rsvpsByWeek: Rsvp[][] = await Promise.all(weeks.map((c) => fetchRsvpsForWeek(c.week)));
+
+      setCards(
+        weeks.map((cutoff, i) => {
+          const summary = summarizeTeamRsvps(identity.team, players, rsvpsByWeek[i]);
+          const mine = summary.answers.find((a) => a.playerName === identity.playerName)?.status ?? null;
+          return { cutoff, summary, mine };
+        })
+      );
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load RSVPs from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  useLiveRefresh(['rsvps'], load);
+
+  const answer = async (week: number, status: RsvpStatus) => {
+    if (!me) return;
+    setStatusMsg('');
+    setErrorMsg('');
+    setSavingWeek(week);
+    try {
+      const applied = await submitRsvp(me, week, status);
+      setStatusMsg(
+        applied
+          ? `✅ Week ${week}: you're ${RSVP_LABELS[status].toLowerCase()}.`
+          : `✅ Week ${week} saved — your league admin has already set your team's attendance, so let them know about changes.`
+      );
+      await load();
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to save your RSVP.');
+    } finally {
+      setSavingWeek(null);
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Availability</Text>
+      <Text style={{ color: '#444', marginBottom: 12 }}>
+        Let the league know if you can play. Your team is left off the schedule if either player is out.
+      </Text>
+
+      {me ? <Text style={{ fontWeight: '800', marginBottom: 12 }}>{identityLabel(me)}</Text> : null}
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      {!loading && me && cards.length === 0 ? (
+        <Text style={{ color: '#666' }}>No weeks are open for RSVPs right now.</Text>
+      ) : null}
+
+      <View style={{ gap: 12 }}>
+        {cards.map(({ cutoff, summary, mine }) => {
+          const late = isPastCutoff(cutoff);
+          return (
+            <View
+              key={cutoff.week}
+              style={{ borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, backgroundColor: 'white' }}
+            >
+              <Text style={{ fontWeight: '900', fontSize: 18 }}>Week {cutoff.week}</Text>
+              <Text style={{ color: late ? '#b3261e' : '#666', fontWeight: '700', marginBottom: 10 }}>
+                {late ? 'RSVPs were due ' : 'RSVP by '}
+                {new Date(cutoff.cutoffAt).toLocaleString()}
+              </Text>
+
+              <View style={{ flexDirection: 'row', gap: 8, marginBottom: 10 }}>
+                {STATUS_ORDER.map((status) => {
+                  const active = mine === status;
+                  return (
+                    <Pressable
+                      key={status}
+                      onPress={() => answer(cutoff.week, status)}
+                      disabled={savingWeek != null}
+                      style={{
+                        flex: 1,
+                        paddingVertical: 12,
+                        borderRadius: 10,
+                        alignItems: 'center',
+                        borderWidth: 2,
+                        borderColor: STATUS_COLORS[status],
+                        backgroundColor: active ? STATUS_COLORS[status] : 'white',
+                      }}
+                    >
+                      <Text style={{ fontWeight: '900', color: active ? 'white' : STATUS_COLORS[status] }}>
+                        {RSVP_LABELS[status]}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              {summary.answers.map((a) => (
+                <Text key={a.playerName} style={{ color: '#444' }}>
+                  {a.playerName}: {a.status ? RSVP_LABELS[a.status] : 'No answer yet'}
+                </Text>
+              ))}
+            </View>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,212 @@
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { Linking, Platform, Pressable, ScrollView, Text, View } from 'react-native';
+
+import { shareTextFile } from '@/constants/fileExport';
+import { loadIdentity, type Identity } from '@/constants/identity';
+import {
+  buildMatchCalendar,
+  calendarFeedQuery,
+  calendarFileName,
+  matchesForScope,
+  scopeLabel,
+  type CalendarScope,
+} from '@/constants/ics';
+import {
+  divisionOrder,
+  fetchMatches,
+  fetchSeasonSettings,
+  getActiveSeasonId,
+  type SavedMatch,
+} from '@/constants/leagueData';
+import { DEFAULT_LEAGUE_NIGHT_CONFIG, fetchLeagueNightConfig, type LeagueNightConfig } from '@/constants/leagueNights';
+import { listSeasons } from '@/constants/seasons';
+
+// Feed endpoint (api/calendar.ts on the web deployment). Native builds need EXPO_PUBLIC_CALENDAR_FEED_URL.
+function calendarFeedBaseUrl(): string | null {
+  const configured = (process.env.EXPO_PUBLIC_CALENDAR_FEED_URL || '').trim();
+  if (configured) return configured;
+  if (Platform.OS === 'web' && typeof window !== 'undefined') return `${window.location.origin}/api/calendar`;
+  return null;
+}
+
+// webcal:// makes phones and desktop calendars offer to subscribe
+function subscribeUrl(feedUrl: string) {
+  return feedUrl.replace(/^https?:\/\//, 'webcal://');
+}
+
+function scopeKey(scope: CalendarScope) {
+  return scope.kind === 'team' ? `team:${scope.team}` : `division:${scope.division}`;
+}
+
+export default function CalendarScreen() {
+  const [me, setMe] = useState<Identity | null>(null);
+  const [matches, setMatches] = useState<SavedMatch[]>([]);
+  const [week1Date, setWeek1Date] = useState<string | null>(null);
+  const [nights, setNights] = useState<LeagueNightConfig>(DEFAULT_LEAGUE_NIGHT_CONFIG);
+  const [seasonName, setSeasonName] = useState('');
+  const [scope, setScope] = useState<CalendarScope | null>(null);
+
+  const [loading, setLoading] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const identity = await loadIdentity();
+      const [list, settings, seasons, nightConfig] = await Promise.all([
+        fetchMatches(),
+        fetchSeasonSettings(getActiveSeasonId()).catch(() => null),
+        listSeasons().catch(() => []),
+        fetchLeagueNightConfig(),
+      ]);
+      setMe(identity);
+      setMatches(list);
+      setWeek1Date(settings?.week1Date ?? null);
+      setNights(nightConfig);
+      setSeasonName(seasons.find((s) => s.id === getActiveSeasonId())?.name ?? getActiveSeasonId());
+      setScope((prev) => prev ?? (identity ? { kind: 'team', team: identity.team } : { kind: 'division', division: divisionOrder()[0] ?? '' }));
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load the schedule from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  const choices = useMemo<CalendarScope[]>(
+    () => [
+      ...(me ? [{ kind: 'team', team: me.team } as const] : []),
+      ...divisionOrder().map((division) => ({ kind: 'division', division }) as const),
+    ],
+    [me]
+  );
+
+  const feedBase = calendarFeedBaseUrl();
+  const feedUrl = scope && feedBase ? `${feedBase}?${calendarFeedQuery(scope)}` : null;
+  const count = scope ? matchesForScope(matches, scope).length : 0;
+
+  const onDownload = async () => {
+    if (!scope) return;
+    setStatusMsg('');
+    setErrorMsg('');
+    try {
+      const ics = buildMatchCalendar(matches, scope, week1Date, seasonName, nights);
+      await shareTextFile(calendarFileName(scope), ics, 'text/calendar;charset=utf-8');
+      setStatusMsg(`✅ ${calendarFileName(scope)} is ready. Re-importing it later updates the same events.`);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Could not create the calendar file.');
+    }
+  };
+
+  const onSubscribe = async () => {
+    if (!feedUrl) return;
+    setErrorMsg('');
+    try {
+      await Linking.openURL(subscribeUrl(feedUrl));
+    } catch {
+      setErrorMsg('Could not open your calendar app. Add the feed link below as a calendar subscription instead.');
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Add to Calendar</Text>
+      <Text style={{ color: '#444', marginBottom: 12 }}>
+        Subscribe to keep your calendar in sync with schedule changes, or download a one-time .ics file for Google or
+        Apple Calendar.
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      {!loading && !week1Date ? (
+        <Text style={{ color: '#b26a00', fontWeight: '800', marginBottom: 12 }}>
+          The league hasn&apos;t set its league night dates yet, so matches can&apos;t be placed on a calendar.
+        </Text>
+      ) : null}
+
+      <Text style={{ fontWeight: '900', marginBottom: 8 }}>Calendar for</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 14 }}>
+        {choices.map((c) => {
+          const active = !!scope && scopeKey(scope) === scopeKey(c);
+          return (
+            <Pressable
+              key={scopeKey(c)}
+              onPress={() => setScope(c)}
+              style={{
+                paddingVertical: 8,
+                paddingHorizontal: 12,
+                borderRadius: 999,
+                borderWidth: 1,
+                borderColor: active ? '#111' : '#ccc',
+                backgroundColor: active ? '#111' : 'white',
+              }}
+            >
+              <Text style={{ fontWeight: '800', color: active ? 'white' : '#111' }}>
+                {c.kind === 'team' ? `My team (${c.team})` : scopeLabel(c)}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {scope ? (
+        <Text style={{ color: '#444', marginBottom: 12 }}>
+          {count} match{count === 1 ? '' : 'es'} in {seasonName}.
+        </Text>
+      ) : null}
+
+      <View style={{ gap: 10 }}>
+        <Pressable
+          onPress={onSubscribe}
+          disabled={!feedUrl || !week1Date}
+          style={{
+            backgroundColor: 'black',
+            paddingVertical: 12,
+            borderRadius: 10,
+            alignItems: 'center',
+            opacity: feedUrl && week1Date ? 1 : 0.5,
+          }}
+        >
+          <Text style={{ color: 'white', fontWeight: '900' }}>Subscribe (stays up to date)</Text>
+        </Pressable>
+
+        <Pressable
+          onPress={onDownload}
+          disabled={!scope || !week1Date}
+          style={{
+            borderWidth: 1,
+            borderColor: '#111',
+            paddingVertical: 12,
+            borderRadius: 10,
+            alignItems: 'center',
+            opacity: scope && week1Date ? 1 : 0.5,
+          }}
+        >
+          <Text style={{ fontWeight: '900' }}>Download .ics File</Text>
+        </Pressable>
+      </View>
+
+      {feedUrl ? (
+        <View style={{ marginTop: 16 }}>
+          <Text style={{ fontWeight: '900', marginBottom: 4 }}>Feed link</Text>
+          <Text selectable style={{ color: '#1565c0' }}>
+            {feedUrl}
+          </Text>
+          <Text style={{ color: '#666', marginTop: 4 }}>
+            Google Calendar: Other calendars → + → From URL, then paste this link.
+          </Text>
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,236 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { Pressable, ScrollView, Text, View } from 'react-native';
+
+import { matchTimeMinutes } from '@/constants/leagueCalendar';
+import {
+  fetchMatchScores,
+  fetchMatches,
+  type PersistedMatchScore,
+  type SavedMatch,
+  type ScoreFields,
+} from '@/constants/leagueData';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
+
+const STORAGE_KEY_CURRENT_WEEK = 'ppl_current_week_v1';
+
+type LiveStatus = 'NOT STARTED' | 'IN PROGRESS' | 'FINAL';
+
+function safeInt(value: string, fallback: number) {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function isEnteredScore(v: string) {
+  return (v ?? '').trim() !== '';
+}
+
+function enteredGamesCount(teamA: ScoreFields, teamB: ScoreFields) {
+  const a = [teamA.g1, teamA.g2, teamA.g3];
+  const b = [teamB.g1, teamB.g2, teamB.g3];
+  let entered = 0;
+  for (let i = 0; i < 3; i++) {
+    if (isEnteredScore(a[i]) && isEnteredScore(b[i])) entered += 1;
+  }
+  return entered;
+}
+
+function liveStatus(p?: PersistedMatchScore): LiveStatus {
+  if (!p) return 'NOT STARTED';
+  const entered = enteredGamesCount(p.teamA, p.teamB);
+  if (entered === 0) return 'NOT STARTED';
+  if (entered === 3 || p.lockedAt) return 'FINAL';
+  return 'IN PROGRESS';
+}
+
+function formatClock(ms: number) {
+  return new Date(ms).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', second: '2-digit' });
+}
+
+export default function LiveScreen() {
+  const [matches, setMatches] = useState<SavedMatch[]>([]);
+  const [scores, setScores] = useState<Record<string, PersistedMatchScore>>({});
+  const [week, setWeek] = useState<number>(0);
+  const [showAll, setShowAll] = useState(false);
+  const [loadError, setLoadError] = useState('');
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoadError('');
+    try {
+      const [list, map] = await Promise.all([fetchMatches(), fetchMatchScores()]);
+      setMatches(list);
+      setScores(map);
+      setUpdatedAt(Date.now());
+
+      // Default week: saved current week, else newest week on the schedule
+      setWeek((prev) => {
+        if (prev > 0) return prev;
+        const newest = list.reduce((max, m) => Math.max(max, m.week), 0);
+        return newest > 0 ? newest : 1;
+      });
+    } catch (e: any) {
+      setLoadError(e?.message || 'Failed to load live scores from Supabase.');
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void (async () => {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY_CURRENT_WEEK);
+        const w = safeInt(raw ?? '0', 0);
+        if (w > 0) setWeek((prev) => (prev > 0 ? prev : w));
+        await refresh();
+      })();
+    }, [refresh])
+  );
+
+  // ✅ Realtime: every saved game shows up here within a second or so
+  useLiveRefresh(['match_scores', 'matches'], () => {
+    void refresh();
+  });
+
+  const weekOptions = useMemo(() => {
+    const set = new Set<number>(matches.map((m) => m.week));
+    if (week > 0) set.add(week);
+    return Array.from(set).sort((a, b) => a - b);
+  }, [matches, week]);
+
+  const byCourt = useMemo(() => {
+    const map = new Map<number, SavedMatch[]>();
+    for (const m of matches) {
+      if (m.week !== week) continue;
+      if (!showAll && liveStatus(scores[m.id]) !== 'IN PROGRESS') continue;
+      if (!map.has(m.court)) map.set(m.court, []);
+      map.get(m.court)!.push(m);
+    }
+
+    return Array.from(map.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([court, list]) => ({
+        court,
+        matches: [...list].sort((a, b) => matchTimeMinutes(a.time) - matchTimeMinutes(b.time)),
+      }));
+  }, [matches, scores, week, showAll]);
+
+  const inProgressCount = useMemo(() => {
+    return matches.filter((m) => m.week === week && liveStatus(scores[m.id]) === 'IN PROGRESS').length;
+  }, [matches, scores, week]);
+
+  const gameCell = (mine: string, theirs: string) => {
+    const entered = isEnteredScore(mine) && isEnteredScore(theirs);
+    const won = entered && parseInt(mine, 10) > parseInt(theirs, 10);
+    return (
+      <Text style={{ width: 44, textAlign: 'center', fontSize: 18, fontWeight: won ? '900' : '500' }}>
+        {isEnteredScore(mine) ? mine : '-'}
+      </Text>
+    );
+  };
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16 }}>
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+        <Text style={{ fontSize: 24, fontWeight: '900' }}>Live</Text>
+        <Text style={{ color: '#d00000', fontWeight: '900' }}>●</Text>
+      </View>
+
+      <Text style={{ color: '#444', marginBottom: 12 }}>
+        {inProgressCount} match{inProgressCount === 1 ? '' : 'es'} in progress
+        {updatedAt ? ` • updated ${formatClock(updatedAt)}` : ''}
+      </Text>
+
+      {loadError ? (
+        <Text style={{ color: '#b00020', fontWeight: '900', marginBottom: 12 }}>Sync warning: {loadError}</Text>
+      ) : null}
+
+      <Text style={{ fontWeight: '800', marginBottom: 6 }}>Week</Text>
+      <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
+        <Picker selectedValue={week} onValueChange={(v) => setWeek(Number(v))}>
+          {weekOptions.map((w) => (
+            <Picker.Item key={w} label={`Week ${w}`} value={w} />
+          ))}
+        </Picker>
+      </View>
+
+      <Pressable
+        onPress={() => setShowAll((v) => !v)}
+        style={{
+          alignSelf: 'flex-start',
+          paddingVertical: 10,
+          paddingHorizontal: 14,
+          borderRadius: 999,
+          backgroundColor: 'white',
+          borderWidth: 1,
+          borderColor: '#ccc',
+          marginBottom: 14,
+        }}
+      >
+        <Text style={{ fontWeight: '900' }}>{showAll ? 'Showing: ALL matches' : 'Showing: IN PROGRESS only'}</Text>
+      </Pressable>
+
+      {byCourt.length === 0 ? (
+        <Text style={{ color: '#555' }}>
+          {showAll ? 'No matches scheduled for this week.' : 'No matches in progress right now.'}
+        </Text>
+      ) : (
+        <View style={{ gap: 14 }}>
+          {byCourt.map((section) => (
+            <View
+              key={section.court}
+              style={{ borderWidth: 2, borderColor: '#000', borderRadius: 10, overflow: 'hidden', backgroundColor: 'white' }}
+            >
+              <View style={{ backgroundColor: '#111', paddingVertical: 8, paddingHorizontal: 10 }}>
+                <Text style={{ color: 'white', fontWeight: '900', fontSize: 16 }}>Court {section.court}</Text>
+              </View>
+
+              {section.matches.map((m, idx) => {
+                const p = scores[m.id];
+                const status = liveStatus(p);
+                const a = p?.teamA ?? { g1: '', g2: '', g3: '' };
+                const b = p?.teamB ?? { g1: '', g2: '', g3: '' };
+
+                const statusColor = status === 'IN PROGRESS' ? '#d00000' : status === 'FINAL' ? 'green' : '#666';
+
+                return (
+                  <View
+                    key={m.id}
+                    style={{ padding: 10, borderTopWidth: idx === 0 ? 0 : 1, borderTopColor: '#ddd' }}
+                  >
+                    <View style={{ flexDirection: 'row', justifyContent: 'space-between', marginBottom: 6 }}>
+                      <Text style={{ fontWeight: '800' }}>
+                        {m.time} • {m.division}
+                      </Text>
+                      <Text style={{ color: statusColor, fontWeight: '900' }}>{status}</Text>
+                    </View>
+
+                    <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+                      <Text style={{ flex: 1, fontWeight: '700' }} numberOfLines={1}>
+                        {m.teamA}
+                      </Text>
+                      {gameCell(a.g1, b.g1)}
+                      {gameCell(a.g2, b.g2)}
+                      {gameCell(a.g3, b.g3)}
+                    </View>
+
+                    <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 4 }}>
+                      <Text style={{ flex: 1, fontWeight: '700' }} numberOfLines={1}>
+                        {m.teamB}
+                      </Text>
+                      {gameCell(b.g1, a.g1)}
+                      {gameCell(b.g2, a.g2)}
+                      {gameCell(b.g3, a.g3)}
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          ))}
+        </View>
+      )}
+
+      <View style={{ height: 30 }} />
+    </ScrollView>
+  );
+}
@@ -0,0 +1,218 @@
+import { Picker } from '@react-native-picker/picker';
+import { useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Pressable, ScrollView, Text, View } from 'react-native';
+
+import { loadIdentity } from '@/constants/identity';
+import {
+  fetchMatchScores,
+  fetchMatchSubs,
+  fetchMatches,
+  fetchPlayers,
+  fetchSeasonSettings,
+  fetchTeamMemberships,
+  fetchTeamsByDivision,
+  getActiveSeasonId,
+  type Player,
+} from '@/constants/leagueData';
+import {
+  combinePlayerSeasons,
+  computePlayerSeasonStats,
+  recordDiff,
+  winPct,
+  type PartnerRecord,
+  type PlayerRecord,
+  type PlayerSeasonStats,
+  type PlayerStatsSeasonInput,
+} from '@/constants/playerStats';
+import { listSeasons } from '@/constants/seasons';
+import { normalizeSubRule } from '@/constants/substitutes';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
+
+function formatDiff(n: number) {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+function recordLine(r: PlayerRecord) {
+  const pct = r.gamesPlayed > 0 ? ` • ${Math.round(winPct(r) * 100)}%` : '';
+  return `${r.wins}–${r.losses} games${pct} • ${formatDiff(recordDiff(r))} pts • ${r.matchesPlayed} match${r.matchesPlayed === 1 ? '' : 'es'}`;
+}
+
+function StatBox({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={{ flex: 1, borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 10, alignItems: 'center' }}>
+      <Text style={{ fontSize: 20, fontWeight: '900' }}>{value}</Text>
+      <Text style={{ color: '#666', fontWeight: '700' }}>{label}</Text>
+    </View>
+  );
+}
+
+function PartnerList({ partners, onOpen }: { partners: PartnerRecord[]; onOpen: (id: string) => void }) {
+  if (partners.length === 0) return <Text style={{ color: '#666' }}>No confirmed games with a partner yet.</Text>;
+  return (
+    <View style={{ gap: 6 }}>
+      {partners.map((p) => (
+        <Pressable key={p.partnerId} onPress={() => onOpen(p.partnerId)}>
+          <Text>
+            <Text style={{ fontWeight: '900', color: '#1565c0' }}>{p.partnerName}</Text>
+            <Text style={{ color: '#444' }}> — {recordLine(p.record)}</Text>
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+export default function PlayerProfileScreen() {
+  const params = useLocalSearchParams<{ id?: string }>();
+
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [seasonInputs, setSeasonInputs] = useState<PlayerStatsSeasonInput[]>([]);
+
+  const [loading, setLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  // Every season's raw data once; stats for any player are computed from it locally
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const [allPlayers, seasons] = await Promise.all([fetchPlayers(), listSeasons()]);
+      const inputs = await Promise.all(
+        seasons.map(async (season) => {
+          const [matches, scores, teams, memberships, subs, settings] = await Promise.all([
+            fetchMatches(season.id),
+            fetchMatchScores(season.id),
+            fetchTeamsByDivision(season.id),
+            fetchTeamMemberships(season.id),
+            fetchMatchSubs(season.id).catch(() => []),
+            fetchSeasonSettings(season.id).catch(() => null),
+          ]);
+          const subRule = normalizeSubRule(settings?.subRule);
+          return { season, matches, scores, teams, memberships, subs, subRule, week1Date: settings?.week1Date ?? null };
+        })
+      );
+      setPlayers(allPlayers);
+      setSeasonInputs(inputs);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load player stats from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useLiveRefresh(['match_scores', 'match_subs'], load);
+
+  // Opened from a link → that player; otherwise the player picked on this device
+  useEffect(() => {
+    (async () => {
+      if (params.id) {
+        setPlayerId(String(params.id));
+        return;
+      }
+      const me = await loadIdentity();
+      if (me?.playerId) setPlayerId((prev) => prev ?? me.playerId);
+    })();
+  }, [params.id]);
+
+  const playersById = useMemo(() => new Map(players.map((p) => [p.id, p])), [players]);
+  const player = playerId ? playersById.get(playerId) ?? null : null;
+
+  const seasonStats = useMemo(() => {
+    if (!playerId) return [];
+    const out: PlayerSeasonStats[] = [];
+    for (const input of seasonInputs) {
+      const s = computePlayerSeasonStats(playerId, input, playersById);
+      if (s) out.push(s);
+    }
+    return out;
+  }, [playerId, seasonInputs, playersById]);
+
+  const career = useMemo(() => combinePlayerSeasons(seasonStats), [seasonStats]);
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Player Profile</Text>
+      <Text style={{ color: '#444', marginBottom: 12 }}>
+        Built from confirmed scores only. Each game counts for the players on the team when it was played, so a
+        player keeps their record after switching partners.
+      </Text>
+
+      <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 14 }}>
+        <Picker selectedValue={playerId ?? ''} onValueChange={(v) => setPlayerId(v ? String(v) : null)}>
+          <Picker.Item label="Choose a player…" value="" />
+          {players.map((p) => (
+            <Picker.Item key={p.id} label={p.name} value={p.id} />
+          ))}
+        </Picker>
+      </View>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      {!loading && players.length === 0 ? (
+        <Text style={{ color: '#666' }}>
+          No player records yet. A league admin can create them from Admin → Manage Teams.
+        </Text>
+      ) : null}
+
+      {player ? (
+        <View>
+          <Text style={{ fontSize: 22, fontWeight: '900', marginBottom: 10 }}>{player.name}</Text>
+
+          <Text style={{ fontSize: 18, fontWeight: '900', marginBottom: 8 }}>Career</Text>
+          <View style={{ flexDirection: 'row', gap: 8, marginBottom: 8 }}>
+            <StatBox label="Games W–L" value={`${career.totals.wins}–${career.totals.losses}`} />
+            <StatBox label="Win %" value={`${Math.round(winPct(career.totals) * 100)}%`} />
+            <StatBox label="Point Diff" value={formatDiff(recordDiff(career.totals))} />
+          </View>
+          <Text style={{ color: '#444', marginBottom: 12 }}>
+            {career.totals.matchesPlayed} matches • {career.totals.pointsFor} points for • {career.totals.pointsAgainst}{' '}
+            against
+          </Text>
+
+          <Text style={{ fontWeight: '900', marginBottom: 6 }}>Partners</Text>
+          <PartnerList partners={career.byPartner} onOpen={setPlayerId} />
+
+          <Text style={{ fontSize: 18, fontWeight: '900', marginTop: 18, marginBottom: 8 }}>Season by Season</Text>
+          {seasonStats.length === 0 ? <Text style={{ color: '#666' }}>No seasons on a roster yet.</Text> : null}
+
+          <View style={{ gap: 12 }}>
+            {seasonStats.map((s) => (
+              <View
+                key={s.season.id}
+                style={{ borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, backgroundColor: 'white' }}
+              >
+                <Text style={{ fontWeight: '900', fontSize: 16 }}>
+                  {s.season.name}
+                  {s.season.id === getActiveSeasonId() ? ' (current)' : ''}
+                </Text>
+                {s.teams.length > 0 ? <Text style={{ color: '#666', marginBottom: 6 }}>{s.teams.join(', ')}</Text> : null}
+                <Text style={{ fontWeight: '700', marginBottom: 8 }}>{recordLine(s.totals)}</Text>
+
+                {s.byDivision.length > 0 ? (
+                  <View style={{ marginBottom: 8 }}>
+                    <Text style={{ fontWeight: '900', marginBottom: 4 }}>By division</Text>
+                    {s.byDivision.map((d) => (
+                      <Text key={d.division} style={{ color: '#444' }}>
+                        {d.division}: {recordLine(d.record)}
+                      </Text>
+                    ))}
+                  </View>
+                ) : null}
+
+                <Text style={{ fontWeight: '900', marginBottom: 4 }}>By partner</Text>
+                <PartnerList partners={s.byPartner} onOpen={setPlayerId} />
+              </View>
+            ))}
+          </View>
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,162 @@
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useMemo, useState } from 'react';
+import { Pressable, ScrollView, Text, View } from 'react-native';
+
+import { PlayoffBracketView } from '@/components/playoff-bracket';
+import { SeasonPicker } from '@/components/season-picker';
+import { loadIdentity } from '@/constants/identity';
+import {
+  divisionColor,
+  fetchMatchScores,
+  fetchMatches,
+  fetchPlayoffBrackets,
+  getActiveSeasonId,
+  sortDivisions,
+  type PersistedMatchScore,
+  type PlayoffBracket,
+  type SavedMatch,
+} from '@/constants/leagueData';
+import {
+  DEFAULT_LEAGUE_NIGHT_CONFIG,
+  courtLabel,
+  fetchLeagueNightConfig,
+  resolveLeagueNight,
+  type LeagueNightConfig,
+} from '@/constants/leagueNights';
+import { BRACKET_FORMAT_LABELS, resolveBracket } from '@/constants/playoffs';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
+
+export default function PlayoffsScreen() {
+  const [season, setSeason] = useState<string>(getActiveSeasonId());
+
+  const [brackets, setBrackets] = useState<PlayoffBracket[]>([]);
+  const [matches, setMatches] = useState<SavedMatch[]>([]);
+  const [scores, setScores] = useState<Record<string, PersistedMatchScore>>({});
+  const [nightConfig, setNightConfig] = useState<LeagueNightConfig>(DEFAULT_LEAGUE_NIGHT_CONFIG);
+  const [myTeam, setMyTeam] = useState<string | null>(null);
+  const [division, setDivision] = useState<string | null>(null);
+
+  const [loading, setLoading] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setErrorMsg('');
+    try {
+      const [list, matchList, scoreMap, config, me] = await Promise.all([
+        fetchPlayoffBrackets(season),
+        fetchMatches(season),
+        fetchMatchScores(season),
+        fetchLeagueNightConfig(season),
+        loadIdentity(),
+      ]);
+      setBrackets(list);
+      setMatches(matchList);
+      setScores(scoreMap);
+      setNightConfig(config);
+      setMyTeam(me?.team ?? null);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Failed to load the playoffs from Supabase.');
+    } finally {
+      setLoading(false);
+    }
+  }, [season]);
+
+  useFocusEffect(
+    useCallback(() => {
+      void load();
+    }, [load])
+  );
+
+  // ✅ Realtime: winners move on as soon as a playoff score is confirmed
+  useLiveRefresh(['matches', 'match_scores'], load);
+
+  const divisions = useMemo(() => sortDivisions(brackets.map((b) => b.division)), [brackets]);
+
+  // Your own division first, otherwise the top one
+  const myDivision = useMemo(
+    () => brackets.find((b) => !!myTeam && b.seeds.includes(myTeam))?.division ?? null,
+    [brackets, myTeam]
+  );
+  const shownDivision = division && divisions.includes(division) ? division : (myDivision ?? divisions[0] ?? null);
+
+  const resolved = useMemo(() => {
+    const bracket = brackets.find((b) => b.division === shownDivision);
+    return bracket ? resolveBracket(bracket, matches, scores) : null;
+  }, [brackets, shownDivision, matches, scores]);
+
+  const courtName = useCallback(
+    (week: number, court: number) => courtLabel(resolveLeagueNight(nightConfig, week), court),
+    [nightConfig]
+  );
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Playoffs</Text>
+      <Text style={{ color: '#444', marginBottom: 12 }}>
+        Seeded from the final standings. Winners move on as soon as both teams confirm the score.
+      </Text>
+
+      <SeasonPicker value={season} onChange={setSeason} />
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      {!loading && brackets.length === 0 ? (
+        <Text style={{ color: '#666', fontWeight: '800' }}>No playoff brackets yet this season.</Text>
+      ) : null}
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 14 }}>
+        {divisions.map((d) => {
+          const active = d === shownDivision;
+          return (
+            <Pressable
+              key={d}
+              onPress={() => setDivision(d)}
+              style={{
+                paddingVertical: 8,
+                paddingHorizontal: 12,
+                borderRadius: 999,
+                borderWidth: 1,
+                borderColor: divisionColor(d),
+                backgroundColor: active ? divisionColor(d) : 'white',
+              }}
+            >
+              <Text style={{ fontWeight: '900', color: active ? 'white' : divisionColor(d) }}>{d}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {resolved ? (
+        <View>
+          <Text style={{ color: '#666', marginBottom: 10 }}>
+            {BRACKET_FORMAT_LABELS[resolved.bracket.format]} • {resolved.bracket.seeds.length} teams
+          </Text>
+
+          {resolved.champion ? (
+            <View
+              style={{
+                borderWidth: 2,
+                borderColor: divisionColor(resolved.bracket.division),
+                borderRadius: 12,
+                padding: 12,
+                marginBottom: 14,
+              }}
+            >
+              <Text style={{ fontSize: 18, fontWeight: '900' }}>🏆 {resolved.champion}</Text>
+              <Text style={{ color: '#444' }}>{resolved.bracket.division} champions</Text>
+            </View>
+          ) : null}
+
+          <PlayoffBracketView
+            resolved={resolved}
+            color={divisionColor(resolved.bracket.division)}
+            courtName={courtName}
+            highlightTeam={myTeam}
+          />
+        </View>
+      ) : null}
+    </ScrollView>
+  );
+}
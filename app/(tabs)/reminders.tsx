@@ -0,0 +1,135 @@
+import * as Notifications from 'expo-notifications';
+import { useFocusEffect } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { Platform, Pressable, ScrollView, Switch, Text, View } from 'react-native';
+
+import { identityLabel, loadIdentity, type Identity } from '@/constants/identity';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  REMINDER_OFFSET_CHOICES,
+  loadReminderSettings,
+  offsetLabel,
+  saveReminderSettings,
+  syncMatchReminders,
+  type ReminderSettings,
+} from '@/constants/reminders';
+
+// Reminders are local notifications — they need the OS permission, not a push token
+async function ensureNotificationPermission(): Promise<boolean> {
+  const { status: existingStatus } = await Notifications.getPermissionsAsync();
+  if (existingStatus === 'granted') return true;
+  const { status } = await Notifications.requestPermissionsAsync();
+  return status === 'granted';
+}
+
+export default function RemindersScreen() {
+  const [me, setMe] = useState<Identity | null>(null);
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+
+  const [saving, setSaving] = useState(false);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  useFocusEffect(
+    useCallback(() => {
+      void (async () => {
+        setMe(await loadIdentity());
+        setSettings(await loadReminderSettings());
+      })();
+    }, [])
+  );
+
+  const apply = async (next: ReminderSettings) => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    if (next.enabled && !(await ensureNotificationPermission())) {
+      setErrorMsg('Notifications are turned off for this app. Allow them in your phone settings first.');
+      return;
+    }
+
+    setSettings(next);
+    setSaving(true);
+    try {
+      await saveReminderSettings(next);
+      const result = await syncMatchReminders();
+      if (result.skipped) setErrorMsg(result.skipped);
+      else if (next.enabled) setStatusMsg(`✅ ${result.scheduled} reminder${result.scheduled === 1 ? '' : 's'} scheduled.`);
+      else setStatusMsg('✅ Reminders turned off.');
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Could not schedule reminders.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleOffset = (offset: number) => {
+    const has = settings.offsets.includes(offset);
+    const offsets = has ? settings.offsets.filter((o) => o !== offset) : [...settings.offsets, offset];
+    void apply({ ...settings, offsets: offsets.sort((a, b) => b - a) });
+  };
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
+      <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Match Reminders</Text>
+      <Text style={{ color: '#444', marginBottom: 12 }}>
+        Get a reminder on this phone before each of your team&apos;s matches, with the court and opponent. If the
+        schedule changes, your reminders move with it.
+      </Text>
+
+      {me ? <Text style={{ fontWeight: '800', marginBottom: 12 }}>{identityLabel(me)}</Text> : null}
+
+      {Platform.OS === 'web' ? (
+        <Text style={{ color: '#666', marginBottom: 12 }}>Reminders work in the phone app only.</Text>
+      ) : null}
+
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          borderWidth: 1,
+          borderColor: '#ddd',
+          borderRadius: 12,
+          padding: 12,
+          marginBottom: 14,
+          backgroundColor: 'white',
+        }}
+      >
+        <Text style={{ flex: 1, fontWeight: '900', fontSize: 16 }}>Remind me before my matches</Text>
+        <Switch
+          value={settings.enabled}
+          disabled={saving || Platform.OS === 'web'}
+          onValueChange={(enabled) => void apply({ ...settings, enabled })}
+        />
+      </View>
+
+      <Text style={{ fontWeight: '900', marginBottom: 8 }}>When</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+        {REMINDER_OFFSET_CHOICES.map((offset) => {
+          const active = settings.offsets.includes(offset);
+          return (
+            <Pressable
+              key={offset}
+              onPress={() => toggleOffset(offset)}
+              disabled={saving || !settings.enabled}
+              style={{
+                paddingVertical: 8,
+                paddingHorizontal: 12,
+                borderRadius: 999,
+                borderWidth: 1,
+                borderColor: active ? '#111' : '#ccc',
+                backgroundColor: active ? '#111' : 'white',
+                opacity: settings.enabled ? 1 : 0.5,
+              }}
+            >
+              <Text style={{ fontWeight: '800', color: active ? 'white' : '#111' }}>{offsetLabel(offset)} before</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
@@ -2,68 +2,35 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Picker } from '@react-native-picker/picker';
 import { useFocusEffect } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { ScrollView, Text, TextInput, View } from 'react-native';
+import { Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import { SeasonPicker } from '@/components/season-picker';
+import { CSV_MIME_TYPE, csvFileName, resultsCsv } from '@/constants/csv';
+import { shareTextFile } from '@/constants/fileExport';
+import { matchTimeMinutes } from '@/constants/leagueCalendar';
+import {
+  compareDivisions,
+  divisionColor,
+  divisionOrder,
+  fetchMatchScores,
+  fetchMatchSubs,
+  fetchMatches,
+  getActiveSeasonId,
+  sortDivisions,
+  type Division,
+  type MatchSub,
+  type PersistedMatchScore,
+  type SavedMatch,
+  type ScoreFields,
+} from '@/constants/leagueData';
+import { scoreStatusLabel } from '@/constants/scoreConfirmation';
+import { subLabel, subsByMatch } from '@/constants/substitutes';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
 
-import { supabaseHeaders, supabaseRestUrl } from '@/constants/supabase';
-
-type Division = 'Beginner' | 'Intermediate' | 'Advanced';
 type DivisionFilter = 'ALL' | Division;
 
-type SavedMatch = {
-  id: string;
-  week: number;
-  division: Division;
-  time: string;
-  court: number;
-  teamA: string;
-  teamB: string;
-};
-
-type ScoreFields = { g1: string; g2: string; g3: string };
-
-type PersistedMatchScore = {
-  matchId: string;
-  teamA: ScoreFields;
-  teamB: ScoreFields;
-  verified: boolean;
-  verifiedBy: string | null;
-  verifiedAt: number | null;
-};
-
 const STORAGE_KEY_CURRENT_WEEK = 'ppl_current_week_v1';
 
-const DIVISION_ORDER: Division[] = ['Advanced', 'Intermediate', 'Beginner'];
-
-const TIMES: string[] = [
-  '6:00 PM','6:15 PM','6:30 PM','6:45 PM',
-  '7:00 PM','7:15 PM','7:30 PM','7:45 PM',
-  '8:00 PM','8:15 PM','8:30 PM','8:45 PM',
-  '9:00 PM','9:15 PM','9:30 PM','9:45 PM',
-];
-
-type SupabaseMatchRow = {
-  id: string;
-  week: number;
-  division: string;
-  time: string;
-  court: number;
-  team_a: string;
-  team_b: string;
-};
-
-type SupabaseMatchScoreRow = {
-  match_id: string;
-  team_a: any;
-  team_b: any;
-  verified: boolean;
-  verified_by: string | null;
-  verified_at_ms: number | null;
-};
-
-function isDivision(v: any): v is Division {
-  return v === 'Beginner' || v === 'Intermediate' || v === 'Advanced';
-}
-
 function safeTrimLower(s: string) {
   return (s ?? '').toString().trim().toLowerCase();
 }
@@ -73,78 +40,6 @@ function safeInt(value: string, fallback: number) {
   return Number.isFinite(n) ? n : fallback;
 }
 
-function asScoreFields(v: any): ScoreFields {
-  const g1 = typeof v?.g1 === 'string' ? v.g1 : '';
-  const g2 = typeof v?.g2 === 'string' ? v.g2 : '';
-  const g3 = typeof v?.g3 === 'string' ? v.g3 : '';
-  return { g1, g2, g3 };
-}
-
-async function fetchMatchesFromSupabase(): Promise<SavedMatch[]> {
-  const url = supabaseRestUrl(
-    'matches?select=id,week,division,time,court,team_a,team_b&order=week.asc&order=division.asc&order=time.asc&order=court.asc'
-  );
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseMatchRow[];
-
-  const out: SavedMatch[] = [];
-  for (const r of rows) {
-    if (!isDivision(r.division)) continue;
-
-    out.push({
-      id: String(r.id),
-      week: Number(r.week),
-      division: r.division,
-      time: String(r.time),
-      court: Number(r.court),
-      teamA: String(r.team_a),
-      teamB: String(r.team_b),
-    });
-  }
-
-  return out;
-}
-
-async function fetchMatchScoresFromSupabase(): Promise<Record<string, PersistedMatchScore>> {
-  const url = supabaseRestUrl('match_scores?select=match_id,team_a,team_b,verified,verified_by,verified_at_ms');
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseMatchScoreRow[];
-
-  const out: Record<string, PersistedMatchScore> = {};
-  for (const r of rows) {
-    const id = String(r.match_id);
-    out[id] = {
-      matchId: id,
-      teamA: asScoreFields(r.team_a),
-      teamB: asScoreFields(r.team_b),
-      verified: !!r.verified,
-      verifiedBy: r.verified_by ?? null,
-      verifiedAt: typeof r.verified_at_ms === 'number' ? r.verified_at_ms : null,
-    };
-  }
-  return out;
-}
-
 function toN(s: string) {
   const n = parseInt(s || '0', 10);
   return Number.isFinite(n) ? n : 0;
@@ -173,8 +68,12 @@ function enteredGamesCount(teamA: ScoreFields, teamB: ScoreFields) {
 }
 
 export default function ResultsScreen() {
+  // Season being browsed (past seasons are read-only)
+  const [season, setSeason] = useState<string>(getActiveSeasonId());
+
   const [matches, setMatches] = useState<SavedMatch[]>([]);
   const [persisted, setPersisted] = useState<Record<string, PersistedMatchScore>>({});
+  const [subs, setSubs] = useState<MatchSub[]>([]);
 
   const [loadError, setLoadError] = useState<string>('');
 
@@ -182,17 +81,20 @@ export default function ResultsScreen() {
   const [divisionFilter, setDivisionFilter] = useState<DivisionFilter>('ALL');
   const [weekFilter, setWeekFilter] = useState<string>(''); // '' means not initialized yet
   const [search, setSearch] = useState<string>('');
+  const [exportMsg, setExportMsg] = useState<string>('');
 
   const refreshAll = useCallback(async () => {
     setLoadError('');
     try {
-      const [m, s] = await Promise.all([
-        fetchMatchesFromSupabase(),
-        fetchMatchScoresFromSupabase(),
+      const [m, s, subList] = await Promise.all([
+        fetchMatches(season),
+        fetchMatchScores(season),
+        fetchMatchSubs(season).catch(() => [] as MatchSub[]),
       ]);
 
       setMatches(Array.isArray(m) ? m : []);
       setPersisted(s && typeof s === 'object' ? s : {});
+      setSubs(subList);
 
       // Init week filter (only once)
       if (weekFilter === '') {
@@ -215,9 +117,10 @@ export default function ResultsScreen() {
     } catch (e: any) {
       setMatches([]);
       setPersisted({});
+      setSubs([]);
       setLoadError(e?.message || 'Failed to load Results from Supabase.');
     }
-  }, [weekFilter]);
+  }, [weekFilter, season]);
 
   useEffect(() => {
     void refreshAll();
@@ -229,6 +132,13 @@ export default function ResultsScreen() {
     }, [refreshAll])
   );
 
+  // ✅ Realtime: new scores / schedule changes refresh the list in place
+  useLiveRefresh(['matches', 'match_scores', 'match_subs'], () => {
+    void refreshAll();
+  });
+
+  const subsMap = useMemo(() => subsByMatch(subs), [subs]);
+
   const allWeeksSorted = useMemo(() => {
     const weeks = Array.from(new Set(matches.map((m) => m.week)))
       .filter((n) => Number.isFinite(n))
@@ -236,6 +146,12 @@ export default function ResultsScreen() {
     return weeks;
   }, [matches]);
 
+  // Active divisions plus any an older season (or a since-retired division) still has matches in
+  const divisionChoices = useMemo(
+    () => sortDivisions([...divisionOrder(), ...matches.map((m) => m.division)]),
+    [matches]
+  );
+
   const filteredMatches = useMemo(() => {
     const q = safeTrimLower(search);
 
@@ -261,14 +177,13 @@ export default function ResultsScreen() {
 
     // Sort like schedule-ish: division order then week then time then court
     return [...base].sort((a, b) => {
-      const da = DIVISION_ORDER.indexOf(a.division);
-      const db = DIVISION_ORDER.indexOf(b.division);
-      if (da !== db) return da - db;
+      const dc = compareDivisions(a.division, b.division);
+      if (dc !== 0) return dc;
 
       if (a.week !== b.week) return a.week - b.week;
 
-      const ta = TIMES.indexOf(a.time);
-      const tb = TIMES.indexOf(b.time);
+      const ta = matchTimeMinutes(a.time);
+      const tb = matchTimeMinutes(b.time);
       if (ta !== tb) return ta - tb;
 
       return a.court - b.court;
@@ -281,17 +196,40 @@ export default function ResultsScreen() {
       if (!map.has(m.division)) map.set(m.division, []);
       map.get(m.division)!.push(m);
     }
-    return DIVISION_ORDER
-      .filter((d) => map.has(d))
-      .map((division) => ({ division, matches: map.get(division)! }));
+    return sortDivisions(map.keys()).map((division) => ({ division, matches: map.get(division)! }));
   }, [filteredMatches]);
 
   const showWeekValue = weekFilter === '' ? '1' : weekFilter;
 
+  // ✅ Export exactly what the filters show (per-game scores + totals)
+  const exportCsv = async () => {
+    setExportMsg('');
+    const fileName = csvFileName([
+      'results',
+      season,
+      weekFilter === 'ALL' || weekFilter === '' ? 'all weeks' : `week ${weekFilter}`,
+      divisionFilter === 'ALL' ? 'all divisions' : divisionFilter,
+    ]);
+    try {
+      await shareTextFile(fileName, resultsCsv(filteredMatches, persisted), CSV_MIME_TYPE);
+      setExportMsg(`✅ Exported ${filteredMatches.length} match(es) to ${fileName}.`);
+    } catch (e: any) {
+      setExportMsg(e?.message || 'Could not create the CSV file.');
+    }
+  };
+
   return (
     <ScrollView contentContainerStyle={{ padding: 16 }}>
       <Text style={{ fontSize: 24, fontWeight: '900', marginBottom: 6 }}>Results</Text>
 
+      <SeasonPicker
+        value={season}
+        onChange={(id) => {
+          setSeason(id);
+          setWeekFilter('ALL');
+        }}
+      />
+
       <Text style={{ color: '#444', marginBottom: 12 }}>
         Read-only league results (Supabase matches + saved scores).
       </Text>
@@ -310,9 +248,9 @@ export default function ResultsScreen() {
           onValueChange={(v) => setDivisionFilter(String(v) as DivisionFilter)}
         >
           <Picker.Item label="All Divisions" value="ALL" />
-          <Picker.Item label="Advanced" value="Advanced" />
-          <Picker.Item label="Intermediate" value="Intermediate" />
-          <Picker.Item label="Beginner" value="Beginner" />
+          {divisionChoices.map((d) => (
+            <Picker.Item key={d} label={d} value={d} />
+          ))}
         </Picker>
       </View>
 
@@ -351,6 +289,13 @@ export default function ResultsScreen() {
         }}
       />
 
+      {filteredMatches.length > 0 ? (
+        <Pressable onPress={() => void exportCsv()} style={{ marginBottom: 6 }}>
+          <Text style={{ fontWeight: '900', color: '#1565c0' }}>⬇️ Export these results (CSV) →</Text>
+        </Pressable>
+      ) : null}
+      {exportMsg ? <Text style={{ fontWeight: '800', marginBottom: 10 }}>{exportMsg}</Text> : null}
+
       {matches.length === 0 ? (
         <Text>No scheduled matches found yet.</Text>
       ) : filteredMatches.length === 0 ? (
@@ -359,7 +304,7 @@ export default function ResultsScreen() {
         <View style={{ gap: 18 }}>
           {grouped.map((section) => (
             <View key={section.division}>
-              <Text style={{ fontSize: 20, fontWeight: '900', marginBottom: 10 }}>
+              <Text style={{ fontSize: 20, fontWeight: '900', marginBottom: 10, color: divisionColor(section.division) }}>
                 {section.division}
               </Text>
 
@@ -385,9 +330,7 @@ export default function ResultsScreen() {
                   const labelColor =
                     label === 'COMPLETED' ? 'green' : label === 'PARTIAL' ? 'red' : 'black';
 
-                  const verifiedLabel = p?.verified
-                    ? `Verified by ${p.verifiedBy ?? 'UNKNOWN'}`
-                    : 'Not verified yet';
+                  const verifiedLabel = scoreStatusLabel(p);
 
                   return (
                     <View
@@ -423,6 +366,12 @@ export default function ResultsScreen() {
                             </>
                           ) : null}
                         </Text>
+
+                        {(subsMap.get(m.id) ?? []).map((sub) => (
+                          <Text key={sub.id} style={{ marginTop: 4, color: '#b26a00', fontWeight: '700' }}>
+                            🔁 Sub: {subLabel(sub)} ({sub.team})
+                          </Text>
+                        ))}
                       </View>
 
                       {/* ✅ Horizontal scroll wrapper for the wide table (HEADER + ROWS) */}
@@ -4,44 +4,34 @@ import { useFocusEffect, useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Pressable, ScrollView, Text, View } from 'react-native';
 
-type Division = 'Beginner' | 'Intermediate' | 'Advanced';
-
-type SavedMatch = {
-  id: string;
-  week: number;
-  division: Division;
-  time: string;
-  court: number;
-  teamA: string;
-  teamB: string;
-  createdAt: number;
-};
-
-const STORAGE_KEY_MATCHES = 'ppl_matches_v1';
-const STORAGE_KEY_CURRENT_WEEK = 'ppl_current_week_v1';
-const ADMIN_UNLOCK_KEY = 'ppl_admin_unlocked';
-
-// Order the schedule sections by division (easy to find)
-const DIVISION_ORDER: Division[] = ['Advanced', 'Intermediate', 'Beginner'];
+import { SeasonPicker } from '@/components/season-picker';
+import { currentUserHasRole } from '@/constants/auth';
+import { matchTimeMinutes } from '@/constants/leagueCalendar';
+import {
+  compareDivisions,
+  divisionColor,
+  fetchMatchSubs,
+  fetchMatches,
+  getActiveSeasonId,
+  sortDivisions,
+  type Division,
+  type MatchSub,
+  type SavedMatch,
+} from '@/constants/leagueData';
+import { subLabel, subsByMatch } from '@/constants/substitutes';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
 
-// 6:00 PM → 9:45 PM, every 15 minutes
-const TIMES: string[] = [
-  '6:00 PM','6:15 PM','6:30 PM','6:45 PM',
-  '7:00 PM','7:15 PM','7:30 PM','7:45 PM',
-  '8:00 PM','8:15 PM','8:30 PM','8:45 PM',
-  '9:00 PM','9:15 PM','9:30 PM','9:45 PM',
-];
+const STORAGE_KEY_CURRENT_WEEK = 'ppl_current_week_v1';
 
 function sortMatches(list: SavedMatch[]) {
   return [...list].sort((a, b) => {
-    const divA = DIVISION_ORDER.indexOf(a.division);
-    const divB = DIVISION_ORDER.indexOf(b.division);
-    if (divA !== divB) return divA - divB;
+    const div = compareDivisions(a.division, b.division);
+    if (div !== 0) return div;
 
     if (a.week !== b.week) return a.week - b.week;
 
-    const timeA = TIMES.indexOf(a.time);
-    const timeB = TIMES.indexOf(b.time);
+    const timeA = matchTimeMinutes(a.time);
+    const timeB = matchTimeMinutes(b.time);
     if (timeA !== timeB) return timeA - timeB;
 
     return a.court - b.court;
@@ -51,7 +41,12 @@ function sortMatches(list: SavedMatch[]) {
 export default function ScheduleScreen() {
   const router = useRouter();
 
+  // Season being browsed (past seasons are read-only)
+  const [season, setSeason] = useState<string>(getActiveSeasonId());
+  const archived = season !== getActiveSeasonId();
+
   const [matches, setMatches] = useState<SavedMatch[]>([]);
+  const [subs, setSubs] = useState<MatchSub[]>([]);
   const [errorMsg, setErrorMsg] = useState<string>('');
 
   const [isAdmin, setIsAdmin] = useState<boolean>(false);
@@ -60,8 +55,7 @@ export default function ScheduleScreen() {
   const [selectedWeek, setSelectedWeek] = useState<number | null>(null);
 
   const loadAdmin = useCallback(async () => {
-    const unlocked = await AsyncStorage.getItem(ADMIN_UNLOCK_KEY);
-    setIsAdmin(unlocked === 'true');
+    setIsAdmin(await currentUserHasRole('league_admin'));
   }, []);
 
   const loadCurrentWeek = useCallback(async () => {
@@ -77,29 +71,30 @@ export default function ScheduleScreen() {
   const loadMatches = useCallback(async () => {
     setErrorMsg('');
     try {
-      const raw = await AsyncStorage.getItem(STORAGE_KEY_MATCHES);
-      if (!raw) {
-        setMatches([]);
-        return;
-      }
-      const parsed = JSON.parse(raw);
-      if (!Array.isArray(parsed)) {
-        setMatches([]);
-        return;
-      }
-      setMatches(sortMatches(parsed));
+      const list = await fetchMatches(season);
+      setMatches(sortMatches(list));
     } catch (e: any) {
       console.error('Schedule load error:', e);
       setErrorMsg(`Could not load schedule: ${String(e?.message ?? e)}`);
       setMatches([]);
     }
-  }, []);
+  }, [season]);
+
+  // Subs are extra info — the schedule still shows if they can't load
+  const loadSubs = useCallback(async () => {
+    try {
+      setSubs(await fetchMatchSubs(season));
+    } catch {
+      setSubs([]);
+    }
+  }, [season]);
 
   const refreshAll = useCallback(async () => {
     await loadAdmin();
     await loadCurrentWeek();
     await loadMatches();
-  }, [loadAdmin, loadCurrentWeek, loadMatches]);
+    await loadSubs();
+  }, [loadAdmin, loadCurrentWeek, loadMatches, loadSubs]);
 
   useEffect(() => {
     void refreshAll();
@@ -111,6 +106,12 @@ export default function ScheduleScreen() {
     }, [refreshAll])
   );
 
+  // ✅ Realtime: schedule edits show up without leaving the tab
+  useLiveRefresh(['matches'], loadMatches);
+  useLiveRefresh(['match_subs'], loadSubs);
+
+  const subsMap = useMemo(() => subsByMatch(subs), [subs]);
+
   const weeksAvailable = useMemo(() => {
     const set = new Set<number>();
     for (const m of matches) set.add(m.week);
@@ -120,21 +121,22 @@ export default function ScheduleScreen() {
   // Default selectedWeek:
   // 1) if currentWeek exists and is in schedule -> use it
   // 2) else -> first available week
+  // (also re-picks when the selected week isn't in the list, e.g. after switching seasons)
   useEffect(() => {
-    if (selectedWeek !== null) return;
+    if (selectedWeek !== null && weeksAvailable.includes(selectedWeek)) return;
 
     if (weeksAvailable.length === 0) {
       setSelectedWeek(null);
       return;
     }
 
-    if (currentWeek !== null && weeksAvailable.includes(currentWeek)) {
+    if (!archived && currentWeek !== null && weeksAvailable.includes(currentWeek)) {
       setSelectedWeek(currentWeek);
       return;
     }
 
     setSelectedWeek(weeksAvailable[0]);
-  }, [weeksAvailable, currentWeek, selectedWeek]);
+  }, [weeksAvailable, currentWeek, selectedWeek, archived]);
 
   const filteredMatches = useMemo(() => {
     if (selectedWeek === null) return [];
@@ -153,13 +155,12 @@ export default function ScheduleScreen() {
       timeMap.get(m.time)!.push(m);
     }
 
-    const divisions = DIVISION_ORDER
-      .filter((d) => divMap.has(d))
+    const divisions = sortDivisions(divMap.keys())
       .map((d) => {
         const timeMap = divMap.get(d)!;
 
         const times = Array.from(timeMap.keys())
-          .sort((a, b) => TIMES.indexOf(a) - TIMES.indexOf(b))
+          .sort((a, b) => matchTimeMinutes(a) - matchTimeMinutes(b))
           .map((time) => {
             const items = [...(timeMap.get(time) ?? [])].sort((x, y) => x.court - y.court);
             return { time, items };
@@ -201,8 +202,33 @@ export default function ScheduleScreen() {
         </Pressable>
       </View>
 
+      <SeasonPicker
+        value={season}
+        onChange={(id) => {
+          setSeason(id);
+          setSelectedWeek(null);
+        }}
+      />
+
+      {/* RSVP, reminders + calendar (current season only) */}
+      {!archived ? (
+        <Pressable onPress={() => router.push('/availability' as any)} style={{ marginBottom: 12 }}>
+          <Text style={{ fontWeight: '900', color: '#1565c0' }}>🙋 RSVP for upcoming weeks →</Text>
+        </Pressable>
+      ) : null}
+      {!archived ? (
+        <Pressable onPress={() => router.push('/reminders' as any)} style={{ marginBottom: 12 }}>
+          <Text style={{ fontWeight: '900', color: '#1565c0' }}>🔔 Match reminders →</Text>
+        </Pressable>
+      ) : null}
+      {!archived ? (
+        <Pressable onPress={() => router.push('/calendar' as any)} style={{ marginBottom: 12 }}>
+          <Text style={{ fontWeight: '900', color: '#1565c0' }}>📅 Add matches to my calendar →</Text>
+        </Pressable>
+      ) : null}
+
       {/* ADMIN BUTTON (back on Schedule tab) */}
-      {isAdmin ? (
+      {isAdmin && !archived ? (
         <View style={{ marginBottom: 12 }}>
           <Pressable
             onPress={() => router.push('/admin-schedule')}
@@ -258,10 +284,10 @@ export default function ScheduleScreen() {
 
         <View style={{ flexDirection: 'row', alignItems: 'center', marginTop: 10, gap: 10 }}>
           <Text style={{ fontWeight: '800' }}>
-            Current Week: {currentWeek ?? 'Not set'}
+            Current Week: {archived ? '—' : currentWeek ?? 'Not set'}
           </Text>
 
-          {isAdmin ? (
+          {isAdmin && !archived ? (
             <Pressable
               onPress={() => { void setAsCurrentWeek(); }}
               style={{
@@ -304,7 +330,7 @@ export default function ScheduleScreen() {
           {grouped.map((divSection) => (
             <View key={divSection.division}>
               {/* DIVISION HEADER */}
-              <Text style={{ fontSize: 20, fontWeight: '900', marginBottom: 10 }}>
+              <Text style={{ fontSize: 20, fontWeight: '900', marginBottom: 10, color: divisionColor(divSection.division) }}>
                 {divSection.division}
               </Text>
 
@@ -357,9 +383,16 @@ export default function ScheduleScreen() {
                           <Text style={{ width: 90, fontWeight: '800' }}>
                             {m.court}
                           </Text>
-                          <Text style={{ flex: 1 }}>
-                            {m.teamA} vs {m.teamB}
-                          </Text>
+                          <View style={{ flex: 1 }}>
+                            <Text>
+                              {m.teamA} vs {m.teamB}
+                            </Text>
+                            {(subsMap.get(m.id) ?? []).map((sub) => (
+                              <Text key={sub.id} style={{ color: '#b26a00', fontWeight: '700', marginTop: 2 }}>
+                                🔁 Sub: {subLabel(sub)} ({sub.team})
+                              </Text>
+                            ))}
+                          </View>
                         </View>
                       ))}
                     </View>
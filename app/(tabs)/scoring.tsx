@@ -4,6 +4,7 @@ import { useFocusEffect } from 'expo-router';
 import React, { memo, useCallback, useEffect, useMemo, useState } from 'react';
 import {
   Alert,
+  AppState,
   Platform,
   Pressable,
   ScrollView,
@@ -13,94 +14,64 @@ import {
   useWindowDimensions,
 } from 'react-native';
 
-import { supabaseHeaders, supabaseRestUrl } from '@/constants/supabase';
-
-type Division = 'Beginner' | 'Intermediate' | 'Advanced';
-
-type SavedMatch = {
-  id: string;
-  week: number;
-  division: Division;
-  time: string;
-  court: number;
-  teamA: string;
-  teamB: string;
-};
+import { cachedUserHasRole } from '@/constants/auth';
+import {
+  DEFAULT_GAME_RULES,
+  describeGameRules,
+  maxGameScore,
+  normalizeGameRules,
+  validateMatchGames,
+  type GameErrors,
+  type GameRules,
+} from '@/constants/gameRules';
+import { identityRef, loadIdentity } from '@/constants/identity';
+import { matchTimeMinutes } from '@/constants/leagueCalendar';
+import {
+  getActiveSeasonId,
+  divisionColor,
+  emptyByDivision,
+  fetchMatchScores,
+  fetchMatches,
+  fetchSeasonSettings,
+  fetchTeamsByDivision,
+  lockMatchScore,
+  sortDivisions,
+  unlockMatchScore,
+  type Division,
+  type PersistedMatchScore,
+  type PlayerRef,
+  type SavedMatch,
+  type ScoreFields,
+  type Team,
+} from '@/constants/leagueData';
+import {
+  awaitingConfirmationFrom,
+  confirmScore,
+  disputeScore,
+  overrideScore,
+  sameScoreFields,
+  scoreStatusLabel,
+  submitBlockedReason,
+  submitScore,
+} from '@/constants/scoreConfirmation';
+import {
+  discardQueuedScore,
+  enqueueScore,
+  flushScoreQueue,
+  keepQueuedScore,
+  loadScoreQueue,
+  scoreBaseOf,
+  type ScoreQueue,
+} from '@/constants/scoreQueue';
+import { baselineTeamsFor } from '@/constants/seasons';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
 
-const STORAGE_KEY_SELECTED_TEAM = 'ppl_selected_team';
-const STORAGE_KEY_SELECTED_PLAYER_NAME = 'ppl_selected_player_name';
-const ADMIN_UNLOCK_KEY = 'ppl_admin_unlocked';
 const STORAGE_KEY_CURRENT_WEEK = 'ppl_current_week_v1';
+// Last known season game rules, so entry is still checked while offline
+const STORAGE_KEY_GAME_RULES = 'ppl_game_rules_v1';
 
-type ScoreFields = { g1: string; g2: string; g3: string };
-
-type PersistedMatchScore = {
-  matchId: string;
-  teamA: ScoreFields;
-  teamB: ScoreFields;
-  verified: boolean;
-  verifiedBy: string | null;
-  verifiedAt: number | null; // local-only
-
-  // ✅ NEW (from Supabase)
-  lockedAt: string | null;
-  lockedBy: string | null;
-};
-
-const DIVISION_ORDER: Division[] = ['Advanced', 'Intermediate', 'Beginner'];
-
-const TIMES: string[] = [
-  '6:00 PM','6:15 PM','6:30 PM','6:45 PM',
-  '7:00 PM','7:15 PM','7:30 PM','7:45 PM',
-  '8:00 PM','8:15 PM','8:30 PM','8:45 PM',
-  '9:00 PM','9:15 PM','9:30 PM','9:45 PM',
-];
-
-const DEFAULT_TEAMS_BY_DIVISION: Record<Division, string[]> = {
-  Advanced: [
-    'Ishai/Greg','Adam/Jon','Bradley/Ben','Peter/Ray','Andrew/Brent','Mark D/Craig',
-    'Alex/Anibal','Radek/Alexi','Ricky/John','Brandon/Ikewa','Andrew/Dan','Eric/Meir',
-    'David/Guy','Mark P/Matt O',
-  ],
-  Intermediate: [
-    'Ashley/Julie','Stephanie/Misty','Eric/Sunil','Dan/Relu','Domencio/Keith','YG/Haaris',
-    'Nicole/Joshua','Amy/Nik','Elaine/Valerie','Marat/Marta','Beatriz/Joe','Alejandro/William',
-  ],
-  Beginner: [
-    'Eric/Tracy','Rachel/Jaime','Amy/Ellen','Lashonda/Lynette','Michael/JP','Fran/Scott',
-    'Robert/Adam','Cynthia/Maureen','Marina/Sharon',
-  ],
-};
-
-type SupabaseTeamRow = {
-  id: string;
-  created_at: string;
-  division: string;
-  name: string;
-};
-
-type SupabaseMatchRow = {
-  id: string;
-  week: number;
-  division: string;
-  time: string;
-  court: number;
-  team_a: string;
-  team_b: string;
-  created_at_ms?: number | null;
-};
-
-type SupabaseMatchScoreRow = {
-  match_id: string;
-  team_a: any;
-  team_b: any;
-  verified: boolean;
-  verified_by: string | null;
-
-  // ✅ NEW columns
-  locked_at: string | null;
-  locked_by: string | null;
-};
+// How often to retry queued score saves while any are pending
+const SCORE_SYNC_RETRY_MS = 20000;
 
 function normalizeName(s: string) {
   return (s || '').trim();
@@ -111,163 +82,13 @@ function uniqSorted(list: string[]) {
   return Array.from(set).sort((a, b) => a.localeCompare(b));
 }
 
-function isDivision(v: any): v is Division {
-  return v === 'Beginner' || v === 'Intermediate' || v === 'Advanced';
-}
-
-async function fetchTeamsFromSupabase(): Promise<Record<Division, SupabaseTeamRow[]>> {
-  const url = supabaseRestUrl('teams?select=id,created_at,division,name&order=created_at.asc');
-
-  const res = await fetch(url, { method: 'GET', headers: supabaseHeaders() });
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseTeamRow[];
-
-  const grouped: Record<Division, SupabaseTeamRow[]> = { Advanced: [], Intermediate: [], Beginner: [] };
-  for (const r of rows) {
-    if (isDivision(r.division)) grouped[r.division].push(r);
-  }
-  return grouped;
-}
-
-async function fetchMatchesFromSupabase(): Promise<SavedMatch[]> {
-  const url = supabaseRestUrl(
-    'matches?select=id,week,division,time,court,team_a,team_b,created_at_ms&order=week.asc&order=division.asc&order=time.asc&order=court.asc'
-  );
-
-  const res = await fetch(url, { method: 'GET', headers: supabaseHeaders() });
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseMatchRow[];
-  const out: SavedMatch[] = [];
-
-  for (const r of rows) {
-    if (!isDivision(r.division)) continue;
-    out.push({
-      id: String(r.id),
-      week: Number(r.week),
-      division: r.division,
-      time: String(r.time),
-      court: Number(r.court),
-      teamA: String(r.team_a),
-      teamB: String(r.team_b),
-    });
-  }
-  return out;
-}
-
-function asScoreFields(v: any): ScoreFields {
-  const g1 = typeof v?.g1 === 'string' ? v.g1 : '';
-  const g2 = typeof v?.g2 === 'string' ? v.g2 : '';
-  const g3 = typeof v?.g3 === 'string' ? v.g3 : '';
-  return { g1, g2, g3 };
-}
-
-async function fetchMatchScoresFromSupabase(): Promise<Record<string, PersistedMatchScore>> {
-  // ✅ NEW: include locked_at, locked_by
-  const url = supabaseRestUrl('match_scores?select=match_id,team_a,team_b,verified,verified_by,locked_at,locked_by');
-
-  const res = await fetch(url, { method: 'GET', headers: supabaseHeaders() });
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseMatchScoreRow[];
-  const out: Record<string, PersistedMatchScore> = {};
-
-  for (const r of rows) {
-    const id = String(r.match_id);
-    out[id] = {
-      matchId: id,
-      teamA: asScoreFields(r.team_a),
-      teamB: asScoreFields(r.team_b),
-      verified: !!r.verified,
-      verifiedBy: r.verified_by ?? null,
-      verifiedAt: null,
-
-      lockedAt: r.locked_at ?? null,
-      lockedBy: r.locked_by ?? null,
-    };
-  }
-  return out;
-}
-
-async function upsertMatchScoreToSupabase(row: PersistedMatchScore) {
-  const url = supabaseRestUrl('match_scores');
-
-  const payload = {
-    match_id: row.matchId,
-    team_a: row.teamA,
-    team_b: row.teamB,
-    verified: row.verified,
-    verified_by: row.verifiedBy,
-  };
-
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      ...supabaseHeaders(),
-      'Content-Type': 'application/json',
-      Prefer: 'resolution=merge-duplicates,return=representation',
-    },
-    body: JSON.stringify(payload),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase UPSERT failed: ${res.status} ${txt}`);
-  }
-}
-
-// ✅ NEW: call Supabase RPC functions to lock/unlock
-async function callRpcLock(matchId: string) {
-  const url = supabaseRestUrl('rpc/lock_match_score');
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      ...supabaseHeaders(),
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ p_match_id: matchId }),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Lock RPC failed: ${res.status} ${txt}`);
-  }
-}
-
-async function callRpcUnlock(matchId: string) {
-  const url = supabaseRestUrl('rpc/unlock_match_score');
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      ...supabaseHeaders(),
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ p_match_id: matchId }),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Unlock RPC failed: ${res.status} ${txt}`);
-  }
-}
-
-function sanitizeAndClampScore(input: string) {
+function sanitizeAndClampScore(input: string, max: number) {
   const digits = (input ?? '').replace(/[^\d]/g, '');
   if (digits === '') return '';
   const two = digits.length <= 2 ? digits : digits.slice(0, 2);
   const n = parseInt(two, 10);
   if (!Number.isFinite(n)) return '';
-  if (n > 11) return '11';
+  if (n > max) return String(max);
   if (n < 0) return '0';
   return String(n);
 }
@@ -276,13 +97,34 @@ function getTeamKey(matchId: string, team: string) {
   return `${matchId}__${team}`;
 }
 
+function gamesText(f: ScoreFields) {
+  return `${f.g1 || '-'}/${f.g2 || '-'}/${f.g3 || '-'}`;
+}
+
+// ✅ confirm helper that works on web + native
+function confirmPopup(title: string, message: string, okText: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    const ok = typeof window !== 'undefined' ? window.confirm(`${title}\n\n${message}`) : false;
+    return Promise.resolve(ok);
+  }
+
+  return new Promise((resolve) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: okText, onPress: () => resolve(true) },
+    ]);
+  });
+}
+
 type ScoreInputProps = {
   initialValue: string;
   onChange: (next: string) => void;
   editable: boolean;
+  maxScore: number;
+  invalid?: boolean;
 };
 
-const ScoreInput = memo(function ScoreInput({ initialValue, onChange, editable }: ScoreInputProps) {
+const ScoreInput = memo(function ScoreInput({ initialValue, onChange, editable, maxScore, invalid }: ScoreInputProps) {
   const [local, setLocal] = useState(initialValue ?? '');
 
   useEffect(() => {
@@ -294,7 +136,7 @@ const ScoreInput = memo(function ScoreInput({ initialValue, onChange, editable }
       value={local}
       onChangeText={(t) => {
         if (!editable) return;
-        const next = sanitizeAndClampScore(t);
+        const next = sanitizeAndClampScore(t, maxScore);
         setLocal(next);
         onChange(next);
       }}
@@ -305,8 +147,8 @@ const ScoreInput = memo(function ScoreInput({ initialValue, onChange, editable }
       blurOnSubmit={false}
       style={{
         width: '100%',
-        borderWidth: 1,
-        borderColor: editable ? '#ccc' : '#e0e0e0',
+        borderWidth: invalid ? 2 : 1,
+        borderColor: invalid ? '#b00020' : editable ? '#ccc' : '#e0e0e0',
         paddingVertical: Platform.OS === 'web' ? 8 : 6,
         textAlign: 'center',
         borderRadius: 6,
@@ -400,6 +242,12 @@ function persistedCompletionLabel(p?: PersistedMatchScore) {
   return 'PARTIAL';
 }
 
+function gameErrorLines(errors: GameErrors) {
+  return (['g1', 'g2', 'g3'] as (keyof ScoreFields)[])
+    .filter((g) => errors[g])
+    .map((g) => `G${g.slice(1)}: ${errors[g]}`);
+}
+
 function safeInt(value: string, fallback: number) {
   const n = parseInt(value, 10);
   return Number.isFinite(n) ? n : fallback;
@@ -412,6 +260,7 @@ export default function ScoringScreen() {
   const [matches, setMatches] = useState<SavedMatch[]>([]);
   const [myTeam, setMyTeam] = useState<string | null>(null);
   const [myPlayerName, setMyPlayerName] = useState<string | null>(null);
+  const [myRef, setMyRef] = useState<PlayerRef>(identityRef(null));
   const [isAdmin, setIsAdmin] = useState<boolean>(false);
 
   const [scores, setScores] = useState<Record<string, ScoreFields>>({});
@@ -420,11 +269,7 @@ export default function ScoringScreen() {
   const [selectedWeek, setSelectedWeek] = useState<number>(1);
   const [adminPartialOnly, setAdminPartialOnly] = useState<boolean>(false);
 
-  const [dbTeams, setDbTeams] = useState<Record<Division, SupabaseTeamRow[]>>({
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  });
+  const [dbTeams, setDbTeams] = useState<Record<Division, Team[]>>(() => emptyByDivision(() => []));
 
   const [teamsLoadError, setTeamsLoadError] = useState<string>('');
   const [scoresLoadError, setScoresLoadError] = useState<string>('');
@@ -433,7 +278,7 @@ export default function ScoringScreen() {
   const refreshTeams = useCallback(async () => {
     setTeamsLoadError('');
     try {
-      const grouped = await fetchTeamsFromSupabase();
+      const grouped = await fetchTeamsByDivision();
       setDbTeams(grouped);
     } catch (e: any) {
       setTeamsLoadError(e?.message || 'Failed to load teams from Supabase.');
@@ -443,7 +288,7 @@ export default function ScoringScreen() {
   const refreshMatches = useCallback(async () => {
     setMatchesLoadError('');
     try {
-      const list = await fetchMatchesFromSupabase();
+      const list = await fetchMatches();
       setMatches(Array.isArray(list) ? list : []);
     } catch (e: any) {
       setMatches([]);
@@ -454,7 +299,7 @@ export default function ScoringScreen() {
   const refreshPersistedScores = useCallback(async () => {
     setScoresLoadError('');
     try {
-      const map = await fetchMatchScoresFromSupabase();
+      const map = await fetchMatchScores();
       setPersisted(map);
     } catch (e: any) {
       setPersisted({});
@@ -462,16 +307,48 @@ export default function ScoringScreen() {
     }
   }, []);
 
-  const loadIdentity = useCallback(async () => {
-    const t = await AsyncStorage.getItem(STORAGE_KEY_SELECTED_TEAM);
-    const p = await AsyncStorage.getItem(STORAGE_KEY_SELECTED_PLAYER_NAME);
-    setMyTeam(t ? String(t) : null);
-    setMyPlayerName(p ? String(p) : null);
+  // ✅ Offline queue: verified saves waiting to reach Supabase (survives reloads)
+  const [queue, setQueue] = useState<ScoreQueue>({});
+
+  const syncScoreQueue = useCallback(async () => {
+    const result = await flushScoreQueue();
+    setQueue({ ...result.queue });
+    if (result.synced.length > 0 || result.conflicts.length > 0) await refreshPersistedScores();
+    return result;
+  }, [refreshPersistedScores]);
+
+  const refreshIdentity = useCallback(async () => {
+    const me = await loadIdentity();
+    setMyTeam(me?.team ?? null);
+    setMyPlayerName(me?.playerName ?? null);
+    setMyRef(identityRef(me));
   }, []);
 
   const loadAdmin = useCallback(async () => {
-    const unlocked = await AsyncStorage.getItem(ADMIN_UNLOCK_KEY);
-    setIsAdmin(unlocked === 'true');
+    // ✅ Scorekeepers (and league admins) can score any match and lock/unlock
+    // (cached roles so courtside scoring works offline; save_match_score and the lock RPCs check has_role() themselves)
+    setIsAdmin(await cachedUserHasRole('scorekeeper'));
+  }, []);
+
+  // ✅ Season game rules (cached for offline entry)
+  const [gameRules, setGameRules] = useState<GameRules>(DEFAULT_GAME_RULES);
+
+  const loadGameRules = useCallback(async () => {
+    try {
+      const cached = await AsyncStorage.getItem(STORAGE_KEY_GAME_RULES);
+      if (cached) setGameRules(normalizeGameRules(JSON.parse(cached)));
+    } catch {
+      // ignore a bad cache; defaults / server rules still apply
+    }
+
+    try {
+      const settings = await fetchSeasonSettings(getActiveSeasonId());
+      const rules = normalizeGameRules(settings?.gameRules);
+      setGameRules(rules);
+      await AsyncStorage.setItem(STORAGE_KEY_GAME_RULES, JSON.stringify(rules));
+    } catch {
+      // offline: keep the cached rules
+    }
   }, []);
 
   const loadCurrentWeek = useCallback(async () => {
@@ -484,34 +361,69 @@ export default function ScoringScreen() {
     refreshTeams();
     refreshMatches();
     refreshPersistedScores();
-    loadIdentity();
+    refreshIdentity();
     loadAdmin();
     loadCurrentWeek();
-  }, [refreshTeams, refreshMatches, refreshPersistedScores, loadIdentity, loadAdmin, loadCurrentWeek]);
+    loadGameRules();
+  }, [refreshTeams, refreshMatches, refreshPersistedScores, refreshIdentity, loadAdmin, loadCurrentWeek, loadGameRules]);
 
   useFocusEffect(
     useCallback(() => {
       refreshTeams();
       refreshMatches();
       refreshPersistedScores();
-      loadIdentity();
+      refreshIdentity();
       loadAdmin();
       loadCurrentWeek();
-    }, [refreshTeams, refreshMatches, refreshPersistedScores, loadIdentity, loadAdmin, loadCurrentWeek])
+      loadGameRules();
+    }, [refreshTeams, refreshMatches, refreshPersistedScores, refreshIdentity, loadAdmin, loadCurrentWeek, loadGameRules])
   );
 
+  // ✅ Realtime: other devices' saves / schedule edits show up without leaving the tab
+  useLiveRefresh(['match_scores'], refreshPersistedScores);
+  useLiveRefresh(['matches'], refreshMatches);
+
+  // ✅ Load the durable queue and try to push it whenever the screen opens
+  useFocusEffect(
+    useCallback(() => {
+      void (async () => {
+        setQueue(await loadScoreQueue());
+        await syncScoreQueue();
+      })();
+    }, [syncScoreQueue])
+  );
+
+  const pendingSyncCount = Object.values(queue).filter((q) => !q.conflict).length;
+
+  // ✅ Auto-retry while anything is pending: timer + app back in foreground + browser back online
+  useEffect(() => {
+    if (pendingSyncCount === 0) return;
+
+    const retry = () => {
+      void syncScoreQueue();
+    };
+
+    const timer = setInterval(retry, SCORE_SYNC_RETRY_MS);
+    const appStateSub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') retry();
+    });
+
+    const canListenOnline = Platform.OS === 'web' && typeof window !== 'undefined';
+    if (canListenOnline) window.addEventListener('online', retry);
+
+    return () => {
+      clearInterval(timer);
+      appStateSub.remove();
+      if (canListenOnline) window.removeEventListener('online', retry);
+    };
+  }, [pendingSyncCount, syncScoreQueue]);
+
   const knownTeamsSet = useMemo(() => {
-    const baseline = [
-      ...DEFAULT_TEAMS_BY_DIVISION.Advanced,
-      ...DEFAULT_TEAMS_BY_DIVISION.Intermediate,
-      ...DEFAULT_TEAMS_BY_DIVISION.Beginner,
-    ];
-
-    const supa = [
-      ...(dbTeams.Advanced ?? []).map((r) => r.name),
-      ...(dbTeams.Intermediate ?? []).map((r) => r.name),
-      ...(dbTeams.Beginner ?? []).map((r) => r.name),
-    ];
+    const baseline = Object.values(baselineTeamsFor()).flat();
+
+    const supa = Object.values(dbTeams)
+      .flat()
+      .map((r) => r.name);
 
     const fromMatches = matches.flatMap((m) => [m.teamA, m.teamB]);
 
@@ -549,7 +461,7 @@ export default function ScoringScreen() {
     const key = getTeamKey(matchId, teamName);
 
     const match = matches.find((mm) => mm.id === matchId);
-    const p = persisted[matchId];
+    const p = queue[matchId]?.score ?? persisted[matchId];
 
     let persistedFieldsForTeam: ScoreFields | undefined = undefined;
     if (match && p) {
@@ -580,7 +492,7 @@ export default function ScoringScreen() {
     if (!ok) return;
 
     try {
-      await callRpcLock(m.id);
+      await lockMatchScore(m.id);
       await refreshPersistedScores();
     } catch (e: any) {
       Alert.alert('Lock failed', e?.message || 'Could not lock this match.');
@@ -598,14 +510,57 @@ export default function ScoringScreen() {
     if (!ok) return;
 
     try {
-      await callRpcUnlock(m.id);
+      await unlockMatchScore(m.id);
       await refreshPersistedScores();
     } catch (e: any) {
       Alert.alert('Unlock failed', e?.message || 'Could not unlock this match.');
     }
   };
 
-  const onVerifyAndSave = async (m: SavedMatch) => {
+  const clearDrafts = (m: SavedMatch) => {
+    setScores((prev) => {
+      const next = { ...prev };
+      delete next[getTeamKey(m.id, m.teamA)];
+      delete next[getTeamKey(m.id, m.teamB)];
+      return next;
+    });
+  };
+
+  const myLabel = () =>
+    myPlayerName && myTeam ? `${myPlayerName} (${myTeam})` : (myTeam ?? 'UNKNOWN');
+
+  // ✅ Every write goes through the durable queue, then we try to push it right away
+  const queueSave = async (m: SavedMatch, row: PersistedMatchScore) => {
+    const p = persisted[m.id];
+
+    setQueue(await enqueueScore(row, scoreBaseOf(p), isAdmin));
+    const result = await syncScoreQueue();
+
+    if (result.conflicts.includes(m.id)) {
+      Alert.alert('Sync conflict', 'Scores for this match changed on the server. Review the conflict on the match card.');
+    } else if (result.queue[m.id] && result.offline) {
+      Alert.alert(
+        'Saved on this device',
+        'No connection to the league server right now. Your scores are saved and will sync automatically.'
+      );
+    } else if (result.queue[m.id]) {
+      Alert.alert(
+        'Save failed',
+        `${result.queue[m.id].lastError || 'Could not save scores to Supabase.'}\n\nYour scores are kept on this device and will be retried.`
+      );
+    }
+  };
+
+  const runSave = async (m: SavedMatch, row: PersistedMatchScore) => {
+    try {
+      await queueSave(m, row);
+    } catch (e: any) {
+      Alert.alert('Save failed', e?.message || 'Could not save scores on this device.');
+    }
+  };
+
+  // Submit (team) or Save as Official (admin override)
+  const onSubmit = async (m: SavedMatch) => {
     const locked = isLockedMatch(m.id);
 
     if (locked && !isAdmin) {
@@ -620,18 +575,37 @@ export default function ScoringScreen() {
     }
 
     const p = persisted[m.id];
+    const shown = queue[m.id]?.score ?? p;
+
+    const blocked = isAdmin ? null : submitBlockedReason(p);
+    if (blocked) {
+      Alert.alert('Not allowed', blocked);
+      return;
+    }
 
-    const teamAFields = getFields(m.id, m.teamA, p?.teamA);
-    const teamBFields = getFields(m.id, m.teamB, p?.teamB);
+    const teamAFields = getFields(m.id, m.teamA, shown?.teamA);
+    const teamBFields = getFields(m.id, m.teamB, shown?.teamB);
 
     const aTotal = totalOf(teamAFields);
     const bTotal = totalOf(teamBFields);
 
     const gamesLine = statusLine(m.teamA, m.teamB, teamAFields, teamBFields);
 
-    const by = isAdmin
-      ? 'ADMIN'
-      : (myPlayerName && myTeam ? `${myPlayerName} (${myTeam})` : (myTeam ?? 'UNKNOWN'));
+    // ✅ Game rules: teams must fix impossible results; admins may override them
+    const ruleErrors = gameErrorLines(validateMatchGames(teamAFields, teamBFields, gameRules));
+    if (ruleErrors.length > 0) {
+      if (!isAdmin) {
+        Alert.alert('Check the scores', `${ruleErrors.join('\n')}\n\n${describeGameRules(gameRules)}.`);
+        return;
+      }
+
+      const override = await confirmPopup(
+        'Scores break the game rules',
+        `${ruleErrors.join('\n')}\n\nSave these scores anyway as an admin override?`,
+        'Override Rules'
+      );
+      if (!override) return;
+    }
 
     const summary = [
       `Week ${m.week} • ${m.division}`,
@@ -641,52 +615,82 @@ export default function ScoringScreen() {
       `${m.teamB}: ${teamBFields.g1 || '-'}, ${teamBFields.g2 || '-'}, ${teamBFields.g3 || '-'} (Total ${bTotal})`,
       gamesLine ? `\n${gamesLine}` : '',
       ``,
-      `Verify & Save?`,
+      isAdmin
+        ? 'These scores become official right away (admin override).'
+        : 'The other team will be asked to confirm these scores before they count in the standings.',
     ].filter(Boolean).join('\n');
 
-    const doSave = async () => {
-      const row: PersistedMatchScore = {
-        matchId: m.id,
-        teamA: teamAFields,
-        teamB: teamBFields,
-        verified: true,
-        verifiedBy: by,
-        verifiedAt: Date.now(),
+    const ok = await confirmPopup(
+      isAdmin ? 'Save as Official' : 'Submit Scores',
+      summary,
+      isAdmin ? 'Yes, Save as Official' : 'Yes, Submit'
+    );
+    if (!ok) return;
 
-        lockedAt: p?.lockedAt ?? null,
-        lockedBy: p?.lockedBy ?? null,
-      };
+    const row = isAdmin
+      ? overrideScore(p, m.id, teamAFields, teamBFields, 'ADMIN')
+      : submitScore(p, m.id, teamAFields, teamBFields, myTeam ?? '', myLabel(), myRef);
 
-      await upsertMatchScoreToSupabase(row);
-      await refreshPersistedScores();
-    };
+    await runSave(m, row);
+  };
 
-    if (Platform.OS === 'web') {
-      const ok = confirmOnWeb(summary);
-      if (!ok) return;
-      try {
-        await doSave();
-      } catch (e: any) {
-        Alert.alert('Save failed', e?.message || 'Could not save scores to Supabase.');
-      }
+  // Opponent agrees with the submitted scores as-is
+  const onConfirm = async (m: SavedMatch) => {
+    const p = persisted[m.id];
+    if (!p || awaitingConfirmationFrom(m, p) !== myTeam) return;
+
+    const ok = await confirmPopup(
+      'Confirm Scores',
+      `${m.teamA}: ${gamesText(p.teamA)} (Total ${totalOf(p.teamA)})\n${m.teamB}: ${gamesText(p.teamB)} (Total ${totalOf(p.teamB)})\n\nThese scores will count in the standings.`,
+      'Yes, Confirm'
+    );
+    if (!ok) return;
+
+    clearDrafts(m);
+    await runSave(m, confirmScore(p, myLabel(), myRef));
+  };
+
+  // Opponent disagrees: their edited version is saved next to the submitted one for an admin to settle
+  const onDispute = async (m: SavedMatch) => {
+    const p = persisted[m.id];
+    const team = awaitingConfirmationFrom(m, p);
+    if (!p || !team || team !== myTeam) return;
+
+    const teamAFields = getFields(m.id, m.teamA, p.teamA);
+    const teamBFields = getFields(m.id, m.teamB, p.teamB);
+
+    if (sameScoreFields(teamAFields, p.teamA) && sameScoreFields(teamBFields, p.teamB)) {
+      Alert.alert('Nothing to dispute', 'Change the games you disagree with in the table first, then tap Dispute.');
       return;
     }
 
-    Alert.alert('Verify & Save', summary, [
-      { text: 'Cancel', style: 'cancel' },
-      {
-        text: 'Yes, Verify & Save',
-        onPress: () => {
-          void (async () => {
-            try {
-              await doSave();
-            } catch (e: any) {
-              Alert.alert('Save failed', e?.message || 'Could not save scores to Supabase.');
-            }
-          })();
-        },
-      },
-    ]);
+    const ruleErrors = gameErrorLines(validateMatchGames(teamAFields, teamBFields, gameRules));
+    if (ruleErrors.length > 0) {
+      Alert.alert('Check the scores', `${ruleErrors.join('\n')}\n\n${describeGameRules(gameRules)}.`);
+      return;
+    }
+
+    const ok = await confirmPopup(
+      'Dispute Scores',
+      `Submitted by ${p.submittedByTeam}:\n${m.teamA} ${gamesText(p.teamA)} • ${m.teamB} ${gamesText(p.teamB)}\n\nYour version:\n${m.teamA} ${gamesText(teamAFields)} • ${m.teamB} ${gamesText(teamBFields)}\n\nA league admin will decide which scores count.`,
+      'Yes, Dispute'
+    );
+    if (!ok) return;
+
+    clearDrafts(m);
+    await runSave(m, disputeScore(p, team, myLabel(), teamAFields, teamBFields, myRef));
+  };
+
+  // ✅ Conflict resolution for queued saves
+  const onKeepMine = async (m: SavedMatch) => {
+    setQueue(await keepQueuedScore(m.id));
+    await syncScoreQueue();
+  };
+
+  const onUseServer = async (m: SavedMatch) => {
+    setQueue(await discardQueuedScore(m.id));
+    clearDrafts(m);
+    await refreshPersistedScores();
   };
 
   const weekOptions = useMemo(() => {
@@ -722,12 +726,11 @@ export default function ScoringScreen() {
       map.get(m.division)!.push(m);
     }
 
-    return DIVISION_ORDER
-      .filter((d) => map.has(d))
+    return sortDivisions(map.keys())
       .map((division) => {
         const list = [...(map.get(division) ?? [])].sort((a, b) => {
-          const ta = TIMES.indexOf(a.time);
-          const tb = TIMES.indexOf(b.time);
+          const ta = matchTimeMinutes(a.time);
+          const tb = matchTimeMinutes(b.time);
           if (ta !== tb) return ta - tb;
           return a.court - b.court;
         });
@@ -741,6 +744,12 @@ export default function ScoringScreen() {
     return !knownTeamsSet.has(normalizeName(myTeam));
   }, [myTeam, knownTeamsSet]);
 
+  // ✅ Submissions from the other team that still need a confirm/dispute (any week)
+  const awaitingMineCount = useMemo(() => {
+    if (isAdmin || !myTeam) return 0;
+    return matches.filter((m) => awaitingConfirmationFrom(m, persisted[m.id]) === myTeam).length;
+  }, [isAdmin, myTeam, matches, persisted]);
+
   // Column sizing: bigger in landscape
   const colTime = 110;
   const colCourt = 90;
@@ -767,6 +776,8 @@ export default function ScoringScreen() {
             : 'Pick your team first to enter scores.'}
       </Text>
 
+      <Text style={{ color: '#666', marginBottom: 12 }}>Rules: {describeGameRules(gameRules)}.</Text>
+
       {teamsLoadError ? (
         <Text style={{ color: '#b00020', fontWeight: '900', marginBottom: 10 }}>
           Teams sync warning: {teamsLoadError}
@@ -791,6 +802,14 @@ export default function ScoringScreen() {
         </Text>
       ) : null}
 
+      {awaitingMineCount > 0 ? (
+        <Text style={{ color: '#b26a00', fontWeight: '900', marginBottom: 10 }}>
+          {awaitingMineCount === 1
+            ? '1 match is waiting for your team to confirm the scores.'
+            : `${awaitingMineCount} matches are waiting for your team to confirm the scores.`}
+        </Text>
+      ) : null}
+
       <Text style={{ fontWeight: '900', marginBottom: 6 }}>Week</Text>
       <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
         <Picker selectedValue={selectedWeek} onValueChange={(v) => setSelectedWeek(Number(v))}>
@@ -828,27 +847,32 @@ export default function ScoringScreen() {
         <View style={{ gap: 18 }}>
           {groupedByDivision.map((section) => (
             <View key={section.division}>
-              <Text style={{ fontSize: 20, fontWeight: '900', marginBottom: 10 }}>
+              <Text style={{ fontSize: 20, fontWeight: '900', marginBottom: 10, color: divisionColor(section.division) }}>
                 {section.division}
               </Text>
 
               <View style={{ gap: 14 }}>
                 {section.matches.map((m) => {
                   const p = persisted[m.id];
+                  const q = queue[m.id];
+                  const shown = q?.score ?? p;
                   const locked = !!(p?.lockedAt);
 
                   const editable = canEditMatch(m);
 
-                  const aFields = getFields(m.id, m.teamA, p?.teamA);
-                  const bFields = getFields(m.id, m.teamB, p?.teamB);
+                  const aFields = getFields(m.id, m.teamA, shown?.teamA);
+                  const bFields = getFields(m.id, m.teamB, shown?.teamB);
 
                   const aTotal = totalOf(aFields);
                   const bTotal = totalOf(bFields);
 
                   const gamesLine = statusLine(m.teamA, m.teamB, aFields, bFields);
+                  const gameErrors = validateMatchGames(aFields, bFields, gameRules);
+                  const gameErrorList = gameErrorLines(gameErrors);
 
-                  const verifiedLabel =
-                    p?.verified ? `Verified by ${p.verifiedBy ?? 'UNKNOWN'}` : 'Not verified yet';
+                  const verifiedLabel = scoreStatusLabel(p);
+                  const needsMyConfirmation = !isAdmin && !!myTeam && awaitingConfirmationFrom(m, p) === myTeam;
+                  const submitBlocked = isAdmin ? null : submitBlockedReason(p);
 
                   const badge = persistedCompletionLabel(p);
 
@@ -859,6 +883,13 @@ export default function ScoringScreen() {
                         ? <Text style={{ color: 'red', fontWeight: '900' }}>PARTIAL</Text>
                         : null;
 
+                  const syncNode =
+                    q?.conflict
+                      ? <Text style={{ color: '#b00020', fontWeight: '900' }}>SYNC CONFLICT</Text>
+                      : q
+                        ? <Text style={{ color: '#b26a00', fontWeight: '900' }}>PENDING SYNC</Text>
+                        : null;
+
                   const lockNode =
                     locked
                       ? <Text style={{ color: '#b00020', fontWeight: '900' }}>LOCKED</Text>
@@ -888,8 +919,78 @@ export default function ScoringScreen() {
                           {completionNode}
                           <Text style={{ fontWeight: '900' }}>•</Text>
                           {lockNode}
+                          {syncNode ? <Text style={{ fontWeight: '900' }}>•</Text> : null}
+                          {syncNode}
                         </View>
 
+                        {q && !q.conflict && q.lastError ? (
+                          <Text style={{ marginTop: 4, color: '#b26a00', fontWeight: '700' }}>
+                            Saved on this device • retrying ({q.attempts} attempt{q.attempts === 1 ? '' : 's'})
+                          </Text>
+                        ) : null}
+
+                        {q?.conflict ? (
+                          <View style={{ marginTop: 8, padding: 10, borderWidth: 1, borderColor: '#b00020', borderRadius: 10 }}>
+                            <Text style={{ fontWeight: '900', marginBottom: 4 }}>
+                              {q.conflict.reason === 'locked'
+                                ? 'This match was locked before your scores could sync.'
+                                : `Scores were changed on the server by ${q.conflict.server.verifiedBy ?? q.conflict.server.submittedBy ?? 'someone else'}.`}
+                            </Text>
+                            <Text style={{ color: '#333' }}>Server status: {scoreStatusLabel(q.conflict.server)}</Text>
+                            <Text style={{ color: '#333' }}>
+                              Server: {m.teamA} {q.conflict.server.teamA.g1 || '-'}/{q.conflict.server.teamA.g2 || '-'}/{q.conflict.server.teamA.g3 || '-'} • {m.teamB} {q.conflict.server.teamB.g1 || '-'}/{q.conflict.server.teamB.g2 || '-'}/{q.conflict.server.teamB.g3 || '-'}
+                            </Text>
+                            <Text style={{ color: '#333', marginBottom: 8 }}>
+                              Yours: {m.teamA} {q.score.teamA.g1 || '-'}/{q.score.teamA.g2 || '-'}/{q.score.teamA.g3 || '-'} • {m.teamB} {q.score.teamB.g1 || '-'}/{q.score.teamB.g2 || '-'}/{q.score.teamB.g3 || '-'}
+                            </Text>
+
+                            <View style={{ flexDirection: 'row', gap: 10, flexWrap: 'wrap' }}>
+                              {/* Teams can't overwrite a dispute or a confirmed score — only the admin settles those */}
+                              {isAdmin || (q.conflict.reason === 'changed' && !submitBlockedReason(q.conflict.server)) ? (
+                                <Pressable
+                                  onPress={() => { void onKeepMine(m); }}
+                                  style={{ backgroundColor: '#111', paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10 }}
+                                >
+                                  <Text style={{ color: 'white', fontWeight: '900' }}>Keep Mine</Text>
+                                </Pressable>
+                              ) : null}
+                              <Pressable
+                                onPress={() => { void onUseServer(m); }}
+                                style={{
+                                  backgroundColor: 'white',
+                                  borderWidth: 2,
+                                  borderColor: '#111',
+                                  paddingVertical: 10,
+                                  paddingHorizontal: 14,
+                                  borderRadius: 10,
+                                }}
+                              >
+                                <Text style={{ color: '#111', fontWeight: '900' }}>Use Server</Text>
+                              </Pressable>
+                            </View>
+                          </View>
+                        ) : null}
+
+                        {p?.status === 'disputed' && p.dispute ? (
+                          <View style={{ marginTop: 8, padding: 10, borderWidth: 1, borderColor: '#b26a00', borderRadius: 10 }}>
+                            <Text style={{ fontWeight: '900', marginBottom: 4 }}>
+                              Disputed — these scores don’t count until a league admin decides.
+                            </Text>
+                            <Text style={{ color: '#333' }}>
+                              {p.submittedByTeam ?? 'Submitted'}: {m.teamA} {gamesText(p.teamA)} • {m.teamB} {gamesText(p.teamB)}
+                            </Text>
+                            <Text style={{ color: '#333' }}>
+                              {p.dispute.team}: {m.teamA} {gamesText(p.dispute.teamA)} • {m.teamB} {gamesText(p.dispute.teamB)}
+                            </Text>
+                          </View>
+                        ) : null}
+
+                        {needsMyConfirmation ? (
+                          <Text style={{ marginTop: 8, color: '#b26a00', fontWeight: '900' }}>
+                            {p?.submittedByTeam} submitted these scores. Confirm them, or edit the games you disagree with and tap Dispute.
+                          </Text>
+                        ) : null}
+
                         {isAdmin ? (
                           <View style={{ flexDirection: 'row', gap: 10, marginTop: 10, flexWrap: 'wrap' }}>
                             {!locked ? (
@@ -961,13 +1062,13 @@ export default function ScoringScreen() {
                             </Text>
 
                             <View style={{ width: colGame, paddingHorizontal: 6 }}>
-                              <ScoreInput initialValue={aFields.g1} editable={editable} onChange={(v) => setScore(m.id, m.teamA, 'g1', v)} />
+                              <ScoreInput initialValue={aFields.g1} editable={editable} maxScore={maxGameScore(gameRules)} invalid={!!gameErrors.g1} onChange={(v) => setScore(m.id, m.teamA, 'g1', v)} />
                             </View>
                             <View style={{ width: colGame, paddingHorizontal: 6 }}>
-                              <ScoreInput initialValue={aFields.g2} editable={editable} onChange={(v) => setScore(m.id, m.teamA, 'g2', v)} />
+                              <ScoreInput initialValue={aFields.g2} editable={editable} maxScore={maxGameScore(gameRules)} invalid={!!gameErrors.g2} onChange={(v) => setScore(m.id, m.teamA, 'g2', v)} />
                             </View>
                             <View style={{ width: colGame, paddingHorizontal: 6 }}>
-                              <ScoreInput initialValue={aFields.g3} editable={editable} onChange={(v) => setScore(m.id, m.teamA, 'g3', v)} />
+                              <ScoreInput initialValue={aFields.g3} editable={editable} maxScore={maxGameScore(gameRules)} invalid={!!gameErrors.g3} onChange={(v) => setScore(m.id, m.teamA, 'g3', v)} />
                             </View>
 
                             <Text style={{ width: colTotal, textAlign: 'center', fontWeight: '900' }}>{aTotal}</Text>
@@ -983,13 +1084,13 @@ export default function ScoringScreen() {
                             </Text>
 
                             <View style={{ width: colGame, paddingHorizontal: 6 }}>
-                              <ScoreInput initialValue={bFields.g1} editable={editable} onChange={(v) => setScore(m.id, m.teamB, 'g1', v)} />
+                              <ScoreInput initialValue={bFields.g1} editable={editable} maxScore={maxGameScore(gameRules)} invalid={!!gameErrors.g1} onChange={(v) => setScore(m.id, m.teamB, 'g1', v)} />
                             </View>
                             <View style={{ width: colGame, paddingHorizontal: 6 }}>
-                              <ScoreInput initialValue={bFields.g2} editable={editable} onChange={(v) => setScore(m.id, m.teamB, 'g2', v)} />
+                              <ScoreInput initialValue={bFields.g2} editable={editable} maxScore={maxGameScore(gameRules)} invalid={!!gameErrors.g2} onChange={(v) => setScore(m.id, m.teamB, 'g2', v)} />
                             </View>
                             <View style={{ width: colGame, paddingHorizontal: 6 }}>
-                              <ScoreInput initialValue={bFields.g3} editable={editable} onChange={(v) => setScore(m.id, m.teamB, 'g3', v)} />
+                              <ScoreInput initialValue={bFields.g3} editable={editable} maxScore={maxGameScore(gameRules)} invalid={!!gameErrors.g3} onChange={(v) => setScore(m.id, m.teamB, 'g3', v)} />
                             </View>
 
                             <Text style={{ width: colTotal, textAlign: 'center', fontWeight: '900' }}>{bTotal}</Text>
@@ -997,20 +1098,65 @@ export default function ScoringScreen() {
                         </View>
                       </ScrollView>
 
+                      {gameErrorList.length > 0 ? (
+                        <View style={{ borderTopWidth: 1, borderTopColor: '#000', paddingVertical: 8, paddingHorizontal: 10 }}>
+                          {gameErrorList.map((line) => (
+                            <Text key={line} style={{ color: '#b00020', fontWeight: '800' }}>
+                              {line}
+                            </Text>
+                          ))}
+                        </View>
+                      ) : null}
+
                       <View style={{ borderTopWidth: 1, borderTopColor: '#000', padding: 10, backgroundColor: '#fafafa' }}>
-                        <Pressable
-                          onPress={() => { void onVerifyAndSave(m); }}
-                          disabled={!editable}
-                          style={{
-                            backgroundColor: editable ? 'black' : '#999',
-                            paddingVertical: 12,
-                            borderRadius: 10,
-                            alignItems: 'center',
-                            opacity: editable ? 1 : 0.6,
-                          }}
-                        >
-                          <Text style={{ color: 'white', fontWeight: '900' }}>Verify & Save</Text>
-                        </Pressable>
+                        {needsMyConfirmation && editable ? (
+                          <View style={{ flexDirection: 'row', gap: 10 }}>
+                            <Pressable
+                              onPress={() => { void onConfirm(m); }}
+                              style={{
+                                flex: 1,
+                                backgroundColor: 'green',
+                                paddingVertical: 12,
+                                borderRadius: 10,
+                                alignItems: 'center',
+                              }}
+                            >
+                              <Text style={{ color: 'white', fontWeight: '900' }}>Confirm Scores</Text>
+                            </Pressable>
+                            <Pressable
+                              onPress={() => { void onDispute(m); }}
+                              style={{
+                                flex: 1,
+                                backgroundColor: 'white',
+                                borderWidth: 2,
+                                borderColor: '#b00020',
+                                paddingVertical: 12,
+                                borderRadius: 10,
+                                alignItems: 'center',
+                              }}
+                            >
+                              <Text style={{ color: '#b00020', fontWeight: '900' }}>Dispute</Text>
+                            </Pressable>
+                          </View>
+                        ) : submitBlocked ? (
+                          <Text style={{ color: '#444', fontWeight: '800', textAlign: 'center' }}>{submitBlocked}</Text>
+                        ) : (
+                          <Pressable
+                            onPress={() => { void onSubmit(m); }}
+                            disabled={!editable}
+                            style={{
+                              backgroundColor: editable ? 'black' : '#999',
+                              paddingVertical: 12,
+                              borderRadius: 10,
+                              alignItems: 'center',
+                              opacity: editable ? 1 : 0.6,
+                            }}
+                          >
+                            <Text style={{ color: 'white', fontWeight: '900' }}>
+                              {isAdmin ? 'Save as Official' : 'Submit Scores'}
+                            </Text>
+                          </Pressable>
+                        )}
                       </View>
                     </View>
                   );
@@ -1,461 +1,191 @@
-import { useFocusEffect } from 'expo-router';
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect, useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { ScrollView, Text, View, useWindowDimensions } from 'react-native';
-
-import { supabaseHeaders, supabaseRestUrl } from '@/constants/supabase';
-
-type Division = 'Beginner' | 'Intermediate' | 'Advanced';
-
-type SavedMatch = {
-  id: string;
-  week: number;
-  division: Division;
-  time: string;
-  court: number;
-  teamA: string;
-  teamB: string;
-};
-
-type ScoreFields = { g1: string; g2: string; g3: string };
-
-type PersistedMatchScore = {
-  matchId: string;
-  teamA: ScoreFields;
-  teamB: ScoreFields;
-  verified: boolean;
-  verifiedBy: string | null;
-  verifiedAt: number | null;
-};
-
-type TeamRow = {
-  division: Division; // final “display division”
-  team: string;
-  gamesPlayed: number; // total games (not matches)
-  wins: number; // game wins
-  losses: number; // game losses
-  pointsFor: number;
-  pointsAgainst: number;
-};
-
-// ✅ Saved admin division moves
-type DivisionMove = {
-  id: string;
-  team: string;
-  fromDivision: Division;
-  toDivision: Division;
-  effectiveWeek: number;
-  createdAt: number;
-};
+import { Alert, Platform, Pressable, ScrollView, Text, TextInput, View, useWindowDimensions } from 'react-native';
+
+import { currentUserHasRole } from '@/constants/auth';
+import { SeasonPicker } from '@/components/season-picker';
+import { CSV_MIME_TYPE, csvFileName, standingsCsv } from '@/constants/csv';
+import { shareTextFile } from '@/constants/fileExport';
+import {
+  divisionColor,
+  emptyByDivision,
+  fetchDivisionMoves,
+  fetchMatchScores,
+  fetchMatchSubs,
+  fetchMatches,
+  fetchPlayoffBrackets,
+  fetchSeasonSettings,
+  fetchStandingsBase,
+  fetchStandingsSnapshots,
+  fetchTeamsByDivision,
+  getActiveSeasonId,
+  replaceStandingsSnapshot,
+  sortDivisions,
+  type Division,
+  type DivisionMove,
+  type MatchSub,
+  type PersistedMatchScore,
+  type SavedMatch,
+  type StandingsBaseEntry,
+  type StandingsSnapshotEntry,
+  type Team,
+} from '@/constants/leagueData';
+import {
+  DEFAULT_DIVISION_MOVE_POLICY,
+  normalizeDivisionMovePolicy,
+  type DivisionMovePolicy,
+} from '@/constants/divisionHistory';
+import { baselineTeamsFor } from '@/constants/seasons';
+import {
+  START_WEEK_FOR_AUTOCALC,
+  baselineHasStats as hasBaselineStats,
+  computeStandings,
+  getMaxVerifiedWeek,
+  pointDiff,
+  type StandingsSection,
+} from '@/constants/standings';
+import { DEFAULT_SUB_RULE, normalizeSubRule, type SubRule } from '@/constants/substitutes';
+import { DEFAULT_TIEBREAKERS, TIEBREAKER_LABELS, normalizeTiebreakers, type TiebreakerId } from '@/constants/tiebreakers';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
 
 // ✅ Division moves stored here (from your Admin screen)
 const STORAGE_KEY_DIVISION_MOVES = 'ppl_division_moves_v1';
 
-// If Week 1 baseline has real stats, we only add week >= 2.
-// If baseline is missing (or only has team list), we calculate from Week 1+ via Supabase scores.
-const START_WEEK_FOR_AUTOCALC = 2;
-
-const DIVISION_ORDER: Division[] = ['Advanced', 'Intermediate', 'Beginner'];
-
-// ✅ Baseline teams (same baseline approach as Admin Teams / Scoring)
-const DEFAULT_TEAMS_BY_DIVISION: Record<Division, string[]> = {
-  Advanced: [
-    'Ishai/Greg',
-    'Adam/Jon',
-    'Bradley/Ben',
-    'Peter/Ray',
-    'Andrew/Brent',
-    'Mark D/Craig',
-    'Alex/Anibal',
-    'Radek/Alexi',
-    'Ricky/John',
-    'Brandon/Ikewa',
-    'Andrew/Dan',
-    'Eric/Meir',
-    'David/Guy',
-    'Mark P/Matt O',
-  ],
-  Intermediate: [
-    'Ashley/Julie',
-    'Stephanie/Misty',
-    'Eric/Sunil',
-    'Dan/Relu',
-    'Domencio/Keith',
-    'YG/Haaris',
-    'Nicole/Joshua',
-    'Amy/Nik',
-    'Elaine/Valerie',
-    'Marat/Marta',
-    'Beatriz/Joe',
-    'Alejandro/William',
-  ],
-  Beginner: [
-    'Eric/Tracy',
-    'Rachel/Jaime',
-    'Amy/Ellen',
-    'Lashonda/Lynette',
-    'Michael/JP',
-    'Fran/Scott',
-    'Robert/Adam',
-    'Cynthia/Maureen',
-    'Marina/Sharon',
-  ],
-};
-
-type SupabaseTeamRow = {
-  id: string;
-  created_at: string;
-  division: string;
-  name: string;
-};
-
-type SupabaseMatchRow = {
-  id: string;
-  week: number;
-  division: string;
-  time: string;
-  court: number;
-  team_a: string;
-  team_b: string;
-};
-
-type SupabaseMatchScoreRow = {
-  match_id: string;
-  team_a: any;
-  team_b: any;
-  verified: boolean;
-  verified_by: string | null;
-  verified_at_ms: number | null;
-};
-
-type SupabaseStandingsBaseRow = {
-  id?: string;
-  created_at?: string;
-  division: string;
-  team: string;
-  // NOTE: your current table may NOT have numeric columns — we handle that safely.
-  games_played?: number | null;
-  wins?: number | null;
-  losses?: number | null;
-  points_for?: number | null;
-  points_against?: number | null;
-};
-
-function normalizeName(s: string) {
-  return (s || '')
-    .replace(/\s+/g, ' ') // collapse any weird whitespace
-    .trim();
+function safeInt(value: string, fallback: number) {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : fallback;
 }
 
-function uniqSorted(list: string[]) {
-  const set = new Set(list.map((x) => normalizeName(x)).filter(Boolean));
-  return Array.from(set).sort((a, b) => a.localeCompare(b));
-}
-
-function isDivision(v: any): v is Division {
-  return v === 'Beginner' || v === 'Intermediate' || v === 'Advanced';
-}
-
-function pointDiff(row: TeamRow) {
-  return row.pointsFor - row.pointsAgainst;
-}
-
-function toN(s: string) {
-  const n = parseInt((s ?? '').toString() || '0', 10);
-  return Number.isFinite(n) ? n : 0;
-}
-
-/**
- * ✅ IMPORTANT:
- * - A score is "entered" if the string is NOT empty.
- * - A game is "entered" ONLY when BOTH teams have a score for that game.
- * This prevents blanks from being treated as 0.
- */
-function isEnteredScore(v: string) {
-  return (v ?? '').toString().trim() !== '';
-}
-function gameEnteredPair(a: string, b: string) {
-  return isEnteredScore(a) && isEnteredScore(b);
-}
-
-function getMaxVerifiedWeek(matches: SavedMatch[], scores: Record<string, PersistedMatchScore>) {
-  let max = 1;
-  for (const m of matches) {
-    const s = scores[m.id];
-    if (!s || !s.verified) continue;
-    if (typeof m.week === 'number' && Number.isFinite(m.week) && m.week > max) {
-      max = m.week;
-    }
-  }
-  return max;
-}
-
-// ✅ Find the team’s division as-of a given week using saved Division Moves
-function getDivisionForTeamAsOfWeek(team: string, asOfWeek: number, moves: DivisionMove[]) {
-  let best: DivisionMove | null = null;
-
-  for (const mv of moves) {
-    if (normalizeName(mv.team) !== normalizeName(team)) continue;
-    if (mv.effectiveWeek > asOfWeek) continue;
-
-    if (!best || mv.effectiveWeek > best.effectiveWeek) {
-      best = mv;
-    }
-  }
-
-  return best ? best.toDivision : null;
-}
-
-function getBaselineDivision(team: string): Division | null {
-  const t = normalizeName(team);
-
-  if (DEFAULT_TEAMS_BY_DIVISION.Advanced.some((x) => normalizeName(x) === t)) return 'Advanced';
-  if (DEFAULT_TEAMS_BY_DIVISION.Intermediate.some((x) => normalizeName(x) === t)) return 'Intermediate';
-  if (DEFAULT_TEAMS_BY_DIVISION.Beginner.some((x) => normalizeName(x) === t)) return 'Beginner';
-  return null;
-}
-
-async function fetchTeamsFromSupabase(): Promise<Record<Division, SupabaseTeamRow[]>> {
-  const url = supabaseRestUrl('teams?select=id,created_at,division,name&order=created_at.asc');
-
-  const res = await fetch(url, { method: 'GET', headers: supabaseHeaders() });
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseTeamRow[];
-
-  const grouped: Record<Division, SupabaseTeamRow[]> = {
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  };
-
-  for (const r of rows) {
-    if (isDivision(r.division)) grouped[r.division].push(r);
-  }
-
-  return grouped;
-}
-
-async function fetchMatchesFromSupabase(): Promise<SavedMatch[]> {
-  const url = supabaseRestUrl(
-    'matches?select=id,week,division,time,court,team_a,team_b&order=week.asc&order=division.asc&order=time.asc&order=court.asc'
-  );
-
-  const res = await fetch(url, { method: 'GET', headers: supabaseHeaders() });
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseMatchRow[];
-
-  const out: SavedMatch[] = [];
-  for (const r of rows) {
-    if (!isDivision(r.division)) continue;
-
-    out.push({
-      id: String(r.id),
-      week: Number(r.week),
-      division: r.division,
-      time: String(r.time),
-      court: Number(r.court),
-      teamA: String(r.team_a),
-      teamB: String(r.team_b),
-    });
-  }
-
-  return out;
-}
-
-function asScoreFields(v: any): ScoreFields {
-  const g1 = v?.g1 == null ? '' : String(v.g1);
-  const g2 = v?.g2 == null ? '' : String(v.g2);
-  const g3 = v?.g3 == null ? '' : String(v.g3);
-  return { g1, g2, g3 };
-}
-
-async function fetchMatchScoresFromSupabase(): Promise<Record<string, PersistedMatchScore>> {
-  const url = supabaseRestUrl('match_scores?select=match_id,team_a,team_b,verified,verified_by,verified_at_ms');
-
-  const res = await fetch(url, { method: 'GET', headers: supabaseHeaders() });
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseMatchScoreRow[];
-
-  const out: Record<string, PersistedMatchScore> = {};
-  for (const r of rows) {
-    const id = String(r.match_id);
-    out[id] = {
-      matchId: id,
-      teamA: asScoreFields(r.team_a),
-      teamB: asScoreFields(r.team_b),
-      verified: !!r.verified,
-      verifiedBy: r.verified_by ?? null,
-      verifiedAt: typeof r.verified_at_ms === 'number' ? r.verified_at_ms : null,
-    };
+// ✅ confirm helper that works on web + native
+function confirmPopup(title: string, message: string, okText: string): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    const ok = typeof window !== 'undefined' ? window.confirm(`${title}\n\n${message}`) : false;
+    return Promise.resolve(ok);
   }
 
-  return out;
+  return new Promise((resolve) => {
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+      { text: okText, onPress: () => resolve(true) },
+    ]);
+  });
 }
 
-/**
- * ✅ Week 1 baseline (read-only forever) now lives in Supabase table: standings_base
- * We load it for EVERY device (Vercel included).
- *
- * Your current table may only have: division + team.
- * If numeric columns exist later, we’ll use them automatically.
- */
-async function fetchStandingsBaseFromSupabase(): Promise<TeamRow[]> {
-  // Try selecting numeric columns too (if they exist). If they don't, Supabase may error.
-  // So we do a safe fallback attempt.
-  const tryUrls = [
-    supabaseRestUrl(
-      'standings_base?select=division,team,games_played,wins,losses,points_for,points_against&order=division.asc&order=team.asc'
-    ),
-    supabaseRestUrl('standings_base?select=division,team&order=division.asc&order=team.asc'),
-  ];
-
-  let lastErr = '';
-
-  for (const url of tryUrls) {
-    const res = await fetch(url, { method: 'GET', headers: supabaseHeaders() });
-    if (!res.ok) {
-      lastErr = await res.text().catch(() => '');
-      continue;
-    }
-
-    const rows = (await res.json()) as SupabaseStandingsBaseRow[];
-
-    const out: TeamRow[] = [];
-    for (const r of rows) {
-      if (!isDivision(r.division)) continue;
-      const team = normalizeName(r.team);
-      if (!team) continue;
-
-      out.push({
-        division: r.division,
-        team,
-        gamesPlayed: Number(r.games_played ?? 0) || 0,
-        wins: Number(r.wins ?? 0) || 0,
-        losses: Number(r.losses ?? 0) || 0,
-        pointsFor: Number(r.points_for ?? 0) || 0,
-        pointsAgainst: Number(r.points_against ?? 0) || 0,
-      });
-    }
-
-    return out;
-  }
-
-  throw new Error(`Failed to load standings_base from Supabase. ${lastErr ? `Details: ${lastErr}` : ''}`);
+// Frozen rows → the same section shape the live table renders
+function snapshotSections(entries: StandingsSnapshotEntry[]): StandingsSection[] {
+  return sortDivisions(entries.map((e) => e.division)).map((division) => ({
+    division,
+    rows: entries
+      .filter((e) => e.division === division)
+      .sort((a, b) => a.rank - b.rank)
+      .map((e) => ({
+        rank: e.rank,
+        explanation: e.explanation,
+        row: {
+          division: e.division,
+          team: e.team,
+          gamesPlayed: e.gamesPlayed,
+          wins: e.wins,
+          losses: e.losses,
+          pointsFor: e.pointsFor,
+          pointsAgainst: e.pointsAgainst,
+        },
+      })),
+  }));
 }
 
-// ✅ Internal totals keyed by TEAM ONLY (so records can carry across divisions)
-type TeamTotals = {
-  team: string;
-  originalDivision: Division;
-  gamesPlayed: number;
-  wins: number;
-  losses: number;
-  pointsFor: number;
-  pointsAgainst: number;
-};
-
-function addTotals(
-  map: Map<string, TeamTotals>,
-  add: Omit<TeamTotals, 'originalDivision'> & { originalDivision?: Division }
-) {
-  const key = normalizeName(add.team);
-  if (!key) return;
-
-  const prev = map.get(key);
-  if (!prev) {
-    map.set(key, {
-      team: key,
-      originalDivision: add.originalDivision ?? 'Beginner',
-      gamesPlayed: add.gamesPlayed,
-      wins: add.wins,
-      losses: add.losses,
-      pointsFor: add.pointsFor,
-      pointsAgainst: add.pointsAgainst,
-    });
-    return;
-  }
-
-  map.set(key, {
-    ...prev,
-    originalDivision: prev.originalDivision ?? (add.originalDivision ?? 'Beginner'),
-    gamesPlayed: prev.gamesPlayed + add.gamesPlayed,
-    wins: prev.wins + add.wins,
-    losses: prev.losses + add.losses,
-    pointsFor: prev.pointsFor + add.pointsFor,
-    pointsAgainst: prev.pointsAgainst + add.pointsAgainst,
-  });
+// ▲2 / ▼1 versus the previous snapshot (null = no previous rank to compare)
+function rankMovement(prevRank: number | undefined, rank: number) {
+  if (prevRank == null) return null;
+  const delta = prevRank - rank;
+  if (delta > 0) return { text: `▲${delta}`, color: 'green' };
+  if (delta < 0) return { text: `▼${-delta}`, color: '#c62828' };
+  return { text: '–', color: '#888' };
 }
 
 export default function StandingsScreen() {
+  const router = useRouter();
   const { width } = useWindowDimensions();
 
+  // Season being browsed (past seasons are read-only)
+  const [season, setSeason] = useState<string>(getActiveSeasonId());
+  const archived = season !== getActiveSeasonId();
+
   const [matches, setMatches] = useState<SavedMatch[]>([]);
   const [scores, setScores] = useState<Record<string, PersistedMatchScore>>({});
 
   // Week 1 baseline + division moves
-  const [baseRows, setBaseRows] = useState<TeamRow[]>([]);
+  const [baseRows, setBaseRows] = useState<StandingsBaseEntry[]>([]);
   const [divisionMoves, setDivisionMoves] = useState<DivisionMove[]>([]);
 
   // Teams from Supabase (helps ensure new teams appear even with 0 games)
-  const [dbTeams, setDbTeams] = useState<Record<Division, SupabaseTeamRow[]>>({
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  });
+  const [dbTeams, setDbTeams] = useState<Record<Division, Team[]>>(() => emptyByDivision(() => []));
 
   const [teamsLoadError, setTeamsLoadError] = useState<string>('');
   const [matchesLoadError, setMatchesLoadError] = useState<string>('');
   const [scoresLoadError, setScoresLoadError] = useState<string>('');
   const [baseLoadError, setBaseLoadError] = useState<string>('');
 
+  // Tiebreaker order for this season (admin-configurable)
+  const [tiebreakers, setTiebreakers] = useState<TiebreakerId[]>(DEFAULT_TIEBREAKERS);
+  // Substitutes + whether sub-played matches count
+  const [subs, setSubs] = useState<MatchSub[]>([]);
+  const [subRule, setSubRule] = useState<SubRule>(DEFAULT_SUB_RULE);
+  // Whether a moved team's record follows it into the new division
+  const [movePolicy, setMovePolicy] = useState<DivisionMovePolicy>(DEFAULT_DIVISION_MOVE_POLICY);
+  const [explainTeam, setExplainTeam] = useState<string | null>(null);
+  const [hasPlayoffs, setHasPlayoffs] = useState(false);
+
+  // Official weekly snapshots ('live' = computed from the latest verified scores)
+  const [snapshots, setSnapshots] = useState<StandingsSnapshotEntry[]>([]);
+  const [snapshotsLoadError, setSnapshotsLoadError] = useState<string>('');
+  const [viewWeek, setViewWeek] = useState<'live' | number>('live');
+
+  // Admin-only freeze controls
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [freezeWeek, setFreezeWeek] = useState('');
+  const [freezing, setFreezing] = useState(false);
+  const [freezeMsg, setFreezeMsg] = useState('');
+  const [exportMsg, setExportMsg] = useState('');
+
   const refreshTeams = useCallback(async () => {
     setTeamsLoadError('');
     try {
-      const grouped = await fetchTeamsFromSupabase();
+      const grouped = await fetchTeamsByDivision(season);
       setDbTeams(grouped);
     } catch (e: any) {
       setTeamsLoadError(e?.message || 'Failed to load teams from Supabase.');
     }
-  }, []);
+  }, [season]);
 
   const refreshMatches = useCallback(async () => {
     setMatchesLoadError('');
     try {
-      const list = await fetchMatchesFromSupabase();
+      const list = await fetchMatches(season);
       setMatches(Array.isArray(list) ? list : []);
     } catch (e: any) {
       setMatches([]);
       setMatchesLoadError(e?.message || 'Failed to load matches from Supabase.');
     }
-  }, []);
+  }, [season]);
 
   const refreshScores = useCallback(async () => {
     setScoresLoadError('');
     try {
-      const map = await fetchMatchScoresFromSupabase();
+      const map = await fetchMatchScores(season);
       setScores(map);
     } catch (e: any) {
       setScores({});
       setScoresLoadError(e?.message || 'Failed to load match scores from Supabase.');
     }
-  }, []);
+  }, [season]);
 
   const loadAdminData = useCallback(async () => {
     // 1) Week 1 baseline from Supabase (shared forever)
     setBaseLoadError('');
     try {
-      const base = await fetchStandingsBaseFromSupabase();
+      const base = await fetchStandingsBase(season);
       setBaseRows(Array.isArray(base) ? base : []);
     } catch (e: any) {
       setBaseRows([]);
@@ -464,263 +194,292 @@ export default function StandingsScreen() {
 
     // 2) Division moves from Supabase (shared)
     try {
-      const url = supabaseRestUrl(
-        'division_moves?select=id,team,from_division,to_division,effective_week,created_at&order=effective_week.asc&order=created_at.asc'
-      );
-
-      const res = await fetch(url, { method: 'GET', headers: supabaseHeaders() });
-      if (!res.ok) {
-        const txt = await res.text().catch(() => '');
-        throw new Error(`Supabase division_moves SELECT failed: ${res.status} ${txt}`);
-      }
-
-      const rows = (await res.json()) as any[];
-
-      const parsed: DivisionMove[] = rows
-        .map((r) => {
-          const team = normalizeName(String(r.team ?? ''));
-          const fromDivision = String(r.from_division ?? '').trim();
-          const toDivision = String(r.to_division ?? '').trim();
-
-          return {
-            id: String(r.id),
-            team,
-            fromDivision: fromDivision as Division,
-            toDivision: toDivision as Division,
-            effectiveWeek: Number(r.effective_week ?? 1) || 1,
-            createdAt: r.created_at ? new Date(r.created_at).getTime() : Date.now(),
-          };
-        })
-        .filter((mv) => mv.team && isDivision(mv.fromDivision) && isDivision(mv.toDivision));
-
-      setDivisionMoves(parsed);
+      setDivisionMoves(await fetchDivisionMoves(season));
     } catch {
       setDivisionMoves([]);
     }
-  }, []);
+
+    // 3) Season tiebreaker, substitute + division move rules (missing row/table → league defaults)
+    try {
+      const settings = await fetchSeasonSettings(season);
+      setTiebreakers(normalizeTiebreakers(settings?.tiebreakers));
+      setSubRule(normalizeSubRule(settings?.subRule));
+      setMovePolicy(normalizeDivisionMovePolicy(settings?.divisionMovePolicy));
+    } catch {
+      setTiebreakers(DEFAULT_TIEBREAKERS);
+      setSubRule(DEFAULT_SUB_RULE);
+      setMovePolicy(DEFAULT_DIVISION_MOVE_POLICY);
+    }
+
+    // 4) Substitutes recorded on matches
+    try {
+      setSubs(await fetchMatchSubs(season));
+    } catch {
+      setSubs([]);
+    }
+
+    // 5) Playoff brackets (links to the bracket view once seeded)
+    try {
+      setHasPlayoffs((await fetchPlayoffBrackets(season)).length > 0);
+    } catch {
+      setHasPlayoffs(false);
+    }
+  }, [season]);
+
+  const refreshSnapshots = useCallback(async () => {
+    setSnapshotsLoadError('');
+    try {
+      setSnapshots(await fetchStandingsSnapshots(season));
+    } catch (e: any) {
+      setSnapshots([]);
+      setSnapshotsLoadError(e?.message || 'Failed to load standings snapshots from Supabase.');
+    }
+  }, [season]);
 
   useEffect(() => {
+    void refreshSnapshots();
     void refreshTeams();
     void refreshMatches();
     void refreshScores();
     void loadAdminData();
-  }, [refreshTeams, refreshMatches, refreshScores, loadAdminData]);
+  }, [refreshSnapshots, refreshTeams, refreshMatches, refreshScores, loadAdminData]);
 
   useFocusEffect(
     useCallback(() => {
+      void refreshSnapshots();
       void refreshTeams();
       void refreshMatches();
       void refreshScores();
       void loadAdminData();
-    }, [refreshTeams, refreshMatches, refreshScores, loadAdminData])
+      void currentUserHasRole('league_admin').then(setIsAdmin);
+    }, [refreshSnapshots, refreshTeams, refreshMatches, refreshScores, loadAdminData])
   );
 
-  const supabaseDivisionByTeam = useMemo(() => {
-    const map = new Map<string, Division>();
-    for (const div of DIVISION_ORDER) {
-      for (const row of dbTeams[div] ?? []) {
-        const name = normalizeName(row.name);
-        if (!name) continue;
-        map.set(name, div);
-      }
-    }
-    return map;
-  }, [dbTeams]);
-
-  const baselineHasStats = useMemo(() => {
-    return baseRows.some(
-      (r) =>
-        (r.gamesPlayed ?? 0) > 0 ||
-        (r.wins ?? 0) > 0 ||
-        (r.losses ?? 0) > 0 ||
-        (r.pointsFor ?? 0) > 0 ||
-        (r.pointsAgainst ?? 0) > 0
-    );
-  }, [baseRows]);
+  // ✅ Realtime: standings recompute as soon as a score is saved anywhere
+  useLiveRefresh(['matches'], refreshMatches);
+  useLiveRefresh(['match_scores'], refreshScores);
+  useLiveRefresh(['match_subs'], loadAdminData);
+
+  const baselineHasStats = useMemo(() => hasBaselineStats(baseRows), [baseRows]);
 
   const computed = useMemo(() => {
-    const totals = new Map<string, TeamTotals>();
-
-    // ✅ If baseline has REAL Week 1 stats, we only add from week >= 2.
-    // ✅ If baseline is empty OR only teams/divisions, we calculate from week 1+ via Supabase verified scores.
-    const startWeekForThisDevice = baselineHasStats ? START_WEEK_FOR_AUTOCALC : 1;
-
-    // 0) Ensure ALL known teams exist (even if they have 0 games)
-    const baselineAll = [
-      ...DEFAULT_TEAMS_BY_DIVISION.Advanced,
-      ...DEFAULT_TEAMS_BY_DIVISION.Intermediate,
-      ...DEFAULT_TEAMS_BY_DIVISION.Beginner,
-    ];
-
-    const supaAll = [
-      ...(dbTeams.Advanced ?? []).map((r) => r.name),
-      ...(dbTeams.Intermediate ?? []).map((r) => r.name),
-      ...(dbTeams.Beginner ?? []).map((r) => r.name),
-    ];
-
-    const fromMatchesAll = matches.flatMap((m) => [m.teamA, m.teamB]);
-
-    const baseTeamList = baseRows.map((r) => r.team);
-
-    const allKnownTeams = uniqSorted([...baselineAll, ...supaAll, ...fromMatchesAll, ...baseTeamList]);
-
-    for (const team of allKnownTeams) {
-      const t = normalizeName(team);
-      if (!t) continue;
-
-      const supaDiv = supabaseDivisionByTeam.get(t) ?? null;
-      const baseDiv = getBaselineDivision(t);
-      const hintDiv: Division = supaDiv ?? baseDiv ?? 'Beginner';
-
-      addTotals(totals, {
-        team: t,
-        originalDivision: hintDiv,
-        gamesPlayed: 0,
-        wins: 0,
-        losses: 0,
-        pointsFor: 0,
-        pointsAgainst: 0,
-      });
+    return computeStandings({
+      matches,
+      scores,
+      baseRows,
+      divisionMoves,
+      baselineTeams: baselineTeamsFor(season),
+      dbTeams,
+      tiebreakers,
+      subs,
+      subRule,
+      divisionMovePolicy: movePolicy,
+    });
+  }, [matches, scores, baseRows, divisionMoves, dbTeams, tiebreakers, subs, subRule, movePolicy, season]);
+
+  const snapshotWeeks = useMemo(() => {
+    return Array.from(new Set(snapshots.map((e) => e.week))).sort((a, b) => a - b);
+  }, [snapshots]);
+
+  // A snapshot week that disappeared (deleted / re-frozen elsewhere) falls back to live
+  const shownWeek = viewWeek !== 'live' && !snapshotWeeks.includes(viewWeek) ? 'live' : viewWeek;
+
+  const sections = useMemo(() => {
+    if (shownWeek === 'live') return computed;
+    return snapshotSections(snapshots.filter((e) => e.week === shownWeek));
+  }, [shownWeek, computed, snapshots]);
+
+  // Movement is measured against the latest snapshot BEFORE the week being shown (live → latest snapshot)
+  const previousWeek = useMemo(() => {
+    const earlier = shownWeek === 'live' ? snapshotWeeks : snapshotWeeks.filter((w) => w < shownWeek);
+    return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+  }, [shownWeek, snapshotWeeks]);
+
+  const previousRanks = useMemo(() => {
+    const map = new Map<string, number>();
+    if (previousWeek == null) return map;
+    for (const e of snapshots) {
+      if (e.week === previousWeek) map.set(`${e.division}|${e.team}`, e.rank);
     }
-
-    // 1) Seed totals from baseRows (Week 1 baseline) if baseline includes stats
-    if (baselineHasStats) {
-      for (const r of baseRows) {
-        addTotals(totals, {
-          team: r.team,
-          originalDivision: r.division,
-          gamesPlayed: r.gamesPlayed,
-          wins: r.wins,
-          losses: r.losses,
-          pointsFor: r.pointsFor,
-          pointsAgainst: r.pointsAgainst,
-        });
-      }
+    return map;
+  }, [snapshots, previousWeek]);
+
+  const onFreeze = async () => {
+    setFreezeMsg('');
+    const week = safeInt(freezeWeek, getMaxVerifiedWeek(matches, scores));
+    if (week <= 0) {
+      setFreezeMsg('Enter a valid week number.');
+      return;
     }
 
-    // 2) Add from VERIFIED scores only (from Supabase)
-    for (const m of matches) {
-      if (m.week < startWeekForThisDevice) continue;
-
-      const s = scores[m.id];
-      if (!s || !s.verified) continue;
-
-      const aRaw = [s.teamA.g1, s.teamA.g2, s.teamA.g3];
-      const bRaw = [s.teamB.g1, s.teamB.g2, s.teamB.g3];
-
-      let aWins = 0;
-      let bWins = 0;
-      let gamesPlayed = 0;
-
-      for (let i = 0; i < 3; i++) {
-        if (!gameEnteredPair(aRaw[i], bRaw[i])) continue;
-
-        gamesPlayed += 1;
-
-        const ap = toN(aRaw[i]);
-        const bp = toN(bRaw[i]);
-
-        if (ap > bp) aWins += 1;
-        else if (bp > ap) bWins += 1;
-      }
-
-      // ✅ points should ONLY count games that are fully entered (both teams have a score)
-      let aPF = 0;
-      let bPF = 0;
-
-      for (let i = 0; i < 3; i++) {
-        if (!gameEnteredPair(aRaw[i], bRaw[i])) continue;
-        aPF += toN(aRaw[i]);
-        bPF += toN(bRaw[i]);
-      }
+    const exists = snapshotWeeks.includes(week);
+    const ok = await confirmPopup(
+      exists ? `Re-freeze Week ${week}?` : `Freeze Week ${week}?`,
+      exists
+        ? `This replaces the official Week ${week} standings with the current calculation (confirmed scores through Week ${week}).`
+        : `This saves the official Week ${week} standings (confirmed scores through Week ${week}) for every division.`,
+      'Freeze'
+    );
+    if (!ok) return;
 
-      addTotals(totals, {
-        team: m.teamA,
-        originalDivision: m.division,
-        gamesPlayed,
-        wins: aWins,
-        losses: bWins,
-        pointsFor: aPF,
-        pointsAgainst: bPF,
+    setFreezing(true);
+    try {
+      const frozen = computeStandings({
+        matches,
+        scores,
+        baseRows,
+        divisionMoves,
+        baselineTeams: baselineTeamsFor(season),
+        dbTeams,
+        tiebreakers,
+        throughWeek: week,
+        subs,
+        subRule,
+        divisionMovePolicy: movePolicy,
       });
 
-      addTotals(totals, {
-        team: m.teamB,
-        originalDivision: m.division,
-        gamesPlayed,
-        wins: bWins,
-        losses: aWins,
-        pointsFor: bPF,
-        pointsAgainst: aPF,
-      });
-    }
+      const entries = frozen.flatMap((section) =>
+        section.rows.map(({ row, rank, explanation }) => ({
+          division: section.division,
+          team: row.team,
+          rank,
+          gamesPlayed: row.gamesPlayed,
+          wins: row.wins,
+          losses: row.losses,
+          pointsFor: row.pointsFor,
+          pointsAgainst: row.pointsAgainst,
+          explanation,
+        }))
+      );
 
-    const asOfWeek = getMaxVerifiedWeek(matches, scores);
-
-    // 3) Convert totals -> TeamRow, assigning FINAL display division via Division Moves
-    const finalRows: TeamRow[] = [];
-    for (const t of totals.values()) {
-      const movedDivision = getDivisionForTeamAsOfWeek(t.team, asOfWeek, divisionMoves);
-      const finalDivision = movedDivision ?? t.originalDivision;
-
-      finalRows.push({
-        division: finalDivision,
-        team: t.team,
-        gamesPlayed: t.gamesPlayed,
-        wins: t.wins,
-        losses: t.losses,
-        pointsFor: t.pointsFor,
-        pointsAgainst: t.pointsAgainst,
-      });
+      await replaceStandingsSnapshot(season, week, entries);
+      await refreshSnapshots();
+      setViewWeek(week);
+      setFreezeMsg(`✅ Week ${week} standings frozen (${entries.length} teams).`);
+    } catch (e: any) {
+      setFreezeMsg(e?.message || 'Failed to save the standings snapshot to Supabase.');
+    } finally {
+      setFreezing(false);
     }
+  };
 
-    // 4) Group by division + sort
-    const byDiv = new Map<Division, TeamRow[]>();
-    for (const r of finalRows) {
-      if (!byDiv.has(r.division)) byDiv.set(r.division, []);
-      byDiv.get(r.division)!.push(r);
+  // ✅ Export the table being shown (live or an official week)
+  const onExportCsv = async () => {
+    setExportMsg('');
+    const fileName = csvFileName(['standings', season, shownWeek === 'live' ? 'live' : `week ${shownWeek}`]);
+    try {
+      await shareTextFile(fileName, standingsCsv(sections), CSV_MIME_TYPE);
+      setExportMsg(`✅ Exported ${fileName}.`);
+    } catch (e: any) {
+      setExportMsg(e?.message || 'Could not create the CSV file.');
     }
-
-    return DIVISION_ORDER.map((division) => {
-      const rows = (byDiv.get(division) ?? []).sort((x, y) => {
-        // Teams with 0 games always at bottom
-        const xZero = x.gamesPlayed === 0;
-        const yZero = y.gamesPlayed === 0;
-        if (xZero !== yZero) return xZero ? 1 : -1;
-
-        // 1) Wins (higher first)
-        if (y.wins !== x.wins) return y.wins - x.wins;
-
-        // 2) Losses (lower first)
-        if (x.losses !== y.losses) return x.losses - y.losses;
-
-        // 3) Points For (higher first)
-        if (y.pointsFor !== x.pointsFor) return y.pointsFor - x.pointsFor;
-
-        // 4) Points Against (lower first)
-        if (x.pointsAgainst !== y.pointsAgainst) return x.pointsAgainst - y.pointsAgainst;
-
-        return x.team.localeCompare(y.team);
-      });
-
-      return { division, rows };
-    });
-  }, [matches, scores, baseRows, divisionMoves, dbTeams, supabaseDivisionByTeam, baselineHasStats]);
+  };
 
   console.log('DIVISION MOVES FROM SUPABASE:', divisionMoves);
 
   const standingsInfoText = useMemo(() => {
+    if (shownWeek !== 'live') {
+      const frozenAt = snapshots.find((e) => e.week === shownWeek)?.frozenAt;
+      const when = frozenAt ? ` on ${new Date(frozenAt).toLocaleDateString()}` : '';
+      return `Official Week ${shownWeek} standings (frozen${when}).`;
+    }
     if (baselineHasStats) {
-      return `Standings are based on: Week 1 baseline + verified scores from Week ${START_WEEK_FOR_AUTOCALC}+ (synced via Supabase).`;
+      return `Standings are based on: Week 1 baseline + confirmed scores from Week ${START_WEEK_FOR_AUTOCALC}+ (synced via Supabase).`;
     }
-    return `Standings are based on: verified scores from Week 1+ (synced via Supabase).`;
-  }, [baselineHasStats]);
+    return `Standings are based on: confirmed scores from Week 1+ (synced via Supabase).`;
+  }, [baselineHasStats, shownWeek, snapshots]);
 
   return (
     <ScrollView contentContainerStyle={{ padding: 16, paddingBottom: 40 }}>
       <Text style={{ fontSize: 26, fontWeight: '900', marginBottom: 6 }}>Standings</Text>
 
-      <Text style={{ color: '#444', marginBottom: 12 }}>{standingsInfoText}</Text>
+      <SeasonPicker
+        value={season}
+        onChange={(id) => {
+          setSeason(id);
+          setViewWeek('live');
+          setExplainTeam(null);
+        }}
+      />
+
+      {/* ✅ Browse past official weeks */}
+      <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, marginBottom: 10 }}>
+        <Picker
+          selectedValue={shownWeek === 'live' ? 'live' : String(shownWeek)}
+          onValueChange={(v) => setViewWeek(v === 'live' ? 'live' : Number(v))}
+        >
+          <Picker.Item label={archived ? 'Final (all confirmed scores)' : 'Live (latest confirmed scores)'} value="live" />
+          {[...snapshotWeeks].reverse().map((w) => (
+            <Picker.Item key={w} label={`Week ${w} (official)`} value={String(w)} />
+          ))}
+        </Picker>
+      </View>
+
+      <Text style={{ color: '#444', marginBottom: 4 }}>{standingsInfoText}</Text>
+      {shownWeek === 'live' ? (
+        <Text style={{ color: '#444', marginBottom: 4 }}>
+          Ties on game wins: {tiebreakers.map((t) => TIEBREAKER_LABELS[t]).join(' → ')} → name.
+        </Text>
+      ) : null}
+      <Text style={{ color: '#444', marginBottom: 12 }}>
+        {previousWeek != null ? `▲/▼ = rank change since the Week ${previousWeek} snapshot. ` : ''}
+        Tap a team to see why it is ranked there.
+      </Text>
+
+      <Pressable onPress={() => router.push('/player-profile' as any)} style={{ marginBottom: 12 }}>
+        <Text style={{ fontWeight: '900', color: '#1565c0' }}>👤 Player profiles & partner stats →</Text>
+      </Pressable>
+
+      {hasPlayoffs ? (
+        <Pressable onPress={() => router.push('/playoffs' as any)} style={{ marginBottom: 12 }}>
+          <Text style={{ fontWeight: '900', color: '#1565c0' }}>🏆 Playoff brackets →</Text>
+        </Pressable>
+      ) : null}
+
+      {sections.some((sec) => sec.rows.length > 0) ? (
+        <Pressable onPress={() => void onExportCsv()} style={{ marginBottom: 12 }}>
+          <Text style={{ fontWeight: '900', color: '#1565c0' }}>⬇️ Export standings (CSV) →</Text>
+        </Pressable>
+      ) : null}
+      {exportMsg ? <Text style={{ fontWeight: '800', marginBottom: 12 }}>{exportMsg}</Text> : null}
+
+      {isAdmin && !archived ? (
+        <View
+          style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 12, padding: 12, marginBottom: 12, gap: 8 }}
+        >
+          <Text style={{ fontWeight: '900' }}>Admin: freeze official standings</Text>
+          <View style={{ flexDirection: 'row', gap: 8, alignItems: 'center' }}>
+            <Text style={{ fontWeight: '800' }}>Week</Text>
+            <TextInput
+              value={freezeWeek}
+              onChangeText={setFreezeWeek}
+              placeholder={String(getMaxVerifiedWeek(matches, scores))}
+              keyboardType="number-pad"
+              style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 10, width: 80 }}
+            />
+            <Pressable
+              onPress={onFreeze}
+              disabled={freezing}
+              style={{
+                backgroundColor: 'black',
+                paddingVertical: 10,
+                paddingHorizontal: 14,
+                borderRadius: 10,
+                opacity: freezing ? 0.6 : 1,
+              }}
+            >
+              <Text style={{ color: 'white', fontWeight: '900' }}>{freezing ? 'Freezing…' : 'Freeze Week'}</Text>
+            </Pressable>
+          </View>
+          {freezeMsg ? <Text style={{ fontWeight: '800' }}>{freezeMsg}</Text> : null}
+        </View>
+      ) : null}
+
+      {snapshotsLoadError ? (
+        <Text style={{ color: '#b00020', fontWeight: '900', marginBottom: 10 }}>
+          Snapshots sync warning: {snapshotsLoadError}
+        </Text>
+      ) : null}
 
       {baseLoadError ? (
         <Text style={{ color: '#b00020', fontWeight: '900', marginBottom: 10 }}>
@@ -746,11 +505,11 @@ export default function StandingsScreen() {
         </Text>
       ) : null}
 
-      {computed.every((s) => s.rows.length === 0) ? (
+      {sections.every((s) => s.rows.length === 0) ? (
         <Text>No standings yet.</Text>
       ) : (
         <View style={{ gap: 16 }}>
-          {computed.map((section) => {
+          {sections.map((section) => {
             if (section.rows.length === 0) return null;
 
             // ✅ This is the key: table must have a min width so it can scroll in portrait,
@@ -759,7 +518,7 @@ export default function StandingsScreen() {
 
             return (
               <View key={section.division}>
-                <Text style={{ fontSize: 20, fontWeight: '900', marginBottom: 8 }}>
+                <Text style={{ fontSize: 20, fontWeight: '900', marginBottom: 8, color: divisionColor(section.division) }}>
                   {section.division}
                 </Text>
 
@@ -797,38 +556,80 @@ export default function StandingsScreen() {
                       <Text style={{ width: 70, padding: 10, fontWeight: '900', textAlign: 'center' }}>
                         DIFF
                       </Text>
+                      <Text style={{ width: 60, padding: 10, fontWeight: '900', textAlign: 'center' }}>
+                        ±
+                      </Text>
                     </View>
 
                     {/* Rows */}
                     <View style={{ borderWidth: 2, borderColor: '#000', borderTopWidth: 0 }}>
-                      {section.rows.map((r, idx) => (
-                        <View
-                          key={`${r.team}_${idx}`}
-                          style={{
-                            flexDirection: 'row',
-                            borderTopWidth: idx === 0 ? 0 : 1,
-                            borderTopColor: '#000',
-                            backgroundColor: 'white',
-                          }}
-                        >
-                          <Text style={{ width: 50, padding: 10, textAlign: 'center', fontWeight: '900' }}>
-                            {idx + 1}
-                          </Text>
-                          <Text style={{ flex: 2.2, padding: 10, fontWeight: '700' }}>{r.team}</Text>
-                          <Text style={{ width: 55, padding: 10, textAlign: 'center' }}>{r.gamesPlayed}</Text>
-                          <Text style={{ width: 55, padding: 10, textAlign: 'center', fontWeight: '900' }}>
-                            {r.wins}
-                          </Text>
-                          <Text style={{ width: 55, padding: 10, textAlign: 'center', fontWeight: '900' }}>
-                            {r.losses}
-                          </Text>
-                          <Text style={{ width: 70, padding: 10, textAlign: 'center' }}>{r.pointsFor}</Text>
-                          <Text style={{ width: 70, padding: 10, textAlign: 'center' }}>{r.pointsAgainst}</Text>
-                          <Text style={{ width: 70, padding: 10, textAlign: 'center', fontWeight: '900' }}>
-                            {pointDiff(r)}
-                          </Text>
-                        </View>
-                      ))}
+                      {section.rows.map(({ row: r, rank, explanation }, idx) => {
+                        const explainKey = `${section.division}_${r.team}`;
+                        const expanded = explainTeam === explainKey;
+                        const movement = rankMovement(previousRanks.get(`${section.division}|${r.team}`), rank);
+
+                        return (
+                          <Pressable
+                            key={`${r.team}_${idx}`}
+                            onPress={() => setExplainTeam(expanded ? null : explainKey)}
+                            style={{
+                              borderTopWidth: idx === 0 ? 0 : 1,
+                              borderTopColor: '#000',
+                              backgroundColor: expanded ? '#f7f7f7' : 'white',
+                            }}
+                          >
+                            <View style={{ flexDirection: 'row' }}>
+                              <Text style={{ width: 50, padding: 10, textAlign: 'center', fontWeight: '900' }}>
+                                {rank}
+                              </Text>
+                              <Text style={{ flex: 2.2, padding: 10, fontWeight: '700' }}>
+                                {r.team} <Text style={{ color: '#888', fontWeight: '900' }}>ⓘ</Text>
+                              </Text>
+                              <Text style={{ width: 55, padding: 10, textAlign: 'center' }}>{r.gamesPlayed}</Text>
+                              <Text style={{ width: 55, padding: 10, textAlign: 'center', fontWeight: '900' }}>
+                                {r.wins}
+                              </Text>
+                              <Text style={{ width: 55, padding: 10, textAlign: 'center', fontWeight: '900' }}>
+                                {r.losses}
+                              </Text>
+                              <Text style={{ width: 70, padding: 10, textAlign: 'center' }}>{r.pointsFor}</Text>
+                              <Text style={{ width: 70, padding: 10, textAlign: 'center' }}>{r.pointsAgainst}</Text>
+                              <Text style={{ width: 70, padding: 10, textAlign: 'center', fontWeight: '900' }}>
+                                {pointDiff(r)}
+                              </Text>
+                              <Text
+                                style={{
+                                  width: 60,
+                                  padding: 10,
+                                  textAlign: 'center',
+                                  fontWeight: '900',
+                                  color: movement?.color ?? '#888',
+                                }}
+                              >
+                                {movement ? movement.text : previousWeek != null ? 'NEW' : ''}
+                              </Text>
+                            </View>
+
+                            {/* ✅ "Why is this team ranked here" */}
+                            {expanded ? (
+                              <Text style={{ paddingHorizontal: 10, paddingBottom: 10, color: '#333' }}>
+                                #{rank}: {explanation}
+                              </Text>
+                            ) : null}
+
+                            {/* ✅ Moved teams: the record in each division they played in */}
+                            {expanded && r.byDivision ? (
+                              <Text style={{ paddingHorizontal: 10, paddingBottom: 10, color: '#555' }}>
+                                Divisions this season:{' '}
+                                {r.byDivision.map((d) => `${d.division} ${d.wins}–${d.losses}`).join(' → ')}
+                                {movePolicy === 'reset'
+                                  ? ` (only ${section.division} games count here)`
+                                  : ' (record carried over)'}
+                              </Text>
+                            ) : null}
+                          </Pressable>
+                        );
+                      })}
                     </View>
                   </View>
                 </ScrollView>
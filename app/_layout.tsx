@@ -1,4 +1,3 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Device from 'expo-device';
 import * as Notifications from 'expo-notifications';
 import { Stack, useRouter, useSegments } from 'expo-router';
@@ -6,9 +5,11 @@ import { useEffect, useState } from 'react';
 import { Platform } from 'react-native';
 import { SafeAreaProvider, SafeAreaView } from 'react-native-safe-area-context';
 
-const LEAGUE_UNLOCK_KEY = 'ppl_league_unlocked';
-const TEAM_KEY = 'ppl_selected_team';
-const PUSH_TOKEN_KEY = 'ppl_expo_push_token';
+import { getAuthState } from '@/constants/auth';
+import { loadDivisions } from '@/constants/divisions';
+import { loadIdentity } from '@/constants/identity';
+import { registerPushToken } from '@/constants/push';
+import { loadActiveSeason } from '@/constants/seasons';
 
 export default function RootLayout() {
   const router = useRouter();
@@ -59,7 +60,8 @@ export default function RootLayout() {
         }
 
         const tokenData = await Notifications.getExpoPushTokenAsync();
-        await AsyncStorage.setItem(PUSH_TOKEN_KEY, tokenData.data);
+        // ✅ Registered in Supabase so league notifications reach this device
+        await registerPushToken(tokenData.data);
       } catch {
         // Silent fail — NEVER block app or review
       }
@@ -68,11 +70,16 @@ export default function RootLayout() {
     registerForPushNotifications();
   }, []);
 
-  // 🔐 Gate logic (UNCHANGED)
+  // 🔐 Gate logic: signed in with any league role (checked server-side via user_roles)
   useEffect(() => {
     const checkGates = async () => {
-      const leagueUnlocked = await AsyncStorage.getItem(LEAGUE_UNLOCK_KEY);
-      const team = await AsyncStorage.getItem(TEAM_KEY);
+      // ✅ Every screen reads/writes the active season by default — resolve it before any renders
+      await loadActiveSeason();
+      await loadDivisions();
+
+      const auth = await getAuthState();
+      const leagueUnlocked = !!auth.session && auth.roles.length > 0;
+      const identity = await loadIdentity();
 
       const current = '/' + segments.join('/');
 
@@ -89,7 +96,7 @@ export default function RootLayout() {
       }
 
       // 🚫 Team gate (after league unlock)
-      if (leagueUnlocked && !team && current !== '/team') {
+      if (leagueUnlocked && !identity && current !== '/team') {
         router.replace('/team');
         return;
       }
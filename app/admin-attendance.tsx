@@ -1,77 +1,45 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useRouter } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { Alert, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
-
-import { supabaseHeaders, supabaseRestUrl } from '@/constants/supabase';
-
-type Division = 'Beginner' | 'Intermediate' | 'Advanced';
+import { ActivityIndicator, Alert, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import {
+  divisionColor,
+  divisionOrder,
+  emptyByDivision,
+  fetchAttendanceForWeek,
+  fetchRsvpCutoffs,
+  fetchRsvpsForWeek,
+  fetchTeamsByDivision,
+  sortDivisions,
+  upsertAttendance,
+  upsertRsvpCutoff,
+  type AttendanceSource,
+  type Division,
+  type Rsvp,
+  type RsvpCutoff,
+  type Team,
+} from '@/constants/leagueData';
+import { findRosterTeam, loadRoster, splitTeamName, type Roster } from '@/constants/roster';
+import {
+  RSVP_LABELS,
+  formatCutoffInput,
+  isFlagged,
+  parseCutoffInput,
+  summarizeTeamRsvps,
+  syncTeamAttendance,
+  type TeamRsvpSummary,
+} from '@/constants/rsvp';
+import { baselineTeamsFor } from '@/constants/seasons';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
+import { useRoleGuard } from '@/hooks/use-role-guard';
 
 type DivisionGroup = { division: Division; teams: string[] };
 type AttendanceMap = Record<string, boolean>; // true = present (green), false = out (red)
+type SourceMap = Record<string, AttendanceSource>; // teams without a row yet are missing
 
 const STORAGE_KEY_CURRENT_WEEK = 'ppl_current_week';
 
-// ✅ Baseline teams (same as Schedule Builder)
-const TEAMS_BY_DIVISION: Record<Division, string[]> = {
-  Advanced: [
-    'Ishai/Greg',
-    'Adam/Jon',
-    'Bradley/Ben',
-    'Peter/Ray',
-    'Andrew/Brent',
-    'Mark D/Craig',
-    'Alex/Anibal',
-    'Radek/Alexi',
-    'Ricky/John',
-    'Brandon/Ikewa',
-    'Andrew/Dan',
-    'Eric/Meir',
-    'David/Guy',
-    'Mark P/Matt O',
-  ],
-  Intermediate: [
-    'Ashley/Julie',
-    'Stephanie/Misty',
-    'Eric/Sunil',
-    'Dan/Relu',
-    'Domencio/Keith',
-    'YG/Haaris',
-    'Nicole/Joshua',
-    'Amy/Nik',
-    'Elaine/Valerie',
-    'Marat/Marta',
-    'Beatriz/Joe',
-    'Alejandro/William',
-  ],
-  Beginner: [
-    'Eric/Tracy',
-    'Rachel/Jaime',
-    'Amy/Ellen',
-    'Lashonda/Lynette',
-    'Michael/JP',
-    'Fran/Scott',
-    'Robert/Adam',
-    'Cynthia/Maureen',
-    'Marina/Sharon',
-  ],
-};
-
-type SupabaseTeamRow = {
-  id: string;
-  created_at: string;
-  division: string;
-  name: string;
-};
-
-type AttendanceRow = {
-  id: string;
-  week: number;
-  team: string;
-  present: boolean;
-  updated_at: string;
-};
-
 function safeInt(value: string, fallback: number) {
   const n = parseInt(value, 10);
   return Number.isFinite(n) ? n : fallback;
@@ -85,75 +53,8 @@ function uniqSorted(list: string[]) {
     .sort((a, b) => a.localeCompare(b));
 }
 
-function isDivision(v: any): v is Division {
-  return v === 'Beginner' || v === 'Intermediate' || v === 'Advanced';
-}
-
-async function fetchTeamsFromSupabase(): Promise<Record<Division, SupabaseTeamRow[]>> {
-  const url = supabaseRestUrl('teams?select=id,created_at,division,name&order=created_at.asc');
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase SELECT failed: ${res.status} ${txt}`);
-  }
-
-  const rows = (await res.json()) as SupabaseTeamRow[];
-
-  const grouped: Record<Division, SupabaseTeamRow[]> = {
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  };
-
-  for (const r of rows) {
-    if (isDivision(r.division)) grouped[r.division].push(r);
-  }
-
-  return grouped;
-}
-
-async function fetchAttendanceForWeek(week: number): Promise<AttendanceRow[]> {
-  const url = supabaseRestUrl(
-    `attendance?select=id,week,team,present,updated_at&week=eq.${week}&order=team.asc`
-  );
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Attendance SELECT failed: ${res.status} ${txt}`);
-  }
-
-  return (await res.json()) as AttendanceRow[];
-}
-
-async function upsertAttendanceRow(week: number, team: string, present: boolean) {
-  // Use PostgREST upsert on unique(week, team)
-  const url = supabaseRestUrl('attendance?on_conflict=week,team');
-
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: supabaseHeaders({
-      Prefer: 'resolution=merge-duplicates,return=representation',
-    }),
-    body: JSON.stringify([{ week, team, present }]),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Attendance UPSERT failed: ${res.status} ${txt}`);
-  }
-}
-
 export default function AdminAttendanceScreen() {
+  const allowed = useRoleGuard('league_admin');
   const router = useRouter();
 
   // Week (attendance is week-specific)
@@ -161,46 +62,41 @@ export default function AdminAttendanceScreen() {
   const weekNum = safeInt(week, 0);
 
   // ✅ Teams from Supabase (for newly added teams)
-  const [dbTeams, setDbTeams] = useState<Record<Division, SupabaseTeamRow[]>>({
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  });
+  const [dbTeams, setDbTeams] = useState<Record<Division, Team[]>>(() => emptyByDivision<Team[]>(() => []));
 
   const loadTeamsFromSupabase = async () => {
     try {
-      const grouped = await fetchTeamsFromSupabase();
+      const grouped = await fetchTeamsByDivision();
       setDbTeams(grouped);
     } catch {
       // still show baseline teams
-      setDbTeams({ Advanced: [], Intermediate: [], Beginner: [] });
+      setDbTeams(emptyByDivision<Team[]>(() => []));
     }
   };
 
   const dbTeamNamesByDivision = useMemo(() => {
-    return {
-      Advanced: uniqSorted((dbTeams.Advanced ?? []).map((r) => r.name)),
-      Intermediate: uniqSorted((dbTeams.Intermediate ?? []).map((r) => r.name)),
-      Beginner: uniqSorted((dbTeams.Beginner ?? []).map((r) => r.name)),
-    };
+    const out: Record<Division, string[]> = {};
+    for (const [division, list] of Object.entries(dbTeams)) out[division] = uniqSorted(list.map((r) => r.name));
+    return out;
   }, [dbTeams]);
 
-  // ✅ Division groups: baseline + Supabase teams
+  // Attendance rows reference the team id when the team has a Supabase record
+  const teamIdByName = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const list of Object.values(dbTeams)) for (const t of list) map.set(t.name, t.id);
+    return map;
+  }, [dbTeams]);
+
+  // ✅ Division groups: baseline + Supabase teams, in the league's division order
   const divisions: DivisionGroup[] = useMemo(() => {
-    return [
-      {
-        division: 'Beginner',
-        teams: uniqSorted([...TEAMS_BY_DIVISION.Beginner, ...dbTeamNamesByDivision.Beginner]),
-      },
-      {
-        division: 'Intermediate',
-        teams: uniqSorted([...TEAMS_BY_DIVISION.Intermediate, ...dbTeamNamesByDivision.Intermediate]),
-      },
-      {
-        division: 'Advanced',
-        teams: uniqSorted([...TEAMS_BY_DIVISION.Advanced, ...dbTeamNamesByDivision.Advanced]),
-      },
-    ];
+    const baseline = baselineTeamsFor();
+    const names = sortDivisions([...divisionOrder(), ...Object.keys(baseline), ...Object.keys(dbTeamNamesByDivision)]);
+    return names
+      .map((division) => ({
+        division,
+        teams: uniqSorted([...(baseline[division] ?? []), ...(dbTeamNamesByDivision[division] ?? [])]),
+      }))
+      .filter((g) => g.teams.length > 0 || divisionOrder().includes(g.division));
   }, [dbTeamNamesByDivision]);
 
   const allTeamsFlat = useMemo(() => {
@@ -213,6 +109,13 @@ export default function AdminAttendanceScreen() {
 
   const [loading, setLoading] = useState(true);
   const [attendance, setAttendance] = useState<AttendanceMap>({});
+  const [sources, setSources] = useState<SourceMap>({});
+
+  // ✅ RSVPs: players' answers for the week + the week's cutoff
+  const [rsvps, setRsvps] = useState<Rsvp[]>([]);
+  const [cutoff, setCutoff] = useState<RsvpCutoff | null>(null);
+  const [cutoffText, setCutoffText] = useState('');
+  const [roster, setRoster] = useState<Roster | null>(null);
 
   // ✅ IMPORTANT: Explicit navigation back into the Tabs area
   const goToAdminDashboard = () => {
@@ -231,9 +134,30 @@ export default function AdminAttendanceScreen() {
       }
 
       await loadTeamsFromSupabase();
+
+      try {
+        setRoster(await loadRoster());
+      } catch {
+        // RSVP lists fall back to the names in the team string
+      }
     })();
   }, []);
 
+  const rsvpSummaries = useMemo(() => {
+    const map: Record<string, TeamRsvpSummary> = {};
+    for (const team of allTeamsFlat) {
+      const rosterTeam = roster ? findRosterTeam(roster, team) : null;
+      const players = rosterTeam ? rosterTeam.players.map((p) => p.name) : splitTeamName(team);
+      map[team] = summarizeTeamRsvps(team, players, rsvps);
+    }
+    return map;
+  }, [allTeamsFlat, roster, rsvps]);
+
+  const flaggedTeams = useMemo(
+    () => allTeamsFlat.filter((team) => rsvpSummaries[team] && isFlagged(rsvpSummaries[team], cutoff)),
+    [allTeamsFlat, rsvpSummaries, cutoff]
+  );
+
   const loadAttendance = useCallback(
     async (w: number) => {
       if (w <= 0) return;
@@ -242,10 +166,12 @@ export default function AdminAttendanceScreen() {
         // Pull current week attendance from Supabase
         const rows = await fetchAttendanceForWeek(w);
         const map: AttendanceMap = {};
+        const sourceMap: SourceMap = {};
 
         for (const r of rows) {
           if (typeof r.team === 'string' && r.team.trim().length > 0) {
             map[r.team] = r.present !== false;
+            sourceMap[r.team] = r.source;
           }
         }
 
@@ -255,6 +181,17 @@ export default function AdminAttendanceScreen() {
         }
 
         setAttendance(map);
+        setSources(sourceMap);
+
+        // RSVPs are extra info — attendance still works without them
+        const [weekRsvps, cutoffs] = await Promise.all([
+          fetchRsvpsForWeek(w).catch(() => [] as Rsvp[]),
+          fetchRsvpCutoffs().catch(() => [] as RsvpCutoff[]),
+        ]);
+        const weekCutoff = cutoffs.find((c) => c.week === w) ?? null;
+        setRsvps(weekRsvps);
+        setCutoff(weekCutoff);
+        setCutoffText(weekCutoff ? formatCutoffInput(weekCutoff.cutoffAt) : '');
       } catch (e: any) {
         const msg = String(e?.message || e);
         Alert.alert('Attendance load failed', msg);
@@ -274,6 +211,11 @@ export default function AdminAttendanceScreen() {
     if (weekNum > 0) void loadAttendance(weekNum);
   }, [weekNum, loadAttendance]);
 
+  // ✅ Realtime: players' RSVPs update the chips while this screen is open
+  useLiveRefresh(['rsvps', 'attendance'], () => {
+    if (weekNum > 0) void loadAttendance(weekNum);
+  });
+
   const toggleTeam = async (team: string) => {
     if (weekNum <= 0) {
       Alert.alert('Week required', 'Please enter a valid week number first.');
@@ -287,7 +229,7 @@ export default function AdminAttendanceScreen() {
     setAttendance((prev) => ({ ...prev, [team]: nextPresent }));
 
     try {
-      await upsertAttendanceRow(weekNum, team, nextPresent);
+      await upsertAttendance(weekNum, team, nextPresent, teamIdByName.get(team) ?? null);
       // Reload to ensure perfect sync & handle any new teams/rows
       await loadAttendance(weekNum);
     } catch (e: any) {
@@ -297,6 +239,36 @@ export default function AdminAttendanceScreen() {
     }
   };
 
+  // Drops the admin override: the team's attendance follows its RSVPs again
+  const followRsvpsForTeam = async (team: string) => {
+    try {
+      await syncTeamAttendance(weekNum, team, teamIdByName.get(team) ?? null, true);
+      await loadAttendance(weekNum);
+    } catch (e: any) {
+      Alert.alert('Save failed', String(e?.message || e));
+    }
+  };
+
+  const saveCutoff = async () => {
+    if (weekNum <= 0) {
+      Alert.alert('Week required', 'Please enter a valid week number first.');
+      return;
+    }
+    const iso = parseCutoffInput(cutoffText);
+    if (!iso) {
+      Alert.alert('Cutoff', 'Enter the cutoff as YYYY-MM-DD HH:MM (e.g. 2026-10-20 17:00).');
+      return;
+    }
+
+    try {
+      await upsertRsvpCutoff(weekNum, iso);
+      await loadAttendance(weekNum);
+      Alert.alert('Saved', `Week ${weekNum} is open for RSVPs until ${new Date(iso).toLocaleString()}.`);
+    } catch (e: any) {
+      Alert.alert('Save failed', String(e?.message || e));
+    }
+  };
+
   const markAllPresent = async () => {
     if (weekNum <= 0) {
       Alert.alert('Week required', 'Please enter a valid week number first.');
@@ -308,7 +280,7 @@ export default function AdminAttendanceScreen() {
 
       // Upsert present=true for every team
       for (const team of allTeamsFlat) {
-        await upsertAttendanceRow(weekNum, team, true);
+        await upsertAttendance(weekNum, team, true, teamIdByName.get(team) ?? null);
       }
 
       await loadAttendance(weekNum);
@@ -320,6 +292,14 @@ export default function AdminAttendanceScreen() {
     }
   };
 
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
   return (
     <View style={{ flex: 1, padding: 24 }}>
       <Pressable
@@ -339,7 +319,9 @@ export default function AdminAttendanceScreen() {
 
       <Text style={{ fontSize: 24, fontWeight: 'bold', marginBottom: 8 }}>Attendance</Text>
 
-      <Text style={{ marginBottom: 8 }}>GREEN = present • RED = out</Text>
+      <Text style={{ marginBottom: 8 }}>
+        GREEN = present • RED = out • Teams follow their players&apos; RSVPs until you tap them (admin override)
+      </Text>
 
       <Text style={{ fontWeight: '900', marginBottom: 6, fontSize: 16 }}>
         YOU ARE CURRENTLY MARKING ATTENDANCE FOR WEEK #
@@ -374,28 +356,78 @@ export default function AdminAttendanceScreen() {
         <Text style={{ color: 'white', fontWeight: '700' }}>Mark All Present</Text>
       </Pressable>
 
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>RSVP cutoff for Week {weekNum > 0 ? weekNum : '—'}</Text>
+      <View style={{ flexDirection: 'row', gap: 10, marginBottom: 8, maxWidth: 420 }}>
+        <TextInput
+          value={cutoffText}
+          onChangeText={setCutoffText}
+          placeholder="YYYY-MM-DD HH:MM"
+          autoCapitalize="none"
+          autoCorrect={false}
+          style={{ flex: 1, borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 10 }}
+        />
+        <Pressable
+          onPress={saveCutoff}
+          style={{ backgroundColor: '#111', paddingHorizontal: 14, borderRadius: 10, justifyContent: 'center' }}
+        >
+          <Text style={{ color: 'white', fontWeight: '700' }}>{cutoff ? 'Update' : 'Open RSVPs'}</Text>
+        </Pressable>
+      </View>
+      {flaggedTeams.length > 0 ? (
+        <Text style={{ color: '#b3261e', fontWeight: '900', marginBottom: 12 }}>
+          ⚠️ No answer after the cutoff: {flaggedTeams.join(', ')}
+        </Text>
+      ) : (
+        <View style={{ height: 8 }} />
+      )}
+
       {loading ? (
         <Text>Loading…</Text>
       ) : (
         <ScrollView>
           {divisions.map((div) => (
             <View key={div.division} style={{ marginBottom: 18 }}>
-              <Text style={{ fontWeight: '900', marginBottom: 8 }}>{div.division}</Text>
+              <Text style={{ fontWeight: '900', marginBottom: 8, color: divisionColor(div.division) }}>{div.division}</Text>
               <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 10 }}>
                 {div.teams.map((team) => {
                   const isPresent = attendance[team] !== false;
+                  const summary = rsvpSummaries[team];
+                  const overridden = sources[team] === 'admin';
+                  const flagged = summary ? isFlagged(summary, cutoff) : false;
                   return (
-                    <Pressable
-                      key={team}
-                      onPress={() => toggleTeam(team)}
-                      style={{
-                        backgroundColor: isPresent ? '#1f8a3b' : '#b3261e',
-                        padding: 10,
-                        borderRadius: 10,
-                      }}
-                    >
-                      <Text style={{ color: 'white', fontWeight: '800' }}>{team}</Text>
-                    </Pressable>
+                    <View key={team} style={{ maxWidth: 220 }}>
+                      <Pressable
+                        onPress={() => toggleTeam(team)}
+                        style={{
+                          backgroundColor: isPresent ? '#1f8a3b' : '#b3261e',
+                          padding: 10,
+                          borderRadius: 10,
+                          borderWidth: flagged ? 3 : 0,
+                          borderColor: '#f9a825',
+                        }}
+                      >
+                        <Text style={{ color: 'white', fontWeight: '800' }}>
+                          {flagged ? '⚠️ ' : ''}
+                          {team}
+                        </Text>
+                      </Pressable>
+
+                      {summary && summary.answers.length > 0 ? (
+                        <Text style={{ color: '#444', fontSize: 12, marginTop: 2 }}>
+                          {summary.answers
+                            .map((a) => `${a.playerName}: ${a.status ? RSVP_LABELS[a.status] : '—'}`)
+                            .join(' • ')}
+                        </Text>
+                      ) : null}
+
+                      {overridden ? (
+                        <Pressable onPress={() => followRsvpsForTeam(team)}>
+                          <Text style={{ color: '#1565c0', fontSize: 12, fontWeight: '800' }}>
+                            Set by admin • Use RSVPs
+                          </Text>
+                        </Pressable>
+                      ) : null}
+                    </View>
                   );
                 })}
               </View>
@@ -1,44 +1,36 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
-import { Alert, Pressable, Text, TextInput, View } from 'react-native';
+import { Pressable, Text, View } from 'react-native';
 
-const LEAGUE_UNLOCK_KEY = 'ppl_league_unlocked';
-const LEAGUE_CODE = 'PPL2026';
+import { EmailSignIn } from '@/components/email-sign-in';
+import { getAuthState, signOut, type AuthState } from '@/constants/auth';
 
 export default function LeagueLockScreen() {
   const router = useRouter();
-  const [code, setCode] = useState('');
+  const [auth, setAuth] = useState<AuthState>({ session: null, roles: [] });
+
+  const route = (state: AuthState) => {
+    setAuth(state);
+    // ✅ Any league role (player and up) gets into the app
+    if (state.session && state.roles.length > 0) {
+      router.replace('/');
+    }
+  };
 
   useEffect(() => {
     const check = async () => {
-      const unlocked = await AsyncStorage.getItem(LEAGUE_UNLOCK_KEY);
-      if (unlocked === 'true') {
+      const state = await getAuthState();
+      setAuth(state);
+      if (state.session && state.roles.length > 0) {
         router.replace('/');
       }
     };
     void check();
   }, [router]);
 
-  const unlockAndEnter = async () => {
-    await AsyncStorage.setItem(LEAGUE_UNLOCK_KEY, 'true');
-    router.replace('/');
-  };
-
-  const onUnlock = async () => {
-    const cleaned = (code || '').trim();
-
-    if (!cleaned) {
-      Alert.alert('Enter code', 'Please enter the league access code.');
-      return;
-    }
-
-    if (cleaned !== LEAGUE_CODE) {
-      Alert.alert('Wrong code', 'That code is not correct.');
-      return;
-    }
-
-    await unlockAndEnter();
+  const onSignOut = async () => {
+    await signOut();
+    setAuth({ session: null, roles: [] });
   };
 
   return (
@@ -47,47 +39,36 @@ export default function LeagueLockScreen() {
         Parkland Pickleball League
       </Text>
 
-      <Text style={{ color: '#333', marginBottom: 18, fontWeight: '600' }}>
-        Enter the league access code to continue.
-      </Text>
-
-      <Text style={{ color: '#666', marginBottom: 10 }}>
-        Or enter the league access code:
-      </Text>
-
-      <TextInput
-        value={code}
-        onChangeText={setCode}
-        placeholder="League access code"
-        autoCapitalize="characters"
-        autoCorrect={false}
-        style={{
-          borderWidth: 2,
-          borderColor: '#000',
-          borderRadius: 12,
-          paddingHorizontal: 14,
-          paddingVertical: 12,
-          fontSize: 16,
-          marginBottom: 14,
-        }}
-      />
+      {auth.session ? (
+        <>
+          <Text style={{ color: '#333', marginBottom: 18, fontWeight: '600' }}>
+            {auth.session.email} is not on the league roster yet.
+          </Text>
 
-      <Pressable
-        onPress={onUnlock}
-        style={{
-          backgroundColor: 'black',
-          paddingVertical: 14,
-          borderRadius: 12,
-          alignItems: 'center',
-        }}
-      >
-        <Text style={{ color: 'white', fontWeight: '900', fontSize: 16 }}>
-          Unlock
-        </Text>
-      </Pressable>
+          <Pressable
+            onPress={onSignOut}
+            style={{
+              backgroundColor: 'black',
+              paddingVertical: 14,
+              borderRadius: 12,
+              alignItems: 'center',
+            }}
+          >
+            <Text style={{ color: 'white', fontWeight: '900', fontSize: 16 }}>
+              Use a Different Email
+            </Text>
+          </Pressable>
+        </>
+      ) : (
+        <EmailSignIn
+          title="Sign In"
+          subtitle="Enter your email and we'll send you a sign-in code."
+          onSignedIn={route}
+        />
+      )}
 
       <Text style={{ marginTop: 14, color: '#666' }}>
-        If you don’t have the code, contact the league admin.
+        If you can’t get in, contact the league admin.
       </Text>
     </View>
   );
@@ -0,0 +1,302 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Platform, Pressable, ScrollView, Text, TextInput, View } from 'react-native';
+
+import { shareTextFile } from '@/constants/fileExport';
+import { formatLeagueNight, weekDate } from '@/constants/leagueCalendar';
+import {
+  DEFAULT_LEAGUE_NIGHT_CONFIG,
+  fetchLeagueNightConfig,
+  resolveLeagueNight,
+  type LeagueNightConfig,
+} from '@/constants/leagueNights';
+import {
+  applyDivisionMoves,
+  fetchAttendanceForWeek,
+  fetchDivisionMoves,
+  fetchMatches,
+  fetchSeasonSettings,
+  getActiveSeasonId,
+  type Attendance,
+  type Division,
+  type DivisionMove,
+  type SavedMatch,
+} from '@/constants/leagueData';
+import {
+  PRINT_PAPERS,
+  buildPrintSheetsHtml,
+  courtSheetsForWeek,
+  signInSheets,
+  type PrintPaper,
+} from '@/constants/printSheets';
+import { findRosterTeam, loadRoster, splitTeamName, type Roster } from '@/constants/roster';
+import { listSeasons } from '@/constants/seasons';
+import { useRoleGuard } from '@/hooks/use-role-guard';
+
+// Same device-local week as Admin Attendance
+const STORAGE_KEY_CURRENT_WEEK = 'ppl_current_week';
+
+// Empty sign-in lines per division for subs / walk-ins
+const BLANK_SUB_ROWS = 3;
+
+function safeInt(value: string, fallback: number) {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+// Web: the sheets open in their own tab (no app chrome) and the print dialog comes up.
+// Returns false when the browser blocked the new tab.
+function openPrintWindow(html: string): boolean {
+  const w = window.open('', '_blank');
+  if (!w) return false;
+  w.document.open();
+  w.document.write(html);
+  w.document.close();
+  w.focus();
+  // Give the new tab a moment to lay out before the print dialog snapshots it
+  setTimeout(() => w.print(), 300);
+  return true;
+}
+
+export default function PrintSheetsScreen() {
+  const allowed = useRoleGuard('league_admin');
+  const router = useRouter();
+
+  const [week, setWeek] = useState('1');
+  const weekNum = safeInt(week, 0);
+  const [paper, setPaper] = useState<PrintPaper>('letter');
+  const [includeCourts, setIncludeCourts] = useState(true);
+  const [includeSignIn, setIncludeSignIn] = useState(true);
+
+  const [matches, setMatches] = useState<SavedMatch[]>([]);
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [moves, setMoves] = useState<DivisionMove[]>([]);
+  const [attendance, setAttendance] = useState<Attendance[]>([]);
+  const [week1Date, setWeek1Date] = useState<string | null>(null);
+  const [seasonName, setSeasonName] = useState('');
+  const [nightConfig, setNightConfig] = useState<LeagueNightConfig>(DEFAULT_LEAGUE_NIGHT_CONFIG);
+
+  const [loading, setLoading] = useState(true);
+  const [statusMsg, setStatusMsg] = useState('');
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const goToAdminDashboard = () => {
+    router.replace('/admin' as any);
+  };
+
+  // Season-wide data once; the week picker only reloads attendance
+  useEffect(() => {
+    (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY_CURRENT_WEEK);
+        const storedWeek = stored ? safeInt(stored, 0) : 0;
+        if (storedWeek > 0) setWeek(String(storedWeek));
+
+        const [list, r, m, settings, seasons, nights] = await Promise.all([
+          fetchMatches(),
+          loadRoster(),
+          fetchDivisionMoves(),
+          fetchSeasonSettings(getActiveSeasonId()).catch(() => null),
+          listSeasons().catch(() => []),
+          fetchLeagueNightConfig(),
+        ]);
+        setMatches(list);
+        setRoster(r);
+        setMoves(m);
+        setWeek1Date(settings?.week1Date ?? null);
+        setNightConfig(nights);
+        setSeasonName(seasons.find((s) => s.id === getActiveSeasonId())?.name ?? getActiveSeasonId());
+      } catch (e: any) {
+        setErrorMsg(e?.message || 'Failed to load the schedule from Supabase.');
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const loadAttendance = useCallback(async (w: number) => {
+    if (w <= 0) {
+      setAttendance([]);
+      return;
+    }
+    try {
+      setAttendance(await fetchAttendanceForWeek(w));
+    } catch {
+      // Sign-in sheets still print — every team shows as "not marked"
+      setAttendance([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadAttendance(weekNum);
+  }, [weekNum, loadAttendance]);
+
+  const night = useMemo(() => resolveLeagueNight(nightConfig, weekNum), [nightConfig, weekNum]);
+  const courts = useMemo(() => courtSheetsForWeek(matches, night), [matches, night]);
+
+  const signIn = useMemo(() => {
+    if (!roster || weekNum <= 0) return [];
+    const base = {} as Record<Division, string[]>;
+    for (const [d, teams] of Object.entries(roster.teamsByDivision)) base[d] = teams.map((t) => t.name);
+
+    // Division moves decide which sheet a team signs in on this week
+    const teamsByDivision = applyDivisionMoves(base, moves, weekNum);
+    const playersFor = (team: string) => {
+      const rosterTeam = findRosterTeam(roster, team);
+      return rosterTeam ? rosterTeam.players.map((p) => p.name) : splitTeamName(team);
+    };
+    return signInSheets(teamsByDivision, playersFor, attendance);
+  }, [roster, moves, attendance, weekNum]);
+
+  const outCount = signIn.reduce((n, s) => n + s.teams.filter((t) => t.status === 'out').length, 0);
+  const pageCount = (includeCourts ? courts.length : 0) + (includeSignIn ? signIn.length : 0);
+
+  const onPrint = async () => {
+    setStatusMsg('');
+    setErrorMsg('');
+
+    if (pageCount === 0) {
+      setErrorMsg(`Nothing to print for Week ${weekNum}.`);
+      return;
+    }
+
+    const date = weekDate(week1Date, weekNum);
+    const html = buildPrintSheetsHtml({
+      week: weekNum,
+      seasonName,
+      leagueNight: date ? formatLeagueNight(date) : null,
+      venue: night.venue.name,
+      nightNote: night.note,
+      paper,
+      courts: includeCourts ? courts : [],
+      signIn: includeSignIn ? signIn : [],
+      blankSubRows: BLANK_SUB_ROWS,
+    });
+
+    try {
+      if (Platform.OS === 'web') {
+        if (!openPrintWindow(html)) {
+          setErrorMsg('Your browser blocked the print tab. Allow pop-ups for this site and try again.');
+          return;
+        }
+        setStatusMsg(`✅ Opened ${pageCount} sheet(s) for Week ${weekNum}.`);
+        return;
+      }
+
+      // Phones: hand the page to another app (Files, email, a printer app)
+      await shareTextFile(`ppl-week-${weekNum}-sheets.html`, html, 'text/html;charset=utf-8');
+      setStatusMsg(`✅ ${pageCount} sheet(s) ready. Printing works best from the web app.`);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Could not create the sheets.');
+    }
+  };
+
+  if (!allowed) {
+    return (
+      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <Pressable
+      key={label}
+      onPress={onPress}
+      style={{
+        paddingVertical: 8,
+        paddingHorizontal: 12,
+        borderRadius: 999,
+        borderWidth: 1,
+        borderColor: active ? '#111' : '#ccc',
+        backgroundColor: active ? '#111' : 'white',
+      }}
+    >
+      <Text style={{ fontWeight: '800', color: active ? 'white' : '#111' }}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <ScrollView contentContainerStyle={{ padding: 24, paddingBottom: 40 }}>
+      <Pressable
+        onPress={goToAdminDashboard}
+        style={{
+          backgroundColor: '#111',
+          paddingVertical: 12,
+          paddingHorizontal: 14,
+          borderRadius: 10,
+          alignItems: 'center',
+          marginBottom: 14,
+          maxWidth: 260,
+        }}
+      >
+        <Text style={{ color: 'white', fontWeight: '800' }}>Return to Admin Dashboard</Text>
+      </Pressable>
+
+      <Text style={{ fontSize: 24, fontWeight: 'bold', marginBottom: 8 }}>Print Sheets</Text>
+      <Text style={{ color: '#444', marginBottom: 12 }}>
+        One sheet per court with blank score boxes, plus a sign-in sheet per division from this week&apos;s
+        attendance. Each sheet prints on its own page.
+      </Text>
+
+      {loading ? <Text style={{ color: '#444', fontWeight: '900', marginBottom: 10 }}>Loading…</Text> : null}
+      {statusMsg ? <Text style={{ color: 'green', fontWeight: '900', marginBottom: 10 }}>{statusMsg}</Text> : null}
+      {errorMsg ? <Text style={{ color: 'red', fontWeight: '900', marginBottom: 10 }}>{errorMsg}</Text> : null}
+
+      <Text style={{ fontWeight: '800', marginBottom: 6 }}>Week</Text>
+      <TextInput
+        value={week}
+        onChangeText={setWeek}
+        keyboardType="number-pad"
+        style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, padding: 12, marginBottom: 14, maxWidth: 120 }}
+      />
+
+      <Text style={{ fontWeight: '800', marginBottom: 6 }}>Include</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 14 }}>
+        {chip('Court sheets', includeCourts, () => setIncludeCourts((v) => !v))}
+        {chip('Sign-in sheets', includeSignIn, () => setIncludeSignIn((v) => !v))}
+      </View>
+
+      <Text style={{ fontWeight: '800', marginBottom: 6 }}>Paper</Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 14 }}>
+        {PRINT_PAPERS.map((p) => chip(p.label, paper === p.id, () => setPaper(p.id)))}
+      </View>
+
+      <View style={{ borderWidth: 1, borderColor: '#ddd', borderRadius: 12, padding: 12, marginBottom: 14 }}>
+        <Text style={{ fontWeight: '900', marginBottom: 4 }}>
+          Week {weekNum > 0 ? weekNum : '?'} • {night.venue.name}
+        </Text>
+        {includeCourts ? (
+          <Text style={{ color: '#444' }}>
+            {courts.length === 0
+              ? 'No matches scheduled — no court sheets.'
+              : `Court sheets: ${courts.length} (${courts.map((c) => c.name).join(', ')}) • ${courts.reduce((n, c) => n + c.matches.length, 0)} matches`}
+          </Text>
+        ) : null}
+        {includeSignIn ? (
+          <Text style={{ color: '#444' }}>
+            Sign-in sheets: {signIn.map((s) => s.division).join(', ') || 'none'}
+            {outCount > 0 ? ` • ${outCount} team(s) marked OUT are listed at the bottom` : ''}
+          </Text>
+        ) : null}
+      </View>
+
+      <Pressable
+        onPress={() => void onPrint()}
+        disabled={loading || pageCount === 0}
+        style={{
+          backgroundColor: 'black',
+          paddingVertical: 14,
+          borderRadius: 10,
+          alignItems: 'center',
+          opacity: loading || pageCount === 0 ? 0.5 : 1,
+        }}
+      >
+        <Text style={{ color: 'white', fontWeight: '900', fontSize: 16 }}>
+          {Platform.OS === 'web' ? `Print ${pageCount} Sheet(s)` : `Share ${pageCount} Sheet(s)`}
+        </Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
@@ -1,188 +1,64 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useRouter } from 'expo-router';
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Alert, Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
 
-import { supabaseHeaders, supabaseRestUrl } from '@/constants/supabase';
-
-const TEAM_KEY = 'ppl_selected_team';
-const PLAYER_INDEX_KEY = 'ppl_selected_player_index'; // "1" or "2"
-const PLAYER_NAME_KEY = 'ppl_selected_player_name'; // e.g. "Ishai" or "Greg"
-
-type Division = 'Beginner' | 'Intermediate' | 'Advanced';
-
-const BASE_TEAMS: Record<Division, string[]> = {
-  Advanced: [
-    'Ishai/Greg',
-    'Adam/Jon',
-    'Bradley/Ben',
-    'Peter/Ray',
-    'Andrew/Brent',
-    'Mark D/Craig',
-    'Alex/Anibal',
-    'Radek/Alexi',
-    'Ricky/John',
-    'Brandon/Ikewa',
-    'Andrew/Dan',
-    'Eric/Meir',
-    'David/Guy',
-    'Mark P/Matt O',
-  ],
-  Intermediate: [
-    'Ashley/Julie',
-    'Stephanie/Misty',
-    'Eric/Sunil',
-    'Dan/Relu',
-    'Domencio/Keith',
-    'YG/Haaris',
-    'Nicole/Joshua',
-    'Amy/Nik',
-    'Elaine/Valerie',
-    'Marat/Marta',
-    'Beatriz/Joe',
-    'Alejandro/William',
-  ],
-  Beginner: [
-    'Eric/Tracy',
-    'Rachel/Jaime',
-    'Amy/Ellen',
-    'Lashonda/Lynette',
-    'Michael/JP',
-    'Fran/Scott',
-    'Robert/Adam',
-    'Cynthia/Maureen',
-    'Marina/Sharon',
-  ],
-};
-
-type SupabaseTeamRow = {
-  id: string;
-  created_at: string;
-  division: string;
-  name: string;
-};
-
-function isDivision(v: any): v is Division {
-  return v === 'Beginner' || v === 'Intermediate' || v === 'Advanced';
-}
-
-function uniqSorted(list: string[]) {
-  const set = new Set<string>();
-  for (const t of list) set.add((t || '').trim());
-  return Array.from(set)
-    .filter(Boolean)
-    .sort((a, b) => a.localeCompare(b));
-}
-
-async function fetchTeamsFromSupabase(): Promise<Record<Division, string[]>> {
-  const url = supabaseRestUrl('teams?select=division,name&order=created_at.asc');
-
-  const res = await fetch(url, {
-    method: 'GET',
-    headers: supabaseHeaders(),
-  });
-
-  if (!res.ok) {
-    const txt = await res.text().catch(() => '');
-    throw new Error(`Supabase teams SELECT failed: ${res.status} ${txt}`);
+import { saveIdentity } from '@/constants/identity';
+import { syncPushRegistration } from '@/constants/push';
+import { divisionColor, findDivision, sortDivisions, type Division } from '@/constants/leagueData';
+import { loadRoster, splitTeamName, type RosterPlayer, type RosterTeam } from '@/constants/roster';
+import { baselineTeamsFor } from '@/constants/seasons';
+
+// Offline fallback: baseline teams with players taken from the team name
+function baselineRoster(): Record<Division, RosterTeam[]> {
+  const base = baselineTeamsFor();
+  const out: Record<Division, RosterTeam[]> = {};
+  for (const division of Object.keys(base)) {
+    out[division] = [...base[division]].sort((a, b) => a.localeCompare(b)).map((name) => ({
+      id: null,
+      division,
+      name,
+      players: splitTeamName(name).map((p) => ({ id: null, name: p, membershipId: null })),
+      history: [],
+    }));
   }
-
-  const rows = (await res.json()) as SupabaseTeamRow[];
-
-  const grouped: Record<Division, string[]> = {
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  };
-
-  for (const r of rows) {
-    if (isDivision(r.division)) grouped[r.division].push(String(r.name || '').trim());
-  }
-
-  return {
-    Advanced: uniqSorted(grouped.Advanced),
-    Intermediate: uniqSorted(grouped.Intermediate),
-    Beginner: uniqSorted(grouped.Beginner),
-  };
+  return out;
 }
 
 export default function TeamSelectScreen() {
   const router = useRouter();
 
-  const [pendingTeam, setPendingTeam] = useState<string | null>(null);
+  const [pendingTeam, setPendingTeam] = useState<RosterTeam | null>(null);
 
-  // ✅ Supabase team names (may contain only “newly added” teams)
-  const [dbTeams, setDbTeams] = useState<Record<Division, string[]>>({
-    Advanced: [],
-    Intermediate: [],
-    Beginner: [],
-  });
+  // ✅ Baseline + Supabase teams, each with its player records
+  const [teamsByDivision, setTeamsByDivision] = useState<Record<Division, RosterTeam[]>>(baselineRoster);
 
   useEffect(() => {
     (async () => {
       try {
-        const grouped = await fetchTeamsFromSupabase();
-        setDbTeams(grouped);
+        const roster = await loadRoster();
+        setTeamsByDivision(roster.teamsByDivision);
       } catch {
         // If Supabase fails, we still show baseline teams (no crash)
-        setDbTeams({ Advanced: [], Intermediate: [], Beginner: [] });
       }
     })();
   }, []);
 
-  // ✅ FINAL teams = baseline + supabase
-  const teamsByDivision = useMemo(() => {
-    return {
-      Advanced: uniqSorted([...(BASE_TEAMS.Advanced ?? []), ...(dbTeams.Advanced ?? [])]),
-      Intermediate: uniqSorted([...(BASE_TEAMS.Intermediate ?? []), ...(dbTeams.Intermediate ?? [])]),
-      Beginner: uniqSorted([...(BASE_TEAMS.Beginner ?? []), ...(dbTeams.Beginner ?? [])]),
-    };
-  }, [dbTeams]);
-
-  const pendingPlayers = useMemo(() => {
-    if (!pendingTeam) return null;
-
-    const parts = pendingTeam.split('/').map((s) => s.trim()).filter(Boolean);
-    if (parts.length >= 2) return { p1: parts[0], p2: parts[1] };
-
-    return { p1: pendingTeam, p2: '' };
-  }, [pendingTeam]);
-
-  const beginChooseTeam = (team: string) => setPendingTeam(team);
+  const beginChooseTeam = (team: RosterTeam) => setPendingTeam(team);
 
   const goIntoApp = () => {
     router.replace('/');
   };
 
-  const saveSelection = async (team: string, playerIndex: '1' | '2', playerName: string) => {
+  const choosePlayer = async (team: RosterTeam, player: RosterPlayer) => {
     try {
-      await AsyncStorage.setItem(TEAM_KEY, team);
-      await AsyncStorage.setItem(PLAYER_INDEX_KEY, playerIndex);
-      await AsyncStorage.setItem(PLAYER_NAME_KEY, playerName);
-
+      await saveIdentity({ team: team.name, teamId: team.id, playerName: player.name, playerId: player.id });
+      void syncPushRegistration();
       goIntoApp();
     } catch {
       Alert.alert('Error', 'Could not save your team choice. Please try again.');
     }
   };
 
-  const choosePlayer1 = () => {
-    if (!pendingTeam || !pendingPlayers) return;
-    const name = pendingPlayers.p1;
-    if (!name) return;
-    void saveSelection(pendingTeam, '1', name);
-  };
-
-  const choosePlayer2 = () => {
-    if (!pendingTeam || !pendingPlayers) return;
-    const name = pendingPlayers.p2;
-    if (!name) {
-      Alert.alert('Missing name', 'This team name does not have two players listed.');
-      return;
-    }
-    void saveSelection(pendingTeam, '2', name);
-  };
-
   const cancelPlayerPick = () => setPendingTeam(null);
 
   return (
@@ -192,23 +68,25 @@ export default function TeamSelectScreen() {
         You will only be able to enter scores for games your team is playing.
       </Text>
 
-      {pendingTeam && pendingPlayers ? (
+      {pendingTeam ? (
         <View style={styles.pickerBox}>
           <Text style={styles.pickerTitle}>Who are you on this team?</Text>
-          <Text style={styles.pickerTeam}>{pendingTeam}</Text>
+          <Text style={styles.pickerTeam}>{pendingTeam.name}</Text>
 
           <View style={{ flexDirection: 'row', gap: 10, marginTop: 12, flexWrap: 'wrap' }}>
-            <Pressable onPress={choosePlayer1} style={[styles.pickerBtn, { backgroundColor: 'black' }]}>
-              <Text style={[styles.pickerBtnText, { color: 'white' }]}>{pendingPlayers.p1}</Text>
-            </Pressable>
-
-            <Pressable
-              onPress={choosePlayer2}
-              style={[styles.pickerBtn, { backgroundColor: pendingPlayers.p2 ? 'black' : '#999' }]}
-              disabled={!pendingPlayers.p2}
-            >
-              <Text style={[styles.pickerBtnText, { color: 'white' }]}>{pendingPlayers.p2 || 'N/A'}</Text>
-            </Pressable>
+            {pendingTeam.players.map((p) => (
+              <Pressable
+                key={p.id ?? p.name}
+                onPress={() => void choosePlayer(pendingTeam, p)}
+                style={[styles.pickerBtn, { backgroundColor: 'black' }]}
+              >
+                <Text style={[styles.pickerBtnText, { color: 'white' }]}>{p.name}</Text>
+              </Pressable>
+            ))}
+
+            {pendingTeam.players.length === 0 ? (
+              <Text style={{ color: '#666', alignSelf: 'center' }}>No players on this team yet.</Text>
+            ) : null}
 
             <Pressable onPress={cancelPlayerPick} style={[styles.pickerBtn, styles.cancelBtn]}>
               <Text style={[styles.pickerBtnText, { color: 'black' }]}>Cancel</Text>
@@ -217,25 +95,18 @@ export default function TeamSelectScreen() {
         </View>
       ) : null}
 
-      <Text style={styles.division}>Advanced Division</Text>
-      {teamsByDivision.Advanced.map((team) => (
-        <Pressable key={team} style={styles.button} onPress={() => beginChooseTeam(team)}>
-          <Text style={styles.buttonText}>{team}</Text>
-        </Pressable>
-      ))}
-
-      <Text style={styles.division}>Intermediate Division</Text>
-      {teamsByDivision.Intermediate.map((team) => (
-        <Pressable key={team} style={styles.button} onPress={() => beginChooseTeam(team)}>
-          <Text style={styles.buttonText}>{team}</Text>
-        </Pressable>
-      ))}
-
-      <Text style={styles.division}>Beginner Division</Text>
-      {teamsByDivision.Beginner.map((team) => (
-        <Pressable key={team} style={styles.button} onPress={() => beginChooseTeam(team)}>
-          <Text style={styles.buttonText}>{team}</Text>
-        </Pressable>
+      {sortDivisions(Object.keys(teamsByDivision)).map((division) => (
+        <View key={division}>
+          <Text style={[styles.division, { color: divisionColor(division) }]}>
+            {division} Division
+            {findDivision(division)?.skillBand ? ` (${findDivision(division)?.skillBand})` : ''}
+          </Text>
+          {teamsByDivision[division].map((team) => (
+            <Pressable key={team.name} style={styles.button} onPress={() => beginChooseTeam(team)}>
+              <Text style={styles.buttonText}>{team.name}</Text>
+            </Pressable>
+          ))}
+        </View>
       ))}
     </ScrollView>
   );
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Pressable, Text, TextInput, View } from 'react-native';
+
+import { requestSignInCode, verifySignInCode, type AuthState } from '@/constants/auth';
+
+type Props = {
+  title: string;
+  subtitle: string;
+  onSignedIn: (state: AuthState) => void;
+};
+
+// Two steps: email → 6-digit code from the sign-in email (the magic link in the same email works too)
+export function EmailSignIn({ title, subtitle, onSignedIn }: Props) {
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [errorMsg, setErrorMsg] = useState('');
+
+  const onSendCode = async () => {
+    setErrorMsg('');
+    setBusy(true);
+    try {
+      await requestSignInCode(email);
+      setCodeSent(true);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'Could not send the sign-in email.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onVerify = async () => {
+    setErrorMsg('');
+    if (!code.trim()) {
+      setErrorMsg('Enter the code from the email.');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const state = await verifySignInCode(email, code);
+      setCode('');
+      onSignedIn(state);
+    } catch (e: any) {
+      setErrorMsg(e?.message || 'That code did not work. Try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputStyle = {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 10,
+    padding: 14,
+    fontSize: 18,
+    marginBottom: 12,
+  };
+
+  return (
+    <View>
+      <Text style={{ fontSize: 26, fontWeight: '800', marginBottom: 12 }}>{title}</Text>
+
+      <Text style={{ marginBottom: 16 }}>
+        {codeSent ? `We emailed a sign-in code to ${email.trim().toLowerCase()}.` : subtitle}
+      </Text>
+
+      {!codeSent ? (
+        <TextInput
+          value={email}
+          onChangeText={setEmail}
+          placeholder="Email"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoComplete="email"
+          textContentType="emailAddress"
+          style={inputStyle}
+        />
+      ) : (
+        <TextInput
+          value={code}
+          onChangeText={setCode}
+          placeholder="6-digit code"
+          keyboardType="number-pad"
+          autoCorrect={false}
+          autoCapitalize="none"
+          textContentType="oneTimeCode"
+          autoComplete="one-time-code"
+          style={inputStyle}
+        />
+      )}
+
+      {errorMsg ? <Text style={{ color: '#b00020', fontWeight: '800', marginBottom: 12 }}>{errorMsg}</Text> : null}
+
+      <Pressable
+        onPress={codeSent ? onVerify : onSendCode}
+        disabled={busy}
+        style={{
+          backgroundColor: 'black',
+          padding: 14,
+          borderRadius: 10,
+          alignItems: 'center',
+          opacity: busy ? 0.6 : 1,
+        }}
+      >
+        {busy ? (
+          <ActivityIndicator color="white" />
+        ) : (
+          <Text style={{ color: 'white', fontSize: 18, fontWeight: '700' }}>
+            {codeSent ? 'Sign In' : 'Email Me a Code'}
+          </Text>
+        )}
+      </Pressable>
+
+      {codeSent ? (
+        <Pressable
+          onPress={() => {
+            setCodeSent(false);
+            setCode('');
+            setErrorMsg('');
+          }}
+          style={{ marginTop: 14, alignItems: 'center' }}
+        >
+          <Text style={{ color: '#444', fontWeight: '700' }}>Use a different email</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
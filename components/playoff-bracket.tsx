@@ -0,0 +1,128 @@
+import React from 'react';
+import { ScrollView, Text, View } from 'react-native';
+
+import { type PersistedMatchScore } from '@/constants/leagueData';
+import { bracketRounds, type BracketSlot, type ResolvedBracket, type ResolvedGame } from '@/constants/playoffs';
+import { matchTotals } from '@/constants/standings';
+
+type Props = {
+  resolved: ResolvedBracket;
+  color: string; // the division's color
+  courtName?: (week: number, court: number) => string;
+  highlightTeam?: string | null; // e.g. the player's own team
+};
+
+function slotText(slot: BracketSlot) {
+  if (slot.kind === 'team') return slot.team;
+  return slot.kind === 'bye' ? 'Bye' : 'TBD';
+}
+
+// Game wins per side of the bracket game (the match stores the same teams in the same order)
+function gameWins(score: PersistedMatchScore | null) {
+  if (!score) return null;
+  const t = matchTotals(score);
+  return t.gamesPlayed > 0 ? { a: t.aWins, b: t.bWins } : null;
+}
+
+function statusText(r: ResolvedGame, courtName: Props['courtName']) {
+  const g = r.game;
+  const where =
+    g.week && g.time && g.court
+      ? `Wk ${g.week} • ${g.time} • ${courtName ? courtName(g.week, g.court) : `Court ${g.court}`}`
+      : null;
+
+  switch (r.status) {
+    case 'done':
+      return 'Final';
+    case 'bye':
+      return r.winner.kind === 'team' ? 'Advances (bye)' : 'Not needed';
+    case 'tied':
+      return 'Tied — waiting on the league admin';
+    case 'scheduled':
+      return r.score && !r.score.verified ? `${where ?? 'Scheduled'} • score waiting for confirmation` : where;
+    case 'unscheduled':
+      return 'Not scheduled yet';
+    default:
+      return where ?? 'Waiting on earlier games';
+  }
+}
+
+// Visual bracket: one column per round (winners side, then losers side, then the grand final)
+export function PlayoffBracketView({ resolved, color, courtName, highlightTeam }: Props) {
+  const byId = new Map(resolved.games.map((r) => [r.game.id, r]));
+  const rounds = bracketRounds(resolved.bracket);
+
+  const teamRow = (r: ResolvedGame, side: 'a' | 'b') => {
+    const slot = r[side];
+    const wins = gameWins(r.score);
+    const won = r.status === 'done' && r.winner === slot;
+    const lost = r.status === 'done' && r.loser === slot;
+    const mine = slot.kind === 'team' && !!highlightTeam && slot.team === highlightTeam;
+
+    return (
+      <View
+        style={{
+          flexDirection: 'row',
+          alignItems: 'center',
+          gap: 6,
+          paddingVertical: 6,
+          paddingHorizontal: 8,
+          backgroundColor: mine ? '#fff7d6' : 'white',
+        }}
+      >
+        <Text style={{ width: 22, color: '#777', fontWeight: '800', fontSize: 12 }}>
+          {slot.kind === 'team' ? slot.seed : ''}
+        </Text>
+        <Text
+          numberOfLines={1}
+          style={{
+            flex: 1,
+            fontWeight: won ? '900' : '700',
+            color: slot.kind === 'team' ? (lost ? '#888' : '#111') : '#aaa',
+          }}
+        >
+          {slotText(slot)}
+        </Text>
+        {wins ? <Text style={{ fontWeight: '900', color: won ? color : '#666' }}>{wins[side]}</Text> : null}
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView horizontal contentContainerStyle={{ gap: 12, paddingBottom: 8 }}>
+      {rounds.map((round) => (
+        <View key={round.key} style={{ width: 220 }}>
+          <Text style={{ fontWeight: '900', color, marginBottom: 8 }}>{round.label}</Text>
+          <View style={{ gap: 10, flex: 1, justifyContent: 'space-around' }}>
+            {round.games.map((game) => {
+              const r = byId.get(game.id);
+              if (!r) return null;
+              const note = statusText(r, courtName);
+              return (
+                <View
+                  key={game.id}
+                  style={{
+                    borderWidth: 1,
+                    borderColor: r.status === 'done' ? color : '#ddd',
+                    borderRadius: 10,
+                    overflow: 'hidden',
+                    opacity: r.status === 'bye' ? 0.6 : 1,
+                  }}
+                >
+                  {teamRow(r, 'a')}
+                  <View style={{ height: 1, backgroundColor: '#eee' }} />
+                  {teamRow(r, 'b')}
+                  {note ? (
+                    <Text style={{ fontSize: 11, color: '#666', paddingHorizontal: 8, paddingBottom: 6, paddingTop: 2 }}>
+                      {note}
+                    </Text>
+                  ) : null}
+                </View>
+              );
+            })}
+          </View>
+        </View>
+      ))}
+    </ScrollView>
+  );
+}
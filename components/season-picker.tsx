@@ -0,0 +1,56 @@
+import { Picker } from '@react-native-picker/picker';
+import React, { useEffect, useState } from 'react';
+import { Text, View } from 'react-native';
+
+import { getActiveSeasonId, type Season } from '@/constants/leagueData';
+import { listSeasons } from '@/constants/seasons';
+
+type Props = {
+  value: string;
+  onChange: (seasonId: string) => void;
+};
+
+// Season switcher for browsing past seasons; anything but the active season is read-only
+export function SeasonPicker({ value, onChange }: Props) {
+  const [seasons, setSeasons] = useState<Season[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    listSeasons()
+      .then((list) => {
+        if (active) setSeasons(list);
+      })
+      .catch(() => {
+        // offline: only the active season is shown
+      });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  const activeId = getActiveSeasonId();
+  const options = seasons.length > 0 ? seasons : [{ id: activeId, name: activeId, status: 'active', startedAt: null }];
+  const archived = value !== activeId;
+
+  // Nothing to switch between yet
+  if (options.length <= 1 && !archived) return null;
+
+  return (
+    <View style={{ marginBottom: 12 }}>
+      <Text style={{ fontWeight: '900', marginBottom: 6 }}>Season</Text>
+      <View style={{ borderWidth: 1, borderColor: '#ccc', borderRadius: 10, overflow: 'hidden', backgroundColor: 'white' }}>
+        <Picker selectedValue={value} onValueChange={(v) => onChange(String(v))}>
+          {options.map((s) => (
+            <Picker.Item key={s.id} label={s.id === activeId ? `${s.name} (current)` : `${s.name} (archive)`} value={s.id} />
+          ))}
+        </Picker>
+      </View>
+
+      {archived ? (
+        <Text style={{ marginTop: 6, color: '#b26a00', fontWeight: '900' }}>
+          Archived season — read-only.
+        </Text>
+      ) : null}
+    </View>
+  );
+}
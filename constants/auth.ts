@@ -0,0 +1,235 @@
+// constants/auth.ts
+// Per-user sign-in (Supabase Auth email one-time code / magic link) + league roles from user_roles.
+// The session JWT is handed to supabaseHeaders(), so every REST call and RPC is checked server-side.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { fetchRolesForEmail, ROLE_ORDER, type Role, type UserRole } from './leagueData';
+import { SUPABASE_ANON_KEY, SUPABASE_AUTH_URL, setSupabaseAccessToken } from './supabase';
+
+const STORAGE_KEY_AUTH = 'ppl_auth_session_v1';
+
+// Refresh a little before the JWT actually expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+export type AuthSession = {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number; // ms
+  userId: string;
+  email: string;
+};
+
+export type AuthState = {
+  session: AuthSession | null;
+  roles: UserRole[]; // last known roles (cached so the app still opens offline)
+};
+
+export class AuthError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+// =============================
+// ✅ Transport (swap for a local stand-in in tests)
+// =============================
+export type AuthTransport = {
+  sendCode: (email: string) => Promise<void>;
+  verifyCode: (email: string, code: string) => Promise<AuthSession>;
+  refresh: (refreshToken: string) => Promise<AuthSession>;
+  signOut: (accessToken: string) => Promise<void>;
+};
+
+function toSession(json: any): AuthSession {
+  const accessToken = String(json?.access_token ?? '');
+  const refreshToken = String(json?.refresh_token ?? '');
+  const email = String(json?.user?.email ?? '').trim().toLowerCase();
+  if (!accessToken || !refreshToken || !email) throw new AuthError('Sign-in response was missing a session.', 500);
+
+  const expiresAt =
+    typeof json?.expires_at === 'number'
+      ? json.expires_at * 1000
+      : Date.now() + (Number(json?.expires_in ?? 3600) || 3600) * 1000;
+
+  return { accessToken, refreshToken, expiresAt, userId: String(json?.user?.id ?? ''), email };
+}
+
+async function gotrue(path: string, body: unknown, bearer?: string): Promise<any> {
+  let res: Response;
+  try {
+    res = await fetch(`${SUPABASE_AUTH_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        apikey: SUPABASE_ANON_KEY,
+        Authorization: `Bearer ${bearer ?? SUPABASE_ANON_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+  } catch (e: any) {
+    throw new AuthError(e?.message || 'Network request failed', 0);
+  }
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    const msg = json?.msg || json?.error_description || json?.message || `Auth request failed (${res.status})`;
+    throw new AuthError(String(msg), res.status);
+  }
+  return json;
+}
+
+export const supabaseAuthTransport: AuthTransport = {
+  // Sends the email with both a 6-digit code and a magic link (depends on the project's email template)
+  sendCode: async (email) => {
+    await gotrue('/otp', { email, create_user: true });
+  },
+  verifyCode: async (email, code) => toSession(await gotrue('/verify', { type: 'email', email, token: code })),
+  refresh: async (refreshToken) =>
+    toSession(await gotrue('/token?grant_type=refresh_token', { refresh_token: refreshToken })),
+  signOut: async (accessToken) => {
+    await gotrue('/logout', {}, accessToken);
+  },
+};
+
+let transport: AuthTransport = supabaseAuthTransport;
+
+export function setAuthTransport(next: AuthTransport) {
+  transport = next;
+}
+
+// =============================
+// ✅ Session store
+// =============================
+let state: AuthState = { session: null, roles: [] };
+let loaded: Promise<void> | null = null;
+let refreshing: Promise<void> | null = null;
+
+async function setState(next: AuthState) {
+  state = next;
+  setSupabaseAccessToken(next.session?.accessToken ?? null);
+  if (next.session) await AsyncStorage.setItem(STORAGE_KEY_AUTH, JSON.stringify(next));
+  else await AsyncStorage.removeItem(STORAGE_KEY_AUTH);
+}
+
+function ensureLoaded() {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY_AUTH);
+        const parsed = raw ? (JSON.parse(raw) as AuthState) : null;
+        if (parsed?.session?.accessToken) {
+          state = { session: parsed.session, roles: Array.isArray(parsed.roles) ? parsed.roles : [] };
+          setSupabaseAccessToken(state.session!.accessToken);
+        }
+      } catch {
+        // corrupt cache → signed out
+      }
+    })();
+  }
+  return loaded;
+}
+
+/**
+ * Current session + roles, refreshing the JWT when it is about to expire.
+ * Offline, the cached session/roles are returned as-is (writes will still be checked server-side).
+ */
+export async function getAuthState(): Promise<AuthState> {
+  await ensureLoaded();
+
+  const session = state.session;
+  if (session && session.expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+    if (!refreshing) {
+      refreshing = (async () => {
+        try {
+          const next = await transport.refresh(session.refreshToken);
+          await setState({ session: next, roles: state.roles });
+        } catch (e) {
+          // Refresh token rejected → signed out; network trouble → keep the cached session
+          if (e instanceof AuthError && e.status >= 400 && e.status < 500) await setState({ session: null, roles: [] });
+        }
+      })().finally(() => {
+        refreshing = null;
+      });
+    }
+    await refreshing;
+  }
+
+  return state;
+}
+
+export async function requestSignInCode(email: string): Promise<void> {
+  const cleaned = email.trim().toLowerCase();
+  if (!cleaned.includes('@')) throw new AuthError('Enter a valid email address.', 400);
+  await transport.sendCode(cleaned);
+}
+
+export async function verifySignInCode(email: string, code: string): Promise<AuthState> {
+  const session = await transport.verifyCode(email.trim().toLowerCase(), code.trim());
+  setSupabaseAccessToken(session.accessToken);
+  const roles = await fetchRolesForEmail(session.email);
+  await setState({ session, roles });
+  return state;
+}
+
+// Re-reads roles from user_roles (e.g. after an admin changed them)
+export async function refreshRoles(): Promise<AuthState> {
+  const { session } = await getAuthState();
+  if (!session) return state;
+  try {
+    const roles = await fetchRolesForEmail(session.email);
+    await setState({ session, roles });
+  } catch {
+    // offline → keep cached roles
+  }
+  return state;
+}
+
+export async function signOut(): Promise<void> {
+  const { session } = await getAuthState();
+  if (session) {
+    try {
+      await transport.signOut(session.accessToken);
+    } catch {
+      // the local session is dropped either way
+    }
+  }
+  await setState({ session: null, roles: [] });
+}
+
+/**
+ * Admin screens: roles are re-read from user_roles before answering, so an edited or stale cache
+ * never opens one. No answer from the server (offline) = not allowed.
+ */
+export async function currentUserHasRole(needed: Role | Role[]): Promise<boolean> {
+  const { session } = await getAuthState();
+  if (!session) return false;
+  try {
+    const roles = await fetchRolesForEmail(session.email);
+    await setState({ session, roles });
+    return hasRole(roles, needed);
+  } catch {
+    return false;
+  }
+}
+
+// Offline-friendly check on the last known roles (e.g. Scoring's queue). Only picks what to show: score
+// saves go through save_match_score / the lock RPCs, and RLS on the league tables checks has_role()
+export async function cachedUserHasRole(needed: Role | Role[]): Promise<boolean> {
+  const { session, roles } = await getAuthState();
+  return !!session && hasRole(roles, needed);
+}
+
+// league_admin satisfies every check; otherwise the user needs one of `needed`
+export function hasRole(roles: UserRole[], needed: Role | Role[]): boolean {
+  const list = Array.isArray(needed) ? needed : [needed];
+  return roles.some((r) => r.role === 'league_admin' || list.includes(r.role));
+}
+
+export function highestRole(roles: UserRole[]): Role | null {
+  return ROLE_ORDER.find((role) => roles.some((r) => r.role === role)) ?? null;
+}
@@ -0,0 +1,195 @@
+// constants/csv.ts
+// Spreadsheet (CSV) exports of the schedule, results and standings, plus the reader the
+// schedule import uses. Pure logic (no React / Supabase).
+
+import { matchTimeMinutes } from './leagueCalendar';
+import { compareDivisions, type PersistedMatchScore, type SavedMatch } from './leagueData';
+import { matchTotals, pointDiff, type StandingsSection } from './standings';
+
+export const CSV_MIME_TYPE = 'text/csv;charset=utf-8';
+
+// Byte-order mark so Excel opens the file as UTF-8 (team names can have accents / curly quotes)
+const BOM = '\uFEFF';
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function csvCell(value: CsvValue) {
+  const s = value == null ? '' : String(value);
+  return /[",\r\n]/.test(s) || s !== s.trim() ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(header: string[], rows: CsvValue[][]): string {
+  return BOM + [header, ...rows].map((r) => r.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * RFC 4180 reader: quoted cells may hold commas, "" and line breaks. Blank lines are dropped.
+ * Each row keeps the 1-based line it started on so import errors can point at it.
+ */
+export function parseCsv(text: string): { line: number; cells: string[] }[] {
+  const src = (text ?? '').replace(/^\uFEFF/, '');
+  const out: { line: number; cells: string[] }[] = [];
+
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some((c) => c.trim() !== '')) out.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') quoted = true;
+    else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else cell += ch;
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  return out;
+}
+
+// "Team A" / "team_a" / "teamA" → "teama"
+export function csvHeaderKey(s: string) {
+  return (s ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Week → division → time → court, the order the schedule screens read in
+export function sortMatchesForExport(matches: SavedMatch[]): SavedMatch[] {
+  return [...matches].sort((a, b) => {
+    if (a.week !== b.week) return a.week - b.week;
+    if (a.division !== b.division) return compareDivisions(a.division, b.division);
+    const ta = matchTimeMinutes(a.time);
+    const tb = matchTimeMinutes(b.time);
+    if (ta !== tb) return ta - tb;
+    return a.court - b.court;
+  });
+}
+
+// Same columns the schedule import reads, so an exported week can be edited and imported back
+export const MATCH_CSV_HEADER = ['week', 'division', 'time', 'court', 'team_a', 'team_b', 'match_id'];
+
+export function matchesCsv(matches: SavedMatch[]): string {
+  return toCsv(
+    MATCH_CSV_HEADER,
+    sortMatchesForExport(matches).map((m) => [m.week, m.division, m.time, m.court, m.teamA, m.teamB, m.id])
+  );
+}
+
+export function resultsCsv(matches: SavedMatch[], scores: Record<string, PersistedMatchScore>): string {
+  const header = [
+    'week',
+    'division',
+    'time',
+    'court',
+    'team_a',
+    'team_b',
+    'a_g1',
+    'b_g1',
+    'a_g2',
+    'b_g2',
+    'a_g3',
+    'b_g3',
+    'a_games_won',
+    'b_games_won',
+    'a_points',
+    'b_points',
+    'status',
+    'counts_in_standings',
+    'match_id',
+  ];
+
+  const rows = sortMatchesForExport(matches).map((m) => {
+    const s = scores[m.id];
+    const totals = s ? matchTotals(s) : null;
+    return [
+      m.week,
+      m.division,
+      m.time,
+      m.court,
+      m.teamA,
+      m.teamB,
+      s?.teamA.g1,
+      s?.teamB.g1,
+      s?.teamA.g2,
+      s?.teamB.g2,
+      s?.teamA.g3,
+      s?.teamB.g3,
+      totals?.aWins,
+      totals?.bWins,
+      totals?.aPoints,
+      totals?.bPoints,
+      s?.status ?? 'not_submitted',
+      s?.verified ? 'yes' : 'no',
+      m.id,
+    ];
+  });
+
+  return toCsv(header, rows);
+}
+
+export function standingsCsv(sections: StandingsSection[]): string {
+  const header = [
+    'division',
+    'rank',
+    'team',
+    'games_played',
+    'wins',
+    'losses',
+    'points_for',
+    'points_against',
+    'point_diff',
+  ];
+
+  const rows = sections.flatMap((section) =>
+    section.rows.map(({ row, rank }) => [
+      section.division,
+      rank,
+      row.team,
+      row.gamesPlayed,
+      row.wins,
+      row.losses,
+      row.pointsFor,
+      row.pointsAgainst,
+      pointDiff(row),
+    ])
+  );
+
+  return toCsv(header, rows);
+}
+
+// ["matches", "week 3", "Beginner"] → "ppl-matches-week-3-beginner.csv"
+export function csvFileName(parts: string[]) {
+  const slug = ['ppl', ...parts]
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug}.csv`;
+}
@@ -0,0 +1,115 @@
+// constants/divisionHistory.ts
+// A team's divisions over a season: its moves in week order, the division it played in any week,
+// and the season rule for whether a moved team's record follows it.
+// Pure logic (no React / Supabase) — standings and the Division Moves screen share it.
+
+import type { Division, DivisionMove } from './leagueData';
+
+// carry = the team's whole season record comes with it into the new division
+// reset = the team starts over; only games played in a division count in that division's table
+export type DivisionMovePolicy = 'carry' | 'reset';
+
+export const DIVISION_MOVE_POLICY_LABELS: Record<DivisionMovePolicy, string> = {
+  carry: 'Carry over — a moved team brings its whole record into the new division',
+  reset: 'Reset — only games played in the current division count there',
+};
+
+// Moved teams have always kept their record, so that stays the league default
+export const DEFAULT_DIVISION_MOVE_POLICY: DivisionMovePolicy = 'carry';
+
+export function normalizeDivisionMovePolicy(raw: unknown): DivisionMovePolicy {
+  return raw === 'reset' ? raw : DEFAULT_DIVISION_MOVE_POLICY;
+}
+
+function normalizeName(s: string) {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+// One team's moves, oldest first (same week → the later save wins, like applyDivisionMoves)
+export function movesForTeam(team: string, moves: DivisionMove[]): DivisionMove[] {
+  const key = normalizeName(team);
+  return moves
+    .filter((m) => normalizeName(m.team) === key)
+    .sort((a, b) => a.effectiveWeek - b.effectiveWeek || a.createdAt - b.createdAt);
+}
+
+// Where the team started the season: its first move's "from", otherwise `fallback` (its roster division)
+export function startingDivision(team: string, moves: DivisionMove[], fallback: Division): Division {
+  return movesForTeam(team, moves)[0]?.fromDivision ?? fallback;
+}
+
+// The division the team played in during `week`
+export function divisionInWeek(team: string, week: number, moves: DivisionMove[], fallback: Division): Division {
+  const own = movesForTeam(team, moves);
+  let current = own[0]?.fromDivision ?? fallback;
+  for (const m of own) {
+    if (m.effectiveWeek > week) break;
+    current = m.toDivision;
+  }
+  return current;
+}
+
+export type DivisionStint = {
+  division: Division;
+  fromWeek: number;
+  toWeek: number | null; // null = still there
+  move: DivisionMove | null; // the move that started this stint (null = where the team started)
+};
+
+// The team's season as a list of stints, e.g. Weeks 1–4 Intermediate, Week 5 on Advanced
+export function divisionTimeline(team: string, moves: DivisionMove[], fallback: Division): DivisionStint[] {
+  const own = movesForTeam(team, moves);
+  const stints: DivisionStint[] = [
+    { division: own[0]?.fromDivision ?? fallback, fromWeek: 1, toWeek: null, move: null },
+  ];
+
+  for (const m of own) {
+    const last = stints[stints.length - 1];
+    if (m.effectiveWeek <= last.fromWeek) {
+      // A Week 1 move (or a second save for the same week) replaces the stint it would start
+      stints[stints.length - 1] = { ...last, division: m.toDivision, move: m };
+      continue;
+    }
+    last.toWeek = m.effectiveWeek - 1;
+    stints.push({ division: m.toDivision, fromWeek: m.effectiveWeek, toWeek: null, move: m });
+  }
+
+  return stints;
+}
+
+export type DivisionMoveDraft = {
+  team: string;
+  fromDivision: Division;
+  toDivision: Division;
+  effectiveWeek: number;
+};
+
+/**
+ * Why a new move doesn't fit the team's history (empty = OK to save).
+ * "From" must be where the team is the week before, and a later move must still start from where this one ends.
+ * A saved move for the same team + week is being replaced, so it's left out of the checks.
+ */
+export function moveProblems(draft: DivisionMoveDraft, moves: DivisionMove[], fallback: Division): string[] {
+  const problems: string[] = [];
+  if (draft.fromDivision === draft.toDivision) problems.push('From Division and To Division must be different.');
+
+  const others = movesForTeam(draft.team, moves).filter((m) => m.effectiveWeek !== draft.effectiveWeek);
+  const before = others.filter((m) => m.effectiveWeek < draft.effectiveWeek);
+  const after = others.find((m) => m.effectiveWeek > draft.effectiveWeek);
+
+  // With no earlier move the team's starting division is the roster one (a later move's "from" doesn't count)
+  const current = before.length > 0 ? before[before.length - 1].toDivision : fallback;
+  if (draft.fromDivision !== current) {
+    const when = draft.effectiveWeek > 1 ? `in Week ${draft.effectiveWeek - 1}` : 'at the start of the season';
+    problems.push(`${draft.team} is in ${current} ${when}, not ${draft.fromDivision}.`);
+  }
+
+  if (after && after.fromDivision !== draft.toDivision) {
+    problems.push(
+      `${draft.team} already moves ${after.fromDivision} → ${after.toDivision} in Week ${after.effectiveWeek}. ` +
+        `Delete that move first, or move them to ${after.fromDivision}.`
+    );
+  }
+
+  return problems;
+}
@@ -0,0 +1,62 @@
+// constants/divisions.ts
+// Loads the league's divisions (public.divisions) into leagueData once per launch, so every screen
+// renders whatever divisions exist. Offline it falls back to the last list seen on this device,
+// then to DEFAULT_DIVISIONS.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  DEFAULT_DIVISIONS,
+  fetchDivisions,
+  getDivisions,
+  setDivisions,
+  upsertDivisions,
+  type DivisionDef,
+} from './leagueData';
+
+const STORAGE_KEY_DIVISIONS = 'ppl_divisions_v1';
+
+// Colors offered when adding / editing a division
+export const DIVISION_COLORS = ['#b3261e', '#e65100', '#b26a00', '#1f8a3b', '#00838f', '#1565c0', '#6a1b9a', '#444444'];
+
+let divisionsLoad: Promise<DivisionDef[]> | null = null;
+
+export function loadDivisions(force = false): Promise<DivisionDef[]> {
+  if (divisionsLoad && !force) return divisionsLoad;
+
+  divisionsLoad = (async () => {
+    let list: DivisionDef[] | null = null;
+    try {
+      list = await fetchDivisions();
+      await AsyncStorage.setItem(STORAGE_KEY_DIVISIONS, JSON.stringify(list));
+    } catch {
+      try {
+        const raw = await AsyncStorage.getItem(STORAGE_KEY_DIVISIONS);
+        const parsed = raw ? JSON.parse(raw) : null;
+        list = Array.isArray(parsed) ? parsed : null;
+      } catch {
+        list = null;
+      }
+      divisionsLoad = null; // try the server again next time
+    }
+
+    // An empty table means the league hasn't customized anything yet
+    setDivisions(list && list.length > 0 ? list : DEFAULT_DIVISIONS);
+    return getDivisions();
+  })();
+
+  return divisionsLoad;
+}
+
+/**
+ * Saves the whole list (order, colors, skill bands, active flags) and makes it current.
+ * Divisions are never deleted — deactivating keeps old seasons' matches and standings intact.
+ */
+export async function saveDivisions(list: DivisionDef[]): Promise<DivisionDef[]> {
+  const renumbered = list.map((d, i) => ({ ...d, sortOrder: i + 1 }));
+  await upsertDivisions(renumbered);
+  setDivisions(renumbered);
+  divisionsLoad = Promise.resolve(getDivisions());
+  await AsyncStorage.setItem(STORAGE_KEY_DIVISIONS, JSON.stringify(renumbered));
+  return getDivisions();
+}
@@ -0,0 +1,49 @@
+// constants/fileExport.ts
+// Hands a generated text file (.ics, .csv) to the user: a browser download on web,
+// the share sheet on native. Also reads a picked text file on web.
+
+import { File, Paths } from 'expo-file-system';
+import { Platform, Share } from 'react-native';
+
+export async function shareTextFile(fileName: string, contents: string, mimeType: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const blob = new Blob([contents], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(contents);
+  // iOS shares the file itself; Android's share sheet only takes text
+  await Share.share(Platform.OS === 'ios' ? { url: file.uri } : { message: contents, title: fileName });
+}
+
+// Web only: opens the browser's file chooser and resolves with the file's text (null if cancelled)
+export function pickTextFileOnWeb(accept: string): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (Platform.OS !== 'web' || typeof document === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => {
+      const picked = input.files?.[0];
+      if (!picked) {
+        resolve(null);
+        return;
+      }
+      picked.text().then(resolve, () => resolve(null));
+    };
+    input.click();
+  });
+}
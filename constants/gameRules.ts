@@ -0,0 +1,89 @@
+// constants/gameRules.ts
+// Per-season pickleball game rules and final-score validation.
+// Pure logic (no React / Supabase) — the Scoring tab and the admin rules screen share it.
+
+import type { ScoreFields } from './leagueData';
+
+export type ScoringSystem = 'sideout' | 'rally';
+
+export type GameRules = {
+  pointsTo: number; // 11, 15 or 21
+  winBy: number; // 1 or 2
+  cap: number | null; // reaching the cap wins outright (even by one point); null = no cap
+  scoring: ScoringSystem;
+};
+
+export const POINTS_TO_OPTIONS = [11, 15, 21];
+
+export const SCORING_LABELS: Record<ScoringSystem, string> = {
+  sideout: 'Side-out (only the serving team scores)',
+  rally: 'Rally (a point on every rally)',
+};
+
+// League rules: games to 11, win by 2, no cap, traditional side-out scoring
+export const DEFAULT_GAME_RULES: GameRules = { pointsTo: 11, winBy: 2, cap: null, scoring: 'sideout' };
+
+// Highest number that makes sense to type into a score box
+export function maxGameScore(rules: GameRules) {
+  return rules.cap ?? 99;
+}
+
+// Stored settings may be stale/hand-edited: fall back to defaults field by field
+export function normalizeGameRules(raw: unknown): GameRules {
+  const r = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+
+  const pointsTo = POINTS_TO_OPTIONS.includes(Number(r.pointsTo)) ? Number(r.pointsTo) : DEFAULT_GAME_RULES.pointsTo;
+  const winBy = Number(r.winBy) === 1 ? 1 : 2;
+  const capNum = Number(r.cap);
+  const cap = r.cap != null && Number.isInteger(capNum) && capNum >= pointsTo && capNum <= 99 ? capNum : null;
+  const scoring: ScoringSystem = r.scoring === 'rally' ? 'rally' : 'sideout';
+
+  return { pointsTo, winBy, cap, scoring };
+}
+
+export function describeGameRules(rules: GameRules) {
+  const parts = [`Games to ${rules.pointsTo}`, `win by ${rules.winBy}`];
+  if (rules.cap != null) parts.push(`cap at ${rules.cap}`);
+  parts.push(rules.scoring === 'rally' ? 'rally scoring' : 'side-out scoring');
+  return parts.join(', ');
+}
+
+function isOver(hi: number, lo: number, rules: GameRules) {
+  if (rules.cap != null && hi >= rules.cap) return true;
+  return hi >= rules.pointsTo && hi - lo >= rules.winBy;
+}
+
+/**
+ * Checks one game's final score against the rules; returns an error message or null.
+ * A score is possible when the game is over at that score but was not over one point earlier
+ * (the winner always scores the last point). Empty games are fine; half-entered games are not.
+ */
+export function validateGame(a: string, b: string, rules: GameRules): string | null {
+  const aEntered = (a ?? '').trim() !== '';
+  const bEntered = (b ?? '').trim() !== '';
+  if (!aEntered && !bEntered) return null;
+  if (!aEntered || !bEntered) return 'Enter both scores';
+
+  const hi = Math.max(parseInt(a, 10) || 0, parseInt(b, 10) || 0);
+  const lo = Math.min(parseInt(a, 10) || 0, parseInt(b, 10) || 0);
+
+  if (hi === lo) return `Games can’t end in a tie (${hi}–${lo})`;
+  if (rules.cap != null && hi > rules.cap) return `Games are capped at ${rules.cap}`;
+  if (!isOver(hi, lo, rules)) {
+    return hi < rules.pointsTo ? `Games are played to ${rules.pointsTo}` : `Must win by ${rules.winBy} (${hi}–${lo})`;
+  }
+  if (isOver(hi - 1, lo, rules)) return `${hi}–${lo} isn’t possible — the game would have ended sooner`;
+
+  return null;
+}
+
+export type GameErrors = Partial<Record<keyof ScoreFields, string>>;
+
+export function validateMatchGames(teamA: ScoreFields, teamB: ScoreFields, rules: GameRules): GameErrors {
+  const out: GameErrors = {};
+  for (const g of ['g1', 'g2', 'g3'] as (keyof ScoreFields)[]) {
+    const err = validateGame(teamA[g], teamB[g], rules);
+    if (err) out[g] = err;
+  }
+  return out;
+}
@@ -0,0 +1,166 @@
+// constants/ics.ts
+// iCalendar (.ics, RFC 5545) for league matches — the in-app export and the /api/calendar feed share it.
+// Each event's UID is the match id and its SEQUENCE the match's revision, so an edited match replaces
+// its event instead of duplicating it. Pure logic (no React / Supabase).
+
+import { matchStartsAt, matchTimeMinutes } from './leagueCalendar';
+import type { Division, SavedMatch } from './leagueData';
+import {
+  DEFAULT_LEAGUE_NIGHT_CONFIG,
+  DEFAULT_VENUE,
+  courtLabel,
+  resolveLeagueNight,
+  type LeagueNight,
+  type LeagueNightConfig,
+} from './leagueNights';
+
+const PRODID = '-//Parkland Pickleball League//Schedule//EN';
+const UID_DOMAIN = 'parklandpickleballleague.app';
+
+// Whose matches a calendar holds
+export type CalendarScope = { kind: 'team'; team: string } | { kind: 'division'; division: Division };
+
+function normalizeName(s: string) {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+export function scopeLabel(scope: CalendarScope) {
+  return scope.kind === 'team' ? scope.team : `${scope.division} Division`;
+}
+
+export function matchesForScope(matches: SavedMatch[], scope: CalendarScope): SavedMatch[] {
+  if (scope.kind === 'division') return matches.filter((m) => m.division === scope.division);
+  const key = normalizeName(scope.team);
+  return matches.filter((m) => normalizeName(m.teamA) === key || normalizeName(m.teamB) === key);
+}
+
+// Commas, semicolons, backslashes and newlines are escaped in TEXT values
+function escapeText(s: string) {
+  return s.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+}
+
+// Lines longer than 75 characters continue on the next line after a leading space
+function foldLine(line: string) {
+  if (line.length <= 75) return line;
+  const parts: string[] = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) parts.push(' ' + line.slice(i, i + 74));
+  return parts.join('\r\n');
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Floating local time (no time zone): everyone in the league sees the league-night clock time
+function formatLocal(date: Date) {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+}
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+}
+
+function eventSummary(m: SavedMatch, scope: CalendarScope, court: string) {
+  if (scope.kind === 'team') {
+    const key = normalizeName(scope.team);
+    const opponent = normalizeName(m.teamA) === key ? m.teamB : m.teamA;
+    return `Pickleball vs ${opponent} (${court})`;
+  }
+  return `${m.teamA} vs ${m.teamB} (${court})`;
+}
+
+// How long a match lasts that week: the gap to the next start time on the schedule (a round can
+// span several slots), or one slot of the night's template when the week has a single start time
+function roundMinutes(weekMatches: SavedMatch[], night: LeagueNight): number {
+  const starts = Array.from(new Set(weekMatches.map((m) => matchTimeMinutes(m.time))))
+    .filter((t) => t !== Number.MAX_SAFE_INTEGER) // unreadable times
+    .sort((a, b) => a - b);
+  let gap = Infinity;
+  for (let i = 1; i < starts.length; i++) gap = Math.min(gap, starts[i] - starts[i - 1]);
+  return Number.isFinite(gap) && gap > 0 ? gap : night.template.stepMinutes;
+}
+
+// When the server last changed the match (created time for rows saved before revisions existed)
+function modifiedAt(m: SavedMatch, fallback: Date): Date {
+  const updated = m.updatedAt ? Date.parse(m.updatedAt) : NaN;
+  if (Number.isFinite(updated)) return new Date(updated);
+  return m.createdAt > 0 ? new Date(m.createdAt) : fallback;
+}
+
+/**
+ * Builds the calendar. Matches without a date (Week 1 date not set, unreadable time) are left out.
+ * `nights` supplies each week's court names, venue and slot length; DTSTAMP / LAST-MODIFIED come
+ * from the match itself (`now` only for matches with no timestamp at all).
+ */
+export function buildMatchCalendar(
+  matches: SavedMatch[],
+  scope: CalendarScope,
+  week1Date: string | null,
+  seasonName: string,
+  nights: LeagueNightConfig = DEFAULT_LEAGUE_NIGHT_CONFIG,
+  now = new Date()
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`PPL ${seasonName} — ${scopeLabel(scope)}`)}`,
+    // Subscribed calendars re-check hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  // Round length comes from the whole week's schedule, not just the matches in this calendar
+  const roundByWeek = new Map<number, number>();
+  const nightFor = (week: number) => resolveLeagueNight(nights, week);
+  const roundFor = (week: number) => {
+    if (!roundByWeek.has(week)) {
+      roundByWeek.set(week, roundMinutes(matches.filter((m) => m.week === week), nightFor(week)));
+    }
+    return roundByWeek.get(week)!;
+  };
+
+  const sorted = [...matchesForScope(matches, scope)].sort((a, b) => a.week - b.week || a.createdAt - b.createdAt);
+  for (const m of sorted) {
+    const start = matchStartsAt(m, week1Date);
+    if (!start) continue;
+    const end = new Date(start.getTime() + roundFor(m.week) * 60 * 1000);
+
+    const night = nightFor(m.week);
+    const court = courtLabel(night, m.court);
+    // The built-in venue has no real name or address: the court alone says where to go
+    const location = night.venue.id === DEFAULT_VENUE.id ? court : `${court}, ${night.venue.name}`;
+    const stamp = formatUtc(modifiedAt(m, now));
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${m.id}@${UID_DOMAIN}`,
+      `SEQUENCE:${m.revision ?? 0}`,
+      `DTSTAMP:${stamp}`,
+      `LAST-MODIFIED:${stamp}`,
+      `DTSTART:${formatLocal(start)}`,
+      `DTEND:${formatLocal(end)}`,
+      `SUMMARY:${escapeText(eventSummary(m, scope, court))}`,
+      `LOCATION:${escapeText(location)}`,
+      `DESCRIPTION:${escapeText(`Week ${m.week} • ${m.division}\n${m.teamA} vs ${m.teamB}\n${m.time} • ${court}`)}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// "Mark P/Matt O" → "ppl-mark-p-matt-o.ics"
+export function calendarFileName(scope: CalendarScope) {
+  const slug = scopeLabel(scope)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `ppl-${slug || 'schedule'}.ics`;
+}
+
+// Query string for the feed endpoint (?team=… or ?division=…)
+export function calendarFeedQuery(scope: CalendarScope) {
+  return scope.kind === 'team' ? `team=${encodeURIComponent(scope.team)}` : `division=${encodeURIComponent(scope.division)}`;
+}
@@ -0,0 +1,71 @@
+// constants/identity.ts
+// "Who am I on this device": the team + player picked on the Team screen.
+// Names are kept for display (and for devices that picked before player records existed).
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { PlayerRef } from './leagueData';
+import { findRosterTeam, loadRoster } from './roster';
+
+const STORAGE_KEY_TEAM = 'ppl_selected_team';
+const STORAGE_KEY_PLAYER_NAME = 'ppl_selected_player_name';
+const STORAGE_KEY_TEAM_ID = 'ppl_selected_team_id';
+const STORAGE_KEY_PLAYER_ID = 'ppl_selected_player_id';
+
+export type Identity = {
+  team: string;
+  teamId: string | null;
+  playerName: string;
+  playerId: string | null;
+};
+
+// null until a team and player have been picked
+export async function loadIdentity(): Promise<Identity | null> {
+  const [team, playerName, teamId, playerId] = await Promise.all([
+    AsyncStorage.getItem(STORAGE_KEY_TEAM),
+    AsyncStorage.getItem(STORAGE_KEY_PLAYER_NAME),
+    AsyncStorage.getItem(STORAGE_KEY_TEAM_ID),
+    AsyncStorage.getItem(STORAGE_KEY_PLAYER_ID),
+  ]);
+  if (!team?.trim() || !playerName?.trim()) return null;
+
+  return { team: team.trim(), teamId: teamId || null, playerName: playerName.trim(), playerId: playerId || null };
+}
+
+export async function saveIdentity(identity: Identity): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY_TEAM, identity.team);
+  await AsyncStorage.setItem(STORAGE_KEY_PLAYER_NAME, identity.playerName);
+
+  if (identity.teamId) await AsyncStorage.setItem(STORAGE_KEY_TEAM_ID, identity.teamId);
+  else await AsyncStorage.removeItem(STORAGE_KEY_TEAM_ID);
+
+  if (identity.playerId) await AsyncStorage.setItem(STORAGE_KEY_PLAYER_ID, identity.playerId);
+  else await AsyncStorage.removeItem(STORAGE_KEY_PLAYER_ID);
+}
+
+// "Greg (Ishai/Greg)"
+export function identityLabel(identity: Identity) {
+  return `${identity.playerName} (${identity.team})`;
+}
+
+export function identityRef(identity: Identity | null): PlayerRef {
+  return { playerId: identity?.playerId ?? null, teamId: identity?.teamId ?? null };
+}
+
+/**
+ * Devices that picked a team before player records existed only have names saved.
+ * Once the roster has ids for that team/player, store them (best effort, silent offline).
+ */
+export async function refreshIdentityIds(): Promise<void> {
+  const identity = await loadIdentity();
+  if (!identity || (identity.teamId && identity.playerId)) return;
+
+  try {
+    const team = findRosterTeam(await loadRoster(), identity.team);
+    const player = team?.players.find((p) => p.name === identity.playerName);
+    if (!team?.id || !player?.id) return;
+    await saveIdentity({ ...identity, teamId: team.id, playerId: player.id });
+  } catch {
+    // offline: try again next launch
+  }
+}
@@ -0,0 +1,53 @@
+// constants/leagueCalendar.ts
+// Real dates for league nights: a season's Week 1 date (season_settings.week1_date) plus one week per
+// week number, combined with each match's "6:15 PM" time. Pure logic (no React / Supabase).
+
+import type { SavedMatch } from './leagueData';
+
+// "2026-10-20" → local midnight; null when it isn't a real date
+export function parseDateInput(text: string): Date | null {
+  const m = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec((text ?? '').trim());
+  if (!m) return null;
+  const date = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return date.getMonth() === Number(m[2]) - 1 ? date : null;
+}
+
+// Date → "2026-10-20" (local), the format parseDateInput reads
+export function formatDateInput(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// "6:15 PM" → { hours: 18, minutes: 15 }
+export function parseMatchTime(time: string): { hours: number; minutes: number } | null {
+  const m = /^(\d{1,2}):(\d{2})\s*(AM|PM)$/i.exec((time ?? '').trim());
+  if (!m) return null;
+  const h = Number(m[1]) % 12;
+  return { hours: m[3].toUpperCase() === 'PM' ? h + 12 : h, minutes: Number(m[2]) };
+}
+
+// Minutes after midnight, for sorting match times (unreadable times sort last)
+export function matchTimeMinutes(time: string): number {
+  const t = parseMatchTime(time);
+  return t ? t.hours * 60 + t.minutes : Number.MAX_SAFE_INTEGER;
+}
+
+// League night for a week (local midnight), or null before the admin has set Week 1's date
+export function weekDate(week1Date: string | null | undefined, week: number): Date | null {
+  const start = week1Date ? parseDateInput(week1Date) : null;
+  if (!start || !Number.isFinite(week) || week < 1) return null;
+  // Built from calendar fields (not +7 days in ms) so daylight-saving changes don't shift the day
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate() + (week - 1) * 7);
+}
+
+export function matchStartsAt(match: SavedMatch, week1Date: string | null | undefined): Date | null {
+  const day = weekDate(week1Date, match.week);
+  const time = parseMatchTime(match.time);
+  if (!day || !time) return null;
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), time.hours, time.minutes);
+}
+
+// "Tue, Oct 20"
+export function formatLeagueNight(date: Date): string {
+  return date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
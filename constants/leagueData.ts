@@ -0,0 +1,1965 @@
+// constants/leagueData.ts
+// Typed data access for the league tables (built on supabaseRestUrl / supabaseHeaders).
+// Screens import fetchers + shared types from here so a schema change is made in ONE place.
+
+import { supabaseHeaders, supabaseRestUrl } from './supabase';
+
+// =============================
+// ✅ Shared app shapes
+// =============================
+// A division's name. Divisions are league data (public.divisions), not a fixed list — matches,
+// teams, attendance etc. store the name, so names never change once used.
+export type Division = string;
+
+export type DivisionDef = {
+  name: Division;
+  sortOrder: number; // display order, lowest first
+  color: string; // hex, for headers / badges
+  skillBand: string | null; // e.g. "3.0–3.5"
+  active: boolean; // false = kept for old seasons, hidden when picking a division for new data
+};
+
+// Until the divisions table has rows (or while offline on first launch)
+export const DEFAULT_DIVISIONS: DivisionDef[] = [
+  { name: 'Advanced', sortOrder: 1, color: '#b3261e', skillBand: null, active: true },
+  { name: 'Intermediate', sortOrder: 2, color: '#1565c0', skillBand: null, active: true },
+  { name: 'Beginner', sortOrder: 3, color: '#1f8a3b', skillBand: null, active: true },
+];
+
+export function isDivision(v: any): v is Division {
+  return typeof v === 'string' && v.trim() !== '';
+}
+
+// League roles (server-side in user_roles). league_admin can do everything.
+export type Role = 'player' | 'captain' | 'scorekeeper' | 'league_admin';
+
+export const ROLE_ORDER: Role[] = ['league_admin', 'scorekeeper', 'captain', 'player'];
+
+export function isRole(v: any): v is Role {
+  return v === 'player' || v === 'captain' || v === 'scorekeeper' || v === 'league_admin';
+}
+
+export type Team = {
+  id: string;
+  division: Division;
+  name: string;
+  createdAt: string;
+};
+
+// A person in the league (players outlive teams and seasons)
+export type Player = {
+  id: string;
+  name: string;
+  email: string | null;
+  subPool: boolean; // available as a substitute
+  createdAt: string;
+};
+
+// One stint of a player on a team; leftAt null = still on the team
+export type TeamMembership = {
+  id: string;
+  season: string;
+  teamId: string;
+  playerId: string;
+  joinedAt: string;
+  leftAt: string | null;
+};
+
+// Who did something, by id (display strings are still stored next to these for old rows)
+export type PlayerRef = {
+  playerId: string | null;
+  teamId: string | null;
+};
+
+export const NO_PLAYER_REF: PlayerRef = { playerId: null, teamId: null };
+
+// playoff = a bracket game (see playoffs.ts); it never counts toward the standings
+export type MatchStage = 'regular' | 'playoff';
+
+export type SavedMatch = {
+  id: string;
+  week: number;
+  division: Division;
+  time: string; // e.g. "6:15 PM"
+  court: number; // 1..8
+  teamA: string;
+  teamB: string;
+  createdAt: number; // Date.now() ms (used for ordering/labels)
+  stage?: MatchStage; // missing = regular season
+  revision?: number; // bumped by the server whenever the slot or teams change (calendar SEQUENCE)
+  updatedAt?: string | null; // when the server last changed it (calendar LAST-MODIFIED)
+};
+
+export type ScoreFields = { g1: string; g2: string; g3: string };
+
+// submitted = one team entered scores, waiting on the opponent
+// confirmed = opponent agreed; overridden = admin made the scores official
+// disputed = opponent entered a different version (see `dispute`)
+export type ScoreStatus = 'submitted' | 'confirmed' | 'disputed' | 'overridden';
+
+export type ScoreDispute = {
+  team: string; // the team that disputed
+  by: string | null;
+  teamId: string | null;
+  playerId: string | null;
+  teamA: ScoreFields;
+  teamB: ScoreFields;
+  at: number;
+};
+
+export type PersistedMatchScore = {
+  matchId: string;
+  teamA: ScoreFields;
+  teamB: ScoreFields;
+  status: ScoreStatus;
+  submittedBy: string | null;
+  submittedByTeam: string | null;
+  submittedByPlayerId: string | null;
+  submittedByTeamId: string | null;
+  dispute: ScoreDispute | null;
+  // verified = counts toward standings (confirmed or overridden)
+  verified: boolean;
+  verifiedBy: string | null;
+  verifiedByPlayerId: string | null;
+  verifiedAt: number | null;
+  lockedAt: string | null;
+  lockedBy: string | null;
+  updatedAt: string | null; // set by the server on every save (null until the first save syncs)
+};
+
+// A substitute who played one match in place of a rostered player
+export type MatchSub = {
+  id: string;
+  matchId: string;
+  team: string;
+  absentPlayerId: string | null;
+  absentPlayerName: string;
+  subPlayerId: string | null; // null = free-text sub (not a player record)
+  subName: string;
+  createdAt: string;
+};
+
+// admin = set on the Attendance screen (overrides RSVPs); rsvp = derived from the players' RSVPs
+export type AttendanceSource = 'admin' | 'rsvp';
+
+export type Attendance = {
+  id: string;
+  week: number;
+  team: string;
+  teamId: string | null;
+  present: boolean;
+  source: AttendanceSource;
+  updatedAt: string | null;
+};
+
+export type RsvpStatus = 'in' | 'out' | 'maybe';
+
+// One player's answer for one week
+export type Rsvp = {
+  id: string;
+  week: number;
+  team: string;
+  teamId: string | null;
+  playerId: string | null;
+  playerName: string;
+  status: RsvpStatus;
+  updatedAt: string | null;
+};
+
+// RSVPs for a week are due by cutoffAt (ISO); teams that haven't answered get flagged after it
+export type RsvpCutoff = {
+  week: number;
+  cutoffAt: string;
+};
+
+// A device registered for push notifications, tagged with who picked it on the Team screen
+export type PushToken = {
+  token: string; // ExponentPushToken[...]
+  playerId: string | null;
+  playerName: string | null;
+  teamId: string | null;
+  team: string | null;
+  platform: string | null;
+  updatedAt: string | null;
+};
+
+// An accepted push waiting for its delivery receipt
+export type PushTicket = {
+  ticketId: string;
+  token: string;
+  createdAt: string;
+};
+
+export type DivisionMove = {
+  id: string;
+  team: string;
+  fromDivision: Division;
+  toDivision: Division;
+  effectiveWeek: number;
+  createdAt: number;
+};
+
+// Week 1 baseline row (numeric columns are optional in the table)
+export type StandingsBaseEntry = {
+  division: Division;
+  team: string;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+};
+
+export type TeamBye = {
+  id: string;
+  team: string;
+  week: number;
+};
+
+// One team's frozen, official line in a week's standings
+export type StandingsSnapshotEntry = {
+  season: string;
+  week: number;
+  division: Division;
+  team: string;
+  rank: number;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  explanation: string;
+  frozenAt: string | null;
+};
+
+export type UserRole = {
+  id: string;
+  email: string;
+  role: Role;
+  team: string | null; // captains/players: the team they belong to
+};
+
+// Per-season league rules (standings tiebreaker order, game scoring rules, …)
+export type SeasonSettings = {
+  season: string;
+  tiebreakers: string[]; // TiebreakerId values, validated by normalizeTiebreakers()
+  gameRules: unknown; // GameRules, validated by normalizeGameRules()
+  subRule: unknown; // SubRule, validated by normalizeSubRule()
+  divisionMovePolicy: unknown; // DivisionMovePolicy, validated by normalizeDivisionMovePolicy()
+  promotionRules: unknown; // PromotionRules, validated by normalizePromotionRules()
+  week1Date: string | null; // "YYYY-MM-DD" of the first league night (later weeks follow weekly)
+  venueId: string | null; // where league nights are played unless a week says otherwise
+  slotTemplateId: string | null; // the night's time slots unless a week says otherwise
+  updatedAt: string | null;
+};
+
+// A court at a venue. Matches store the number; screens and printed sheets show the name.
+export type VenueCourt = {
+  number: number;
+  name: string; // e.g. "Court 3" or "Center Court"
+};
+
+export type Venue = {
+  id: string;
+  name: string;
+  courts: VenueCourt[]; // in court-number order
+  active: boolean; // false = kept for old seasons, not offered for new league nights
+};
+
+// Evenly spaced match times: "5:30 PM" every 15 minutes, 16 slots → 5:30 PM … 9:15 PM
+export type SlotTemplate = {
+  id: string;
+  name: string;
+  startTime: string; // "6:00 PM"
+  stepMinutes: number;
+  slotCount: number;
+};
+
+// One week's exceptions to the season defaults (venue / slots swapped, courts closed)
+export type LeagueNightOverride = {
+  id: string;
+  week: number;
+  venueId: string | null; // null = season default
+  slotTemplateId: string | null; // null = season default
+  closedCourts: number[]; // court numbers closed that night (resurfacing, events)
+  note: string | null; // shown to admins and on printed sheets
+};
+
+export type BracketFormat = 'single' | 'double';
+
+// Where a bracket slot's team comes from: a seed, or the winner / loser of an earlier game
+export type BracketSource =
+  | { kind: 'seed'; seed: number } // 1-based; a seed past the number of teams is a bye
+  | { kind: 'winner'; game: string }
+  | { kind: 'loser'; game: string };
+
+// winners / losers = the two sides of a double-elimination bracket; final = grand final (+ reset)
+export type BracketSide = 'winners' | 'losers' | 'final';
+
+export type BracketGame = {
+  id: string; // "W1-1", "L2-1", "F1", "F2" — also part of the game's match id
+  side: BracketSide;
+  round: number; // 1-based within its side
+  a: BracketSource;
+  b: BracketSource;
+  // Where + when the game is played (teams are filled in as earlier games finish)
+  week: number | null;
+  time: string | null;
+  court: number | null;
+};
+
+// One division's playoffs; games only store the structure + slots, results come from match_scores
+export type PlayoffBracket = {
+  id: string;
+  division: Division;
+  format: BracketFormat;
+  seeds: string[]; // team names, seed 1 first
+  games: BracketGame[];
+  createdAt: string | null;
+};
+
+// archived = finished season, browsable read-only
+export type SeasonStatus = 'active' | 'archived';
+
+export type Season = {
+  id: string; // e.g. "season3"
+  name: string; // e.g. "Season 3"
+  status: SeasonStatus;
+  startedAt: string | null;
+};
+
+// Rows written before seasons existed belong to this one (column default on every season-scoped table)
+export const LEGACY_SEASON_ID = 'season3';
+
+// =============================
+// ✅ Supabase row shapes (snake_case, exactly as stored)
+// =============================
+// Season-scoped tables (teams, matches, match_scores, attendance, rsvps, rsvp_cutoffs, division_moves, team_byes,
+// league_nights, playoff_brackets, standings_base)
+// all carry: season text not null default 'season3' references public.seasons(id)
+// RLS: everyone reads; league_admin writes (exceptions noted per table, see supabase/migrations)
+export type TeamRow = {
+  id: string;
+  created_at: string;
+  division: string;
+  name: string;
+  season?: string;
+};
+
+// public.players: id uuid (pk), name, email (nullable, lowercase), sub_pool boolean default false,
+//   created_at — not season-scoped
+export type PlayerRow = {
+  id: string;
+  name: string;
+  email?: string | null;
+  sub_pool?: boolean | null;
+  created_at?: string | null;
+};
+
+// public.team_players: id, season, team_id → teams(id) on delete cascade, player_id → players(id),
+//   joined_at, left_at (null = current) — a player has at most one open row per season
+export type TeamPlayerRow = {
+  id: string;
+  season: string;
+  team_id: string;
+  player_id: string;
+  joined_at: string;
+  left_at?: string | null;
+};
+
+export type MatchRow = {
+  id: string;
+  season?: string;
+  week: number;
+  division: string;
+  time: string;
+  court: number;
+  team_a: string;
+  team_b: string;
+  created_at_ms?: number | null;
+  stage?: string | null; // text default 'regular' ('regular' | 'playoff')
+  revision?: number | null; // int default 0, bumped by a trigger when week/time/court/teams change
+  updated_at?: string | null; // set by the same trigger
+};
+
+// public.match_scores: + status text, submitted_by text, submitted_by_team text, dispute jsonb,
+//   submitted_by_player_id, submitted_by_team_id, verified_by_player_id (uuid, nullable), updated_at
+// RLS: only scorekeepers write directly; teams save through the save_match_score RPC.
+export type MatchScoreRow = {
+  match_id: string;
+  team_a: any;
+  team_b: any;
+  status?: string | null;
+  submitted_by?: string | null;
+  submitted_by_team?: string | null;
+  submitted_by_player_id?: string | null;
+  submitted_by_team_id?: string | null;
+  dispute?: any;
+  verified: boolean;
+  verified_by: string | null;
+  verified_by_player_id?: string | null;
+  verified_at_ms?: number | null;
+  locked_at?: string | null;
+  locked_by?: string | null;
+  updated_at?: string | null;
+};
+
+// public.match_subs: id, season, match_id → matches(id) on delete cascade, team, absent_player_id,
+//   absent_player_name, sub_player_id (nullable), sub_name, created_at
+//   — unique(season, match_id, team, absent_player_name)
+export type MatchSubRow = {
+  id: string;
+  match_id: string;
+  team: string;
+  absent_player_id?: string | null;
+  absent_player_name: string;
+  sub_player_id?: string | null;
+  sub_name: string;
+  created_at?: string | null;
+};
+
+// public.attendance: unique(season, week, team) + team_id → teams(id) (nullable for old rows),
+//   source text default 'admin' ('admin' | 'rsvp') — anyone may write 'rsvp' rows no admin has set
+export type AttendanceRow = {
+  id: string;
+  week: number;
+  team: string;
+  team_id?: string | null;
+  present: boolean;
+  source?: string | null;
+  updated_at?: string | null;
+};
+
+// public.rsvps: id, season, week, team, team_id (nullable), player_id (nullable), player_name,
+//   status text ('in' | 'out' | 'maybe'), updated_at — unique(season, week, team, player_name)
+//   — players write their own answers (no admin needed)
+export type RsvpRow = {
+  id: string;
+  week: number;
+  team: string;
+  team_id?: string | null;
+  player_id?: string | null;
+  player_name: string;
+  status: string;
+  updated_at?: string | null;
+};
+
+// public.rsvp_cutoffs: season, week, cutoff_at timestamptz — unique(season, week)
+export type RsvpCutoffRow = {
+  week: number;
+  cutoff_at: string;
+};
+
+// public.push_tokens: token text (pk), player_id, player_name, team_id, team, platform, updated_at
+//   — not season-scoped (a device keeps its token across seasons)
+//   — write-only for apps (register_push_token RPC); only the service role in api/push.ts reads or prunes it
+export type PushTokenRow = {
+  token: string;
+  player_id?: string | null;
+  player_name?: string | null;
+  team_id?: string | null;
+  team?: string | null;
+  platform?: string | null;
+  updated_at?: string | null;
+};
+
+// public.push_tickets: ticket_id text (pk), token → push_tokens(token) on delete cascade, created_at
+//   — service role only (api/push.ts)
+export type PushTicketRow = {
+  ticket_id: string;
+  token: string;
+  created_at?: string | null;
+};
+
+// public.push_score_notices: match_id text, updated_at timestamptz (the score's), created_at
+//   — pk (match_id, updated_at): one score notification per saved change — service role only (api/push.ts)
+export type PushScoreNoticeRow = {
+  match_id: string;
+  updated_at: string;
+};
+
+// public.division_moves: unique(season, team, effective_week) — a team can move more than once a season
+export type DivisionMoveRow = {
+  id: string;
+  team: string;
+  from_division: string;
+  to_division: string;
+  effective_week: number | null;
+  created_at: string | null;
+};
+
+export type StandingsBaseRow = {
+  division: string;
+  team: string;
+  games_played?: number | null;
+  wins?: number | null;
+  losses?: number | null;
+  points_for?: number | null;
+  points_against?: number | null;
+};
+
+// public.team_byes: id, season, team, week, created_at — unique(season, team, week)
+export type TeamByeRow = {
+  id: string;
+  team: string;
+  week: number;
+};
+
+// public.standings_snapshots: id, season, week, division, team, rank, games_played, wins, losses,
+//   points_for, points_against, explanation, frozen_at — unique(season, week, division, team)
+export type StandingsSnapshotRow = {
+  season: string;
+  week: number;
+  division: string;
+  team: string;
+  rank: number;
+  games_played: number;
+  wins: number;
+  losses: number;
+  points_for: number;
+  points_against: number;
+  explanation?: string | null;
+  frozen_at?: string | null;
+};
+
+// public.user_roles: id, email (lowercase), role, team, created_at — unique(email, role)
+// RLS: anyone signed in reads their own rows; only league_admin (public.has_role('league_admin')) writes.
+export type UserRoleRow = {
+  id: string;
+  email: string;
+  role: string;
+  team?: string | null;
+};
+
+// public.divisions: name text (pk), sort_order int, color text, skill_band text (nullable),
+//   active boolean default true, created_at — league-wide (not season-scoped)
+export type DivisionRow = {
+  name: string;
+  sort_order?: number | null;
+  color?: string | null;
+  skill_band?: string | null;
+  active?: boolean | null;
+};
+
+// public.venues: id text (pk), name, courts jsonb ([{ number, name }]), active boolean default true, created_at
+//   — league-wide (not season-scoped)
+export type VenueRow = {
+  id: string;
+  name?: string | null;
+  courts?: any;
+  active?: boolean | null;
+};
+
+// public.slot_templates: id text (pk), name, start_time text ("6:00 PM"), step_minutes int, slot_count int,
+//   created_at — league-wide (not season-scoped)
+export type SlotTemplateRow = {
+  id: string;
+  name?: string | null;
+  start_time?: string | null;
+  step_minutes?: number | null;
+  slot_count?: number | null;
+};
+
+// public.league_nights: id, season, week, venue_id (nullable), slot_template_id (nullable),
+//   closed_courts jsonb (court numbers), note, created_at — unique(season, week)
+export type LeagueNightRow = {
+  id: string;
+  week: number;
+  venue_id?: string | null;
+  slot_template_id?: string | null;
+  closed_courts?: any;
+  note?: string | null;
+};
+
+// public.playoff_brackets: id text (pk), season, division, format ('single' | 'double'), seeds jsonb (team names),
+//   games jsonb (BracketGame[]), created_at — unique(season, division)
+export type PlayoffBracketRow = {
+  id: string;
+  division: string;
+  format: string;
+  seeds?: any;
+  games?: any;
+  created_at?: string | null;
+};
+
+// public.seasons: id text (pk), name, status ('active' | 'archived'), started_at, created_at
+export type SeasonRow = {
+  id: string;
+  name?: string | null;
+  status?: string | null;
+  started_at?: string | null;
+};
+
+// public.season_settings: season (pk), tiebreakers jsonb, game_rules jsonb, sub_rule text,
+//   division_move_policy text, promotion_rules jsonb, week1_date date, venue_id text, slot_template_id text, updated_at
+export type SeasonSettingsRow = {
+  season: string;
+  tiebreakers: any;
+  game_rules?: any;
+  sub_rule?: string | null;
+  division_move_policy?: string | null;
+  promotion_rules?: any;
+  week1_date?: string | null;
+  venue_id?: string | null;
+  slot_template_id?: string | null;
+  updated_at?: string | null;
+};
+
+// =============================
+// ✅ Row mappers
+// =============================
+export function rowToTeam(r: TeamRow): Team | null {
+  if (!r || !isDivision(r.division)) return null;
+  return {
+    id: String(r.id),
+    division: r.division,
+    name: String(r.name || '').trim(),
+    createdAt: String(r.created_at ?? ''),
+  };
+}
+
+export function rowToDivisionDef(r: DivisionRow): DivisionDef | null {
+  const name = String(r?.name ?? '').replace(/\s+/g, ' ').trim();
+  if (!name) return null;
+  return {
+    name,
+    sortOrder: Number(r.sort_order ?? 0) || 0,
+    color: /^#[0-9a-f]{6}$/i.test(String(r.color ?? '')) ? String(r.color) : '#444444',
+    skillBand: r.skill_band ? String(r.skill_band).trim() : null,
+    active: r.active !== false,
+  };
+}
+
+export function rowToVenue(r: VenueRow): Venue | null {
+  const name = String(r?.name ?? '').replace(/\s+/g, ' ').trim();
+  if (!r?.id || !name) return null;
+  const courts: VenueCourt[] = (Array.isArray(r.courts) ? r.courts : [])
+    .map((c: any) => ({ number: Number(c?.number), name: String(c?.name ?? '').trim() }))
+    .filter((c: VenueCourt) => Number.isInteger(c.number) && c.number > 0)
+    .map((c: VenueCourt) => ({ ...c, name: c.name || `Court ${c.number}` }))
+    .sort((a: VenueCourt, b: VenueCourt) => a.number - b.number);
+  return { id: String(r.id), name, courts, active: r.active !== false };
+}
+
+export function rowToSlotTemplate(r: SlotTemplateRow): SlotTemplate | null {
+  const name = String(r?.name ?? '').trim();
+  const startTime = String(r?.start_time ?? '').trim();
+  const stepMinutes = Number(r?.step_minutes);
+  const slotCount = Number(r?.slot_count);
+  if (!r?.id || !name || !startTime) return null;
+  if (!Number.isInteger(stepMinutes) || stepMinutes <= 0 || !Number.isInteger(slotCount) || slotCount <= 0) return null;
+  return { id: String(r.id), name, startTime, stepMinutes, slotCount };
+}
+
+export function rowToLeagueNight(r: LeagueNightRow): LeagueNightOverride | null {
+  const week = Number(r?.week);
+  if (!r?.id || !Number.isInteger(week) || week <= 0) return null;
+  return {
+    id: String(r.id),
+    week,
+    venueId: r.venue_id ?? null,
+    slotTemplateId: r.slot_template_id ?? null,
+    closedCourts: (Array.isArray(r.closed_courts) ? r.closed_courts : [])
+      .map(Number)
+      .filter((n: number) => Number.isInteger(n) && n > 0),
+    note: r.note ? String(r.note).trim() : null,
+  };
+}
+
+function asBracketSource(v: any): BracketSource | null {
+  if (v?.kind === 'seed' && Number.isInteger(Number(v.seed)) && Number(v.seed) > 0) {
+    return { kind: 'seed', seed: Number(v.seed) };
+  }
+  if ((v?.kind === 'winner' || v?.kind === 'loser') && typeof v.game === 'string' && v.game) {
+    return { kind: v.kind, game: v.game };
+  }
+  return null;
+}
+
+function asBracketGame(v: any): BracketGame | null {
+  const a = asBracketSource(v?.a);
+  const b = asBracketSource(v?.b);
+  const round = Number(v?.round);
+  const side = v?.side === 'losers' || v?.side === 'final' ? v.side : 'winners';
+  if (typeof v?.id !== 'string' || !v.id || !a || !b || !Number.isInteger(round) || round <= 0) return null;
+
+  const week = Number(v.week);
+  const court = Number(v.court);
+  return {
+    id: v.id,
+    side,
+    round,
+    a,
+    b,
+    week: Number.isInteger(week) && week > 0 ? week : null,
+    time: typeof v.time === 'string' && v.time.trim() ? v.time.trim() : null,
+    court: Number.isInteger(court) && court > 0 ? court : null,
+  };
+}
+
+export function rowToPlayoffBracket(r: PlayoffBracketRow): PlayoffBracket | null {
+  if (!r?.id || !isDivision(r.division)) return null;
+  const games = (Array.isArray(r.games) ? r.games : []).map(asBracketGame).filter(Boolean) as BracketGame[];
+  if (games.length === 0) return null;
+  return {
+    id: String(r.id),
+    division: r.division,
+    format: r.format === 'double' ? 'double' : 'single',
+    seeds: (Array.isArray(r.seeds) ? r.seeds : []).map((t: any) => String(t ?? '').trim()).filter(Boolean),
+    games,
+    createdAt: r.created_at ?? null,
+  };
+}
+
+export function rowToPlayer(r: PlayerRow): Player | null {
+  const name = String(r?.name ?? '').replace(/\s+/g, ' ').trim();
+  if (!r?.id || !name) return null;
+  return {
+    id: String(r.id),
+    name,
+    email: r.email ? String(r.email).trim().toLowerCase() : null,
+    subPool: r.sub_pool === true,
+    createdAt: String(r.created_at ?? ''),
+  };
+}
+
+export function rowToMatchSub(r: MatchSubRow): MatchSub | null {
+  const team = String(r?.team ?? '').replace(/\s+/g, ' ').trim();
+  const subName = String(r?.sub_name ?? '').trim();
+  if (!r?.id || !r.match_id || !team || !subName) return null;
+  return {
+    id: String(r.id),
+    matchId: String(r.match_id),
+    team,
+    absentPlayerId: r.absent_player_id ?? null,
+    absentPlayerName: String(r.absent_player_name ?? '').trim(),
+    subPlayerId: r.sub_player_id ?? null,
+    subName,
+    createdAt: String(r.created_at ?? ''),
+  };
+}
+
+export function rowToTeamMembership(r: TeamPlayerRow): TeamMembership | null {
+  if (!r?.id || !r.team_id || !r.player_id) return null;
+  return {
+    id: String(r.id),
+    season: String(r.season ?? LEGACY_SEASON_ID),
+    teamId: String(r.team_id),
+    playerId: String(r.player_id),
+    joinedAt: String(r.joined_at ?? ''),
+    leftAt: r.left_at ?? null,
+  };
+}
+
+export function rowToSavedMatch(r: MatchRow): SavedMatch | null {
+  if (!r || !isDivision(r.division)) return null;
+  return {
+    id: String(r.id),
+    week: Number(r.week),
+    division: r.division,
+    time: String(r.time),
+    court: Number(r.court),
+    teamA: String(r.team_a),
+    teamB: String(r.team_b),
+    createdAt: Number(r.created_at_ms ?? 0) || 0,
+    stage: r.stage === 'playoff' ? 'playoff' : 'regular',
+    revision: Number(r.revision ?? 0) || 0,
+    updatedAt: r.updated_at ?? null,
+  };
+}
+
+export function savedMatchToRow(m: SavedMatch): MatchRow {
+  return {
+    id: m.id,
+    week: m.week,
+    division: m.division,
+    time: m.time,
+    court: m.court,
+    team_a: m.teamA,
+    team_b: m.teamB,
+    created_at_ms: m.createdAt,
+    stage: m.stage ?? 'regular',
+  };
+}
+
+export function asScoreFields(v: any): ScoreFields {
+  const g1 = v?.g1 == null ? '' : String(v.g1);
+  const g2 = v?.g2 == null ? '' : String(v.g2);
+  const g3 = v?.g3 == null ? '' : String(v.g3);
+  return { g1, g2, g3 };
+}
+
+export function isScoreStatus(v: unknown): v is ScoreStatus {
+  return v === 'submitted' || v === 'confirmed' || v === 'disputed' || v === 'overridden';
+}
+
+function asScoreDispute(v: any): ScoreDispute | null {
+  if (!v || typeof v !== 'object' || !v.team) return null;
+  return {
+    team: String(v.team),
+    by: v.by == null ? null : String(v.by),
+    teamId: v.teamId == null ? null : String(v.teamId),
+    playerId: v.playerId == null ? null : String(v.playerId),
+    teamA: asScoreFields(v.teamA),
+    teamB: asScoreFields(v.teamB),
+    at: Number(v.at) || 0,
+  };
+}
+
+export function rowToMatchScore(r: MatchScoreRow): PersistedMatchScore {
+  const id = String(r.match_id);
+  // Rows saved before the confirmation workflow only have `verified`
+  const status: ScoreStatus = isScoreStatus(r.status) ? r.status : r.verified ? 'confirmed' : 'submitted';
+  return {
+    matchId: id,
+    teamA: asScoreFields(r.team_a),
+    teamB: asScoreFields(r.team_b),
+    status,
+    submittedBy: r.submitted_by ?? null,
+    submittedByTeam: r.submitted_by_team ?? null,
+    submittedByPlayerId: r.submitted_by_player_id ?? null,
+    submittedByTeamId: r.submitted_by_team_id ?? null,
+    dispute: status === 'disputed' ? asScoreDispute(r.dispute) : null,
+    verified: status === 'confirmed' || status === 'overridden',
+    verifiedBy: r.verified_by ?? null,
+    verifiedByPlayerId: r.verified_by_player_id ?? null,
+    verifiedAt: typeof r.verified_at_ms === 'number' ? r.verified_at_ms : null,
+    lockedAt: r.locked_at ?? null,
+    lockedBy: r.locked_by ?? null,
+    updatedAt: r.updated_at ?? null,
+  };
+}
+
+export function rowToAttendance(r: AttendanceRow): Attendance | null {
+  const team = String(r?.team || '').trim();
+  if (!team) return null;
+  return {
+    id: String(r.id),
+    week: Number(r.week),
+    team,
+    teamId: r.team_id ?? null,
+    present: r.present !== false,
+    // Rows from before RSVPs were all set by an admin
+    source: r.source === 'rsvp' ? 'rsvp' : 'admin',
+    updatedAt: r.updated_at ?? null,
+  };
+}
+
+export function rowToRsvp(r: RsvpRow): Rsvp | null {
+  const team = String(r?.team ?? '').replace(/\s+/g, ' ').trim();
+  const playerName = String(r?.player_name ?? '').trim();
+  const status = r?.status;
+  if (!r?.id || !team || !playerName) return null;
+  if (status !== 'in' && status !== 'out' && status !== 'maybe') return null;
+  return {
+    id: String(r.id),
+    week: Number(r.week),
+    team,
+    teamId: r.team_id ?? null,
+    playerId: r.player_id ?? null,
+    playerName,
+    status,
+    updatedAt: r.updated_at ?? null,
+  };
+}
+
+export function rowToDivisionMove(r: DivisionMoveRow): DivisionMove | null {
+  const team = String(r?.team ?? '').replace(/\s+/g, ' ').trim();
+  const fromDivision = String(r?.from_division ?? '').trim();
+  const toDivision = String(r?.to_division ?? '').trim();
+  if (!team || !isDivision(fromDivision) || !isDivision(toDivision)) return null;
+
+  return {
+    id: String(r.id),
+    team,
+    fromDivision,
+    toDivision,
+    effectiveWeek: Number(r.effective_week ?? 1) || 1,
+    createdAt: r.created_at ? new Date(r.created_at).getTime() : Date.now(),
+  };
+}
+
+export function rowToStandingsBase(r: StandingsBaseRow): StandingsBaseEntry | null {
+  const team = String(r?.team ?? '').replace(/\s+/g, ' ').trim();
+  if (!team || !isDivision(r.division)) return null;
+  return {
+    division: r.division,
+    team,
+    gamesPlayed: Number(r.games_played ?? 0) || 0,
+    wins: Number(r.wins ?? 0) || 0,
+    losses: Number(r.losses ?? 0) || 0,
+    pointsFor: Number(r.points_for ?? 0) || 0,
+    pointsAgainst: Number(r.points_against ?? 0) || 0,
+  };
+}
+
+export function rowToStandingsSnapshot(r: StandingsSnapshotRow): StandingsSnapshotEntry | null {
+  const team = String(r?.team ?? '').replace(/\s+/g, ' ').trim();
+  if (!team || !isDivision(r.division)) return null;
+  return {
+    season: String(r.season),
+    week: Number(r.week),
+    division: r.division,
+    team,
+    rank: Number(r.rank) || 0,
+    gamesPlayed: Number(r.games_played ?? 0) || 0,
+    wins: Number(r.wins ?? 0) || 0,
+    losses: Number(r.losses ?? 0) || 0,
+    pointsFor: Number(r.points_for ?? 0) || 0,
+    pointsAgainst: Number(r.points_against ?? 0) || 0,
+    explanation: String(r.explanation ?? ''),
+    frozenAt: r.frozen_at ?? null,
+  };
+}
+
+export function rowToSeason(r: SeasonRow): Season | null {
+  const id = String(r?.id ?? '').trim();
+  if (!id) return null;
+  return {
+    id,
+    name: String(r.name ?? '').trim() || id,
+    status: r.status === 'active' ? 'active' : 'archived',
+    startedAt: r.started_at ?? null,
+  };
+}
+
+export function rowToUserRole(r: UserRoleRow): UserRole | null {
+  const email = String(r?.email ?? '').trim().toLowerCase();
+  if (!email || !isRole(r.role)) return null;
+  return {
+    id: String(r.id),
+    email,
+    role: r.role,
+    team: r.team ? String(r.team).trim() : null,
+  };
+}
+
+function mapRows<R, T>(rows: R[], mapper: (r: R) => T | null): T[] {
+  const out: T[] = [];
+  for (const r of rows) {
+    const v = mapper(r);
+    if (v) out.push(v);
+  }
+  return out;
+}
+
+// =============================
+// ✅ Errors + request plumbing
+// =============================
+
+/**
+ * Every failed call throws this (message format unchanged: "Supabase <table> <OP> failed: <status> <body>").
+ * status 0 = the request never got an HTTP response (offline, DNS, CORS).
+ */
+export class SupabaseError extends Error {
+  readonly table: string;
+  readonly operation: string;
+  readonly status: number;
+  readonly details: string;
+
+  constructor(table: string, operation: string, status: number, details: string) {
+    super(`Supabase ${table} ${operation} failed: ${status} ${details}`.trim());
+    this.name = 'SupabaseError';
+    this.table = table;
+    this.operation = operation;
+    this.status = status;
+    this.details = details;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+}
+
+async function request(table: string, operation: string, path: string, init: RequestInit): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(supabaseRestUrl(path), init);
+  } catch (e: any) {
+    throw new SupabaseError(table, operation, 0, e?.message || 'Network request failed');
+  }
+
+  if (!res.ok) {
+    const txt = await res.text().catch(() => '');
+    throw new SupabaseError(table, operation, res.status, txt);
+  }
+
+  return res;
+}
+
+// ✅ Identical SELECTs already in flight share one request (screens often load the same tables at once)
+const inflightSelects = new Map<string, Promise<unknown[]>>();
+
+function selectRows<R>(table: string, path: string): Promise<R[]> {
+  const existing = inflightSelects.get(path);
+  if (existing) return existing as Promise<R[]>;
+
+  const p = (async () => {
+    const res = await request(table, 'SELECT', path, { method: 'GET', headers: supabaseHeaders() });
+    const json = await res.json().catch(() => null);
+    return Array.isArray(json) ? json : [];
+  })().finally(() => {
+    inflightSelects.delete(path);
+  });
+
+  inflightSelects.set(path, p);
+  return p as Promise<R[]>;
+}
+
+async function writeRows(
+  table: string,
+  operation: string,
+  path: string,
+  method: 'POST' | 'PATCH' | 'DELETE',
+  body?: unknown,
+  prefer = 'return=minimal'
+): Promise<void> {
+  await request(table, operation, path, {
+    method,
+    headers: supabaseHeaders({ Prefer: prefer }),
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+// INSERT that hands back the created rows (ids are generated server-side)
+async function insertRows<R>(
+  table: string,
+  operation: string,
+  path: string,
+  body: unknown,
+  prefer = 'return=representation'
+): Promise<R[]> {
+  const res = await request(table, operation, path, {
+    method: 'POST',
+    headers: supabaseHeaders({ Prefer: prefer }),
+    body: JSON.stringify(body),
+  });
+  const json = await res.json().catch(() => null);
+  return Array.isArray(json) ? json : [];
+}
+
+async function callRpc(fn: string, args: Record<string, unknown>): Promise<void> {
+  await request(fn, 'RPC', `rpc/${fn}`, {
+    method: 'POST',
+    headers: supabaseHeaders(),
+    body: JSON.stringify(args),
+  });
+}
+
+// =============================
+// ✅ Active season (default scope for every read and write below)
+// =============================
+let activeSeasonId = LEGACY_SEASON_ID;
+
+export function getActiveSeasonId() {
+  return activeSeasonId;
+}
+
+export function setActiveSeasonId(id: string) {
+  activeSeasonId = id || LEGACY_SEASON_ID;
+}
+
+function seasonEq(season: string) {
+  return `season=eq.${encodeURIComponent(season)}`;
+}
+
+// =============================
+// ✅ seasons
+// =============================
+export async function fetchSeasons(): Promise<Season[]> {
+  const rows = await selectRows<SeasonRow>('seasons', 'seasons?select=id,name,status,started_at&order=started_at.desc.nullslast');
+  return mapRows(rows, rowToSeason);
+}
+
+export async function upsertSeason(season: Omit<Season, 'startedAt'> & { startedAt?: string | null }): Promise<void> {
+  const row: SeasonRow = { id: season.id, name: season.name, status: season.status };
+  if (season.startedAt !== undefined) row.started_at = season.startedAt;
+
+  await writeRows(
+    'seasons',
+    'UPSERT',
+    'seasons?on_conflict=id',
+    'POST',
+    [row],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+// =============================
+// ✅ divisions (loaded once per launch by constants/divisions.ts; every screen reads these helpers)
+// =============================
+let divisionDefs: DivisionDef[] = DEFAULT_DIVISIONS;
+
+function byDisplayOrder(a: DivisionDef, b: DivisionDef) {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+}
+
+// Every division, active or not, in display order
+export function getDivisions(): DivisionDef[] {
+  return divisionDefs;
+}
+
+export function setDivisions(list: DivisionDef[]) {
+  divisionDefs = list.length > 0 ? [...list].sort(byDisplayOrder) : DEFAULT_DIVISIONS;
+}
+
+// Active divisions in display order — what pickers offer for new matches / teams
+export function divisionOrder(): Division[] {
+  return divisionDefs.filter((d) => d.active).map((d) => d.name);
+}
+
+export function findDivision(name: Division): DivisionDef | null {
+  return divisionDefs.find((d) => d.name === name) ?? null;
+}
+
+// Header / badge color (unknown divisions from old data are plain dark text)
+export function divisionColor(name: Division) {
+  return findDivision(name)?.color ?? '#111111';
+}
+
+// Sorts division names for display: known divisions by sort order, unknown ones (old data) last by name
+export function compareDivisions(a: Division, b: Division) {
+  const ia = divisionDefs.findIndex((d) => d.name === a);
+  const ib = divisionDefs.findIndex((d) => d.name === b);
+  if (ia !== ib) return (ia < 0 ? Infinity : ia) - (ib < 0 ? Infinity : ib) || a.localeCompare(b);
+  return a.localeCompare(b);
+}
+
+// Unique names in display order (e.g. the divisions a list of matches actually uses)
+export function sortDivisions(names: Iterable<Division>): Division[] {
+  return Array.from(new Set(names)).sort(compareDivisions);
+}
+
+// { [division]: make() } for every active division
+export function emptyByDivision<T>(make: () => T): Record<Division, T> {
+  const out: Record<Division, T> = {};
+  for (const d of divisionOrder()) out[d] = make();
+  return out;
+}
+
+export async function fetchDivisions(): Promise<DivisionDef[]> {
+  const rows = await selectRows<DivisionRow>('divisions', 'divisions?select=*&order=sort_order.asc&order=name.asc');
+  return mapRows(rows, rowToDivisionDef);
+}
+
+export async function upsertDivisions(list: DivisionDef[]): Promise<void> {
+  if (list.length === 0) return;
+  await writeRows(
+    'divisions',
+    'UPSERT',
+    'divisions?on_conflict=name',
+    'POST',
+    list.map((d) => ({
+      name: d.name,
+      sort_order: d.sortOrder,
+      color: d.color,
+      skill_band: d.skillBand,
+      active: d.active,
+    })),
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+// =============================
+// ✅ teams
+// =============================
+export async function fetchTeamsByDivision(season = activeSeasonId): Promise<Record<Division, Team[]>> {
+  const rows = await selectRows<TeamRow>(
+    'teams',
+    `teams?select=id,created_at,division,name&${seasonEq(season)}&order=created_at.asc`
+  );
+
+  const grouped = emptyByDivision<Team[]>(() => []);
+  for (const t of mapRows(rows, rowToTeam)) {
+    // Teams in a division that was since deactivated still group under it
+    if (!grouped[t.division]) grouped[t.division] = [];
+    grouped[t.division].push(t);
+  }
+  return grouped;
+}
+
+export async function insertTeam(division: Division, name: string): Promise<Team | null> {
+  const rows = await insertRows<TeamRow>('teams', 'INSERT', 'teams', [{ season: activeSeasonId, division, name }]);
+  return mapRows(rows, rowToTeam)[0] ?? null;
+}
+
+// Used when a new season starts with teams carried forward
+export async function bulkInsertTeams(season: string, teams: { division: Division; name: string }[]): Promise<Team[]> {
+  if (teams.length === 0) return [];
+  const rows = await insertRows<TeamRow>(
+    'teams',
+    'BULK INSERT',
+    'teams',
+    teams.map((t) => ({ season, division: t.division, name: t.name }))
+  );
+  return mapRows(rows, rowToTeam);
+}
+
+export async function deleteTeam(id: string): Promise<void> {
+  await writeRows('teams', 'DELETE', `teams?id=eq.${encodeURIComponent(id)}`, 'DELETE');
+}
+
+// =============================
+// ✅ players + team_players (roster membership history)
+// =============================
+export async function fetchPlayers(): Promise<Player[]> {
+  // select=* so the optional sub_pool column never breaks the query
+  const rows = await selectRows<PlayerRow>('players', 'players?select=*&order=name.asc');
+  return mapRows(rows, rowToPlayer);
+}
+
+export async function insertPlayers(names: string[], subPool = false): Promise<Player[]> {
+  if (names.length === 0) return [];
+  const rows = await insertRows<PlayerRow>(
+    'players',
+    'INSERT',
+    'players',
+    names.map((name) => (subPool ? { name, sub_pool: true } : { name }))
+  );
+  return mapRows(rows, rowToPlayer);
+}
+
+export async function setPlayerSubPool(id: string, subPool: boolean): Promise<void> {
+  await writeRows('players', 'UPDATE', `players?id=eq.${encodeURIComponent(id)}`, 'PATCH', { sub_pool: subPool });
+}
+
+// Every stint (current and past) in a season
+export async function fetchTeamMemberships(season = activeSeasonId): Promise<TeamMembership[]> {
+  const rows = await selectRows<TeamPlayerRow>(
+    'team_players',
+    `team_players?select=*&${seasonEq(season)}&order=joined_at.asc`
+  );
+  return mapRows(rows, rowToTeamMembership);
+}
+
+export async function addTeamMembers(teamId: string, playerIds: string[], season = activeSeasonId): Promise<void> {
+  if (playerIds.length === 0) return;
+  const joinedAt = new Date().toISOString();
+  await writeRows(
+    'team_players',
+    'INSERT',
+    'team_players',
+    'POST',
+    playerIds.map((playerId) => ({ season, team_id: teamId, player_id: playerId, joined_at: joinedAt }))
+  );
+}
+
+// Players leave a team by closing their stint (the row stays as history)
+export async function endTeamMembership(id: string): Promise<void> {
+  await writeRows(
+    'team_players',
+    'UPDATE',
+    `team_players?id=eq.${encodeURIComponent(id)}`,
+    'PATCH',
+    { left_at: new Date().toISOString() }
+  );
+}
+
+// =============================
+// ✅ matches
+// =============================
+export async function fetchMatches(season = activeSeasonId): Promise<SavedMatch[]> {
+  const rows = await selectRows<MatchRow>(
+    'matches',
+    `matches?select=id,week,division,time,court,team_a,team_b,created_at_ms,stage,revision,updated_at&${seasonEq(season)}&order=week.asc&order=created_at_ms.asc`
+  );
+  return mapRows(rows, rowToSavedMatch);
+}
+
+export async function upsertMatch(match: SavedMatch): Promise<void> {
+  await writeRows(
+    'matches',
+    'UPSERT',
+    'matches?on_conflict=id',
+    'POST',
+    { ...savedMatchToRow(match), season: activeSeasonId },
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function bulkInsertMatches(matches: SavedMatch[]): Promise<void> {
+  if (!matches || matches.length === 0) return;
+  await writeRows(
+    'matches',
+    'BULK INSERT',
+    'matches',
+    'POST',
+    matches.map((m) => ({ ...savedMatchToRow(m), season: activeSeasonId }))
+  );
+}
+
+export async function deleteMatchById(id: string): Promise<void> {
+  await writeRows('matches', 'DELETE', `matches?id=eq.${encodeURIComponent(id)}`, 'DELETE');
+}
+
+export async function deleteMatchesByIds(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const list = ids.map((id) => `"${id.replace(/"/g, '')}"`).join(',');
+  await writeRows('matches', 'DELETE', `matches?id=in.(${encodeURIComponent(list)})`, 'DELETE');
+}
+
+export async function deleteMatchesForWeek(week: number): Promise<void> {
+  await writeRows('matches', 'DELETE week', `matches?${seasonEq(activeSeasonId)}&week=eq.${week}`, 'DELETE');
+}
+
+// =============================
+// ✅ match_scores (+ lock RPCs)
+// =============================
+export async function fetchMatchScores(season = activeSeasonId): Promise<Record<string, PersistedMatchScore>> {
+  // select=* so optional columns (verified_at_ms, locked_at, locked_by) never break the query
+  const rows = await selectRows<MatchScoreRow>('match_scores', `match_scores?select=*&${seasonEq(season)}`);
+
+  const out: Record<string, PersistedMatchScore> = {};
+  for (const r of rows) {
+    const s = rowToMatchScore(r);
+    out[s.matchId] = s;
+  }
+  return out;
+}
+
+export async function upsertMatchScore(score: PersistedMatchScore): Promise<void> {
+  const payload = {
+    match_id: score.matchId,
+    season: activeSeasonId,
+    team_a: score.teamA,
+    team_b: score.teamB,
+    status: score.status,
+    submitted_by: score.submittedBy,
+    submitted_by_team: score.submittedByTeam,
+    submitted_by_player_id: score.submittedByPlayerId,
+    submitted_by_team_id: score.submittedByTeamId,
+    dispute: score.dispute,
+    verified: score.verified,
+    verified_by: score.verifiedBy,
+    verified_by_player_id: score.verifiedByPlayerId,
+    verified_at_ms: score.verified ? score.verifiedAt : null, // when it started counting (standings / player stats)
+  };
+
+  // SECURITY DEFINER RPC: scorekeepers save anything, teams only submit / confirm / dispute their own match
+  await callRpc('save_match_score', { p_row: payload });
+}
+
+// Both RPCs run as the signed-in user and raise unless public.has_role('scorekeeper') (league_admin counts too)
+export async function lockMatchScore(matchId: string): Promise<void> {
+  await callRpc('lock_match_score', { p_match_id: matchId });
+}
+
+export async function unlockMatchScore(matchId: string): Promise<void> {
+  await callRpc('unlock_match_score', { p_match_id: matchId });
+}
+
+// =============================
+// ✅ match_subs (substitutes per match)
+// =============================
+export async function fetchMatchSubs(season = activeSeasonId): Promise<MatchSub[]> {
+  const rows = await selectRows<MatchSubRow>('match_subs', `match_subs?select=*&${seasonEq(season)}&order=created_at.asc`);
+  return mapRows(rows, rowToMatchSub);
+}
+
+export async function upsertMatchSub(sub: Omit<MatchSub, 'id' | 'createdAt'>): Promise<void> {
+  await writeRows(
+    'match_subs',
+    'UPSERT',
+    'match_subs?on_conflict=season,match_id,team,absent_player_name',
+    'POST',
+    [
+      {
+        season: activeSeasonId,
+        match_id: sub.matchId,
+        team: sub.team,
+        absent_player_id: sub.absentPlayerId,
+        absent_player_name: sub.absentPlayerName,
+        sub_player_id: sub.subPlayerId,
+        sub_name: sub.subName,
+      },
+    ],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function deleteMatchSub(id: string): Promise<void> {
+  await writeRows('match_subs', 'DELETE', `match_subs?id=eq.${encodeURIComponent(id)}`, 'DELETE');
+}
+
+// =============================
+// ✅ attendance (unique season, week, team)
+// =============================
+export async function fetchAttendanceForWeek(week: number, season = activeSeasonId): Promise<Attendance[]> {
+  if (week <= 0) return [];
+  const rows = await selectRows<AttendanceRow>(
+    'attendance',
+    `attendance?select=*&${seasonEq(season)}&week=eq.${week}&order=team.asc`
+  );
+  return mapRows(rows, rowToAttendance);
+}
+
+// team -> present (teams without a row are absent from the map)
+export async function fetchAttendanceMap(week: number): Promise<Record<string, boolean>> {
+  const map: Record<string, boolean> = {};
+  for (const a of await fetchAttendanceForWeek(week)) map[a.team] = a.present;
+  return map;
+}
+
+export async function upsertAttendance(
+  week: number,
+  team: string,
+  present: boolean,
+  teamId: string | null = null,
+  source: AttendanceSource = 'admin'
+): Promise<void> {
+  await writeRows(
+    'attendance',
+    'UPSERT',
+    'attendance?on_conflict=season,week,team',
+    'POST',
+    [{ season: activeSeasonId, week, team, team_id: teamId, present, source, updated_at: new Date().toISOString() }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+// =============================
+// ✅ rsvps (one answer per player per week) + rsvp_cutoffs
+// =============================
+export async function fetchRsvpsForWeek(week: number, season = activeSeasonId): Promise<Rsvp[]> {
+  if (week <= 0) return [];
+  const rows = await selectRows<RsvpRow>('rsvps', `rsvps?select=*&${seasonEq(season)}&week=eq.${week}&order=team.asc`);
+  return mapRows(rows, rowToRsvp);
+}
+
+export async function upsertRsvp(rsvp: Omit<Rsvp, 'id' | 'updatedAt'>): Promise<void> {
+  await writeRows(
+    'rsvps',
+    'UPSERT',
+    'rsvps?on_conflict=season,week,team,player_name',
+    'POST',
+    [
+      {
+        season: activeSeasonId,
+        week: rsvp.week,
+        team: rsvp.team,
+        team_id: rsvp.teamId,
+        player_id: rsvp.playerId,
+        player_name: rsvp.playerName,
+        status: rsvp.status,
+        updated_at: new Date().toISOString(),
+      },
+    ],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function fetchRsvpCutoffs(season = activeSeasonId): Promise<RsvpCutoff[]> {
+  const rows = await selectRows<RsvpCutoffRow>(
+    'rsvp_cutoffs',
+    `rsvp_cutoffs?select=week,cutoff_at&${seasonEq(season)}&order=week.asc`
+  );
+  return rows
+    .filter((r) => Number.isFinite(Number(r.week)) && !!r.cutoff_at)
+    .map((r) => ({ week: Number(r.week), cutoffAt: String(r.cutoff_at) }));
+}
+
+export async function upsertRsvpCutoff(week: number, cutoffAt: string): Promise<void> {
+  await writeRows(
+    'rsvp_cutoffs',
+    'UPSERT',
+    'rsvp_cutoffs?on_conflict=season,week',
+    'POST',
+    [{ season: activeSeasonId, week, cutoff_at: cutoffAt }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+// =============================
+// ✅ division_moves (any number per team, at most one per team per week)
+// =============================
+export async function fetchDivisionMoves(season = activeSeasonId): Promise<DivisionMove[]> {
+  const rows = await selectRows<DivisionMoveRow>(
+    'division_moves',
+    `division_moves?select=id,team,from_division,to_division,effective_week,created_at&${seasonEq(season)}&order=effective_week.asc&order=created_at.asc`
+  );
+  return mapRows(rows, rowToDivisionMove);
+}
+
+// Saving a second move for the same team + week replaces the first
+export async function upsertDivisionMove(move: {
+  team: string;
+  fromDivision: Division;
+  toDivision: Division;
+  effectiveWeek: number;
+}): Promise<void> {
+  const payload = {
+    season: activeSeasonId,
+    team: move.team.trim(),
+    from_division: move.fromDivision,
+    to_division: move.toDivision,
+    effective_week: move.effectiveWeek,
+  };
+
+  await writeRows(
+    'division_moves',
+    'UPSERT',
+    'division_moves?on_conflict=season,team,effective_week',
+    'POST',
+    payload,
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function deleteDivisionMove(id: string): Promise<void> {
+  await writeRows('division_moves', 'DELETE', `division_moves?id=eq.${encodeURIComponent(id)}`, 'DELETE');
+}
+
+// Rosters as of a week: the latest move effective on/before `week` wins
+export function applyDivisionMoves(
+  base: Record<Division, string[]>,
+  moves: DivisionMove[],
+  week: number
+): Record<Division, string[]> {
+  const next = emptyByDivision<string[]>(() => []);
+  for (const d of Object.keys(base)) next[d] = [...(base[d] ?? [])];
+
+  const effective = moves
+    .filter((m) => m.effectiveWeek <= week)
+    .sort((a, b) => a.effectiveWeek - b.effectiveWeek || a.createdAt - b.createdAt);
+
+  for (const m of effective) {
+    (Object.keys(next) as Division[]).forEach((d) => {
+      next[d] = next[d].filter((t) => t !== m.team);
+    });
+    if (!next[m.toDivision]) next[m.toDivision] = [];
+    next[m.toDivision].push(m.team);
+  }
+
+  (Object.keys(next) as Division[]).forEach((d) => {
+    next[d] = Array.from(new Set(next[d].map((t) => (t || '').trim()).filter(Boolean))).sort((a, b) =>
+      a.localeCompare(b)
+    );
+  });
+
+  return next;
+}
+
+// =============================
+// ✅ standings_base (Week 1 baseline, read-only)
+// =============================
+export async function fetchStandingsBase(season = activeSeasonId): Promise<StandingsBaseEntry[]> {
+  // The numeric columns may not exist yet — fall back to division + team only.
+  try {
+    const rows = await selectRows<StandingsBaseRow>(
+      'standings_base',
+      `standings_base?select=division,team,games_played,wins,losses,points_for,points_against&${seasonEq(season)}&order=division.asc&order=team.asc`
+    );
+    return mapRows(rows, rowToStandingsBase);
+  } catch (e) {
+    if (e instanceof SupabaseError && e.isNetworkError) throw e;
+    const rows = await selectRows<StandingsBaseRow>(
+      'standings_base',
+      `standings_base?select=division,team&${seasonEq(season)}&order=division.asc&order=team.asc`
+    );
+    return mapRows(rows, rowToStandingsBase);
+  }
+}
+
+// =============================
+// ✅ standings_snapshots (official standings frozen per week)
+// =============================
+export async function fetchStandingsSnapshots(season: string): Promise<StandingsSnapshotEntry[]> {
+  const rows = await selectRows<StandingsSnapshotRow>(
+    'standings_snapshots',
+    `standings_snapshots?select=*&season=eq.${encodeURIComponent(season)}&order=week.asc&order=division.asc&order=rank.asc`
+  );
+  return mapRows(rows, rowToStandingsSnapshot);
+}
+
+// Re-freezing a week replaces that week's rows entirely: upsert first, then drop rows this freeze didn't
+// write (older frozen_at), so a failed write never leaves the week without official standings
+export async function replaceStandingsSnapshot(
+  season: string,
+  week: number,
+  entries: Omit<StandingsSnapshotEntry, 'season' | 'week' | 'frozenAt'>[]
+): Promise<void> {
+  const s = encodeURIComponent(season);
+  if (entries.length === 0) {
+    await deleteStandingsSnapshot(season, week);
+    return;
+  }
+
+  const frozenAt = new Date().toISOString();
+  const rows: StandingsSnapshotRow[] = entries.map((e) => ({
+    season,
+    week,
+    division: e.division,
+    team: e.team,
+    rank: e.rank,
+    games_played: e.gamesPlayed,
+    wins: e.wins,
+    losses: e.losses,
+    points_for: e.pointsFor,
+    points_against: e.pointsAgainst,
+    explanation: e.explanation,
+    frozen_at: frozenAt,
+  }));
+  await writeRows(
+    'standings_snapshots',
+    'UPSERT',
+    'standings_snapshots?on_conflict=season,week,division,team',
+    'POST',
+    rows,
+    'resolution=merge-duplicates,return=minimal'
+  );
+  await writeRows(
+    'standings_snapshots',
+    'DELETE stale',
+    `standings_snapshots?season=eq.${s}&week=eq.${week}&frozen_at=lt.${encodeURIComponent(frozenAt)}`,
+    'DELETE'
+  );
+}
+
+export async function deleteStandingsSnapshot(season: string, week: number): Promise<void> {
+  const s = encodeURIComponent(season);
+  await writeRows('standings_snapshots', 'DELETE week', `standings_snapshots?season=eq.${s}&week=eq.${week}`, 'DELETE');
+}
+
+// =============================
+// ✅ team_byes (declared bye weeks for the season planner)
+// =============================
+export async function fetchTeamByes(season = activeSeasonId): Promise<TeamBye[]> {
+  const rows = await selectRows<TeamByeRow>(
+    'team_byes',
+    `team_byes?select=id,team,week&${seasonEq(season)}&order=week.asc&order=team.asc`
+  );
+  return rows.map((r) => ({ id: String(r.id), team: String(r.team || '').trim(), week: Number(r.week) }));
+}
+
+export async function upsertTeamBye(team: string, week: number): Promise<void> {
+  await writeRows(
+    'team_byes',
+    'UPSERT',
+    'team_byes?on_conflict=season,team,week',
+    'POST',
+    [{ season: activeSeasonId, team, week }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function deleteTeamBye(id: string): Promise<void> {
+  await writeRows('team_byes', 'DELETE', `team_byes?id=eq.${encodeURIComponent(id)}`, 'DELETE');
+}
+
+// =============================
+// ✅ user_roles
+// =============================
+export async function fetchRolesForEmail(email: string): Promise<UserRole[]> {
+  const e = encodeURIComponent(email.trim().toLowerCase());
+  const rows = await selectRows<UserRoleRow>('user_roles', `user_roles?select=id,email,role,team&email=eq.${e}`);
+  return mapRows(rows, rowToUserRole);
+}
+
+export async function fetchAllUserRoles(): Promise<UserRole[]> {
+  const rows = await selectRows<UserRoleRow>('user_roles', 'user_roles?select=id,email,role,team&order=email.asc');
+  return mapRows(rows, rowToUserRole);
+}
+
+export async function upsertUserRole(email: string, role: Role, team: string | null): Promise<void> {
+  await writeRows(
+    'user_roles',
+    'UPSERT',
+    'user_roles?on_conflict=email,role',
+    'POST',
+    [{ email: email.trim().toLowerCase(), role, team }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function deleteUserRole(id: string): Promise<void> {
+  await writeRows('user_roles', 'DELETE', `user_roles?id=eq.${encodeURIComponent(id)}`, 'DELETE');
+}
+
+// =============================
+// ✅ season_settings (per-season league rules)
+// =============================
+export async function fetchSeasonSettings(season: string): Promise<SeasonSettings | null> {
+  // select=* so the optional game_rules / sub_rule / division_move_policy / week1_date columns never break the query
+  const rows = await selectRows<SeasonSettingsRow>(
+    'season_settings',
+    `season_settings?select=*&season=eq.${encodeURIComponent(season)}`
+  );
+  const r = rows[0];
+  if (!r) return null;
+  return {
+    season: String(r.season),
+    tiebreakers: Array.isArray(r.tiebreakers) ? r.tiebreakers.map(String) : [],
+    gameRules: r.game_rules ?? null,
+    subRule: r.sub_rule ?? null,
+    divisionMovePolicy: r.division_move_policy ?? null,
+    promotionRules: r.promotion_rules ?? null,
+    week1Date: r.week1_date ?? null,
+    venueId: r.venue_id ?? null,
+    slotTemplateId: r.slot_template_id ?? null,
+    updatedAt: r.updated_at ?? null,
+  };
+}
+
+export async function upsertSeasonTiebreakers(season: string, tiebreakers: string[]): Promise<void> {
+  await writeRows(
+    'season_settings',
+    'UPSERT',
+    'season_settings?on_conflict=season',
+    'POST',
+    [{ season, tiebreakers, updated_at: new Date().toISOString() }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function upsertSeasonGameRules(season: string, gameRules: Record<string, unknown>): Promise<void> {
+  await writeRows(
+    'season_settings',
+    'UPSERT',
+    'season_settings?on_conflict=season',
+    'POST',
+    [{ season, game_rules: gameRules, updated_at: new Date().toISOString() }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function upsertSeasonSubRule(season: string, subRule: string): Promise<void> {
+  await writeRows(
+    'season_settings',
+    'UPSERT',
+    'season_settings?on_conflict=season',
+    'POST',
+    [{ season, sub_rule: subRule, updated_at: new Date().toISOString() }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function upsertSeasonDivisionMovePolicy(season: string, policy: string): Promise<void> {
+  await writeRows(
+    'season_settings',
+    'UPSERT',
+    'season_settings?on_conflict=season',
+    'POST',
+    [{ season, division_move_policy: policy, updated_at: new Date().toISOString() }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function upsertSeasonPromotionRules(season: string, rules: Record<string, unknown>): Promise<void> {
+  await writeRows(
+    'season_settings',
+    'UPSERT',
+    'season_settings?on_conflict=season',
+    'POST',
+    [{ season, promotion_rules: rules, updated_at: new Date().toISOString() }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function upsertSeasonWeek1Date(season: string, week1Date: string | null): Promise<void> {
+  await writeRows(
+    'season_settings',
+    'UPSERT',
+    'season_settings?on_conflict=season',
+    'POST',
+    [{ season, week1_date: week1Date, updated_at: new Date().toISOString() }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function upsertSeasonNightDefaults(
+  season: string,
+  venueId: string | null,
+  slotTemplateId: string | null
+): Promise<void> {
+  await writeRows(
+    'season_settings',
+    'UPSERT',
+    'season_settings?on_conflict=season',
+    'POST',
+    [{ season, venue_id: venueId, slot_template_id: slotTemplateId, updated_at: new Date().toISOString() }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+// =============================
+// ✅ venues + slot_templates (league-wide) and league_nights (per-week exceptions)
+// =============================
+export async function fetchVenues(): Promise<Venue[]> {
+  const rows = await selectRows<VenueRow>('venues', 'venues?select=*&order=name.asc');
+  return mapRows(rows, rowToVenue);
+}
+
+export async function upsertVenue(venue: Venue): Promise<void> {
+  await writeRows(
+    'venues',
+    'UPSERT',
+    'venues?on_conflict=id',
+    'POST',
+    [{ id: venue.id, name: venue.name, courts: venue.courts, active: venue.active }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function fetchSlotTemplates(): Promise<SlotTemplate[]> {
+  const rows = await selectRows<SlotTemplateRow>('slot_templates', 'slot_templates?select=*&order=name.asc');
+  return mapRows(rows, rowToSlotTemplate);
+}
+
+export async function upsertSlotTemplate(t: SlotTemplate): Promise<void> {
+  await writeRows(
+    'slot_templates',
+    'UPSERT',
+    'slot_templates?on_conflict=id',
+    'POST',
+    [{ id: t.id, name: t.name, start_time: t.startTime, step_minutes: t.stepMinutes, slot_count: t.slotCount }],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function deleteSlotTemplate(id: string): Promise<void> {
+  await writeRows('slot_templates', 'DELETE', `slot_templates?id=eq.${encodeURIComponent(id)}`, 'DELETE');
+}
+
+export async function fetchLeagueNights(season = activeSeasonId): Promise<LeagueNightOverride[]> {
+  const rows = await selectRows<LeagueNightRow>(
+    'league_nights',
+    `league_nights?select=*&${seasonEq(season)}&order=week.asc`
+  );
+  return mapRows(rows, rowToLeagueNight);
+}
+
+export async function upsertLeagueNight(night: Omit<LeagueNightOverride, 'id'>): Promise<void> {
+  await writeRows(
+    'league_nights',
+    'UPSERT',
+    'league_nights?on_conflict=season,week',
+    'POST',
+    [
+      {
+        season: activeSeasonId,
+        week: night.week,
+        venue_id: night.venueId,
+        slot_template_id: night.slotTemplateId,
+        closed_courts: night.closedCourts,
+        note: night.note,
+      },
+    ],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function deleteLeagueNight(id: string): Promise<void> {
+  await writeRows('league_nights', 'DELETE', `league_nights?id=eq.${encodeURIComponent(id)}`, 'DELETE');
+}
+
+// =============================
+// ✅ playoff_brackets (one per division per season)
+// =============================
+export async function fetchPlayoffBrackets(season = activeSeasonId): Promise<PlayoffBracket[]> {
+  const rows = await selectRows<PlayoffBracketRow>(
+    'playoff_brackets',
+    `playoff_brackets?select=*&${seasonEq(season)}&order=created_at.asc`
+  );
+  return mapRows(rows, rowToPlayoffBracket);
+}
+
+export async function upsertPlayoffBracket(bracket: Omit<PlayoffBracket, 'createdAt'>): Promise<void> {
+  await writeRows(
+    'playoff_brackets',
+    'UPSERT',
+    'playoff_brackets?on_conflict=season,division',
+    'POST',
+    [
+      {
+        id: bracket.id,
+        season: activeSeasonId,
+        division: bracket.division,
+        format: bracket.format,
+        seeds: bracket.seeds,
+        games: bracket.games,
+      },
+    ],
+    'resolution=merge-duplicates,return=minimal'
+  );
+}
+
+export async function deletePlayoffBracket(id: string): Promise<void> {
+  await writeRows('playoff_brackets', 'DELETE', `playoff_brackets?id=eq.${encodeURIComponent(id)}`, 'DELETE');
+}
+
+// =============================
+// ✅ push_tokens + push_tickets (server-side push registry)
+// =============================
+// Reads, prunes and tickets need the service role (api/push.ts); apps only register their own token.
+export async function fetchPushTokens(): Promise<PushToken[]> {
+  const rows = await selectRows<PushTokenRow>('push_tokens', 'push_tokens?select=*');
+  return rows
+    .filter((r) => !!r?.token)
+    .map((r) => ({
+      token: String(r.token),
+      playerId: r.player_id ?? null,
+      playerName: r.player_name ?? null,
+      teamId: r.team_id ?? null,
+      team: r.team ?? null,
+      platform: r.platform ?? null,
+      updatedAt: r.updated_at ?? null,
+    }));
+}
+
+// SECURITY DEFINER RPC, so a device can (re)register without being able to read anyone else's token
+export async function upsertPushToken(t: Omit<PushToken, 'updatedAt'>): Promise<void> {
+  await callRpc('register_push_token', {
+    p_token: t.token,
+    p_player_id: t.playerId,
+    p_player_name: t.playerName,
+    p_team_id: t.teamId,
+    p_team: t.team,
+    p_platform: t.platform,
+  });
+}
+
+export async function deletePushTokens(tokens: string[]): Promise<void> {
+  if (tokens.length === 0) return;
+  const list = tokens.map((t) => `"${t.replace(/"/g, '')}"`).join(',');
+  await writeRows('push_tokens', 'DELETE', `push_tokens?token=in.(${encodeURIComponent(list)})`, 'DELETE');
+}
+
+export async function insertPushTickets(tickets: { ticketId: string; token: string }[]): Promise<void> {
+  if (tickets.length === 0) return;
+  await writeRows(
+    'push_tickets',
+    'INSERT',
+    'push_tickets',
+    'POST',
+    tickets.map((t) => ({ ticket_id: t.ticketId, token: t.token }))
+  );
+}
+
+// Tickets accepted before `before` (ISO) — receipts are only ready some minutes after sending
+export async function fetchPushTickets(before: string): Promise<PushTicket[]> {
+  const rows = await selectRows<PushTicketRow>(
+    'push_tickets',
+    `push_tickets?select=*&created_at=lt.${encodeURIComponent(before)}&order=created_at.asc&limit=1000`
+  );
+  return rows
+    .filter((r) => !!r?.ticket_id && !!r.token)
+    .map((r) => ({ ticketId: String(r.ticket_id), token: String(r.token), createdAt: String(r.created_at ?? '') }));
+}
+
+export async function deletePushTickets(ticketIds: string[]): Promise<void> {
+  if (ticketIds.length === 0) return;
+  const list = ticketIds.map((id) => `"${id.replace(/"/g, '')}"`).join(',');
+  await writeRows('push_tickets', 'DELETE', `push_tickets?ticket_id=in.(${encodeURIComponent(list)})`, 'DELETE');
+}
+
+// true = first claim for this version of the score (notify); false = someone already sent it
+export async function claimScoreNotice(matchId: string, updatedAt: string): Promise<boolean> {
+  const rows = await insertRows<PushScoreNoticeRow>(
+    'push_score_notices',
+    'INSERT',
+    'push_score_notices?on_conflict=match_id,updated_at',
+    [{ match_id: matchId, updated_at: updatedAt }],
+    'resolution=ignore-duplicates,return=representation'
+  );
+  return rows.length > 0;
+}
@@ -0,0 +1,153 @@
+// constants/leagueNights.ts
+// Where and when each week's league night happens: the season's venue + slot template
+// (season_settings), with per-week exceptions from league_nights (another venue, a 5:30 start,
+// courts closed for resurfacing or an event). The schedule builder, season planner, CSV import
+// and print sheets read resolveLeagueNight() instead of a fixed list of times and courts.
+
+import { matchTimeMinutes } from './leagueCalendar';
+import {
+  fetchLeagueNights,
+  fetchSeasonSettings,
+  fetchSlotTemplates,
+  fetchVenues,
+  getActiveSeasonId,
+  type LeagueNightOverride,
+  type SavedMatch,
+  type SlotTemplate,
+  type Venue,
+  type VenueCourt,
+} from './leagueData';
+
+export type LeagueNightConfig = {
+  venues: Venue[];
+  templates: SlotTemplate[];
+  defaultVenueId: string | null;
+  defaultSlotTemplateId: string | null;
+  overrides: LeagueNightOverride[];
+};
+
+// One week, fully resolved
+export type LeagueNight = {
+  week: number;
+  venue: Venue;
+  template: SlotTemplate;
+  times: string[];
+  courts: VenueCourt[]; // open tonight
+  closedCourts: VenueCourt[];
+  note: string | null;
+  override: LeagueNightOverride | null;
+};
+
+export function venueCourts(count: number): VenueCourt[] {
+  return Array.from({ length: Math.max(0, count) }, (_, i) => ({ number: i + 1, name: `Court ${i + 1}` }));
+}
+
+// What the league used before venues were configurable: 8 courts, 6:00 PM → 9:45 PM every 15 minutes
+export const DEFAULT_VENUE: Venue = { id: 'default', name: 'League venue', courts: venueCourts(8), active: true };
+
+export const DEFAULT_SLOT_TEMPLATE: SlotTemplate = {
+  id: 'default',
+  name: 'Weeknight (6:00 PM)',
+  startTime: '6:00 PM',
+  stepMinutes: 15,
+  slotCount: 16,
+};
+
+export const DEFAULT_LEAGUE_NIGHT_CONFIG: LeagueNightConfig = {
+  venues: [],
+  templates: [],
+  defaultVenueId: null,
+  defaultSlotTemplateId: null,
+  overrides: [],
+};
+
+// 1050 → "5:30 PM"
+export function formatMatchTime(totalMinutes: number): string {
+  const h24 = Math.floor(totalMinutes / 60) % 24;
+  const minutes = String(totalMinutes % 60).padStart(2, '0');
+  const h12 = h24 % 12 === 0 ? 12 : h24 % 12;
+  return `${h12}:${minutes} ${h24 < 12 ? 'AM' : 'PM'}`;
+}
+
+// Every start time a template produces (stops at midnight; an unreadable start gives no slots)
+export function slotTimes(template: SlotTemplate): string[] {
+  const start = matchTimeMinutes(template.startTime);
+  if (start === Number.MAX_SAFE_INTEGER) return [];
+
+  const out: string[] = [];
+  for (let i = 0; i < template.slotCount; i++) {
+    const t = start + i * template.stepMinutes;
+    if (t >= 24 * 60) break;
+    out.push(formatMatchTime(t));
+  }
+  return out;
+}
+
+export function resolveLeagueNight(config: LeagueNightConfig, week: number): LeagueNight {
+  const override = config.overrides.find((o) => o.week === week) ?? null;
+
+  const venueOf = (id: string | null | undefined) => (id ? config.venues.find((v) => v.id === id) : undefined);
+  const templateOf = (id: string | null | undefined) =>
+    id ? config.templates.find((t) => t.id === id) : undefined;
+
+  const venue = venueOf(override?.venueId) ?? venueOf(config.defaultVenueId) ?? DEFAULT_VENUE;
+  const template =
+    templateOf(override?.slotTemplateId) ?? templateOf(config.defaultSlotTemplateId) ?? DEFAULT_SLOT_TEMPLATE;
+
+  const closed = new Set(override?.closedCourts ?? []);
+  return {
+    week,
+    venue,
+    template,
+    times: slotTimes(template),
+    courts: venue.courts.filter((c) => !closed.has(c.number)),
+    closedCourts: venue.courts.filter((c) => closed.has(c.number)),
+    note: override?.note ?? null,
+    override,
+  };
+}
+
+// "Center Court" for a named court, "Court 4" otherwise
+export function courtLabel(night: LeagueNight | null, court: number): string {
+  return night?.venue.courts.find((c) => c.number === court)?.name ?? `Court ${court}`;
+}
+
+// Why a time / court can't be booked this week (empty = fine)
+export function slotProblems(night: LeagueNight, time: string, court: number): string[] {
+  const problems: string[] = [];
+  if (!night.times.includes(time)) {
+    const range = night.times.length > 0 ? ` (${night.times[0]} – ${night.times[night.times.length - 1]})` : '';
+    problems.push(`${time} isn't a time slot in Week ${night.week}${range}.`);
+  }
+  if (night.closedCourts.some((c) => c.number === court)) {
+    problems.push(`${courtLabel(night, court)} is closed in Week ${night.week}.`);
+  } else if (!night.courts.some((c) => c.number === court)) {
+    problems.push(`${night.venue.name} has no court ${court}.`);
+  }
+  return problems;
+}
+
+// Saved matches that no longer fit their week's night (court closed, slot template changed, …)
+export function matchesOutsideNight(night: LeagueNight, matches: SavedMatch[]): SavedMatch[] {
+  return matches.filter((m) => m.week === night.week && slotProblems(night, m.time, m.court).length > 0);
+}
+
+/**
+ * Everything resolveLeagueNight needs for a season. Missing tables / offline fall back to the
+ * defaults above, so scheduling keeps working before anyone configures a venue.
+ */
+export async function fetchLeagueNightConfig(season = getActiveSeasonId()): Promise<LeagueNightConfig> {
+  const [venues, templates, settings, overrides] = await Promise.all([
+    fetchVenues().catch(() => []),
+    fetchSlotTemplates().catch(() => []),
+    fetchSeasonSettings(season).catch(() => null),
+    fetchLeagueNights(season).catch(() => []),
+  ]);
+  return {
+    venues,
+    templates,
+    defaultVenueId: settings?.venueId ?? null,
+    defaultSlotTemplateId: settings?.slotTemplateId ?? null,
+    overrides,
+  };
+}
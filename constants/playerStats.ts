@@ -0,0 +1,216 @@
+// constants/playerStats.ts
+// Per-player records built from the same verified match_scores as the Standings tab.
+// A team's result counts for whoever was on the team when it was played, so players who
+// switch partners keep their record. Pure logic (no React / Supabase).
+
+import {
+  sortDivisions,
+  type Division,
+  type MatchSub,
+  type PersistedMatchScore,
+  type Player,
+  type SavedMatch,
+  type Season,
+  type Team,
+  type TeamMembership,
+} from './leagueData';
+import { matchStartsAt, weekDate } from './leagueCalendar';
+import { matchTotals, normalizeName } from './standings';
+import { creditedLineup, matchCountsForStandings, subsByMatch, subsForTeam, type SubRule } from './substitutes';
+
+export type PlayerRecord = {
+  matchesPlayed: number;
+  gamesPlayed: number;
+  wins: number; // game wins
+  losses: number; // game losses
+  pointsFor: number;
+  pointsAgainst: number;
+};
+
+export type PartnerRecord = {
+  partnerId: string;
+  partnerName: string;
+  record: PlayerRecord;
+};
+
+export type PlayerSeasonStats = {
+  season: Season;
+  teams: string[]; // teams the player scored games with this season
+  totals: PlayerRecord;
+  byPartner: PartnerRecord[];
+  byDivision: { division: Division; record: PlayerRecord }[];
+};
+
+// One season's raw data (what the profile screen loads per season)
+export type PlayerStatsSeasonInput = {
+  season: Season;
+  matches: SavedMatch[];
+  scores: Record<string, PersistedMatchScore>;
+  teams: Record<Division, Team[]>;
+  memberships: TeamMembership[];
+  subs: MatchSub[];
+  subRule: SubRule;
+  week1Date: string | null; // season_settings.week1_date — when each match was actually played
+};
+
+export function emptyRecord(): PlayerRecord {
+  return { matchesPlayed: 0, gamesPlayed: 0, wins: 0, losses: 0, pointsFor: 0, pointsAgainst: 0 };
+}
+
+function addRecord(into: PlayerRecord, add: PlayerRecord) {
+  into.matchesPlayed += add.matchesPlayed;
+  into.gamesPlayed += add.gamesPlayed;
+  into.wins += add.wins;
+  into.losses += add.losses;
+  into.pointsFor += add.pointsFor;
+  into.pointsAgainst += add.pointsAgainst;
+}
+
+export function recordDiff(r: PlayerRecord) {
+  return r.pointsFor - r.pointsAgainst;
+}
+
+export function winPct(r: PlayerRecord) {
+  return r.gamesPlayed > 0 ? r.wins / r.gamesPlayed : 0;
+}
+
+/**
+ * Who played for a team at time `at` (ms). Scores saved before timestamps existed — or played
+ * before the roster was entered — fall back to the current players (else everyone who was on it).
+ */
+export function playersOnTeamAt(stints: TeamMembership[], at: number | null): string[] {
+  const covering =
+    at == null
+      ? []
+      : stints.filter((m) => Date.parse(m.joinedAt) <= at && (m.leftAt == null || Date.parse(m.leftAt) > at));
+  if (covering.length > 0) return covering.map((m) => m.playerId);
+
+  const current = stints.filter((m) => m.leftAt == null);
+  return (current.length > 0 ? current : stints).map((m) => m.playerId);
+}
+
+export function computePlayerSeasonStats(
+  playerId: string,
+  input: PlayerStatsSeasonInput,
+  playersById: Map<string, Player>
+): PlayerSeasonStats | null {
+  const { season, matches, scores, teams, memberships, subRule, week1Date } = input;
+
+  // Skip seasons the player was never rostered in (or subbed in)
+  const rostered = memberships.some((m) => m.playerId === playerId);
+  if (!rostered && !input.subs.some((s) => s.subPlayerId === playerId)) return null;
+
+  const subs = subsByMatch(input.subs);
+
+  const teamIdByName = new Map<string, string>();
+  for (const list of Object.values(teams)) {
+    for (const t of list) teamIdByName.set(normalizeName(t.name), t.id);
+  }
+
+  const stintsByTeam = new Map<string, TeamMembership[]>();
+  for (const m of memberships) {
+    if (!stintsByTeam.has(m.teamId)) stintsByTeam.set(m.teamId, []);
+    stintsByTeam.get(m.teamId)!.push(m);
+  }
+
+  const totals = emptyRecord();
+  const teamNames = new Set<string>();
+  const byPartner = new Map<string, PartnerRecord>();
+  const byDivision = new Map<Division, PlayerRecord>();
+
+  for (const m of matches) {
+    const s = scores[m.id];
+    if (!s || !s.verified) continue;
+
+    const matchSubs = subs.get(m.id);
+    if (!matchCountsForStandings(matchSubs, subRule)) continue;
+
+    const t = matchTotals(s);
+    if (t.gamesPlayed === 0) continue;
+
+    // The league night it was played on, not when the score was confirmed (that can be days later,
+    // after a roster change); before Week 1's date is set, the confirmation time is the best guess
+    const at = (matchStartsAt(m, week1Date) ?? weekDate(week1Date, m.week))?.getTime() ?? s.verifiedAt ?? null;
+    const sides = [
+      { team: m.teamA, wins: t.aWins, losses: t.bWins, pf: t.aPoints, pa: t.bPoints },
+      { team: m.teamB, wins: t.bWins, losses: t.aWins, pf: t.bPoints, pa: t.aPoints },
+    ];
+
+    for (const side of sides) {
+      const teamId = teamIdByName.get(normalizeName(side.team));
+      if (!teamId) continue;
+
+      // Absent players don't get a sub's result; under the "counts" rule the sub does
+      const onTeam = creditedLineup(
+        playersOnTeamAt(stintsByTeam.get(teamId) ?? [], at),
+        subsForTeam(matchSubs, side.team),
+        subRule
+      );
+      if (!onTeam.includes(playerId)) continue;
+
+      const rec: PlayerRecord = {
+        matchesPlayed: 1,
+        gamesPlayed: t.gamesPlayed,
+        wins: side.wins,
+        losses: side.losses,
+        pointsFor: side.pf,
+        pointsAgainst: side.pa,
+      };
+
+      addRecord(totals, rec);
+      teamNames.add(normalizeName(side.team));
+
+      if (!byDivision.has(m.division)) byDivision.set(m.division, emptyRecord());
+      addRecord(byDivision.get(m.division)!, rec);
+
+      for (const partnerId of onTeam) {
+        if (partnerId === playerId) continue;
+        if (!byPartner.has(partnerId)) {
+          byPartner.set(partnerId, {
+            partnerId,
+            partnerName: playersById.get(partnerId)?.name ?? 'Unknown player',
+            record: emptyRecord(),
+          });
+        }
+        addRecord(byPartner.get(partnerId)!.record, rec);
+      }
+    }
+  }
+
+  return {
+    season,
+    teams: Array.from(teamNames).sort((a, b) => a.localeCompare(b)),
+    totals,
+    byPartner: Array.from(byPartner.values()).sort(
+      (a, b) => b.record.gamesPlayed - a.record.gamesPlayed || a.partnerName.localeCompare(b.partnerName)
+    ),
+    byDivision: sortDivisions(byDivision.keys()).map((division) => ({
+      division,
+      record: byDivision.get(division)!,
+    })),
+  };
+}
+
+// Career line: every season added together (partners merged across seasons)
+export function combinePlayerSeasons(seasons: PlayerSeasonStats[]): {
+  totals: PlayerRecord;
+  byPartner: PartnerRecord[];
+} {
+  const totals = emptyRecord();
+  const byPartner = new Map<string, PartnerRecord>();
+
+  for (const s of seasons) {
+    addRecord(totals, s.totals);
+    for (const p of s.byPartner) {
+      if (!byPartner.has(p.partnerId)) byPartner.set(p.partnerId, { ...p, record: emptyRecord() });
+      addRecord(byPartner.get(p.partnerId)!.record, p.record);
+    }
+  }
+
+  return {
+    totals,
+    byPartner: Array.from(byPartner.values()).sort(
+      (a, b) => b.record.gamesPlayed - a.record.gamesPlayed || a.partnerName.localeCompare(b.partnerName)
+    ),
+  };
+}
@@ -0,0 +1,413 @@
+// constants/playoffs.ts
+// End-of-season playoffs: a single- or double-elimination bracket per division, seeded from the
+// standings. A bracket only stores its shape (who feeds which game) and each game's week / time /
+// court. Who plays whom is worked out from verified match_scores, so once a playoff score is
+// confirmed (or made official) advancePlayoffs() puts the winner — and in double elimination the
+// loser — into their next game as a real match (stage 'playoff').
+
+import { matchTimeMinutes } from './leagueCalendar';
+import {
+  deleteMatchesByIds,
+  fetchMatchScores,
+  fetchMatches,
+  fetchPlayoffBrackets,
+  getActiveSeasonId,
+  upsertMatch,
+  type BracketFormat,
+  type BracketGame,
+  type BracketSide,
+  type BracketSource,
+  type PersistedMatchScore,
+  type PlayoffBracket,
+  type SavedMatch,
+} from './leagueData';
+import { type LeagueNight } from './leagueNights';
+import { computeStandings, fetchStandingsInput, matchTotals, type StandingsSection } from './standings';
+
+export const MIN_PLAYOFF_TEAMS = 2;
+export const MAX_PLAYOFF_TEAMS = 32;
+
+export const BRACKET_FORMAT_LABELS: Record<BracketFormat, string> = {
+  single: 'Single elimination',
+  double: 'Double elimination',
+};
+
+// =============================
+// ✅ Building a bracket
+// =============================
+function bracketSize(teamCount: number) {
+  let size = 2;
+  while (size < teamCount) size *= 2;
+  return size;
+}
+
+// First-round positions so the top seeds can only meet late: 8 teams → 1v8, 4v5, 2v7, 3v6
+function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((s) => [s, n + 1 - s]);
+  }
+  return order;
+}
+
+function newGame(id: string, side: BracketSide, round: number, a: BracketSource, b: BracketSource): BracketGame {
+  return { id, side, round, a, b, week: null, time: null, court: null };
+}
+
+const seedOf = (seed: number): BracketSource => ({ kind: 'seed', seed });
+const winnerOf = (game: string): BracketSource => ({ kind: 'winner', game });
+const loserOf = (game: string): BracketSource => ({ kind: 'loser', game });
+
+const winnersId = (round: number, i: number) => `W${round}-${i + 1}`;
+const losersId = (round: number, i: number) => `L${round}-${i + 1}`;
+
+/**
+ * Every game of a bracket for `teamCount` seeds (padded with byes to a power of two).
+ * Double elimination adds the losers side and a grand final, plus a reset game that is only
+ * played when the losers-side champion wins the first grand final.
+ */
+export function buildBracketGames(teamCount: number, format: BracketFormat): BracketGame[] {
+  const size = bracketSize(teamCount);
+  const rounds = Math.log2(size);
+  const order = seedOrder(size);
+  const games: BracketGame[] = [];
+
+  for (let i = 0; i < size / 2; i++) {
+    games.push(newGame(winnersId(1, i), 'winners', 1, seedOf(order[2 * i]), seedOf(order[2 * i + 1])));
+  }
+  for (let r = 2; r <= rounds; r++) {
+    for (let i = 0; i < size / 2 ** r; i++) {
+      const a = winnerOf(winnersId(r - 1, 2 * i));
+      const b = winnerOf(winnersId(r - 1, 2 * i + 1));
+      games.push(newGame(winnersId(r, i), 'winners', r, a, b));
+    }
+  }
+  if (format === 'single') return games;
+
+  // Losers side: odd rounds pair up survivors, even rounds take in the next winners-side losers.
+  // With only two teams there is no losers side — the final's loser goes straight to the grand final.
+  let losersChampion = loserOf(winnersId(rounds, 0));
+  if (rounds >= 2) {
+    for (let i = 0; i < size / 4; i++) {
+      const a = loserOf(winnersId(1, 2 * i));
+      const b = loserOf(winnersId(1, 2 * i + 1));
+      games.push(newGame(losersId(1, i), 'losers', 1, a, b));
+    }
+
+    let count = size / 4;
+    for (let k = 1; k <= rounds - 1; k++) {
+      // Winners-side losers drop in reversed so first-round opponents don't meet again straight away
+      for (let i = 0; i < count; i++) {
+        const a = winnerOf(losersId(2 * k - 1, i));
+        const b = loserOf(winnersId(k + 1, count - 1 - i));
+        games.push(newGame(losersId(2 * k, i), 'losers', 2 * k, a, b));
+      }
+      if (k === rounds - 1) break;
+
+      count /= 2;
+      for (let i = 0; i < count; i++) {
+        const a = winnerOf(losersId(2 * k, 2 * i));
+        const b = winnerOf(losersId(2 * k, 2 * i + 1));
+        games.push(newGame(losersId(2 * k + 1, i), 'losers', 2 * k + 1, a, b));
+      }
+    }
+    losersChampion = winnerOf(losersId(2 * (rounds - 1), 0));
+  }
+
+  games.push(newGame('F1', 'final', 1, winnerOf(winnersId(rounds, 0)), losersChampion));
+  games.push(newGame('F2', 'final', 2, winnerOf('F1'), loserOf('F1')));
+  return games;
+}
+
+// Matches for bracket games get fixed ids, so two devices advancing at once write the same row
+export function playoffMatchId(bracket: PlayoffBracket, game: BracketGame) {
+  return `po_${bracket.id}_${game.id}`;
+}
+
+// =============================
+// ✅ Rounds (columns of the bracket view)
+// =============================
+export type BracketRound = {
+  key: string; // "winners-1"
+  side: BracketSide;
+  round: number;
+  label: string;
+  games: BracketGame[];
+};
+
+function roundLabel(bracket: PlayoffBracket, side: BracketSide, round: number, lastRound: number) {
+  if (side === 'final') return round === 1 ? 'Grand Final' : 'Grand Final (reset)';
+  if (side === 'losers') return round === lastRound ? 'Losers Final' : `Losers Round ${round}`;
+
+  const prefix = bracket.format === 'double' ? 'Winners ' : '';
+  const fromEnd = lastRound - round;
+  if (fromEnd === 0) return `${prefix}Final`;
+  if (fromEnd === 1) return `${prefix}Semifinals`;
+  if (fromEnd === 2) return `${prefix}Quarterfinals`;
+  return `${prefix}Round ${round}`;
+}
+
+export function bracketRounds(bracket: PlayoffBracket): BracketRound[] {
+  const sides: BracketSide[] = ['winners', 'losers', 'final'];
+  const out: BracketRound[] = [];
+
+  for (const side of sides) {
+    const games = bracket.games.filter((g) => g.side === side);
+    const lastRound = Math.max(0, ...games.map((g) => g.round));
+    for (let round = 1; round <= lastRound; round++) {
+      const list = games.filter((g) => g.round === round);
+      if (list.length === 0) continue;
+      out.push({ key: `${side}-${round}`, side, round, label: roundLabel(bracket, side, round, lastRound), games: list });
+    }
+  }
+  return out;
+}
+
+// =============================
+// ✅ Resolving who plays (from verified scores)
+// =============================
+export type BracketSlot =
+  | { kind: 'team'; team: string; seed: number }
+  | { kind: 'bye' }
+  | { kind: 'tbd' }; // waiting on an earlier game
+
+// waiting = a team isn't known yet; bye = nobody to play (the other team moves on);
+// unscheduled / scheduled = both teams known; tied = verified but level on games and points
+export type BracketGameStatus = 'waiting' | 'bye' | 'unscheduled' | 'scheduled' | 'tied' | 'done';
+
+export type ResolvedGame = {
+  game: BracketGame;
+  matchId: string;
+  a: BracketSlot;
+  b: BracketSlot;
+  match: SavedMatch | null;
+  score: PersistedMatchScore | null;
+  winner: BracketSlot;
+  loser: BracketSlot;
+  status: BracketGameStatus;
+};
+
+export type ResolvedBracket = {
+  bracket: PlayoffBracket;
+  games: ResolvedGame[]; // same order as bracket.games
+  champion: string | null;
+};
+
+const TBD: BracketSlot = { kind: 'tbd' };
+const BYE: BracketSlot = { kind: 'bye' };
+
+// Game wins decide a playoff match; a split on games goes to total points
+export function playoffWinner(score: PersistedMatchScore | null | undefined): 'a' | 'b' | null {
+  if (!score?.verified) return null;
+  const t = matchTotals(score);
+  if (t.aWins !== t.bWins) return t.aWins > t.bWins ? 'a' : 'b';
+  if (t.aPoints !== t.bPoints) return t.aPoints > t.bPoints ? 'a' : 'b';
+  return null;
+}
+
+export function resolveBracket(
+  bracket: PlayoffBracket,
+  matches: SavedMatch[],
+  scores: Record<string, PersistedMatchScore>
+): ResolvedBracket {
+  const matchById = new Map(matches.map((m) => [m.id, m]));
+  const gameById = new Map(bracket.games.map((g) => [g.id, g]));
+  const resolved = new Map<string, ResolvedGame>();
+
+  const slotFor = (source: BracketSource): BracketSlot => {
+    if (source.kind === 'seed') {
+      const team = bracket.seeds[source.seed - 1];
+      return team ? { kind: 'team', team, seed: source.seed } : BYE;
+    }
+    const from = resolve(source.game);
+    if (!from) return TBD;
+    return source.kind === 'winner' ? from.winner : from.loser;
+  };
+
+  const resolve = (id: string): ResolvedGame | null => {
+    const cached = resolved.get(id);
+    if (cached) return cached;
+    const game = gameById.get(id);
+    if (!game) return null;
+
+    let a = slotFor(game.a);
+    let b = slotFor(game.b);
+
+    // The reset game is only on when the losers-side champion (F1's team B) wins F1
+    if (game.side === 'final' && game.round === 2 && game.a.kind === 'winner') {
+      const first = resolve(game.a.game);
+      if (first?.status === 'done' && first.winner === first.a) {
+        a = BYE;
+        b = BYE;
+      }
+    }
+
+    const matchId = playoffMatchId(bracket, game);
+    const match = matchById.get(matchId) ?? null;
+    const score = match ? (scores[match.id] ?? null) : null;
+
+    const out: ResolvedGame = { game, matchId, a, b, match, score, winner: TBD, loser: TBD, status: 'waiting' };
+
+    if (a.kind === 'bye' || b.kind === 'bye') {
+      // The other team walks through (two byes → nobody does)
+      const other = a.kind === 'bye' ? b : a;
+      out.winner = other;
+      out.loser = BYE;
+      out.status = other.kind === 'tbd' ? 'waiting' : 'bye';
+    } else if (a.kind === 'team' && b.kind === 'team') {
+      // A match saved for other teams (an earlier result was corrected) doesn't decide anything
+      const current = !!match && match.teamA === a.team && match.teamB === b.team;
+      const side = current ? playoffWinner(score) : null;
+      if (side) {
+        out.winner = side === 'a' ? a : b;
+        out.loser = side === 'a' ? b : a;
+        out.status = 'done';
+      } else if (current && score?.verified) {
+        out.status = 'tied';
+      } else {
+        out.status = match || (game.week && game.time && game.court) ? 'scheduled' : 'unscheduled';
+      }
+    }
+
+    resolved.set(id, out);
+    return out;
+  };
+
+  const games = bracket.games.map((g) => resolve(g.id)!);
+
+  const finalGames = games.filter((r) => r.game.side === (bracket.format === 'double' ? 'final' : 'winners'));
+  const last = finalGames.reduce<ResolvedGame | null>(
+    (best, r) => (!best || r.game.round > best.game.round ? r : best),
+    null
+  );
+  // Double elimination: F2 decides it when played, otherwise F1 did
+  const deciding =
+    last && last.status === 'bye' && bracket.format === 'double'
+      ? (finalGames.find((r) => r.game.round === 1) ?? last)
+      : last;
+
+  return {
+    bracket,
+    games,
+    champion: deciding?.status === 'done' && deciding.winner.kind === 'team' ? deciding.winner.team : null,
+  };
+}
+
+// =============================
+// ✅ Turning bracket games into matches
+// =============================
+export type PlayoffMatchChanges = {
+  upserts: SavedMatch[];
+  deletes: string[]; // match ids
+};
+
+/**
+ * Matches to write so the schedule matches the bracket: every scheduled game whose two teams are
+ * known gets its match; an unscored match is updated when its slot or teams change, and removed
+ * when the game is no longer on (reset not needed, slot cleared, earlier result corrected).
+ * Matches that already have a score are never touched.
+ */
+export function playoffMatchChanges(resolved: ResolvedBracket, now = Date.now()): PlayoffMatchChanges {
+  const out: PlayoffMatchChanges = { upserts: [], deletes: [] };
+
+  for (const r of resolved.games) {
+    const { game, match, score } = r;
+    if (r.a.kind !== 'team' || r.b.kind !== 'team' || !game.week || !game.time || !game.court) {
+      if (match && !score) out.deletes.push(match.id);
+      continue;
+    }
+
+    const next: SavedMatch = {
+      id: r.matchId,
+      week: game.week,
+      division: resolved.bracket.division,
+      time: game.time,
+      court: game.court,
+      teamA: r.a.team,
+      teamB: r.b.team,
+      createdAt: match?.createdAt || now,
+      stage: 'playoff',
+    };
+
+    if (!match) {
+      out.upserts.push(next);
+    } else if (
+      !score &&
+      (match.week !== next.week ||
+        match.time !== next.time ||
+        match.court !== next.court ||
+        match.teamA !== next.teamA ||
+        match.teamB !== next.teamB)
+    ) {
+      out.upserts.push(next);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Brings every bracket of the active season up to date with the latest verified scores.
+ * Safe to run from any device at any time (match ids are fixed, writes are upserts).
+ */
+export async function advancePlayoffs(): Promise<PlayoffMatchChanges> {
+  const changes: PlayoffMatchChanges = { upserts: [], deletes: [] };
+
+  const brackets = await fetchPlayoffBrackets();
+  if (brackets.length === 0) return changes;
+
+  const [matches, scores] = await Promise.all([fetchMatches(), fetchMatchScores()]);
+  for (const b of brackets) {
+    const c = playoffMatchChanges(resolveBracket(b, matches, scores));
+    changes.upserts.push(...c.upserts);
+    changes.deletes.push(...c.deletes);
+  }
+
+  for (const m of changes.upserts) await upsertMatch(m);
+  await deleteMatchesByIds(changes.deletes);
+  return changes;
+}
+
+// =============================
+// ✅ Scheduling a round
+// =============================
+/**
+ * Puts a round's games on the week's open courts from `startTime` on, filling a time slot's courts
+ * before moving to the next slot and skipping courts other matches already use. Games that don't
+ * fit keep no slot (`unplaced`).
+ */
+export function scheduleRound(
+  games: BracketGame[],
+  week: number,
+  startTime: string,
+  night: LeagueNight,
+  booked: SavedMatch[]
+): { games: BracketGame[]; unplaced: number } {
+  const start = matchTimeMinutes(startTime);
+  const taken = new Set(booked.filter((m) => m.week === week).map((m) => `${m.time}|${m.court}`));
+
+  const free: { time: string; court: number }[] = [];
+  for (const time of night.times) {
+    if (matchTimeMinutes(time) < start) continue;
+    for (const c of night.courts) {
+      if (!taken.has(`${time}|${c.number}`)) free.push({ time, court: c.number });
+    }
+  }
+
+  let unplaced = 0;
+  const out = games.map((g, i) => {
+    const slot = free[i];
+    if (!slot) unplaced += 1;
+    return { ...g, week, time: slot?.time ?? null, court: slot?.court ?? null };
+  });
+  return { games: out, unplaced };
+}
+
+// =============================
+// ✅ Seeding
+// =============================
+/** The season's standings exactly as the Standings tab computes them (live, confirmed scores only). */
+export async function fetchSeedingStandings(season = getActiveSeasonId()): Promise<StandingsSection[]> {
+  return computeStandings(await fetchStandingsInput(season));
+}
@@ -0,0 +1,209 @@
+// constants/printSheets.ts
+// Paper sheets for league night: one sheet per court (time slots, teams, blank game-score boxes)
+// and a sign-in sheet per division built from that week's attendance. Rendered as a standalone
+// HTML page with print CSS so each sheet lands on its own page. Pure logic (no React / Supabase).
+
+import { matchTimeMinutes } from './leagueCalendar';
+import { sortDivisions, type Attendance, type Division, type SavedMatch } from './leagueData';
+import { courtLabel, type LeagueNight } from './leagueNights';
+
+export type PrintPaper = 'letter' | 'a4';
+
+export const PRINT_PAPERS: { id: PrintPaper; label: string }[] = [
+  { id: 'letter', label: 'Letter (8.5 × 11 in)' },
+  { id: 'a4', label: 'A4' },
+];
+
+export type CourtSheet = {
+  court: number;
+  name: string; // the venue's name for the court ("Court 3", "Center Court")
+  matches: SavedMatch[]; // in time order
+};
+
+// present = marked present (or by RSVPs), out = marked OUT, unmarked = no attendance row yet
+export type SignInStatus = 'present' | 'out' | 'unmarked';
+
+export type SignInTeam = {
+  team: string;
+  players: string[];
+  status: SignInStatus;
+};
+
+export type SignInSheet = {
+  division: Division;
+  teams: SignInTeam[]; // teams expected tonight first, then the ones marked OUT
+};
+
+export type PrintSheetsInput = {
+  week: number;
+  seasonName: string;
+  leagueNight: string | null; // "Tue, Oct 20" once the season has a Week 1 date
+  venue: string;
+  nightNote: string | null; // the week's league-night note (closed courts, events)
+  paper: PrintPaper;
+  courts: CourtSheet[];
+  signIn: SignInSheet[];
+  blankSubRows: number; // empty lines per sign-in sheet for substitutes / walk-ins
+};
+
+export function courtSheetsForWeek(matches: SavedMatch[], night: LeagueNight): CourtSheet[] {
+  const week = night.week;
+  const byCourt = new Map<number, SavedMatch[]>();
+  for (const m of matches) {
+    if (m.week !== week) continue;
+    if (!byCourt.has(m.court)) byCourt.set(m.court, []);
+    byCourt.get(m.court)!.push(m);
+  }
+
+  return Array.from(byCourt.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([court, list]) => ({
+      court,
+      name: courtLabel(night, court),
+      matches: [...list].sort((a, b) => matchTimeMinutes(a.time) - matchTimeMinutes(b.time)),
+    }));
+}
+
+export function signInSheets(
+  teamsByDivision: Record<Division, string[]>,
+  playersFor: (team: string) => string[],
+  attendance: Attendance[]
+): SignInSheet[] {
+  const present = new Map(attendance.map((a) => [a.team, a.present]));
+  const order: Record<SignInStatus, number> = { present: 0, unmarked: 0, out: 1 };
+
+  return sortDivisions(Object.keys(teamsByDivision))
+    .map((division) => {
+      const teams = (teamsByDivision[division] ?? []).map((team): SignInTeam => {
+        const p = present.get(team);
+        return { team, players: playersFor(team), status: p === true ? 'present' : p === false ? 'out' : 'unmarked' };
+      });
+      teams.sort((a, b) => order[a.status] - order[b.status] || a.team.localeCompare(b.team));
+      return { division, teams };
+    })
+    .filter((s) => s.teams.length > 0);
+}
+
+function esc(s: string) {
+  return (s ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const SCORE_BOXES = '<td class="box"></td><td class="box"></td><td class="box"></td>';
+
+function sheetHeader(title: string, input: PrintSheetsInput) {
+  const when = [`Week ${input.week}`, input.leagueNight, input.venue, input.seasonName].filter(Boolean).join(' • ');
+  return `<header><h1>${esc(title)}</h1><p>${esc(when)}</p></header>`;
+}
+
+function courtSheetHtml(sheet: CourtSheet, input: PrintSheetsInput) {
+  const rows = sheet.matches
+    .map(
+      (m) => `
+        <tbody class="match">
+          <tr>
+            <td class="time" rowspan="2">${esc(m.time)}<br /><span class="muted">${esc(m.division)}</span></td>
+            <td class="team">${esc(m.teamA)}</td>${SCORE_BOXES}<td class="initials" rowspan="2"></td>
+          </tr>
+          <tr><td class="team">${esc(m.teamB)}</td>${SCORE_BOXES}</tr>
+        </tbody>`
+    )
+    .join('');
+
+  return `
+    <section class="sheet">
+      ${sheetHeader(sheet.name, input)}
+      <table>
+        <thead>
+          <tr><th>Time</th><th>Team</th><th>Game 1</th><th>Game 2</th><th>Game 3</th><th>Initials (both teams)</th></tr>
+        </thead>
+        ${rows}
+      </table>
+      <p class="note">Write each team's points per game. Both teams initial when the match is over.</p>
+      ${input.nightNote ? `<p class="note">${esc(input.nightNote)}</p>` : ''}
+    </section>`;
+}
+
+function signInSheetHtml(sheet: SignInSheet, input: PrintSheetsInput) {
+  const expected = sheet.teams.filter((t) => t.status !== 'out');
+  const out = sheet.teams.filter((t) => t.status === 'out');
+
+  const playerRows = expected
+    .flatMap((t) =>
+      (t.players.length > 0 ? t.players : ['']).map(
+        (p, i) => `
+          <tr class="${i === 0 ? 'first' : ''}">
+            <td class="team">${i === 0 ? esc(t.team) + (t.status === 'unmarked' ? ' <span class="muted">(not marked)</span>' : '') : ''}</td>
+            <td>${esc(p)}</td>
+            <td class="sign"></td>
+          </tr>`
+      )
+    )
+    .join('');
+
+  const subRows = Array.from({ length: input.blankSubRows })
+    .map(() => '<tr class="first"><td class="team muted">Sub / walk-in</td><td></td><td class="sign"></td></tr>')
+    .join('');
+
+  const outNote =
+    out.length > 0
+      ? `<p class="note">Marked OUT this week: ${out.map((t) => esc(t.team)).join(', ')}</p>`
+      : '';
+
+  return `
+    <section class="sheet">
+      ${sheetHeader(`${sheet.division} Sign-In`, input)}
+      <table>
+        <thead><tr><th>Team</th><th>Player</th><th>Signature</th></tr></thead>
+        <tbody>${playerRows}${subRows}</tbody>
+      </table>
+      ${outNote}
+    </section>`;
+}
+
+/** The whole print job as one HTML page — every court sheet, then every sign-in sheet. */
+export function buildPrintSheetsHtml(input: PrintSheetsInput): string {
+  const pageSize = input.paper === 'a4' ? 'A4 portrait' : 'letter portrait';
+  const sheets = [
+    ...input.courts.map((c) => courtSheetHtml(c, input)),
+    ...input.signIn.map((s) => signInSheetHtml(s, input)),
+  ];
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${esc(`PPL Week ${input.week} sheets`)}</title>
+<style>
+  @page { size: ${pageSize}; margin: 0.5in; }
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; color: #000; margin: 0; }
+  .sheet { break-after: page; page-break-after: always; padding: 0.25in 0; }
+  .sheet:last-child { break-after: auto; page-break-after: auto; }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 3px solid #000; margin-bottom: 12px; }
+  h1 { font-size: 28px; margin: 0 0 4px; }
+  header p { margin: 0; font-size: 14px; font-weight: 600; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 12px; text-transform: uppercase; border-bottom: 2px solid #000; padding: 6px; }
+  td { border: 1px solid #000; padding: 8px 6px; font-size: 15px; height: 34px; }
+  tbody.match { break-inside: avoid; page-break-inside: avoid; }
+  td.time { width: 15%; font-weight: 700; vertical-align: top; }
+  td.team { width: 34%; font-weight: 600; }
+  td.box { width: 11%; }
+  td.initials { width: 18%; }
+  td.sign { width: 45%; }
+  tr.first td { border-top: 2px solid #000; }
+  .muted { color: #555; font-size: 12px; font-weight: 400; }
+  .note { font-size: 12px; margin-top: 10px; }
+  @media screen { body { max-width: 8.5in; margin: 0 auto; padding: 0 0.5in; } .sheet { border-bottom: 1px dashed #999; } }
+</style>
+</head>
+<body>
+${sheets.join('\n')}
+</body>
+</html>
+`;
+}
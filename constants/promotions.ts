@@ -0,0 +1,175 @@
+// constants/promotions.ts
+// End-of-week promotion / relegation recommendations. Once a week's scores are confirmed, the
+// season's rules pick the top teams of each division to move up and the bottom teams to move
+// down; the admin accepts a proposal to save it as a division move starting the next week.
+// Pure logic (no React / Supabase); the rules live in season_settings.promotion_rules.
+
+import {
+  divisionOrder,
+  type Division,
+  type DivisionMove,
+  type PersistedMatchScore,
+  type SavedMatch,
+} from './leagueData';
+import { normalizeName, pointDiff, type StandingsRow, type StandingsSection } from './standings';
+
+export type PromotionRules = {
+  promoteCount: number; // top N of each division move up (0 = nobody)
+  promoteMinWinPct: number; // …if they've won at least this % of their games
+  relegateCount: number; // bottom N of each division move down (0 = nobody)
+  relegateMaxWinPct: number; // …if they've won at most this % of their games
+  minGames: number; // teams with fewer games played are never proposed
+};
+
+export const DEFAULT_PROMOTION_RULES: PromotionRules = {
+  promoteCount: 1,
+  promoteMinWinPct: 65,
+  relegateCount: 1,
+  relegateMaxWinPct: 35,
+  minGames: 6,
+};
+
+export const MAX_PROMOTION_COUNT = 4;
+
+function intIn(raw: unknown, min: number, max: number, fallback: number) {
+  const n = Number(raw);
+  return Number.isInteger(n) && n >= min && n <= max ? n : fallback;
+}
+
+// Stored settings may be stale/hand-edited: fall back to defaults field by field
+export function normalizePromotionRules(raw: unknown): PromotionRules {
+  const r = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const d = DEFAULT_PROMOTION_RULES;
+  return {
+    promoteCount: intIn(r.promoteCount, 0, MAX_PROMOTION_COUNT, d.promoteCount),
+    promoteMinWinPct: intIn(r.promoteMinWinPct, 0, 100, d.promoteMinWinPct),
+    relegateCount: intIn(r.relegateCount, 0, MAX_PROMOTION_COUNT, d.relegateCount),
+    relegateMaxWinPct: intIn(r.relegateMaxWinPct, 0, 100, d.relegateMaxWinPct),
+    minGames: intIn(r.minGames, 0, 99, d.minGames),
+  };
+}
+
+export function describePromotionRules(rules: PromotionRules) {
+  const parts: string[] = [];
+  parts.push(
+    rules.promoteCount > 0
+      ? `Top ${rules.promoteCount} move up with a ${rules.promoteMinWinPct}%+ game win rate`
+      : 'Nobody moves up'
+  );
+  parts.push(
+    rules.relegateCount > 0
+      ? `bottom ${rules.relegateCount} move down at ${rules.relegateMaxWinPct}% or less`
+      : 'nobody moves down'
+  );
+  if (rules.minGames > 0) parts.push(`after at least ${rules.minGames} games`);
+  return parts.join(', ');
+}
+
+export function winPct(row: StandingsRow) {
+  return row.gamesPlayed > 0 ? Math.round((row.wins / row.gamesPlayed) * 100) : 0;
+}
+
+export type WeekProgress = { week: number; total: number; verified: number };
+
+// Regular-season weeks with their confirmed-score counts, oldest first
+export function weekProgress(matches: SavedMatch[], scores: Record<string, PersistedMatchScore>): WeekProgress[] {
+  const byWeek = new Map<number, WeekProgress>();
+  for (const m of matches) {
+    if (m.stage === 'playoff') continue;
+    const p = byWeek.get(m.week) ?? { week: m.week, total: 0, verified: 0 };
+    p.total += 1;
+    if (scores[m.id]?.verified) p.verified += 1;
+    byWeek.set(m.week, p);
+  }
+  return [...byWeek.values()].sort((a, b) => a.week - b.week);
+}
+
+// The latest week whose scores are all confirmed (null = none yet)
+export function lastCompleteWeek(progress: WeekProgress[]): number | null {
+  const done = progress.filter((p) => p.total > 0 && p.verified === p.total);
+  return done.length > 0 ? done[done.length - 1].week : null;
+}
+
+export type PromotionProposal = {
+  team: string;
+  direction: 'up' | 'down';
+  fromDivision: Division;
+  toDivision: Division;
+  effectiveWeek: number; // the week after the standings it's based on
+  rank: number;
+  divisionSize: number;
+  row: StandingsRow;
+  winPct: number;
+  reason: string; // the supporting numbers, e.g. "1st of 8 • 78% of games won (needs 65%+)"
+  eligible: boolean; // false = in the top/bottom spots but short of the win-rate rule (shown for context)
+  scheduled: DivisionMove | null; // a move already saved for after `week` (nothing to accept)
+};
+
+function ordinal(n: number) {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
+}
+
+/**
+ * Proposed moves from the standings through `week`: the top `promoteCount` of every division but
+ * the highest move up one, the bottom `relegateCount` of every division but the entry one move
+ * down one. Teams short of `minGames` (or that haven't played) are left out before picking, so an
+ * idle team never takes a relegation spot; teams short of the win rate come back with eligible = false.
+ */
+export function recommendMoves(
+  sections: StandingsSection[],
+  rules: PromotionRules,
+  moves: DivisionMove[],
+  week: number
+): PromotionProposal[] {
+  const order = divisionOrder();
+  const out: PromotionProposal[] = [];
+
+  for (const section of sections) {
+    const idx = order.indexOf(section.division);
+    if (idx < 0 || section.rows.length === 0) continue; // retired divisions never get proposals
+
+    const size = section.rows.length;
+    // rankStandings sorts teams without games last — they'd otherwise fill the bottom spots
+    const played = section.rows.filter((r) => r.row.gamesPlayed >= Math.max(rules.minGames, 1));
+    const up = idx > 0 ? played.slice(0, Math.min(rules.promoteCount, played.length)) : [];
+    const upTeams = new Set(up.map((r) => r.row.team));
+    // In a small division the same team can't be both: moving up wins
+    const down =
+      idx < order.length - 1
+        ? played.slice(Math.max(played.length - rules.relegateCount, 0)).filter((r) => !upTeams.has(r.row.team))
+        : [];
+
+    const propose = (ranked: (typeof section.rows)[number], direction: 'up' | 'down') => {
+      const { row, rank } = ranked;
+      const pct = winPct(row);
+      const meetsRate = direction === 'up' ? pct >= rules.promoteMinWinPct : pct <= rules.relegateMaxWinPct;
+      const rate =
+        direction === 'up'
+          ? `${pct}% of games won (needs ${rules.promoteMinWinPct}%+)`
+          : `${pct}% of games won (${rules.relegateMaxWinPct}% or less moves down)`;
+      const diff = pointDiff(row);
+
+      out.push({
+        team: row.team,
+        direction,
+        fromDivision: section.division,
+        toDivision: order[direction === 'up' ? idx - 1 : idx + 1],
+        effectiveWeek: week + 1,
+        rank,
+        divisionSize: size,
+        row,
+        winPct: pct,
+        reason: `${ordinal(rank)} of ${size} • ${row.wins}–${row.losses} in games • ${diff > 0 ? '+' : ''}${diff} points • ${rate}`,
+        eligible: meetsRate,
+        scheduled: moves.find((m) => normalizeName(m.team) === row.team && m.effectiveWeek > week) ?? null,
+      });
+    };
+
+    up.forEach((r) => propose(r, 'up'));
+    down.forEach((r) => propose(r, 'down'));
+  }
+
+  return out;
+}
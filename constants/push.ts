@@ -0,0 +1,94 @@
+// constants/push.ts
+// League-wide push notifications, app side: this device's token is registered in Supabase (push_tokens)
+// against the player/team picked here, and sends are requested from the api/push.ts server function,
+// which alone can read the registry (see constants/pushServer.ts).
+// EXPO_PUBLIC_PUSH_ENDPOINT_URL points native builds (and local testing) at that function.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+
+import { getAuthState } from './auth';
+import { loadIdentity } from './identity';
+import { getActiveSeasonId, upsertPushToken, type PersistedMatchScore, type SavedMatch } from './leagueData';
+import type { PushRequest, PushSendResult } from './pushServer';
+
+export type { PushSendResult } from './pushServer';
+
+export const PUSH_TOKEN_KEY = 'ppl_expo_push_token';
+
+// Push endpoint (api/push.ts on the web deployment). Native builds need EXPO_PUBLIC_PUSH_ENDPOINT_URL.
+function pushEndpointUrl(): string | null {
+  const configured = (process.env.EXPO_PUBLIC_PUSH_ENDPOINT_URL || '').trim();
+  if (configured) return configured;
+  if (Platform.OS === 'web' && typeof window !== 'undefined') return `${window.location.origin}/api/push`;
+  return null;
+}
+
+// =============================
+// ✅ Registry (this device)
+// =============================
+
+// Saves this device's token and tags it with the current Team screen pick
+export async function registerPushToken(token: string): Promise<void> {
+  await AsyncStorage.setItem(PUSH_TOKEN_KEY, token);
+  await syncPushRegistration();
+}
+
+// Re-tags the stored token after the team/player pick changes (best effort, silent offline)
+export async function syncPushRegistration(): Promise<void> {
+  try {
+    const token = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
+    if (!token) return;
+    const me = await loadIdentity();
+    await upsertPushToken({
+      token,
+      playerId: me?.playerId ?? null,
+      playerName: me?.playerName ?? null,
+      teamId: me?.teamId ?? null,
+      team: me?.team ?? null,
+      platform: Platform.OS,
+    });
+  } catch {
+    // offline: registered again on next launch
+  }
+}
+
+// =============================
+// ✅ Sending (through api/push.ts)
+// =============================
+async function requestPush(req: PushRequest): Promise<PushSendResult> {
+  const url = pushEndpointUrl();
+  if (!url) throw new Error('Push endpoint is not configured (EXPO_PUBLIC_PUSH_ENDPOINT_URL).');
+
+  // Admin sends are checked against the signed-in user's roles
+  const { session } = await getAuthState();
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      ...(session ? { Authorization: `Bearer ${session.accessToken}` } : {}),
+    },
+    body: JSON.stringify(req),
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(json?.error || `Push request failed (${res.status})`);
+  return { sent: Number(json?.sent) || 0, failed: Number(json?.failed) || 0, pruned: Number(json?.pruned) || 0 };
+}
+
+export function notifyAnnouncement(message: string): Promise<PushSendResult> {
+  return requestPush({ kind: 'announcement', message });
+}
+
+// Newly published matches: each team gets its own times and opponents (built server-side from the saved matches)
+export function notifySchedulePublished(matches: SavedMatch[]): Promise<PushSendResult> {
+  if (matches.length === 0) return Promise.resolve({ sent: 0, failed: 0, pruned: 0 });
+  return requestPush({ kind: 'schedule', season: getActiveSeasonId(), matchIds: matches.map((m) => m.id) });
+}
+
+// After a score save syncs: the server reads the saved score and tells the team that has to act
+// (needs a signed-in scorekeeper or player in the match; each saved change is announced once)
+export async function notifyScoreSaved(score: PersistedMatchScore): Promise<PushSendResult | null> {
+  if (!score.submittedByTeam) return null;
+  return requestPush({ kind: 'score', season: getActiveSeasonId(), matchId: score.matchId });
+}
@@ -0,0 +1,333 @@
+// constants/pushServer.ts
+// Push sending, run by the api/push.ts Vercel function with the service-role key: reads the device
+// registry (push_tokens), fans messages out through a transport and prunes dead tokens.
+// Apps never see tokens; they ask the endpoint for one of the PushRequest kinds below.
+// The default transport is Expo's push service; PUSH_API_URL (or setPushTransport) points it at a
+// local fake for testing. No React Native imports: Vercel bundles this, not Metro.
+
+import {
+  deletePushTickets,
+  deletePushTokens,
+  fetchMatchScores,
+  fetchMatches,
+  fetchPlayers,
+  fetchPushTickets,
+  fetchPushTokens,
+  fetchRolesForEmail,
+  fetchTeamMemberships,
+  fetchTeamsByDivision,
+  insertPushTickets,
+  type PersistedMatchScore,
+  type PushToken,
+  type SavedMatch,
+} from './leagueData';
+import { opposingTeam } from './scoreConfirmation';
+
+export const PUSH_API_URL = (process.env.PUSH_API_URL || '').trim() || 'https://exp.host/--/api/v2/push';
+
+// Expo accepts at most 100 messages per send and 1000 ids per receipt request
+const SEND_CHUNK = 100;
+const RECEIPT_CHUNK = 1000;
+
+// Receipts are checked for tickets at least this old (Expo needs a few minutes to deliver)
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+const RECEIPT_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+export type PushMessage = {
+  to: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  sound?: 'default';
+};
+
+// Ticket = the push service accepted (or rejected) a message; receipt = what happened on delivery
+export type PushTicketResult =
+  | { status: 'ok'; id: string }
+  | { status: 'error'; message: string; details?: { error?: string } };
+
+export type PushReceipt = { status: 'ok' } | { status: 'error'; message: string; details?: { error?: string } };
+
+export type PushTransport = {
+  send(messages: PushMessage[]): Promise<PushTicketResult[]>;
+  getReceipts(ticketIds: string[]): Promise<Record<string, PushReceipt>>;
+};
+
+// Who a notification goes to (team names match the Team screen pick)
+export type PushAudience = { kind: 'all' } | { kind: 'teams'; teams: string[] };
+
+export type PushSendResult = {
+  sent: number;
+  failed: number;
+  pruned: number; // dead tokens removed from the registry
+};
+
+// What an app can ask api/push.ts to send. Messages are built here from server data, never by the app.
+export type PushRequest =
+  | { kind: 'announcement'; message: string } // league_admin only
+  | { kind: 'schedule'; season: string; matchIds: string[] } // league_admin only
+  | { kind: 'score'; season: string; matchId: string }; // a scorekeeper or a player in the match
+
+function normalizeName(s: string) {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+function chunk<T>(list: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < list.length; i += size) out.push(list.slice(i, i + size));
+  return out;
+}
+
+export function shorten(text: string, max = 120) {
+  return text.length > max ? text.slice(0, max - 3) + '...' : text;
+}
+
+// The app is uninstalled / the token was revoked — the token will never work again
+function isDeadToken(result: { details?: { error?: string } }) {
+  return result.details?.error === 'DeviceNotRegistered';
+}
+
+// =============================
+// ✅ Transport
+// =============================
+export function expoPushTransport(baseUrl = PUSH_API_URL): PushTransport {
+  const post = async (path: string, body: unknown) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(`Push ${path} failed: ${res.status} ${json?.errors?.[0]?.message ?? ''}`.trim());
+    return json;
+  };
+
+  return {
+    async send(messages) {
+      const json = await post('/send', messages);
+      return Array.isArray(json?.data) ? json.data : [];
+    },
+    async getReceipts(ticketIds) {
+      const json = await post('/getReceipts', { ids: ticketIds });
+      return json?.data && typeof json.data === 'object' ? json.data : {};
+    },
+  };
+}
+
+let transport: PushTransport = expoPushTransport();
+
+export function setPushTransport(next: PushTransport) {
+  transport = next;
+}
+
+// =============================
+// ✅ Sending
+// =============================
+export function tokensForAudience(tokens: PushToken[], audience: PushAudience): PushToken[] {
+  if (audience.kind === 'all') return tokens;
+  const teams = new Set(audience.teams.map(normalizeName));
+  return tokens.filter((t) => t.team && teams.has(normalizeName(t.team)));
+}
+
+/**
+ * Sends one message per token. Tickets rejected as DeviceNotRegistered prune the token right away;
+ * accepted tickets are stored so checkPushReceipts() can prune tokens that fail on delivery.
+ */
+export async function sendPush(messages: PushMessage[]): Promise<PushSendResult> {
+  const result: PushSendResult = { sent: 0, failed: 0, pruned: 0 };
+  if (messages.length === 0) return result;
+
+  const dead: string[] = [];
+  const tickets: { ticketId: string; token: string }[] = [];
+
+  for (const batch of chunk(messages, SEND_CHUNK)) {
+    let sentTickets: PushTicketResult[];
+    try {
+      sentTickets = await transport.send(batch);
+    } catch {
+      result.failed += batch.length;
+      continue;
+    }
+
+    batch.forEach((msg, i) => {
+      const t = sentTickets[i];
+      if (t?.status === 'ok') {
+        result.sent += 1;
+        tickets.push({ ticketId: t.id, token: msg.to });
+      } else {
+        result.failed += 1;
+        if (t && isDeadToken(t)) dead.push(msg.to);
+      }
+    });
+  }
+
+  // The messages are already out: a failed cleanup is retried with the next receipt check
+  try {
+    await deletePushTokens(dead);
+    result.pruned = dead.length;
+  } catch {
+    // ignore
+  }
+  await insertPushTickets(tickets).catch(() => undefined);
+  return result;
+}
+
+/**
+ * Looks up delivery receipts for tickets old enough to have them, prunes tokens that came back
+ * DeviceNotRegistered and forgets the checked tickets. Returns how many tokens were pruned.
+ */
+export async function checkPushReceipts(now = Date.now()): Promise<number> {
+  const tickets = await fetchPushTickets(new Date(now - RECEIPT_DELAY_MS).toISOString());
+  if (tickets.length === 0) return 0;
+
+  const ticketById = new Map(tickets.map((t) => [t.ticketId, t]));
+  const dead = new Set<string>();
+  const checked: string[] = [];
+
+  for (const ids of chunk(Array.from(ticketById.keys()), RECEIPT_CHUNK)) {
+    const receipts = await transport.getReceipts(ids);
+    for (const id of ids) {
+      const r = receipts[id];
+      const ticket = ticketById.get(id)!;
+      // No receipt yet: try again next time, until Expo's receipt window has passed
+      if (!r && now - Date.parse(ticket.createdAt) < RECEIPT_EXPIRY_MS) continue;
+      checked.push(id);
+      if (r?.status === 'error' && isDeadToken(r)) dead.add(ticket.token);
+    }
+  }
+
+  await deletePushTokens(Array.from(dead));
+  await deletePushTickets(checked);
+  return dead.size;
+}
+
+// Fans one title/body out to every registered device in the audience
+export async function notifyAudience(
+  audience: PushAudience,
+  title: string,
+  body: string,
+  data?: Record<string, unknown>
+): Promise<PushSendResult> {
+  await checkPushReceipts().catch(() => 0);
+  const tokens = tokensForAudience(await fetchPushTokens(), audience);
+  return sendPush(tokens.map((t) => ({ to: t.token, title, body, data, sound: 'default' })));
+}
+
+export function sendAnnouncement(message: string): Promise<PushSendResult> {
+  return notifyAudience({ kind: 'all' }, 'PPL Admin Announcement', shorten(message), { type: 'announcement' });
+}
+
+/**
+ * Newly published matches: each team gets its own times and opponents
+ * ("Week 3: 6:15 PM Court 2 vs Mark P/Matt O"); more than a week at once gets one summary line.
+ */
+export async function sendSchedulePublished(matches: SavedMatch[]): Promise<PushSendResult> {
+  if (matches.length === 0) return { sent: 0, failed: 0, pruned: 0 };
+  await checkPushReceipts().catch(() => 0);
+
+  const weeks = Array.from(new Set(matches.map((m) => m.week))).sort((a, b) => a - b);
+  const title = weeks.length === 1 ? `Week ${weeks[0]} schedule is out` : 'New schedule posted';
+
+  const linesByTeam = new Map<string, string[]>();
+  for (const m of matches) {
+    for (const [team, other] of [
+      [m.teamA, m.teamB],
+      [m.teamB, m.teamA],
+    ]) {
+      const key = normalizeName(team);
+      if (!linesByTeam.has(key)) linesByTeam.set(key, []);
+      linesByTeam.get(key)!.push(`${m.time} Court ${m.court} vs ${other}`);
+    }
+  }
+
+  const tokens = tokensForAudience(await fetchPushTokens(), { kind: 'teams', teams: Array.from(linesByTeam.keys()) });
+  const messages = tokens.map((t) => {
+    const lines = linesByTeam.get(normalizeName(t.team ?? '')) ?? [];
+    const body =
+      weeks.length === 1
+        ? `Week ${weeks[0]}: ${lines.join(' • ')}`
+        : `Weeks ${weeks[0]}–${weeks[weeks.length - 1]} are on the Schedule tab (${lines.length} matches for your team).`;
+    return { to: t.token, title, body: shorten(body, 178), data: { type: 'schedule', weeks }, sound: 'default' as const };
+  });
+
+  return sendPush(messages);
+}
+
+// After a score save syncs: tell the team that has to act (or the team whose submission was answered)
+export async function sendScoreSaved(match: SavedMatch, score: PersistedMatchScore): Promise<PushSendResult | null> {
+  if (!score.submittedByTeam) return null;
+
+  const vs = `${match.teamA} vs ${match.teamB} (Week ${match.week})`;
+  const data = { type: 'score', matchId: match.id };
+
+  switch (score.status) {
+    case 'submitted': {
+      const opponent = opposingTeam(match, score.submittedByTeam);
+      if (!opponent) return null;
+      return notifyAudience(
+        { kind: 'teams', teams: [opponent] },
+        'Confirm your scores',
+        `${score.submittedByTeam} submitted scores for ${vs}. Open Scoring to confirm or dispute.`,
+        data
+      );
+    }
+    case 'confirmed':
+      return notifyAudience(
+        { kind: 'teams', teams: [score.submittedByTeam] },
+        'Scores confirmed',
+        `${vs} is confirmed and counts in the standings.`,
+        data
+      );
+    case 'disputed':
+      return notifyAudience(
+        { kind: 'teams', teams: [score.submittedByTeam] },
+        'Scores disputed',
+        `${score.dispute?.team ?? 'Your opponent'} disputed the scores for ${vs}. A league admin will decide.`,
+        data
+      );
+    default:
+      return null;
+  }
+}
+
+// Schedule + score requests: the matches / score are read from Supabase, not taken from the app
+export async function loadScheduleMatches(season: string, matchIds: string[]): Promise<SavedMatch[]> {
+  const ids = new Set(matchIds);
+  return (await fetchMatches(season)).filter((m) => ids.has(m.id));
+}
+
+export async function loadSavedScore(
+  season: string,
+  matchId: string
+): Promise<{ match: SavedMatch; score: PersistedMatchScore } | null> {
+  const [matches, scores] = await Promise.all([fetchMatches(season), fetchMatchScores(season)]);
+  const match = matches.find((m) => m.id === matchId);
+  const score = scores[matchId];
+  return match && score ? { match, score } : null;
+}
+
+// Scorekeepers (and admins), or someone who plays in the match: a team role for either team,
+// or an open roster spot (players.email → team_players) on one of them that season
+export async function isScoreParticipant(email: string, season: string, match: SavedMatch): Promise<boolean> {
+  const teams = new Set([match.teamA, match.teamB].map(normalizeName));
+
+  const roles = await fetchRolesForEmail(email);
+  if (roles.some((r) => r.role === 'scorekeeper' || r.role === 'league_admin')) return true;
+  if (roles.some((r) => (r.role === 'player' || r.role === 'captain') && r.team && teams.has(normalizeName(r.team)))) {
+    return true;
+  }
+
+  const [players, memberships, teamsByDivision] = await Promise.all([
+    fetchPlayers(),
+    fetchTeamMemberships(season),
+    fetchTeamsByDivision(season),
+  ]);
+  const playerIds = new Set(players.filter((p) => p.email === email).map((p) => p.id));
+  const teamIds = new Set(
+    Object.values(teamsByDivision)
+      .flat()
+      .filter((t) => teams.has(normalizeName(t.name)))
+      .map((t) => t.id)
+  );
+  return memberships.some((m) => m.leftAt === null && playerIds.has(m.playerId) && teamIds.has(m.teamId));
+}
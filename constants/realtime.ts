@@ -0,0 +1,80 @@
+// constants/realtime.ts
+// Supabase Realtime subscriptions (postgres_changes) on a supabase-js client built from the same
+// config as the REST calls (constants/supabase.ts), joined with the signed-in user's JWT so RLS applies.
+// One channel per table no matter how many screens listen; the channel closes when the last listener leaves.
+// NOTE: each table must be in the `supabase_realtime` publication for events to arrive.
+
+import { createClient, type RealtimeChannel, type RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+
+import { SUPABASE_ANON_KEY, SUPABASE_URL, getSupabaseAccessToken } from './supabase';
+
+export type LiveTable = 'match_scores' | 'matches' | 'match_subs' | 'rsvps' | 'attendance' | 'announcements';
+
+export type LiveChange = {
+  table: LiveTable;
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  newRow: Record<string, any>;
+  oldRow: Record<string, any>;
+};
+
+type LiveListener = (change: LiveChange) => void;
+
+const listenersByTable = new Map<LiveTable, Set<LiveListener>>();
+const channelsByTable = new Map<LiveTable, RealtimeChannel>();
+
+// Realtime only: sign-in lives in constants/auth.ts, so the client just asks for its current JWT
+// (re-read on every heartbeat, which picks up refreshed tokens; null = anon key)
+let client: ReturnType<typeof createClient> | null = null;
+
+function realtimeClient() {
+  if (!client) {
+    client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      accessToken: async () => getSupabaseAccessToken(),
+    });
+  }
+  return client;
+}
+
+function openChannel(table: LiveTable) {
+  const channel = realtimeClient()
+    .channel(`ppl-live-${table}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table }, (payload: RealtimePostgresChangesPayload<any>) => {
+      const change: LiveChange = {
+        table,
+        eventType: payload.eventType,
+        newRow: (payload.new ?? {}) as Record<string, any>,
+        oldRow: (payload.old ?? {}) as Record<string, any>,
+      };
+      for (const listener of listenersByTable.get(table) ?? []) listener(change);
+    })
+    .subscribe();
+
+  channelsByTable.set(table, channel);
+}
+
+// Returns an unsubscribe function
+export function subscribeToTable(table: LiveTable, listener: LiveListener): () => void {
+  let listeners = listenersByTable.get(table);
+  if (!listeners) {
+    listeners = new Set();
+    listenersByTable.set(table, listeners);
+  }
+
+  listeners.add(listener);
+  if (!channelsByTable.has(table)) {
+    try {
+      openChannel(table);
+    } catch {
+      // no Realtime → screens keep working from their own loads, just without live updates
+    }
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size > 0) return;
+
+    const channel = channelsByTable.get(table);
+    channelsByTable.delete(table);
+    if (channel && client) void client.removeChannel(channel);
+  };
+}
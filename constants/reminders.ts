@@ -0,0 +1,160 @@
+// constants/reminders.ts
+// Opt-in local reminders before each of my team's matches (expo-notifications, native only).
+// syncMatchReminders() diffs what should be scheduled against what is, so edited matches are
+// rescheduled and deleted ones cancelled the next time it runs.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import { loadIdentity } from './identity';
+import { matchStartsAt } from './leagueCalendar';
+import { fetchMatches, fetchSeasonSettings, getActiveSeasonId, type SavedMatch } from './leagueData';
+import { opposingTeam } from './scoreConfirmation';
+
+const STORAGE_KEY_REMINDERS = 'ppl_match_reminders_v1';
+
+// Marks our notifications so other scheduled ones are never touched
+const REMINDER_KIND = 'match-reminder';
+
+export type ReminderSettings = {
+  enabled: boolean;
+  offsets: number[]; // minutes before the match
+};
+
+export const REMINDER_OFFSET_CHOICES = [1440, 120, 60, 30, 15];
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = { enabled: false, offsets: [120, 15] };
+
+export type ReminderSyncResult = {
+  scheduled: number; // reminders now pending on this device
+  skipped: string | null; // why nothing could be scheduled (no Week 1 date, web, …)
+};
+
+// 1440 → "1 day", 120 → "2 hours", 15 → "15 minutes"
+export function offsetLabel(minutes: number) {
+  if (minutes % 1440 === 0) return `${minutes / 1440} day${minutes === 1440 ? '' : 's'}`;
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `${minutes} minutes`;
+}
+
+export async function loadReminderSettings(): Promise<ReminderSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY_REMINDERS);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!parsed || typeof parsed !== 'object') return DEFAULT_REMINDER_SETTINGS;
+    const offsets = Array.isArray(parsed.offsets)
+      ? parsed.offsets.map(Number).filter((n: number) => Number.isFinite(n) && n > 0)
+      : DEFAULT_REMINDER_SETTINGS.offsets;
+    return { enabled: parsed.enabled === true, offsets };
+  } catch {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+}
+
+export async function saveReminderSettings(settings: ReminderSettings): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY_REMINDERS, JSON.stringify(settings));
+}
+
+type PlannedReminder = {
+  identifier: string;
+  fireAt: Date;
+  title: string;
+  body: string;
+  signature: string; // changes when anything the player would see changes
+};
+
+function planReminders(
+  matches: SavedMatch[],
+  team: string,
+  week1Date: string | null,
+  offsets: number[],
+  now: number
+): PlannedReminder[] {
+  const out: PlannedReminder[] = [];
+  for (const m of matches) {
+    const opponent = opposingTeam(m, team);
+    const startsAt = opponent ? matchStartsAt(m, week1Date) : null;
+    if (!opponent || !startsAt) continue;
+
+    for (const offset of offsets) {
+      const fireAt = new Date(startsAt.getTime() - offset * 60 * 1000);
+      if (fireAt.getTime() <= now) continue;
+
+      const title = `Match in ${offsetLabel(offset)}`;
+      const body = `${m.time} • Court ${m.court} vs ${opponent}`;
+      out.push({
+        identifier: `ppl-match-${m.id}-${offset}`,
+        fireAt,
+        title,
+        body,
+        signature: `${fireAt.getTime()}|${title}|${body}`,
+      });
+    }
+  }
+  return out;
+}
+
+async function scheduledReminders() {
+  const all = await Notifications.getAllScheduledNotificationsAsync();
+  return all.filter((n) => n.content.data?.kind === REMINDER_KIND);
+}
+
+export async function cancelAllMatchReminders(): Promise<void> {
+  if (Platform.OS === 'web') return;
+  for (const n of await scheduledReminders()) {
+    await Notifications.cancelScheduledNotificationAsync(n.identifier);
+  }
+}
+
+/**
+ * Brings this device's reminders in line with the current schedule: cancels reminders for matches
+ * that were deleted, moved or no longer involve my team, and schedules the missing ones.
+ */
+export async function syncMatchReminders(now = Date.now()): Promise<ReminderSyncResult> {
+  if (Platform.OS === 'web') return { scheduled: 0, skipped: 'Reminders work in the phone app only.' };
+
+  const settings = await loadReminderSettings();
+  const me = await loadIdentity();
+  if (!settings.enabled || !me || settings.offsets.length === 0) {
+    await cancelAllMatchReminders();
+    return { scheduled: 0, skipped: null };
+  }
+
+  const [matches, seasonSettings] = await Promise.all([
+    fetchMatches(),
+    fetchSeasonSettings(getActiveSeasonId()).catch(() => null),
+  ]);
+  const week1Date = seasonSettings?.week1Date ?? null;
+  if (!week1Date) {
+    await cancelAllMatchReminders();
+    return { scheduled: 0, skipped: 'The league hasn’t set its league night dates yet.' };
+  }
+
+  const planned = planReminders(matches, me.team, week1Date, settings.offsets, now);
+  const plannedById = new Map(planned.map((p) => [p.identifier, p]));
+
+  const existing = await scheduledReminders();
+  const keep = new Set<string>();
+  for (const n of existing) {
+    const want = plannedById.get(n.identifier);
+    if (want && n.content.data?.signature === want.signature) keep.add(n.identifier);
+    else await Notifications.cancelScheduledNotificationAsync(n.identifier);
+  }
+
+  for (const p of planned) {
+    if (keep.has(p.identifier)) continue;
+    await Notifications.scheduleNotificationAsync({
+      identifier: p.identifier,
+      content: {
+        title: p.title,
+        body: p.body,
+        sound: 'default',
+        data: { kind: REMINDER_KIND, signature: p.signature },
+      },
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: p.fireAt },
+    });
+  }
+
+  return { scheduled: planned.length, skipped: null };
+}
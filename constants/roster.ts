@@ -0,0 +1,176 @@
+// constants/roster.ts
+// Teams with their players for a season: Supabase teams + team_players memberships, merged with the
+// hardcoded baseline. Teams without player records yet fall back to splitting "Name/Name".
+
+import {
+  divisionOrder,
+  addTeamMembers,
+  endTeamMembership,
+  fetchPlayers,
+  fetchTeamMemberships,
+  fetchTeamsByDivision,
+  getActiveSeasonId,
+  insertPlayers,
+  insertTeam,
+  sortDivisions,
+  type Division,
+  type Player,
+  type TeamMembership,
+} from './leagueData';
+import { baselineTeamsFor } from './seasons';
+
+// id null = no player record yet (name taken from the team string)
+export type RosterPlayer = {
+  id: string | null;
+  name: string;
+  membershipId: string | null; // the open team_players row
+};
+
+export type RosterTeam = {
+  id: string | null; // null = baseline team that isn't in the teams table yet
+  division: Division;
+  name: string;
+  players: RosterPlayer[]; // current players
+  history: { player: Player; membership: TeamMembership }[]; // players who have left
+};
+
+export type Roster = {
+  teamsByDivision: Record<Division, RosterTeam[]>;
+  players: Player[]; // every player record (all seasons)
+};
+
+function normalizeName(s: string) {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+// Legacy "Mark P/Matt O" → ["Mark P", "Matt O"]
+export function splitTeamName(name: string): string[] {
+  return normalizeName(name)
+    .split('/')
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// Default display name for a new team: "Chris/Mike"
+export function teamNameFromPlayers(names: string[]) {
+  return names.map(normalizeName).filter(Boolean).join('/');
+}
+
+// false = players are still only derived from the team name
+export function hasPlayerRecords(team: RosterTeam) {
+  return team.players.some((p) => p.id != null) || team.history.length > 0;
+}
+
+export async function loadRoster(season = getActiveSeasonId()): Promise<Roster> {
+  const [dbTeams, players, memberships] = await Promise.all([
+    fetchTeamsByDivision(season),
+    fetchPlayers(),
+    fetchTeamMemberships(season),
+  ]);
+
+  const playerById = new Map(players.map((p) => [p.id, p]));
+  const baseline = baselineTeamsFor(season);
+
+  const teamsByDivision: Record<Division, RosterTeam[]> = {};
+
+  // Active divisions always get a list; inactive ones only when they still have teams
+  for (const division of sortDivisions([...divisionOrder(), ...Object.keys(baseline), ...Object.keys(dbTeams)])) {
+    const byName = new Map<string, RosterTeam>();
+
+    for (const name of baseline[division] ?? []) {
+      byName.set(name, { id: null, division, name, players: [], history: [] });
+    }
+    for (const t of dbTeams[division] ?? []) {
+      const existing = byName.get(t.name);
+      if (existing) existing.id = existing.id ?? t.id;
+      else byName.set(t.name, { id: t.id, division, name: t.name, players: [], history: [] });
+    }
+
+    for (const team of byName.values()) {
+      const stints = team.id ? memberships.filter((m) => m.teamId === team.id) : [];
+      for (const m of stints) {
+        const player = playerById.get(m.playerId);
+        if (!player) continue;
+        if (m.leftAt == null) team.players.push({ id: player.id, name: player.name, membershipId: m.id });
+        else team.history.push({ player, membership: m });
+      }
+
+      // No memberships yet: derive players from the team name (pre-roster teams)
+      if (stints.length === 0) {
+        team.players = splitTeamName(team.name).map((name) => ({ id: null, name, membershipId: null }));
+      }
+    }
+
+    teamsByDivision[division] = Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return { teamsByDivision, players };
+}
+
+export function findRosterTeam(roster: Roster, name: string): RosterTeam | null {
+  const key = normalizeName(name);
+  for (const list of Object.values(roster.teamsByDivision)) {
+    const t = list.find((x) => x.name === key);
+    if (t) return t;
+  }
+  return null;
+}
+
+// Baseline teams only get a teams row once something needs to reference them by id
+export async function ensureTeamRow(team: RosterTeam): Promise<string> {
+  if (team.id) return team.id;
+  const created = await insertTeam(team.division, team.name);
+  if (!created) throw new Error(`Could not create a team record for "${team.name}".`);
+  return created.id;
+}
+
+/**
+ * Creates a team and its roster. `players` are existing player records or names of new players
+ * (a new Player record is created for each name — two people can share a first name).
+ */
+export async function createTeamWithPlayers(
+  division: Division,
+  teamName: string,
+  players: (Player | string)[]
+): Promise<void> {
+  const team = await insertTeam(division, normalizeName(teamName));
+  if (!team) throw new Error(`Could not create "${teamName}".`);
+
+  const newNames = players.filter((p): p is string => typeof p === 'string').map(normalizeName).filter(Boolean);
+  const created = await insertPlayers(newNames);
+  const ids = [...players.filter((p): p is Player => typeof p !== 'string').map((p) => p.id), ...created.map((p) => p.id)];
+
+  await addTeamMembers(team.id, ids);
+}
+
+export async function addPlayerToTeam(team: RosterTeam, player: Player | string): Promise<void> {
+  const teamId = await ensureTeamRow(team);
+  const playerId = typeof player === 'string' ? (await insertPlayers([normalizeName(player)]))[0]?.id : player.id;
+  if (!playerId) throw new Error('Could not create the player record.');
+  await addTeamMembers(teamId, [playerId]);
+}
+
+// The player stays in team history (membership is closed, not deleted)
+export async function removePlayerFromTeam(player: RosterPlayer): Promise<void> {
+  if (!player.membershipId) throw new Error(`Create player records for this team before removing ${player.name}.`);
+  await endTeamMembership(player.membershipId);
+}
+
+/**
+ * One-time migration for teams still identified only by "Name/Name": creates the team row
+ * (baseline teams), a player record per name, and the memberships. Returns how many teams changed.
+ */
+export async function backfillRosterPlayers(roster: Roster): Promise<number> {
+  let changed = 0;
+  for (const list of Object.values(roster.teamsByDivision)) {
+    for (const team of list) {
+      if (team.players.length === 0 || hasPlayerRecords(team)) continue;
+
+      const teamId = await ensureTeamRow(team);
+      const created = await insertPlayers(team.players.map((p) => p.name));
+      await addTeamMembers(teamId, created.map((p) => p.id));
+      changed += 1;
+    }
+  }
+  return changed;
+}
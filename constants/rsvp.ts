@@ -0,0 +1,147 @@
+// constants/rsvp.ts
+// Weekly availability: each player answers in / out / maybe for a week, and the team's attendance row
+// (what the Schedule Builder reads) is derived from those answers unless an admin set it by hand.
+
+import type { Identity } from './identity';
+import {
+  fetchAttendanceForWeek,
+  fetchRsvpsForWeek,
+  upsertAttendance,
+  upsertRsvp,
+  type Rsvp,
+  type RsvpCutoff,
+  type RsvpStatus,
+} from './leagueData';
+import { findRosterTeam, loadRoster, splitTeamName } from './roster';
+
+export const RSVP_LABELS: Record<RsvpStatus, string> = { in: 'In', out: 'Out', maybe: 'Maybe' };
+
+// Weeks stay listed for players this long after their cutoff (late changes still update attendance)
+export const RSVP_LATE_WINDOW_MS = 2 * 24 * 60 * 60 * 1000;
+
+// pending = at least one player hasn't answered (and nobody is out)
+export type TeamRsvpStatus = 'in' | 'out' | 'maybe' | 'pending';
+
+export type TeamRsvpSummary = {
+  team: string;
+  status: TeamRsvpStatus;
+  answers: { playerName: string; status: RsvpStatus | null }[];
+  unanswered: string[];
+};
+
+function normalizeName(s: string) {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+export function summarizeTeamRsvps(team: string, playerNames: string[], rsvps: Rsvp[]): TeamRsvpSummary {
+  const key = normalizeName(team);
+  const byPlayer = new Map<string, RsvpStatus>();
+  for (const r of rsvps) if (normalizeName(r.team) === key) byPlayer.set(r.playerName, r.status);
+
+  // Roster order first, then anyone who answered under a name that's no longer on the roster
+  const names = [...playerNames, ...Array.from(byPlayer.keys()).filter((n) => !playerNames.includes(n))];
+  const answers = names.map((playerName) => ({ playerName, status: byPlayer.get(playerName) ?? null }));
+  const unanswered = answers.filter((a) => a.status == null).map((a) => a.playerName);
+
+  let status: TeamRsvpStatus = 'in';
+  if (answers.some((a) => a.status === 'out')) status = 'out';
+  else if (unanswered.length > 0 || answers.length === 0) status = 'pending';
+  else if (answers.some((a) => a.status === 'maybe')) status = 'maybe';
+
+  return { team: key, status, answers, unanswered };
+}
+
+// A team is only marked out when a player says so — maybe / no answer keeps it on the schedule
+export function derivedPresent(summary: TeamRsvpSummary) {
+  return summary.status !== 'out';
+}
+
+export function cutoffMs(cutoff: RsvpCutoff | null | undefined): number | null {
+  if (!cutoff) return null;
+  const ms = Date.parse(cutoff.cutoffAt);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+export function isPastCutoff(cutoff: RsvpCutoff | null | undefined, now = Date.now()) {
+  const ms = cutoffMs(cutoff);
+  return ms != null && now > ms;
+}
+
+// Flagged for the admin: the cutoff has passed and the team still hasn't fully answered
+export function isFlagged(summary: TeamRsvpSummary, cutoff: RsvpCutoff | null | undefined, now = Date.now()) {
+  return summary.status === 'pending' && isPastCutoff(cutoff, now);
+}
+
+// Weeks players can RSVP for: the admin set a cutoff and it isn't long past
+export function openRsvpWeeks(cutoffs: RsvpCutoff[], now = Date.now()): RsvpCutoff[] {
+  return cutoffs
+    .filter((c) => {
+      const ms = cutoffMs(c);
+      return ms != null && now <= ms + RSVP_LATE_WINDOW_MS;
+    })
+    .sort((a, b) => a.week - b.week);
+}
+
+// "2026-10-20 17:00" (local time) → ISO; null when it doesn't parse
+export function parseCutoffInput(text: string): string | null {
+  const m = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2}))?$/.exec(text.trim());
+  if (!m) return null;
+  const [, y, mo, d, h = '12', mi = '00'] = m;
+  const date = new Date(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi));
+  return Number.isFinite(date.getTime()) ? date.toISOString() : null;
+}
+
+// ISO → "2026-10-20 17:00" (local time), the same format parseCutoffInput reads
+export function formatCutoffInput(iso: string): string {
+  const date = new Date(iso);
+  if (!Number.isFinite(date.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+async function teamPlayerNames(team: string): Promise<string[]> {
+  try {
+    const rosterTeam = findRosterTeam(await loadRoster(), team);
+    if (rosterTeam) return rosterTeam.players.map((p) => p.name);
+  } catch {
+    // fall through to the names in the team string
+  }
+  return splitTeamName(team);
+}
+
+/**
+ * Re-derives one team's attendance row from its RSVPs. A row an admin set by hand is left alone
+ * unless `force` (the admin's "Use RSVPs"). Returns false when an admin override was kept.
+ */
+export async function syncTeamAttendance(
+  week: number,
+  team: string,
+  teamId: string | null,
+  force = false
+): Promise<boolean> {
+  const [rsvps, attendance, players] = await Promise.all([
+    fetchRsvpsForWeek(week),
+    fetchAttendanceForWeek(week),
+    teamPlayerNames(team),
+  ]);
+
+  const existing = attendance.find((a) => a.team === normalizeName(team));
+  if (existing?.source === 'admin' && !force) return false;
+
+  const summary = summarizeTeamRsvps(team, players, rsvps);
+  await upsertAttendance(week, normalizeName(team), derivedPresent(summary), teamId ?? existing?.teamId ?? null, 'rsvp');
+  return true;
+}
+
+// Saves this device's player's answer, then updates the team's attendance from it
+export async function submitRsvp(identity: Identity, week: number, status: RsvpStatus): Promise<boolean> {
+  await upsertRsvp({
+    week,
+    team: identity.team,
+    teamId: identity.teamId,
+    playerId: identity.playerId,
+    playerName: identity.playerName,
+    status,
+  });
+  return syncTeamAttendance(week, identity.team, identity.teamId);
+}
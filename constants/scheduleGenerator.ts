@@ -0,0 +1,522 @@
+// constants/scheduleGenerator.ts
+// Round-robin week generator for the Schedule Builder (pure logic — no Supabase / storage access)
+
+import { matchTimeMinutes } from './leagueCalendar';
+
+export type GeneratedMatch<D extends string = string> = {
+  week: number;
+  division: D;
+  time: string;
+  court: number;
+  teamA: string;
+  teamB: string;
+};
+
+// Any match already saved this season (used to avoid rematches)
+export type PastMatchup = {
+  week: number;
+  teamA: string;
+  teamB: string;
+};
+
+// A match already saved in the week being generated (its court/time is taken)
+export type BookedSlot = {
+  time: string;
+  court: number;
+  teamA: string;
+  teamB: string;
+};
+
+export type WeekGeneratorInput<D extends string = string> = {
+  week: number;
+  // PRESENT teams only, in the order divisions should get courts
+  divisions: { division: D; teams: string[] }[];
+  times: string[];
+  courts: number[];
+  matchesPerTeam: number;
+  // How many TIMES entries one round occupies (1 = every 15 minutes)
+  slotsPerRound?: number;
+  startTime?: string;
+  history: PastMatchup[];
+  booked?: BookedSlot[];
+  // Higher = team should get an earlier slot this week (used by the season planner)
+  slotBias?: (team: string) => number;
+  // Lower = better court for this team (used by the season planner to rotate courts)
+  courtCost?: (team: string, court: number) => number;
+};
+
+export type WeekGeneratorBye<D extends string = string> = {
+  division: D;
+  team: string;
+  round: number;
+};
+
+export type WeekGeneratorResult<D extends string = string> = {
+  matches: GeneratedMatch<D>[];
+  byes: WeekGeneratorBye<D>[];
+  rematches: number; // generated matches whose teams already met this season
+  warnings: string[];
+};
+
+const BYE = '__BYE__';
+
+// Stop the exact pairing search after this many nodes and keep the best found so far
+const PAIRING_SEARCH_BUDGET = 200000;
+
+// Minutes between TIMES entries (the smallest gap; 15 when it can't be read)
+function timeStepMinutes(times: string[]) {
+  const mins = times.map(matchTimeMinutes).filter((m) => m !== Number.MAX_SAFE_INTEGER);
+  let step = Infinity;
+  for (let i = 1; i < mins.length; i++) {
+    const gap = mins[i] - mins[i - 1];
+    if (gap > 0 && gap < step) step = gap;
+  }
+  return Number.isFinite(step) ? step : 15;
+}
+
+// ✅ A vs B equals B vs A
+export function matchupKey(a: string, b: string) {
+  const pair = [a.trim(), b.trim()].sort((x, y) => x.localeCompare(y));
+  return `${pair[0]}__VS__${pair[1]}`;
+}
+
+export type MatchupHistory = {
+  count: Map<string, number>;
+  lastWeek: Map<string, number>;
+};
+
+export function buildMatchupHistory(list: PastMatchup[]): MatchupHistory {
+  const count = new Map<string, number>();
+  const lastWeek = new Map<string, number>();
+
+  for (const m of list) {
+    const key = matchupKey(m.teamA, m.teamB);
+    count.set(key, (count.get(key) ?? 0) + 1);
+
+    const prev = lastWeek.get(key);
+    if (prev === undefined || m.week > prev) lastWeek.set(key, m.week);
+  }
+
+  return { count, lastWeek };
+}
+
+export function addToMatchupHistory(history: MatchupHistory, m: PastMatchup) {
+  const key = matchupKey(m.teamA, m.teamB);
+  history.count.set(key, (history.count.get(key) ?? 0) + 1);
+
+  const prev = history.lastWeek.get(key);
+  if (prev === undefined || m.week > prev) history.lastWeek.set(key, m.week);
+}
+
+export type PairingResult = {
+  pairs: [string, string][];
+  bye: string | null;
+};
+
+/**
+ * Minimum-cost pairing of one round.
+ * - Exact depth-first search with pruning for normal division sizes
+ * - Falls back to the best pairing found once PAIRING_SEARCH_BUDGET is spent
+ * - Odd team counts get one bye, charged via byeCost
+ */
+export function pairRound(
+  teams: string[],
+  cost: (a: string, b: string) => number,
+  byeCost: (team: string) => number
+): PairingResult {
+  const pool = [...teams];
+  if (pool.length % 2 === 1) pool.push(BYE);
+  if (pool.length === 0) return { pairs: [], bye: null };
+
+  const costOf = (a: string, b: string) => {
+    if (a === BYE) return byeCost(b);
+    if (b === BYE) return byeCost(a);
+    return cost(a, b);
+  };
+
+  // Greedy seed so pruning has a bound from the start
+  let bestPairs: [string, string][] = [];
+  let bestCost = 0;
+  {
+    const left = [...pool];
+    while (left.length > 0) {
+      const a = left.shift()!;
+      let bi = 0;
+      for (let i = 1; i < left.length; i++) {
+        if (costOf(a, left[i]) < costOf(a, left[bi])) bi = i;
+      }
+      const b = left.splice(bi, 1)[0];
+      bestPairs.push([a, b]);
+      bestCost += costOf(a, b);
+    }
+  }
+
+  let nodes = 0;
+  const used = new Array<boolean>(pool.length).fill(false);
+  const current: [string, string][] = [];
+
+  const search = (runningCost: number) => {
+    if (nodes > PAIRING_SEARCH_BUDGET) return;
+    nodes += 1;
+
+    const first = used.indexOf(false);
+    if (first === -1) {
+      if (runningCost < bestCost) {
+        bestCost = runningCost;
+        bestPairs = [...current];
+      }
+      return;
+    }
+
+    used[first] = true;
+
+    const options: { idx: number; c: number }[] = [];
+    for (let j = first + 1; j < pool.length; j++) {
+      if (!used[j]) options.push({ idx: j, c: costOf(pool[first], pool[j]) });
+    }
+    options.sort((x, y) => x.c - y.c);
+
+    for (const o of options) {
+      if (runningCost + o.c >= bestCost) break;
+
+      used[o.idx] = true;
+      current.push([pool[first], pool[o.idx]]);
+      search(runningCost + o.c);
+      current.pop();
+      used[o.idx] = false;
+    }
+
+    used[first] = false;
+  };
+
+  search(0);
+
+  let bye: string | null = null;
+  const pairs: [string, string][] = [];
+  for (const [a, b] of bestPairs) {
+    if (a === BYE) bye = b;
+    else if (b === BYE) bye = a;
+    else pairs.push([a, b]);
+  }
+
+  return { pairs, bye };
+}
+
+/**
+ * Builds one league night:
+ * - Each division is paired round by round (no team twice at the same time, no repeat pairing tonight)
+ * - Pairings minimize rematches across the season (recent rematches cost more)
+ * - Matches are packed onto the TIMES grid in round order; a team's next match is always in a later slot
+ * - Courts/teams busy with a saved match this week are skipped for any block that overlaps it
+ */
+export function generateWeek<D extends string>(input: WeekGeneratorInput<D>): WeekGeneratorResult<D> {
+  const warnings: string[] = [];
+  const matches: GeneratedMatch<D>[] = [];
+  const byes: WeekGeneratorBye<D>[] = [];
+
+  const slotsPerRound = Math.max(1, Math.floor(input.slotsPerRound ?? 1));
+  const rounds = Math.max(0, Math.floor(input.matchesPerTeam));
+  const courts = [...input.courts].sort((a, b) => a - b);
+  const booked = input.booked ?? [];
+
+  const history = buildMatchupHistory(input.history);
+
+  // Tonight's pairings (existing saved matches this week count too)
+  const tonight = new Set<string>();
+  for (const b of booked) tonight.add(matchupKey(b.teamA, b.teamB));
+
+  const byeCount = new Map<string, number>();
+
+  const pairingCost = (a: string, b: string) => {
+    const key = matchupKey(a, b);
+    if (tonight.has(key)) return 100000;
+
+    const n = history.count.get(key) ?? 0;
+    const last = history.lastWeek.get(key);
+    const recent = last !== undefined && input.week - last <= 1 ? 5 : 0;
+    return n * n * 10 + recent;
+  };
+
+  // 1) Pair every round for every division
+  const roundMatches: { division: D; teamA: string; teamB: string }[][] = [];
+
+  for (let r = 0; r < rounds; r++) {
+    const list: { division: D; teamA: string; teamB: string }[] = [];
+
+    for (const group of input.divisions) {
+      const teams = group.teams.map((t) => t.trim()).filter(Boolean);
+      if (teams.length < 2) {
+        if (r === 0 && teams.length === 1) {
+          warnings.push(`${group.division}: only one team present (${teams[0]}) — nothing to schedule.`);
+        }
+        continue;
+      }
+
+      const { pairs, bye } = pairRound(teams, pairingCost, (t) => (byeCount.get(t) ?? 0) * 1000);
+
+      for (const [a, b] of pairs) {
+        const key = matchupKey(a, b);
+        if (tonight.has(key)) {
+          warnings.push(`${group.division}: ${a} vs ${b} repeats tonight (not enough teams for ${rounds} rounds).`);
+        }
+        tonight.add(key);
+        list.push({ division: group.division, teamA: a, teamB: b });
+      }
+
+      if (bye) {
+        byeCount.set(bye, (byeCount.get(bye) ?? 0) + 1);
+        byes.push({ division: group.division, team: bye, round: r + 1 });
+      }
+    }
+
+    roundMatches.push(list);
+  }
+
+  // 2) Lay the rounds out on the time/court grid
+  // A match runs for one round (slotsPerRound TIMES entries), so a saved 6:15 match still holds its
+  // court and teams at 6:30 when rounds are 30 minutes long
+  const slotMinutes = slotsPerRound * timeStepMinutes(input.times);
+  const bookedAt = (time: string) => {
+    const t = matchTimeMinutes(time);
+    return booked.filter((b) => {
+      const bt = matchTimeMinutes(b.time);
+      // Unreadable times can only clash with the exact same text
+      if (t === Number.MAX_SAFE_INTEGER || bt === Number.MAX_SAFE_INTEGER) return b.time.trim() === time.trim();
+      return bt < t + slotMinutes && t < bt + slotMinutes;
+    });
+  };
+
+  let start = input.startTime ? input.times.indexOf(input.startTime) : 0;
+  if (start < 0) start = 0;
+
+  // Block k starts at TIMES[start + k * slotsPerRound]
+  const blockCount = Math.max(0, Math.ceil((input.times.length - start) / slotsPerRound));
+  const usedCourts: Set<number>[] = Array.from({ length: blockCount }, () => new Set<number>());
+
+  // Each team's latest block so far (a team's next match always goes in a LATER block)
+  const lastBlock = new Map<string, number>();
+
+  let unplaced = 0;
+
+  const slotBias = input.slotBias;
+  const courtCost = input.courtCost;
+
+  for (const round of roundMatches) {
+    const list = slotBias
+      ? [...round].sort((x, y) => slotBias(y.teamA) + slotBias(y.teamB) - (slotBias(x.teamA) + slotBias(x.teamB)))
+      : round;
+
+    for (const m of list) {
+      let placed = false;
+      const earliest = Math.max(lastBlock.get(m.teamA) ?? -1, lastBlock.get(m.teamB) ?? -1) + 1;
+
+      for (let k = earliest; k < blockCount && !placed; k++) {
+        const time = input.times[start + k * slotsPerRound];
+        const overlapping = bookedAt(time);
+        if (overlapping.some((b) => [b.teamA, b.teamB].includes(m.teamA) || [b.teamA, b.teamB].includes(m.teamB))) {
+          continue;
+        }
+
+        const takenCourts = new Set(overlapping.map((b) => b.court));
+        const free = courts.filter((c) => !usedCourts[k].has(c) && !takenCourts.has(c));
+        if (free.length === 0) continue;
+
+        let court = free[0];
+        if (courtCost) {
+          let bestCost = Infinity;
+          for (const c of free) {
+            const cc = courtCost(m.teamA, c) + courtCost(m.teamB, c);
+            if (cc < bestCost) {
+              bestCost = cc;
+              court = c;
+            }
+          }
+        }
+
+        usedCourts[k].add(court);
+        lastBlock.set(m.teamA, k);
+        lastBlock.set(m.teamB, k);
+        placed = true;
+
+        matches.push({
+          week: input.week,
+          division: m.division,
+          time,
+          court,
+          teamA: m.teamA,
+          teamB: m.teamB,
+        });
+      }
+
+      if (!placed) unplaced += 1;
+    }
+  }
+
+  if (unplaced > 0) {
+    warnings.push(`Ran out of time slots: ${unplaced} match(es) could not be placed. Add courts or start earlier.`);
+  }
+
+  let rematches = 0;
+  for (const m of matches) {
+    if ((history.count.get(matchupKey(m.teamA, m.teamB)) ?? 0) > 0) rematches += 1;
+  }
+
+  return { matches, byes, rematches, warnings };
+}
+
+// =============================
+// ✅ Full-season planner
+// =============================
+export type DeclaredBye = {
+  team: string;
+  week: number;
+};
+
+export type SeasonPlannerInput<D extends string = string> = {
+  fromWeek: number;
+  weeks: number;
+  // Rosters as they stand for a given week (division moves already applied)
+  rostersForWeek: (week: number) => { division: D; teams: string[] }[];
+  byes: DeclaredBye[];
+  times: string[];
+  courts: number[];
+  // A week's own slots / open courts when they differ from times + courts (venue changes, closed courts)
+  nightForWeek?: (week: number) => { times: string[]; courts: number[] };
+  matchesPerTeam: number;
+  slotsPerRound?: number;
+  startTime?: string;
+  // Saved matches BEFORE fromWeek (they count toward opponent balance and fairness)
+  history: PastMatchup[];
+  historySlots?: { teamA: string; teamB: string; time: string; court: number }[];
+};
+
+export type PlannedWeek<D extends string = string> = {
+  week: number;
+  result: WeekGeneratorResult<D>;
+  byeTeams: string[]; // pre-declared byes honored this week
+};
+
+export type TeamPlanStats<D extends string = string> = {
+  team: string;
+  division: D;
+  matches: number;
+  opponents: number; // distinct opponents
+  maxMeetings: number; // most times this team meets the same opponent
+  avgSlot: number; // average index into the night's time slots (lower = earlier)
+  courts: Record<number, number>;
+};
+
+export type SeasonPlan<D extends string = string> = {
+  weeks: PlannedWeek<D>[];
+  teams: TeamPlanStats<D>[];
+};
+
+/**
+ * Plans fromWeek .. fromWeek + weeks - 1 one week at a time with generateWeek:
+ * - Opponents balance because every planned week feeds the rematch history of the next
+ * - Teams that have been playing late get first pick of early slots
+ * - Each team is steered toward the courts it has used least
+ * - Pre-declared byes remove the team from that week only
+ */
+export function planSeason<D extends string>(input: SeasonPlannerInput<D>): SeasonPlan<D> {
+  const history: PastMatchup[] = [...input.history];
+  const weeks: PlannedWeek<D>[] = [];
+
+  const slotSum = new Map<string, number>();
+  const slotCount = new Map<string, number>();
+  const courtUse = new Map<string, Map<number, number>>();
+
+  const track = (team: string, time: string, court: number, times: string[] = input.times) => {
+    const idx = times.indexOf(time);
+    if (idx >= 0) {
+      slotSum.set(team, (slotSum.get(team) ?? 0) + idx);
+      slotCount.set(team, (slotCount.get(team) ?? 0) + 1);
+    }
+
+    if (!courtUse.has(team)) courtUse.set(team, new Map());
+    const byCourt = courtUse.get(team)!;
+    byCourt.set(court, (byCourt.get(court) ?? 0) + 1);
+  };
+
+  for (const h of input.historySlots ?? []) {
+    track(h.teamA, h.time, h.court);
+    track(h.teamB, h.time, h.court);
+  }
+
+  const avgSlot = (team: string) => {
+    const n = slotCount.get(team) ?? 0;
+    return n > 0 ? (slotSum.get(team) ?? 0) / n : 0;
+  };
+
+  for (let i = 0; i < Math.max(0, Math.floor(input.weeks)); i++) {
+    const week = input.fromWeek + i;
+    const night = input.nightForWeek?.(week) ?? { times: input.times, courts: input.courts };
+
+    const byeTeams = new Set(input.byes.filter((b) => b.week === week).map((b) => b.team.trim()));
+    const rosters = input.rostersForWeek(week).map((g) => ({
+      division: g.division,
+      teams: g.teams.filter((t) => !byeTeams.has(t.trim())),
+    }));
+
+    const result = generateWeek<D>({
+      week,
+      divisions: rosters,
+      times: night.times,
+      courts: night.courts,
+      matchesPerTeam: input.matchesPerTeam,
+      slotsPerRound: input.slotsPerRound,
+      startTime: input.startTime,
+      history,
+      slotBias: avgSlot,
+      courtCost: (team, court) => courtUse.get(team)?.get(court) ?? 0,
+    });
+
+    for (const m of result.matches) {
+      history.push({ week: m.week, teamA: m.teamA, teamB: m.teamB });
+      track(m.teamA, m.time, m.court, night.times);
+      track(m.teamB, m.time, m.court, night.times);
+    }
+
+    weeks.push({ week, result, byeTeams: Array.from(byeTeams).sort((a, b) => a.localeCompare(b)) });
+  }
+
+  // Per-team summary over the PLANNED weeks (for review before committing)
+  const teams = new Map<string, TeamPlanStats<D>>();
+  const meetings = new Map<string, Map<string, number>>();
+  const plannedSlotSum = new Map<string, number>();
+
+  const touch = (team: string, opponent: string, division: D, time: string, court: number, times: string[]) => {
+    if (!teams.has(team)) {
+      teams.set(team, { team, division, matches: 0, opponents: 0, maxMeetings: 0, avgSlot: 0, courts: {} });
+    }
+    const t = teams.get(team)!;
+    t.division = division;
+    t.matches += 1;
+    t.courts[court] = (t.courts[court] ?? 0) + 1;
+    plannedSlotSum.set(team, (plannedSlotSum.get(team) ?? 0) + Math.max(0, times.indexOf(time)));
+
+    if (!meetings.has(team)) meetings.set(team, new Map());
+    const byOpp = meetings.get(team)!;
+    byOpp.set(opponent, (byOpp.get(opponent) ?? 0) + 1);
+  };
+
+  for (const w of weeks) {
+    const times = input.nightForWeek?.(w.week).times ?? input.times;
+    for (const m of w.result.matches) {
+      touch(m.teamA, m.teamB, m.division, m.time, m.court, times);
+      touch(m.teamB, m.teamA, m.division, m.time, m.court, times);
+    }
+  }
+
+  for (const t of teams.values()) {
+    const byOpp = meetings.get(t.team) ?? new Map<string, number>();
+    t.opponents = byOpp.size;
+    t.maxMeetings = Math.max(0, ...Array.from(byOpp.values()));
+    t.avgSlot = t.matches > 0 ? (plannedSlotSum.get(t.team) ?? 0) / t.matches : 0;
+  }
+
+  return {
+    weeks,
+    teams: Array.from(teams.values()).sort((a, b) => a.team.localeCompare(b.team)),
+  };
+}
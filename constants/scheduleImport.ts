@@ -0,0 +1,194 @@
+// constants/scheduleImport.ts
+// Bulk schedule import from a spreadsheet (CSV). Every row is checked with the same rules the
+// Schedule Builder enforces one match at a time — known team in that division for that week,
+// a time slot and open court from that week's league night, nobody marked OUT, no court or team
+// double-booking — and the result is a dry-run report. Nothing is written here. Pure logic (no React / Supabase).
+
+import { csvHeaderKey, parseCsv } from './csv';
+import { divisionOrder, type Division, type SavedMatch } from './leagueData';
+import { courtLabel, slotProblems, type LeagueNight } from './leagueNights';
+import { matchupKey } from './scheduleGenerator';
+
+// A regular-season match as it will be inserted (the screen assigns id + createdAt)
+export type ImportedMatch = Omit<SavedMatch, 'id' | 'createdAt' | 'stage' | 'revision' | 'updatedAt'>;
+
+export type ImportRowResult = {
+  line: number; // line in the CSV, for the report
+  match: ImportedMatch | null; // null when the row couldn't be read at all
+  errors: string[]; // block the import
+  warnings: string[]; // shown, but the row can still be imported
+};
+
+export type ScheduleImportReport = {
+  rows: ImportRowResult[];
+  fileError: string | null; // header missing / no rows
+  matches: ImportedMatch[]; // the rows without errors
+  errorCount: number; // rows with at least one error
+  warningCount: number;
+};
+
+export type ScheduleImportContext = {
+  nightForWeek: (week: number) => LeagueNight; // venue, time slots and open courts
+  existing: SavedMatch[]; // already saved this season
+  teamsByWeek: Record<number, Record<Division, string[]>>; // division_moves applied per week
+  attendanceByWeek: Record<number, Record<string, boolean>>; // false = OUT
+};
+
+const COLUMN_ALIASES: Record<keyof ImportedMatch, string[]> = {
+  week: ['week', 'wk'],
+  division: ['division', 'div'],
+  time: ['time', 'start', 'starttime'],
+  court: ['court', 'ct'],
+  teamA: ['teama', 'team1', 'home'],
+  teamB: ['teamb', 'team2', 'away'],
+};
+
+// Column names as exported (matchesCsv), for the "missing column" message
+const COLUMN_LABELS: Record<keyof ImportedMatch, string> = {
+  week: 'week',
+  division: 'division',
+  time: 'time',
+  court: 'court',
+  teamA: 'team_a',
+  teamB: 'team_b',
+};
+
+function normalizeName(s: string) {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+function sameName(a: string, b: string) {
+  return normalizeName(a).toLowerCase() === normalizeName(b).toLowerCase();
+}
+
+// "6:15pm" / "6:15 p.m." → "6:15 PM" (then checked against the time slots)
+function normalizeTime(s: string) {
+  const m = /^(\d{1,2}):(\d{2})\s*([ap])\.?\s*m\.?$/i.exec((s ?? '').trim());
+  return m ? `${Number(m[1])}:${m[2]} ${m[3].toUpperCase()}M` : (s ?? '').trim();
+}
+
+// "3" or a court's name at that week's venue ("Center Court") → court number
+function resolveCourt(raw: string, night: LeagueNight | null): number | null {
+  const n = Number(raw);
+  if (raw !== '' && Number.isInteger(n) && n > 0) return n;
+  return night?.venue.courts.find((c) => sameName(c.name, raw))?.number ?? null;
+}
+
+/** Weeks the CSV mentions — the screen loads attendance + division moves for these before validating. */
+export function weeksInScheduleCsv(text: string): number[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+  const col = rows[0].cells.map(csvHeaderKey).findIndex((h) => COLUMN_ALIASES.week.includes(h));
+  if (col < 0) return [];
+
+  const weeks = new Set<number>();
+  for (const r of rows.slice(1)) {
+    const w = Number((r.cells[col] ?? '').trim());
+    if (Number.isInteger(w) && w > 0) weeks.add(w);
+  }
+  return Array.from(weeks).sort((a, b) => a - b);
+}
+
+export function validateScheduleImport(text: string, ctx: ScheduleImportContext): ScheduleImportReport {
+  const report: ScheduleImportReport = { rows: [], fileError: null, matches: [], errorCount: 0, warningCount: 0 };
+
+  const rows = parseCsv(text);
+  if (rows.length === 0) {
+    report.fileError = 'Paste or choose a CSV first.';
+    return report;
+  }
+
+  const header = rows[0].cells.map(csvHeaderKey);
+  const columns = {} as Record<keyof ImportedMatch, number>;
+  const missing: string[] = [];
+  for (const key of Object.keys(COLUMN_ALIASES) as (keyof ImportedMatch)[]) {
+    columns[key] = header.findIndex((h) => COLUMN_ALIASES[key].includes(h));
+    if (columns[key] < 0) missing.push(COLUMN_LABELS[key]);
+  }
+  if (missing.length > 0) {
+    report.fileError = `The first row must be a header. Missing column(s): ${missing.join(', ')}.`;
+    return report;
+  }
+  if (rows.length === 1) {
+    report.fileError = 'The CSV has a header but no matches.';
+    return report;
+  }
+
+  // Everything booked so far: saved matches, then each accepted row as we go
+  const booked: ImportedMatch[] = ctx.existing.map((m) => ({ ...m }));
+
+  for (const r of rows.slice(1)) {
+    const cell = (key: keyof ImportedMatch) => normalizeName(r.cells[columns[key]] ?? '');
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const week = Number(cell('week'));
+    if (!Number.isInteger(week) || week <= 0) errors.push(`Week "${cell('week')}" isn't a week number.`);
+
+    const division = divisionOrder().find((d) => sameName(d, cell('division')));
+    if (!division) errors.push(`Division "${cell('division')}" must be ${divisionOrder().join(', ')}.`);
+
+    const night = week > 0 ? ctx.nightForWeek(week) : null;
+
+    const time = normalizeTime(cell('time'));
+    const court = resolveCourt(cell('court'), night);
+    if (court === null) errors.push(`Court "${cell('court')}" isn't a court number or a court at this week's venue.`);
+    const slotErrors = night && court !== null ? slotProblems(night, time, court) : [];
+    errors.push(...slotErrors);
+    const slotOk = !!night && court !== null && slotErrors.length === 0;
+
+    // Team names are matched case-insensitively and saved with the league's spelling
+    const teams = division && week > 0 ? (ctx.teamsByWeek[week]?.[division] ?? []) : [];
+    const resolveTeam = (raw: string) => {
+      if (!raw) {
+        errors.push('A team is missing.');
+        return null;
+      }
+      const known = teams.find((t) => sameName(t, raw));
+      if (!known && division && week > 0) errors.push(`"${raw}" isn't a ${division} team in Week ${week}.`);
+      return known ?? null;
+    };
+    const teamA = resolveTeam(cell('teamA'));
+    const teamB = resolveTeam(cell('teamB'));
+    if (teamA && teamB && teamA === teamB) errors.push('A team can’t play itself.');
+
+    const match: ImportedMatch | null =
+      division && slotOk && court !== null && teamA && teamB && week > 0
+        ? { week, division, time, court, teamA, teamB }
+        : null;
+
+    if (match && errors.length === 0) {
+      const attendance = ctx.attendanceByWeek[week] ?? {};
+      for (const t of [match.teamA, match.teamB]) {
+        if (attendance[t] === false) errors.push(`${t} is marked OUT for Week ${week}.`);
+      }
+
+      const sameSlot = booked.filter((m) => m.week === week && m.time === time);
+      const courtTaken = sameSlot.find((m) => m.court === match.court);
+      if (courtTaken) {
+        errors.push(`${courtLabel(night, match.court)} is already booked at ${time} (Week ${week}, ${courtTaken.division}).`);
+      }
+      for (const t of [match.teamA, match.teamB]) {
+        if (sameSlot.some((m) => m.teamA === t || m.teamB === t)) {
+          errors.push(`${t} is already scheduled at ${time} (Week ${week}).`);
+        }
+      }
+
+      const key = matchupKey(match.teamA, match.teamB);
+      if (booked.some((m) => m.week === week && matchupKey(m.teamA, m.teamB) === key)) {
+        warnings.push(`These teams already play each other in Week ${week}.`);
+      }
+    }
+
+    if (match && errors.length === 0) {
+      booked.push(match);
+      report.matches.push(match);
+    }
+
+    if (errors.length > 0) report.errorCount += 1;
+    if (warnings.length > 0) report.warningCount += 1;
+    report.rows.push({ line: r.line, match, errors, warnings });
+  }
+
+  return report;
+}
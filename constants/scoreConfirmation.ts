@@ -0,0 +1,147 @@
+// constants/scoreConfirmation.ts
+// Two-team score confirmation: one team submits, the opponent confirms or disputes,
+// and only confirmed (or admin-overridden) scores count toward standings.
+
+import { NO_PLAYER_REF, type PersistedMatchScore, type PlayerRef, type SavedMatch, type ScoreFields } from './leagueData';
+
+function normalizeName(s: string) {
+  return (s || '').trim();
+}
+
+export function sameScoreFields(a: ScoreFields, b: ScoreFields) {
+  return a.g1 === b.g1 && a.g2 === b.g2 && a.g3 === b.g3;
+}
+
+// The other team in the match (null if `team` isn't playing in it)
+export function opposingTeam(m: SavedMatch, team: string | null) {
+  const t = normalizeName(team ?? '');
+  if (!t) return null;
+  if (normalizeName(m.teamA) === t) return m.teamB;
+  if (normalizeName(m.teamB) === t) return m.teamA;
+  return null;
+}
+
+// Team that still has to confirm a submission (null when nothing is waiting on a team)
+export function awaitingConfirmationFrom(m: SavedMatch, p?: PersistedMatchScore) {
+  if (!p || p.status !== 'submitted' || !p.submittedByTeam) return null;
+  return opposingTeam(m, p.submittedByTeam);
+}
+
+export function scoreStatusLabel(p?: PersistedMatchScore) {
+  if (!p) return 'Not submitted yet';
+  switch (p.status) {
+    case 'confirmed':
+      return `Confirmed by ${p.verifiedBy ?? 'UNKNOWN'}`;
+    case 'overridden':
+      return `Official (set by ${p.verifiedBy ?? 'ADMIN'})`;
+    case 'disputed':
+      return `Disputed by ${p.dispute?.team ?? 'opponent'} • waiting for league admin`;
+    default:
+      return `Submitted by ${p.submittedBy ?? p.submittedByTeam ?? 'UNKNOWN'} • waiting for opponent to confirm`;
+  }
+}
+
+// Why a team can't (re)submit over the saved score (null = it can). Disputes and
+// confirmed/official scores are settled by the league admin only.
+export function submitBlockedReason(p?: PersistedMatchScore) {
+  if (!p) return null;
+  if (p.status === 'disputed') return 'This score is disputed. The league admin will settle it.';
+  if (p.status === 'confirmed' || p.status === 'overridden') {
+    return 'This score is already confirmed. Ask the league admin if it needs to change.';
+  }
+  return null;
+}
+
+// =============================
+// ✅ Status transitions (each returns the row to save)
+// =============================
+export function submitScore(
+  prev: PersistedMatchScore | undefined,
+  matchId: string,
+  teamA: ScoreFields,
+  teamB: ScoreFields,
+  team: string,
+  by: string,
+  ref: PlayerRef = NO_PLAYER_REF
+): PersistedMatchScore {
+  const blocked = submitBlockedReason(prev);
+  if (blocked) throw new Error(blocked);
+
+  return {
+    matchId,
+    teamA,
+    teamB,
+    status: 'submitted',
+    submittedBy: by,
+    submittedByTeam: team,
+    submittedByPlayerId: ref.playerId,
+    submittedByTeamId: ref.teamId,
+    dispute: null,
+    verified: false,
+    verifiedBy: null,
+    verifiedByPlayerId: null,
+    verifiedAt: null,
+    lockedAt: prev?.lockedAt ?? null,
+    lockedBy: prev?.lockedBy ?? null,
+    updatedAt: prev?.updatedAt ?? null,
+  };
+}
+
+export function confirmScore(prev: PersistedMatchScore, by: string, ref: PlayerRef = NO_PLAYER_REF): PersistedMatchScore {
+  return {
+    ...prev,
+    status: 'confirmed',
+    dispute: null,
+    verified: true,
+    verifiedBy: by,
+    verifiedByPlayerId: ref.playerId,
+    verifiedAt: Date.now(),
+  };
+}
+
+export function disputeScore(
+  prev: PersistedMatchScore,
+  team: string,
+  by: string,
+  teamA: ScoreFields,
+  teamB: ScoreFields,
+  ref: PlayerRef = NO_PLAYER_REF
+): PersistedMatchScore {
+  return {
+    ...prev,
+    status: 'disputed',
+    dispute: { team, by, teamId: ref.teamId, playerId: ref.playerId, teamA, teamB, at: Date.now() },
+    verified: false,
+    verifiedBy: null,
+    verifiedByPlayerId: null,
+    verifiedAt: null,
+  };
+}
+
+// Admin makes a version official (their own entry, or one side of a dispute)
+export function overrideScore(
+  prev: PersistedMatchScore | undefined,
+  matchId: string,
+  teamA: ScoreFields,
+  teamB: ScoreFields,
+  by: string
+): PersistedMatchScore {
+  return {
+    matchId,
+    teamA,
+    teamB,
+    status: 'overridden',
+    submittedBy: prev?.submittedBy ?? null,
+    submittedByTeam: prev?.submittedByTeam ?? null,
+    submittedByPlayerId: prev?.submittedByPlayerId ?? null,
+    submittedByTeamId: prev?.submittedByTeamId ?? null,
+    dispute: null,
+    verified: true,
+    verifiedBy: by,
+    verifiedByPlayerId: null,
+    verifiedAt: Date.now(),
+    lockedAt: prev?.lockedAt ?? null,
+    lockedBy: prev?.lockedBy ?? null,
+    updatedAt: prev?.updatedAt ?? null,
+  };
+}
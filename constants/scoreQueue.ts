@@ -0,0 +1,234 @@
+// constants/scoreQueue.ts
+// Offline-first queue for score writes (submit, confirm, dispute and admin override).
+// Saves land here first (AsyncStorage = localStorage on web) and are pushed to Supabase when it is reachable.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+
+import {
+  SupabaseError,
+  fetchMatchScores,
+  getActiveSeasonId,
+  upsertMatchScore,
+  type PersistedMatchScore,
+  type ScoreDispute,
+  type ScoreFields,
+  type ScoreStatus,
+} from './leagueData';
+import { notifyScoreSaved } from './push';
+
+const STORAGE_KEY_SCORE_QUEUE = 'ppl_score_queue_v1';
+
+// The server row as it was when the edit started (null = no row yet).
+// Status + dispute are kept too, so a confirm can't replay over a dispute filed meanwhile.
+export type ScoreBase = {
+  teamA: ScoreFields;
+  teamB: ScoreFields;
+  status: ScoreStatus;
+  dispute: ScoreDispute | null;
+} | null;
+
+export function scoreBaseOf(p: PersistedMatchScore | undefined): ScoreBase {
+  return p ? { teamA: p.teamA, teamB: p.teamB, status: p.status, dispute: p.dispute } : null;
+}
+
+export type ScoreConflict = {
+  // locked = an admin locked the match while this save was waiting
+  // changed = someone else saved different scores (or confirmed / disputed them) while this save was waiting
+  reason: 'locked' | 'changed';
+  server: PersistedMatchScore;
+};
+
+export type QueuedScore = {
+  score: PersistedMatchScore;
+  base: ScoreBase;
+  asAdmin: boolean;
+  queuedAt: number;
+  attempts: number;
+  lastError: string | null;
+  conflict: ScoreConflict | null;
+};
+
+export type ScoreQueue = Record<string, QueuedScore>; // keyed by matchId
+
+export type FlushResult = {
+  queue: ScoreQueue;
+  synced: string[];
+  conflicts: string[];
+  offline: boolean;
+};
+
+function sameFields(a: ScoreFields, b: ScoreFields) {
+  return a.g1 === b.g1 && a.g2 === b.g2 && a.g3 === b.g3;
+}
+
+// Same scores AND same status / dispute (queue entries saved before status was tracked never match)
+function sameRow(a: ScoreBase | undefined, b: ScoreBase | undefined) {
+  if (!a || !b) return !a && !b;
+  return (
+    sameFields(a.teamA, b.teamA) &&
+    sameFields(a.teamB, b.teamB) &&
+    a.status === b.status &&
+    (a.dispute?.at ?? null) === (b.dispute?.at ?? null)
+  );
+}
+
+export async function loadScoreQueue(): Promise<ScoreQueue> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY_SCORE_QUEUE);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? (parsed as ScoreQueue) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function saveScoreQueue(queue: ScoreQueue) {
+  await AsyncStorage.setItem(STORAGE_KEY_SCORE_QUEUE, JSON.stringify(queue));
+}
+
+// A newer save for the same match replaces the older one (but keeps the ORIGINAL base)
+export async function enqueueScore(score: PersistedMatchScore, base: ScoreBase, asAdmin: boolean): Promise<ScoreQueue> {
+  const queue = await loadScoreQueue();
+  const prev = queue[score.matchId];
+
+  queue[score.matchId] = {
+    score,
+    base: prev && !prev.conflict ? prev.base : base,
+    asAdmin,
+    queuedAt: Date.now(),
+    attempts: 0,
+    lastError: null,
+    conflict: null,
+  };
+
+  await saveScoreQueue(queue);
+  return queue;
+}
+
+// "Use server" — throw away the local save
+export async function discardQueuedScore(matchId: string): Promise<ScoreQueue> {
+  const queue = await loadScoreQueue();
+  delete queue[matchId];
+  await saveScoreQueue(queue);
+  return queue;
+}
+
+// "Keep mine" — accept that the server changed and overwrite it on the next flush
+export async function keepQueuedScore(matchId: string): Promise<ScoreQueue> {
+  const queue = await loadScoreQueue();
+  const entry = queue[matchId];
+  if (entry?.conflict) {
+    queue[matchId] = {
+      ...entry,
+      base: scoreBaseOf(entry.conflict.server),
+      conflict: null,
+    };
+    await saveScoreQueue(queue);
+  }
+  return queue;
+}
+
+// Playoff advancement endpoint (api/playoffs.ts on the web deployment). Native builds need EXPO_PUBLIC_PLAYOFFS_ENDPOINT_URL.
+function playoffsEndpointUrl(): string | null {
+  const configured = (process.env.EXPO_PUBLIC_PLAYOFFS_ENDPOINT_URL || '').trim();
+  if (configured) return configured;
+  if (Platform.OS === 'web' && typeof window !== 'undefined') return `${window.location.origin}/api/playoffs`;
+  return null;
+}
+
+// Matches are admin-only for apps, so the server writes the next-round games
+async function requestPlayoffAdvance(): Promise<void> {
+  const url = playoffsEndpointUrl();
+  if (!url) return;
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ season: getActiveSeasonId() }),
+  });
+  if (!res.ok) throw new Error(`Playoff update failed (${res.status})`);
+}
+
+function isOfflineError(e: any) {
+  return e instanceof SupabaseError ? e.isNetworkError || e.status >= 500 : true;
+}
+
+let inflightFlush: Promise<FlushResult> | null = null;
+
+/**
+ * Push every queued save that is not in conflict.
+ * Before writing, each entry is checked against the current server row:
+ * - locked on the server (and not saved by an admin) → conflict "locked"
+ * - server differs (scores, status or dispute) from both the base and our save → conflict "changed"
+ * Network / 5xx errors stop the flush and leave the queue intact for the next retry.
+ */
+export function flushScoreQueue(): Promise<FlushResult> {
+  if (inflightFlush) return inflightFlush;
+
+  inflightFlush = (async () => {
+    const queue = await loadScoreQueue();
+    const result: FlushResult = { queue, synced: [], conflicts: [], offline: false };
+
+    const pending = Object.values(queue).filter((q) => !q.conflict);
+    if (pending.length === 0) return result;
+
+    let server: Record<string, PersistedMatchScore>;
+    try {
+      server = await fetchMatchScores();
+    } catch (e: any) {
+      for (const q of pending) {
+        q.attempts += 1;
+        q.lastError = e?.message || String(e);
+      }
+      result.offline = isOfflineError(e);
+      await saveScoreQueue(queue);
+      return result;
+    }
+
+    for (const q of pending) {
+      const matchId = q.score.matchId;
+      const current = server[matchId];
+      const currentRow = scoreBaseOf(current);
+
+      if (current?.lockedAt && !q.asAdmin) {
+        q.conflict = { reason: 'locked', server: current };
+        result.conflicts.push(matchId);
+        continue;
+      }
+
+      if (current && !sameRow(currentRow, q.base) && !sameRow(currentRow, scoreBaseOf(q.score))) {
+        q.conflict = { reason: 'changed', server: current };
+        result.conflicts.push(matchId);
+        continue;
+      }
+
+      try {
+        await upsertMatchScore(q.score);
+        delete queue[matchId];
+        result.synced.push(matchId);
+
+        // 🔔 The other side hears about it once the save is really on the server (best effort)
+        void notifyScoreSaved(q.score).catch(() => null);
+      } catch (e: any) {
+        q.attempts += 1;
+        q.lastError = e?.message || String(e);
+        if (isOfflineError(e)) {
+          result.offline = true;
+          break;
+        }
+      }
+    }
+
+    await saveScoreQueue(queue);
+
+    // 🏆 A verified playoff score moves the teams on to their next bracket game (best effort)
+    if (pending.some((q) => q.score.verified && result.synced.includes(q.score.matchId))) {
+      void requestPlayoffAdvance().catch(() => null);
+    }
+    return result;
+  })().finally(() => {
+    inflightFlush = null;
+  });
+
+  return inflightFlush;
+}
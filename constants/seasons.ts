@@ -0,0 +1,143 @@
+// constants/seasons.ts
+// Seasons: which one is active (the default scope of every leagueData call), the list for the
+// season switcher, the Season 3 baseline rosters, and the admin "start new season" flow.
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  LEGACY_SEASON_ID,
+  addTeamMembers,
+  bulkInsertTeams,
+  fetchSeasonSettings,
+  fetchSeasons,
+  getActiveSeasonId,
+  setActiveSeasonId,
+  upsertSeason,
+  upsertSeasonDivisionMovePolicy,
+  upsertSeasonGameRules,
+  upsertSeasonNightDefaults,
+  upsertSeasonPromotionRules,
+  upsertSeasonSubRule,
+  upsertSeasonTiebreakers,
+  type Division,
+  type Season,
+} from './leagueData';
+
+// Last known active season, so the app still opens in the right season while offline
+const STORAGE_KEY_ACTIVE_SEASON = 'ppl_active_season_v1';
+
+// Season 3 rosters from before teams lived in Supabase (Supabase teams are merged on top)
+const LEGACY_TEAMS_BY_DIVISION: Record<Division, string[]> = {
+  Advanced: [
+    'Ishai/Greg','Adam/Jon','Bradley/Ben','Peter/Ray','Andrew/Brent','Mark D/Craig',
+    'Alex/Anibal','Radek/Alexi','Ricky/John','Brandon/Ikewa','Andrew/Dan','Eric/Meir',
+    'David/Guy','Mark P/Matt O',
+  ],
+  Intermediate: [
+    'Ashley/Julie','Stephanie/Misty','Eric/Sunil','Dan/Relu','Domencio/Keith','YG/Haaris',
+    'Nicole/Joshua','Amy/Nik','Elaine/Valerie','Marat/Marta','Beatriz/Joe','Alejandro/William',
+  ],
+  Beginner: [
+    'Eric/Tracy','Rachel/Jaime','Amy/Ellen','Lashonda/Lynette','Michael/JP','Fran/Scott',
+    'Robert/Adam','Cynthia/Maureen','Marina/Sharon',
+  ],
+};
+
+const NO_BASELINE: Record<Division, string[]> = {};
+
+// Hardcoded baseline teams for a season (only Season 3 has one; later seasons start from the teams table)
+export function baselineTeamsFor(season = getActiveSeasonId()): Record<Division, string[]> {
+  return season === LEGACY_SEASON_ID ? LEGACY_TEAMS_BY_DIVISION : NO_BASELINE;
+}
+
+const LEGACY_SEASON: Season = { id: LEGACY_SEASON_ID, name: 'Season 3', status: 'active', startedAt: null };
+
+// Season 3 predates the seasons table: make sure it is always listed
+function withLegacySeason(list: Season[]): Season[] {
+  if (list.some((s) => s.id === LEGACY_SEASON_ID)) return list;
+  const hasActive = list.some((s) => s.status === 'active');
+  return [...list, { ...LEGACY_SEASON, status: hasActive ? 'archived' : 'active' }];
+}
+
+export async function listSeasons(): Promise<Season[]> {
+  return withLegacySeason(await fetchSeasons());
+}
+
+let activeLoad: Promise<string> | null = null;
+
+/**
+ * Resolves the active season (newest season with status "active") and makes it the default
+ * scope for leagueData. Runs once per app launch unless `force` is set; offline it falls back
+ * to the last season seen on this device.
+ */
+export function loadActiveSeason(force = false): Promise<string> {
+  if (activeLoad && !force) return activeLoad;
+
+  activeLoad = (async () => {
+    let id: string | null = null;
+    try {
+      const seasons = await listSeasons();
+      id = seasons.find((s) => s.status === 'active')?.id ?? LEGACY_SEASON_ID;
+      await AsyncStorage.setItem(STORAGE_KEY_ACTIVE_SEASON, id);
+    } catch {
+      id = await AsyncStorage.getItem(STORAGE_KEY_ACTIVE_SEASON).catch(() => null);
+      activeLoad = null; // try the server again next time
+    }
+
+    setActiveSeasonId(id || LEGACY_SEASON_ID);
+    return getActiveSeasonId();
+  })();
+
+  return activeLoad;
+}
+
+// "Season 4" → "season4"
+export function seasonIdFromName(name: string) {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+export type NewSeasonInput = {
+  id: string;
+  name: string;
+  teams: { division: Division; name: string; playerIds: string[] }[]; // carried forward from the current season
+};
+
+/**
+ * Starts a new season: creates it as the active season, copies the current season's rules
+ * (tiebreakers, game rules, sub rule, division move policy, promotion rules, venue + time slots),
+ * inserts the carried-forward teams with their current players, then archives the old season.
+ * If a step fails part-way, running it again is safe (upserts) apart from duplicate teams.
+ */
+export async function startNewSeason(input: NewSeasonInput, current: Season): Promise<void> {
+  const settings = await fetchSeasonSettings(current.id);
+
+  await upsertSeason({ id: input.id, name: input.name, status: 'active', startedAt: new Date().toISOString() });
+
+  if (settings) {
+    await upsertSeasonTiebreakers(input.id, settings.tiebreakers);
+    if (settings.gameRules && typeof settings.gameRules === 'object') {
+      await upsertSeasonGameRules(input.id, settings.gameRules as Record<string, unknown>);
+    }
+    if (typeof settings.subRule === 'string') await upsertSeasonSubRule(input.id, settings.subRule);
+    if (typeof settings.divisionMovePolicy === 'string') {
+      await upsertSeasonDivisionMovePolicy(input.id, settings.divisionMovePolicy);
+    }
+    if (settings.promotionRules && typeof settings.promotionRules === 'object') {
+      await upsertSeasonPromotionRules(input.id, settings.promotionRules as Record<string, unknown>);
+    }
+    if (settings.venueId || settings.slotTemplateId) {
+      await upsertSeasonNightDefaults(input.id, settings.venueId, settings.slotTemplateId);
+    }
+  }
+
+  const created = await bulkInsertTeams(input.id, input.teams);
+  for (const team of created) {
+    const carried = input.teams.find((t) => t.name === team.name);
+    if (carried) await addTeamMembers(team.id, carried.playerIds, input.id);
+  }
+  await upsertSeason({ id: current.id, name: current.name, status: 'archived' });
+
+  setActiveSeasonId(input.id);
+  activeLoad = Promise.resolve(input.id);
+  await AsyncStorage.setItem(STORAGE_KEY_ACTIVE_SEASON, input.id);
+}
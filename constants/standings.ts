@@ -0,0 +1,393 @@
+// constants/standings.ts
+// Standings math shared by the Standings tab and the weekly snapshot freeze.
+// Same inputs → same table on every device, so a frozen snapshot matches what players saw.
+
+import {
+  divisionOrder,
+  fetchDivisionMoves,
+  fetchMatchScores,
+  fetchMatchSubs,
+  fetchMatches,
+  fetchSeasonSettings,
+  fetchStandingsBase,
+  fetchTeamsByDivision,
+  sortDivisions,
+  type Division,
+  type DivisionMove,
+  type MatchSub,
+  type PersistedMatchScore,
+  type SavedMatch,
+  type StandingsBaseEntry,
+  type Team,
+} from './leagueData';
+import {
+  divisionInWeek,
+  divisionTimeline,
+  normalizeDivisionMovePolicy,
+  type DivisionMovePolicy,
+} from './divisionHistory';
+import { baselineTeamsFor } from './seasons';
+import { matchCountsForStandings, normalizeSubRule, subsByMatch, type SubRule } from './substitutes';
+import {
+  normalizeTiebreakers,
+  rankStandings,
+  type HeadToHeadResult,
+  type RankedStanding,
+  type TiebreakerId,
+} from './tiebreakers';
+
+export type StandingsRow = {
+  division: Division; // final “display division”
+  team: string;
+  gamesPlayed: number; // total games (not matches)
+  wins: number; // game wins
+  losses: number; // game losses
+  pointsFor: number;
+  pointsAgainst: number;
+  byDivision?: DivisionRecord[]; // moved teams only: the record in each division played in, oldest first
+};
+
+export type DivisionRecord = {
+  division: Division;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+};
+
+export type StandingsSection = {
+  division: Division;
+  rows: RankedStanding<StandingsRow>[];
+};
+
+// If Week 1 baseline has real stats, we only add week >= 2.
+// If baseline is missing (or only has team list), we calculate from Week 1+ via Supabase scores.
+export const START_WEEK_FOR_AUTOCALC = 2;
+
+export function normalizeName(s: string) {
+  return (s || '')
+    .replace(/\s+/g, ' ') // collapse any weird whitespace
+    .trim();
+}
+
+function uniqSorted(list: string[]) {
+  const set = new Set(list.map((x) => normalizeName(x)).filter(Boolean));
+  return Array.from(set).sort((a, b) => a.localeCompare(b));
+}
+
+export function pointDiff(row: StandingsRow) {
+  return row.pointsFor - row.pointsAgainst;
+}
+
+function toN(s: string) {
+  const n = parseInt((s ?? '').toString() || '0', 10);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * ✅ IMPORTANT:
+ * - A score is "entered" if the string is NOT empty.
+ * - A game is "entered" ONLY when BOTH teams have a score for that game.
+ * This prevents blanks from being treated as 0.
+ */
+function isEnteredScore(v: string) {
+  return (v ?? '').toString().trim() !== '';
+}
+function gameEnteredPair(a: string, b: string) {
+  return isEnteredScore(a) && isEnteredScore(b);
+}
+
+export type MatchTotals = {
+  gamesPlayed: number; // fully entered games only
+  aWins: number;
+  bWins: number;
+  aPoints: number;
+  bPoints: number;
+};
+
+// Game wins + points for one match's scores (shared with player stats)
+export function matchTotals(s: PersistedMatchScore): MatchTotals {
+  const aRaw = [s.teamA.g1, s.teamA.g2, s.teamA.g3];
+  const bRaw = [s.teamB.g1, s.teamB.g2, s.teamB.g3];
+
+  const out: MatchTotals = { gamesPlayed: 0, aWins: 0, bWins: 0, aPoints: 0, bPoints: 0 };
+
+  for (let i = 0; i < 3; i++) {
+    if (!gameEnteredPair(aRaw[i], bRaw[i])) continue;
+
+    const ap = toN(aRaw[i]);
+    const bp = toN(bRaw[i]);
+
+    out.gamesPlayed += 1;
+    if (ap > bp) out.aWins += 1;
+    else if (bp > ap) out.bWins += 1;
+
+    // ✅ points should ONLY count games that are fully entered (both teams have a score)
+    out.aPoints += ap;
+    out.bPoints += bp;
+  }
+
+  return out;
+}
+
+export function getMaxVerifiedWeek(matches: SavedMatch[], scores: Record<string, PersistedMatchScore>) {
+  let max = 1;
+  for (const m of matches) {
+    if (m.stage === 'playoff') continue;
+    const s = scores[m.id];
+    if (!s || !s.verified) continue;
+    if (typeof m.week === 'number' && Number.isFinite(m.week) && m.week > max) {
+      max = m.week;
+    }
+  }
+  return max;
+}
+
+function getBaselineDivision(team: string, baselineTeams: Record<Division, string[]>): Division | null {
+  const t = normalizeName(team);
+  for (const div of Object.keys(baselineTeams)) {
+    if ((baselineTeams[div] ?? []).some((x) => normalizeName(x) === t)) return div;
+  }
+  return null;
+}
+
+// Teams we can't place anywhere else land in the last (entry-level) division
+function fallbackDivision(): Division {
+  const order = divisionOrder();
+  return order[order.length - 1] ?? 'Beginner';
+}
+
+// ✅ Internal totals keyed by TEAM, split by the division each game was played in
+// (so the move policy can carry a record across divisions or start it over)
+type TeamTotals = {
+  team: string;
+  rosterDivision: Division; // where the team is listed when it has no moves
+  byDivision: Map<Division, DivisionRecord>;
+};
+
+function emptyRecord(division: Division): DivisionRecord {
+  return { division, gamesPlayed: 0, wins: 0, losses: 0, pointsFor: 0, pointsAgainst: 0 };
+}
+
+function sumRecords(division: Division, list: DivisionRecord[]): DivisionRecord {
+  const out = emptyRecord(division);
+  for (const r of list) {
+    out.gamesPlayed += r.gamesPlayed;
+    out.wins += r.wins;
+    out.losses += r.losses;
+    out.pointsFor += r.pointsFor;
+    out.pointsAgainst += r.pointsAgainst;
+  }
+  return out;
+}
+
+function addTotals(map: Map<string, TeamTotals>, add: DivisionRecord & { team: string }) {
+  const key = normalizeName(add.team);
+  const t = map.get(key);
+  if (!t) return;
+
+  const prev = t.byDivision.get(add.division) ?? emptyRecord(add.division);
+  t.byDivision.set(add.division, sumRecords(add.division, [prev, add]));
+}
+
+export function baselineHasStats(baseRows: StandingsBaseEntry[]) {
+  return baseRows.some(
+    (r) =>
+      (r.gamesPlayed ?? 0) > 0 ||
+      (r.wins ?? 0) > 0 ||
+      (r.losses ?? 0) > 0 ||
+      (r.pointsFor ?? 0) > 0 ||
+      (r.pointsAgainst ?? 0) > 0
+  );
+}
+
+export type StandingsInput = {
+  matches: SavedMatch[];
+  scores: Record<string, PersistedMatchScore>;
+  baseRows: StandingsBaseEntry[];
+  divisionMoves: DivisionMove[];
+  baselineTeams: Record<Division, string[]>;
+  dbTeams: Record<Division, Team[]>;
+  tiebreakers: TiebreakerId[];
+  throughWeek?: number; // only count matches up to this week (weekly snapshots)
+  subs?: MatchSub[]; // substitutes recorded this season
+  subRule?: SubRule; // whether sub-played matches count (default: they do)
+  divisionMovePolicy?: DivisionMovePolicy; // whether a moved team's record follows it (default: it does)
+};
+
+export function computeStandings(input: StandingsInput): StandingsSection[] {
+  const { matches: allMatches, scores, baseRows, divisionMoves, baselineTeams, dbTeams, tiebreakers, throughWeek } = input;
+  // Playoff games are played off the final table, they never change it
+  const regularSeason = allMatches.filter((m) => m.stage !== 'playoff');
+  const matches = throughWeek ? regularSeason.filter((m) => m.week <= throughWeek) : regularSeason;
+  const subs = subsByMatch(input.subs ?? []);
+
+  const totals = new Map<string, TeamTotals>();
+  const hasStats = baselineHasStats(baseRows);
+
+  // ✅ If baseline has REAL Week 1 stats, we only add from week >= 2.
+  // ✅ If baseline is empty OR only teams/divisions, we calculate from week 1+ via Supabase verified scores.
+  const startWeekForThisDevice = hasStats ? START_WEEK_FOR_AUTOCALC : 1;
+
+  const supabaseDivisionByTeam = new Map<string, Division>();
+  for (const [div, list] of Object.entries(dbTeams)) {
+    for (const row of list) {
+      const name = normalizeName(row.name);
+      if (name) supabaseDivisionByTeam.set(name, div);
+    }
+  }
+
+  // 0) Ensure ALL known teams exist (even if they have 0 games)
+  const baselineAll = Object.values(baselineTeams).flat();
+  const supaAll = Object.values(dbTeams).flatMap((list) => list.map((r) => r.name));
+  const fromMatchesAll = matches.flatMap((m) => [m.teamA, m.teamB]);
+  const baseTeamList = baseRows.map((r) => r.team);
+
+  const allKnownTeams = uniqSorted([...baselineAll, ...supaAll, ...fromMatchesAll, ...baseTeamList]);
+
+  for (const team of allKnownTeams) {
+    const t = normalizeName(team);
+    if (!t) continue;
+
+    const supaDiv = supabaseDivisionByTeam.get(t) ?? null;
+    const baseDiv = getBaselineDivision(t, baselineTeams);
+    const hintDiv: Division = supaDiv ?? baseDiv ?? fallbackDivision();
+
+    if (!totals.has(t)) totals.set(t, { team: t, rosterDivision: hintDiv, byDivision: new Map() });
+  }
+
+  // Each game counts in the division the team was in that week (Division Moves, else its roster division)
+  const divisionFor = (team: string, week: number) => {
+    const t = totals.get(normalizeName(team));
+    return divisionInWeek(team, week, divisionMoves, t?.rosterDivision ?? fallbackDivision());
+  };
+
+  // 1) Seed totals from baseRows (Week 1 baseline) if baseline includes stats
+  if (hasStats) {
+    for (const r of baseRows) {
+      addTotals(totals, {
+        team: r.team,
+        division: divisionFor(r.team, 1),
+        gamesPlayed: r.gamesPlayed,
+        wins: r.wins,
+        losses: r.losses,
+        pointsFor: r.pointsFor,
+        pointsAgainst: r.pointsAgainst,
+      });
+    }
+  }
+
+  // 2) Add from VERIFIED scores only (from Supabase)
+  const headToHead: (HeadToHeadResult & { aDivision: Division; bDivision: Division })[] = [];
+  for (const m of matches) {
+    if (m.week < startWeekForThisDevice) continue;
+
+    const s = scores[m.id];
+    if (!s || !s.verified) continue;
+    if (input.subRule && !matchCountsForStandings(subs.get(m.id), input.subRule)) continue;
+
+    const { gamesPlayed, aWins, bWins, aPoints: aPF, bPoints: bPF } = matchTotals(s);
+    const aDivision = divisionFor(m.teamA, m.week);
+    const bDivision = divisionFor(m.teamB, m.week);
+
+    headToHead.push({ teamA: normalizeName(m.teamA), teamB: normalizeName(m.teamB), aWins, bWins, aDivision, bDivision });
+
+    addTotals(totals, {
+      team: m.teamA,
+      division: aDivision,
+      gamesPlayed,
+      wins: aWins,
+      losses: bWins,
+      pointsFor: aPF,
+      pointsAgainst: bPF,
+    });
+
+    addTotals(totals, {
+      team: m.teamB,
+      division: bDivision,
+      gamesPlayed,
+      wins: bWins,
+      losses: aWins,
+      pointsFor: bPF,
+      pointsAgainst: aPF,
+    });
+  }
+
+  const asOfWeek = throughWeek ?? getMaxVerifiedWeek(matches, scores);
+  const reset = input.divisionMovePolicy === 'reset';
+
+  // 3) Convert totals -> StandingsRow in the team's division as of this week.
+  // Carry over = every division's games; reset = only the games played in that division.
+  const finalRows: StandingsRow[] = [];
+  const finalDivision = new Map<string, Division>();
+  for (const t of totals.values()) {
+    const division = divisionFor(t.team, asOfWeek);
+    finalDivision.set(t.team, division);
+
+    const played = divisionTimeline(t.team, divisionMoves, t.rosterDivision)
+      .map((stint) => stint.division)
+      .filter((d, i, list) => list.indexOf(d) === i);
+    // Baseline or match rows can land in a division the timeline doesn't list; keep those too
+    for (const d of t.byDivision.keys()) if (!played.includes(d)) played.push(d);
+    const records = played.map((d) => t.byDivision.get(d) ?? emptyRecord(d));
+
+    const counted = reset ? records.filter((r) => r.division === division) : records;
+    const total = sumRecords(division, counted);
+
+    finalRows.push({
+      division,
+      team: t.team,
+      gamesPlayed: total.gamesPlayed,
+      wins: total.wins,
+      losses: total.losses,
+      pointsFor: total.pointsFor,
+      pointsAgainst: total.pointsAgainst,
+      ...(played.length > 1 ? { byDivision: records } : {}),
+    });
+  }
+
+  // Under reset, head-to-head only counts games the tied teams played in their current division
+  const countedHeadToHead = headToHead
+    .filter((h) => !reset || (finalDivision.get(h.teamA) === h.aDivision && finalDivision.get(h.teamB) === h.bDivision))
+    .map(({ teamA, teamB, aWins, bWins }) => ({ teamA, teamB, aWins, bWins }));
+
+  // 4) Group by division, then game wins + the season's tiebreaker pipeline (see tiebreakers.ts)
+  const byDiv = new Map<Division, StandingsRow[]>();
+  for (const r of finalRows) {
+    if (!byDiv.has(r.division)) byDiv.set(r.division, []);
+    byDiv.get(r.division)!.push(r);
+  }
+
+  // Every active division gets a section; a retired one only while it still has teams
+  return sortDivisions([...divisionOrder(), ...byDiv.keys()]).map((division) => ({
+    division,
+    rows: rankStandings(byDiv.get(division) ?? [], countedHeadToHead, tiebreakers),
+  }));
+}
+
+/** Everything computeStandings needs for a season, from Supabase (missing optional tables → league defaults). */
+export async function fetchStandingsInput(season: string): Promise<StandingsInput> {
+  const [matches, scores, baseRows, divisionMoves, dbTeams, settings, subs] = await Promise.all([
+    fetchMatches(season),
+    fetchMatchScores(season),
+    fetchStandingsBase(season).catch(() => []),
+    fetchDivisionMoves(season).catch(() => []),
+    fetchTeamsByDivision(season),
+    fetchSeasonSettings(season).catch(() => null),
+    fetchMatchSubs(season).catch(() => []),
+  ]);
+
+  return {
+    matches,
+    scores,
+    baseRows,
+    divisionMoves,
+    baselineTeams: baselineTeamsFor(season),
+    dbTeams,
+    tiebreakers: normalizeTiebreakers(settings?.tiebreakers),
+    subs,
+    subRule: normalizeSubRule(settings?.subRule),
+    divisionMovePolicy: normalizeDivisionMovePolicy(settings?.divisionMovePolicy),
+  };
+}
@@ -0,0 +1,66 @@
+// constants/substitutes.ts
+// Substitutes recorded per match, and the season rule for whether sub-played games count.
+// Pure logic (no React / Supabase) — standings, player stats and the admin screens share it.
+
+import type { MatchSub } from './leagueData';
+
+// counts         = counts for the team; the sub (not the absent player) gets the player stats
+// standings_only = counts for the team; only the regular partner gets player stats
+// excluded       = the match doesn't count toward standings or anyone's player stats
+export type SubRule = 'counts' | 'standings_only' | 'excluded';
+
+export const SUB_RULE_LABELS: Record<SubRule, string> = {
+  counts: 'Counts — the sub gets the player stats',
+  standings_only: 'Counts for the team only — no player stats for the sub or the absent player',
+  excluded: 'Doesn’t count — matches with a sub are left out of standings and player stats',
+};
+
+// Sub games have always counted for the team, so that stays the league default
+export const DEFAULT_SUB_RULE: SubRule = 'counts';
+
+export function normalizeSubRule(raw: unknown): SubRule {
+  return raw === 'standings_only' || raw === 'excluded' ? raw : DEFAULT_SUB_RULE;
+}
+
+function normalizeName(s: string) {
+  return (s || '').replace(/\s+/g, ' ').trim();
+}
+
+export function subsByMatch(subs: MatchSub[]): Map<string, MatchSub[]> {
+  const map = new Map<string, MatchSub[]>();
+  for (const s of subs) {
+    if (!map.has(s.matchId)) map.set(s.matchId, []);
+    map.get(s.matchId)!.push(s);
+  }
+  return map;
+}
+
+export function subsForTeam(subs: MatchSub[] | undefined, team: string): MatchSub[] {
+  const key = normalizeName(team);
+  return (subs ?? []).filter((s) => normalizeName(s.team) === key);
+}
+
+// false = leave the whole match out of the standings
+export function matchCountsForStandings(subs: MatchSub[] | undefined, rule: SubRule) {
+  return rule !== 'excluded' || !subs || subs.length === 0;
+}
+
+// "Pat for Greg"
+export function subLabel(sub: MatchSub) {
+  return sub.absentPlayerName ? `${sub.subName} for ${sub.absentPlayerName}` : sub.subName;
+}
+
+/**
+ * Player ids credited with a team's result when subs played: absent players never get it;
+ * under `counts` a sub with a player record takes their place.
+ */
+export function creditedLineup(rostered: string[], teamSubs: MatchSub[], rule: SubRule): string[] {
+  if (teamSubs.length === 0) return rostered;
+
+  const absent = new Set(teamSubs.flatMap((s) => (s.absentPlayerId ? [s.absentPlayerId] : [])));
+  const present = rostered.filter((id) => !absent.has(id));
+  if (rule !== 'counts') return present;
+
+  const subIds = teamSubs.flatMap((s) => (s.subPlayerId ? [s.subPlayerId] : []));
+  return [...present, ...subIds.filter((id) => !present.includes(id))];
+}
@@ -10,6 +10,28 @@ export const SUPABASE_PUBLISHABLE_KEY =
 // ✅ Use publishable as the API key + bearer for your REST calls (as you had when things worked)
 export const SUPABASE_ANON_KEY = SUPABASE_PUBLISHABLE_KEY;
 
+// Supabase Auth (GoTrue) endpoint — EXPO_PUBLIC_SUPABASE_AUTH_URL points sign-in at a local stand-in for testing
+export const SUPABASE_AUTH_URL =
+  (process.env.EXPO_PUBLIC_SUPABASE_AUTH_URL || "").trim() || `${SUPABASE_URL}/auth/v1`;
+
+// ✅ Signed-in user's JWT (set by constants/auth.ts) so RLS policies + RPCs can check roles server-side
+let accessToken: string | null = null;
+
+export function setSupabaseAccessToken(token: string | null) {
+  accessToken = token;
+}
+
+export function getSupabaseAccessToken() {
+  return accessToken;
+}
+
+// ✅ Server functions (api/*) only: the service-role key, for tables apps can't read (e.g. push_tokens)
+let serverKey: string | null = null;
+
+export function setSupabaseServerKey(key: string | null) {
+  serverKey = key;
+}
+
 /**
  * REST endpoint helper
  */
@@ -25,8 +47,8 @@ export function supabaseRestUrl(path: string) {
  */
 export function supabaseHeaders(extra?: Record<string, string>) {
   return {
-    apikey: SUPABASE_ANON_KEY,
-    Authorization: `Bearer ${SUPABASE_ANON_KEY}`,
+    apikey: serverKey ?? SUPABASE_ANON_KEY,
+    Authorization: `Bearer ${serverKey ?? accessToken ?? SUPABASE_ANON_KEY}`,
     Accept: "application/json",
     "Content-Type": "application/json",
     ...(extra ?? {}),
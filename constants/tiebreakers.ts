@@ -0,0 +1,191 @@
+// constants/tiebreakers.ts
+// Standings ranking: game wins first, then a configurable pipeline of tiebreakers.
+// Pure logic (no React / Supabase) — the Standings tab and the admin rules screen share it.
+
+export type TiebreakerId = 'headToHead' | 'pointDiff' | 'pointsFor' | 'pointsAgainst' | 'fewestLosses';
+
+export const TIEBREAKER_LABELS: Record<TiebreakerId, string> = {
+  headToHead: 'Head-to-head (mini-league)',
+  pointDiff: 'Point differential',
+  pointsFor: 'Points for',
+  pointsAgainst: 'Points against (fewer)',
+  fewestLosses: 'Game losses (fewer)',
+};
+
+export const ALL_TIEBREAKERS: TiebreakerId[] = ['headToHead', 'pointDiff', 'pointsFor', 'pointsAgainst', 'fewestLosses'];
+
+// League rules: head-to-head, then point differential. Seasons ranked before the pipeline existed keep
+// their old order (fewest losses, points for, points against) pinned in season_settings.
+export const DEFAULT_TIEBREAKERS: TiebreakerId[] = ['headToHead', 'pointDiff', 'pointsFor', 'pointsAgainst'];
+
+export function isTiebreakerId(v: any): v is TiebreakerId {
+  return typeof v === 'string' && (ALL_TIEBREAKERS as string[]).includes(v);
+}
+
+// Stored settings may be stale/hand-edited: keep known ids once each, empty → defaults
+export function normalizeTiebreakers(list: unknown): TiebreakerId[] {
+  if (!Array.isArray(list)) return [...DEFAULT_TIEBREAKERS];
+  const out: TiebreakerId[] = [];
+  for (const v of list) {
+    if (isTiebreakerId(v) && !out.includes(v)) out.push(v);
+  }
+  return out.length > 0 ? out : [...DEFAULT_TIEBREAKERS];
+}
+
+export type StandingsStats = {
+  team: string;
+  gamesPlayed: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+};
+
+// One verified match (only fully entered games counted), used for head-to-head
+export type HeadToHeadResult = {
+  teamA: string;
+  teamB: string;
+  aWins: number;
+  bWins: number;
+};
+
+export type RankedStanding<T extends StandingsStats> = {
+  row: T;
+  rank: number;
+  explanation: string; // "why is this team ranked here"
+};
+
+type StepOutcome = { score: number; detail: string };
+
+type TiebreakerStep = {
+  // Higher score ranks first; detail is shown in the row explanation
+  evaluate: (group: StandingsStats[], results: HeadToHeadResult[]) => Map<string, StepOutcome>;
+};
+
+function signed(n: number) {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+function perTeam(group: StandingsStats[], fn: (r: StandingsStats) => StepOutcome) {
+  const out = new Map<string, StepOutcome>();
+  for (const r of group) out.set(r.team, fn(r));
+  return out;
+}
+
+// Mini-league: only games between the tied teams count, ranked by net game wins
+function headToHead(group: StandingsStats[], results: HeadToHeadResult[]) {
+  const inGroup = new Set(group.map((r) => r.team));
+  const record = new Map<string, { w: number; l: number }>();
+  for (const r of group) record.set(r.team, { w: 0, l: 0 });
+
+  for (const m of results) {
+    if (!inGroup.has(m.teamA) || !inGroup.has(m.teamB) || m.teamA === m.teamB) continue;
+    const a = record.get(m.teamA)!;
+    const b = record.get(m.teamB)!;
+    a.w += m.aWins;
+    a.l += m.bWins;
+    b.w += m.bWins;
+    b.l += m.aWins;
+  }
+
+  const others = group.length - 1;
+  return perTeam(group, (r) => {
+    const rec = record.get(r.team)!;
+    const vs = others === 1 ? 'vs tied team' : `vs ${others} tied teams`;
+    return { score: rec.w - rec.l, detail: `head-to-head ${rec.w}–${rec.l} ${vs}` };
+  });
+}
+
+const TIEBREAKER_STEPS: Record<TiebreakerId, TiebreakerStep> = {
+  headToHead: { evaluate: headToHead },
+  pointDiff: {
+    evaluate: (group) =>
+      perTeam(group, (r) => {
+        const diff = r.pointsFor - r.pointsAgainst;
+        return { score: diff, detail: `point diff ${signed(diff)}` };
+      }),
+  },
+  pointsFor: {
+    evaluate: (group) => perTeam(group, (r) => ({ score: r.pointsFor, detail: `${r.pointsFor} points for` })),
+  },
+  pointsAgainst: {
+    evaluate: (group) => perTeam(group, (r) => ({ score: -r.pointsAgainst, detail: `${r.pointsAgainst} points against` })),
+  },
+  fewestLosses: {
+    evaluate: (group) => perTeam(group, (r) => ({ score: -r.losses, detail: `${r.losses} game losses` })),
+  },
+};
+
+// Splits `rows` into runs of equal key, best first
+function partition<T extends StandingsStats>(rows: T[], key: (r: T) => number): T[][] {
+  const sorted = [...rows].sort((x, y) => key(y) - key(x));
+  const groups: T[][] = [];
+  for (const r of sorted) {
+    const last = groups[groups.length - 1];
+    if (last && key(last[0]) === key(r)) last.push(r);
+    else groups.push([r]);
+  }
+  return groups;
+}
+
+type Explained<T> = { row: T; reasons: string[] };
+
+/**
+ * Orders a tied group with the pipeline starting at `from`.
+ * A step that only partly separates the group restarts the pipeline on each smaller
+ * sub-group (so head-to-head is re-run among just the teams still tied).
+ */
+function resolveTie<T extends StandingsStats>(
+  group: T[],
+  results: HeadToHeadResult[],
+  order: TiebreakerId[],
+  from: number,
+  reasons: string[]
+): Explained<T>[] {
+  if (group.length === 1) return [{ row: group[0], reasons }];
+
+  if (from >= order.length) {
+    return [...group]
+      .sort((x, y) => x.team.localeCompare(y.team))
+      .map((row) => ({ row, reasons: [...reasons, 'still tied, listed alphabetically'] }));
+  }
+
+  const outcomes = TIEBREAKER_STEPS[order[from]].evaluate(group, results);
+  const parts = partition(group, (r) => outcomes.get(r.team)!.score);
+
+  if (parts.length === 1) return resolveTie(group, results, order, from + 1, reasons);
+
+  return parts.flatMap((part) => {
+    const withDetail = [...reasons, outcomes.get(part[0].team)!.detail];
+    if (part.length === 1) return [{ row: part[0], reasons: withDetail }];
+    return resolveTie(part, results, order, 0, withDetail);
+  });
+}
+
+/**
+ * Ranks one division: game wins, then `order`, then team name. Teams with 0 games always go to the bottom.
+ * `results` only needs the verified matches that are counted in the totals.
+ */
+export function rankStandings<T extends StandingsStats>(
+  rows: T[],
+  results: HeadToHeadResult[],
+  order: TiebreakerId[] = DEFAULT_TIEBREAKERS
+): RankedStanding<T>[] {
+  const played = rows.filter((r) => r.gamesPlayed > 0);
+  const idle = rows.filter((r) => r.gamesPlayed === 0).sort((x, y) => x.team.localeCompare(y.team));
+
+  const explained: Explained<T>[] = [];
+  for (const group of partition(played, (r) => r.wins)) {
+    const lead = `${group[0].wins} game wins`;
+    if (group.length === 1) {
+      explained.push({ row: group[0], reasons: [lead] });
+      continue;
+    }
+    const tied = group.length === 2 ? 'tied with 1 team' : `tied with ${group.length - 1} teams`;
+    explained.push(...resolveTie(group, results, order, 0, [`${lead}, ${tied}`]));
+  }
+
+  for (const row of idle) explained.push({ row, reasons: ['no games played yet'] });
+
+  return explained.map((e, idx) => ({ row: e.row, rank: idx + 1, explanation: e.reasons.join(' → ') }));
+}
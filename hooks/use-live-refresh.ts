@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+
+import { subscribeToTable, type LiveTable } from '@/constants/realtime';
+
+/**
+ * Calls `onChange` when rows change in any of `tables` (Supabase Realtime).
+ * Bursts (e.g. a whole week saved at once) are coalesced into one call.
+ */
+export function useLiveRefresh(tables: LiveTable[], onChange: () => void, debounceMs = 400) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const tablesKey = tables.join(',');
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        onChangeRef.current();
+      }, debounceMs);
+    };
+
+    const unsubscribers = (tablesKey.split(',') as LiveTable[]).filter(Boolean).map((t) => subscribeToTable(t, schedule));
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [tablesKey, debounceMs]);
+}
@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+
+import { syncMatchReminders } from '@/constants/reminders';
+import { useLiveRefresh } from '@/hooks/use-live-refresh';
+
+function syncQuietly() {
+  // Offline / no permission: the next sync catches up
+  void syncMatchReminders().catch(() => null);
+}
+
+/**
+ * Keeps this device's match reminders in step with the schedule: on launch, whenever the app comes
+ * back to the foreground, and when an admin edits or deletes matches (Supabase Realtime).
+ */
+export function useMatchReminders() {
+  useEffect(() => {
+    syncQuietly();
+
+    const sub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') syncQuietly();
+    });
+    return () => sub.remove();
+  }, []);
+
+  useLiveRefresh(['matches'], syncQuietly);
+}
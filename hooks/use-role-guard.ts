@@ -0,0 +1,35 @@
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useCallback, useState } from 'react';
+
+import { currentUserHasRole } from '@/constants/auth';
+import type { Role } from '@/constants/leagueData';
+
+/**
+ * Re-checks the signed-in user's role against user_roles every time the screen is focused;
+ * anyone without it (or offline, when it can't be confirmed) is sent to the admin sign-in screen.
+ * Returns true once allowed.
+ */
+export function useRoleGuard(needed: Role | Role[]) {
+  const router = useRouter();
+  const [allowed, setAllowed] = useState(false);
+
+  const neededKey = (Array.isArray(needed) ? needed : [needed]).join(',');
+
+  useFocusEffect(
+    useCallback(() => {
+      let active = true;
+
+      void currentUserHasRole(neededKey.split(',') as Role[]).then((ok) => {
+        if (!active) return;
+        setAllowed(ok);
+        if (!ok) router.replace('/admin-lock');
+      });
+
+      return () => {
+        active = false;
+      };
+    }, [router, neededKey])
+  );
+
+  return allowed;
+}
@@ -0,0 +1,223 @@
+-- supabase/migrations/20261018090000_league_schema.sql
+-- League schema the app reads and writes (row shapes documented in constants/leagueData.ts):
+-- seasons, a season column on every season-scoped table, and the tables added alongside it.
+-- Rows written before seasons existed belong to 'season3' (LEGACY_SEASON_ID). Safe to re-run.
+
+-- =============================
+-- Seasons
+-- =============================
+create table if not exists public.seasons (
+  id text primary key,
+  name text not null,
+  status text not null default 'active' check (status in ('active', 'archived')),
+  started_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+insert into public.seasons (id, name, status)
+values ('season3', 'Season 3', 'active')
+on conflict (id) do nothing;
+
+-- =============================
+-- League-wide tables (not season-scoped)
+-- =============================
+create table if not exists public.divisions (
+  name text primary key,
+  sort_order int not null default 0,
+  color text,
+  skill_band text,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.venues (
+  id text primary key,
+  name text not null,
+  courts jsonb not null default '[]'::jsonb, -- [{ number, name }]
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.slot_templates (
+  id text primary key,
+  name text not null,
+  start_time text not null, -- "6:00 PM"
+  step_minutes int not null check (step_minutes > 0),
+  slot_count int not null check (slot_count > 0),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.players (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  email text check (email = lower(email)),
+  sub_pool boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+-- A device keeps its token across seasons (RLS + register_push_token() in 20261018120000)
+create table if not exists public.push_tokens (
+  token text primary key,
+  player_id uuid,
+  player_name text,
+  team_id uuid,
+  team text,
+  platform text,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.push_tickets (
+  ticket_id text primary key,
+  token text not null references public.push_tokens(token) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+-- =============================
+-- Season column on the tables that predate seasons
+-- =============================
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['teams', 'matches', 'match_scores', 'attendance', 'division_moves', 'standings_base'] loop
+    execute format(
+      'alter table public.%I add column if not exists season text not null default ''season3'' references public.seasons(id)',
+      t
+    );
+  end loop;
+end;
+$$;
+
+alter table public.matches add column if not exists stage text not null default 'regular'
+  check (stage in ('regular', 'playoff'));
+
+alter table public.match_scores
+  add column if not exists status text,
+  add column if not exists submitted_by text,
+  add column if not exists submitted_by_team text,
+  add column if not exists submitted_by_player_id uuid references public.players(id) on delete set null,
+  add column if not exists submitted_by_team_id uuid references public.teams(id) on delete set null,
+  add column if not exists dispute jsonb,
+  add column if not exists verified_by_player_id uuid references public.players(id) on delete set null;
+
+-- attendance: one row per team per week *per season*; team_id for new rows, and who set it
+alter table public.attendance
+  add column if not exists team_id uuid references public.teams(id) on delete set null,
+  add column if not exists source text not null default 'admin' check (source in ('admin', 'rsvp')),
+  add column if not exists updated_at timestamptz not null default now();
+
+alter table public.attendance drop constraint if exists attendance_week_team_key;
+alter table public.attendance drop constraint if exists attendance_season_week_team_key;
+alter table public.attendance add constraint attendance_season_week_team_key unique (season, week, team);
+
+-- =============================
+-- Season-scoped tables
+-- =============================
+create table if not exists public.season_settings (
+  season text primary key references public.seasons(id) on delete cascade,
+  tiebreakers jsonb,
+  game_rules jsonb,
+  sub_rule text,
+  division_move_policy text,
+  promotion_rules jsonb,
+  week1_date date,
+  venue_id text references public.venues(id) on delete set null,
+  slot_template_id text references public.slot_templates(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.team_players (
+  id uuid primary key default gen_random_uuid(),
+  season text not null default 'season3' references public.seasons(id),
+  team_id uuid not null references public.teams(id) on delete cascade,
+  player_id uuid not null references public.players(id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  left_at timestamptz
+);
+
+-- A player has at most one open roster spot per season
+create unique index if not exists team_players_one_open_per_season
+  on public.team_players (season, player_id)
+  where left_at is null;
+
+create table if not exists public.match_subs (
+  id uuid primary key default gen_random_uuid(),
+  season text not null default 'season3' references public.seasons(id),
+  match_id text not null references public.matches(id) on delete cascade,
+  team text not null,
+  absent_player_id uuid references public.players(id) on delete set null,
+  absent_player_name text not null,
+  sub_player_id uuid references public.players(id) on delete set null,
+  sub_name text not null,
+  created_at timestamptz not null default now(),
+  unique (season, match_id, team, absent_player_name)
+);
+
+create table if not exists public.rsvps (
+  id uuid primary key default gen_random_uuid(),
+  season text not null default 'season3' references public.seasons(id),
+  week int not null,
+  team text not null,
+  team_id uuid references public.teams(id) on delete set null,
+  player_id uuid references public.players(id) on delete set null,
+  player_name text not null,
+  status text not null check (status in ('in', 'out', 'maybe')),
+  updated_at timestamptz not null default now(),
+  unique (season, week, team, player_name)
+);
+
+create table if not exists public.rsvp_cutoffs (
+  season text not null default 'season3' references public.seasons(id),
+  week int not null,
+  cutoff_at timestamptz not null,
+  unique (season, week)
+);
+
+create table if not exists public.team_byes (
+  id uuid primary key default gen_random_uuid(),
+  season text not null default 'season3' references public.seasons(id),
+  team text not null,
+  week int not null,
+  created_at timestamptz not null default now(),
+  unique (season, team, week)
+);
+
+create table if not exists public.standings_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  season text not null default 'season3' references public.seasons(id),
+  week int not null,
+  division text not null,
+  team text not null,
+  rank int not null,
+  games_played int not null default 0,
+  wins int not null default 0,
+  losses int not null default 0,
+  points_for int not null default 0,
+  points_against int not null default 0,
+  explanation text,
+  frozen_at timestamptz not null default now(),
+  unique (season, week, division, team)
+);
+
+create table if not exists public.league_nights (
+  id uuid primary key default gen_random_uuid(),
+  season text not null default 'season3' references public.seasons(id),
+  week int not null,
+  venue_id text references public.venues(id) on delete set null,
+  slot_template_id text references public.slot_templates(id) on delete set null,
+  closed_courts jsonb not null default '[]'::jsonb, -- court numbers
+  note text,
+  created_at timestamptz not null default now(),
+  unique (season, week)
+);
+
+create table if not exists public.playoff_brackets (
+  id text primary key,
+  season text not null default 'season3' references public.seasons(id),
+  division text not null,
+  format text not null check (format in ('single', 'double')),
+  seeds jsonb not null default '[]'::jsonb, -- team names, seed 1 first
+  games jsonb not null default '[]'::jsonb, -- BracketGame[]
+  created_at timestamptz not null default now(),
+  unique (season, division)
+);
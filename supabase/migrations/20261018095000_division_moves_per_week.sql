@@ -0,0 +1,9 @@
+-- supabase/migrations/20261018095000_division_moves_per_week.sql
+-- A team can move divisions more than once a season (e.g. up after week 4, back down after week 8):
+-- one move per team per effective week instead of one per team ever. Upserts use
+-- on_conflict=season,team,effective_week (constants/leagueData.ts).
+
+alter table public.division_moves drop constraint if exists division_moves_team_key;
+alter table public.division_moves drop constraint if exists division_moves_season_team_effective_week_key;
+alter table public.division_moves
+  add constraint division_moves_season_team_effective_week_key unique (season, team, effective_week);
@@ -0,0 +1,42 @@
+-- supabase/migrations/20261018120000_push_tokens_write_only.sql
+-- Push registry is write-only for apps: a device registers its own token through register_push_token(),
+-- and only the service role (api/push.ts) reads tokens, prunes them and tracks tickets.
+
+alter table public.push_tokens enable row level security;
+alter table public.push_tickets enable row level security;
+
+-- No policies: with RLS on, anon/authenticated can't see or change a row directly
+revoke all on table public.push_tokens from anon, authenticated;
+revoke all on table public.push_tickets from anon, authenticated;
+
+create or replace function public.register_push_token(
+  p_token public.push_tokens.token%type,
+  p_player_id public.push_tokens.player_id%type,
+  p_player_name public.push_tokens.player_name%type,
+  p_team_id public.push_tokens.team_id%type,
+  p_team public.push_tokens.team%type,
+  p_platform public.push_tokens.platform%type
+) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(trim(p_token), '') = '' then
+    raise exception 'push token is required';
+  end if;
+
+  insert into public.push_tokens (token, player_id, player_name, team_id, team, platform, updated_at)
+  values (p_token, p_player_id, p_player_name, p_team_id, p_team, p_platform, now())
+  on conflict (token) do update
+    set player_id = excluded.player_id,
+        player_name = excluded.player_name,
+        team_id = excluded.team_id,
+        team = excluded.team,
+        platform = excluded.platform,
+        updated_at = excluded.updated_at;
+end;
+$$;
+
+revoke all on function public.register_push_token(text, text, text, text, text, text) from public;
+grant execute on function public.register_push_token(text, text, text, text, text, text) to anon, authenticated;
@@ -0,0 +1,100 @@
+-- supabase/migrations/20261018130000_user_roles.sql
+-- League roles, checked server-side: user_roles rows keyed by the signed-in email, has_role() for
+-- policies and RPCs, and the score lock RPCs guarded by it. The app's cached roles only pick screens.
+
+create table if not exists public.user_roles (
+  id uuid primary key default gen_random_uuid(),
+  email text not null check (email = lower(email)),
+  role text not null check (role in ('player', 'captain', 'scorekeeper', 'league_admin')),
+  team text,
+  created_at timestamptz not null default now(),
+  unique (email, role)
+);
+
+-- league_admin satisfies every check (same rule as hasRole() in constants/auth.ts)
+create or replace function public.has_role(p_role text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.user_roles r
+    where r.email = lower(coalesce(auth.jwt() ->> 'email', ''))
+      and (r.role = 'league_admin' or r.role = p_role)
+  );
+$$;
+
+revoke all on function public.has_role(text) from public;
+grant execute on function public.has_role(text) to anon, authenticated;
+
+-- Anyone signed in reads their own rows (admins read everyone's); only league_admin writes
+alter table public.user_roles enable row level security;
+
+revoke all on table public.user_roles from anon;
+grant select, insert, update, delete on table public.user_roles to authenticated;
+
+drop policy if exists user_roles_read on public.user_roles;
+create policy user_roles_read on public.user_roles
+  for select to authenticated
+  using (email = lower(coalesce(auth.jwt() ->> 'email', '')) or public.has_role('league_admin'));
+
+drop policy if exists user_roles_admin_insert on public.user_roles;
+create policy user_roles_admin_insert on public.user_roles
+  for insert to authenticated
+  with check (public.has_role('league_admin'));
+
+drop policy if exists user_roles_admin_update on public.user_roles;
+create policy user_roles_admin_update on public.user_roles
+  for update to authenticated
+  using (public.has_role('league_admin'))
+  with check (public.has_role('league_admin'));
+
+drop policy if exists user_roles_admin_delete on public.user_roles;
+create policy user_roles_admin_delete on public.user_roles
+  for delete to authenticated
+  using (public.has_role('league_admin'));
+
+-- Score locks: scorekeepers (and league admins) only
+create or replace function public.lock_match_score(p_match_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role('scorekeeper') then
+    raise exception 'Only a scorekeeper or league admin can lock scores.' using errcode = '42501';
+  end if;
+
+  update public.match_scores
+     set locked_at = now(),
+         locked_by = auth.jwt() ->> 'email'
+   where match_id = p_match_id;
+end;
+$$;
+
+create or replace function public.unlock_match_score(p_match_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role('scorekeeper') then
+    raise exception 'Only a scorekeeper or league admin can unlock scores.' using errcode = '42501';
+  end if;
+
+  update public.match_scores
+     set locked_at = null,
+         locked_by = null
+   where match_id = p_match_id;
+end;
+$$;
+
+revoke all on function public.lock_match_score(text) from public;
+revoke all on function public.unlock_match_score(text) from public;
+grant execute on function public.lock_match_score(text) to authenticated;
+grant execute on function public.unlock_match_score(text) to authenticated;
@@ -0,0 +1,253 @@
+-- supabase/migrations/20261018140000_admin_write_policies.sql
+-- Server-side write rules for the league tables: everyone can read, only league_admin writes.
+-- Exceptions players need without an admin: RSVPs, RSVP-derived attendance, community posts,
+-- and scores — which go through save_match_score() so a team can only submit, confirm or dispute.
+
+-- =============================
+-- Admin-only tables
+-- =============================
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'seasons', 'season_settings', 'divisions', 'venues', 'slot_templates',
+    'teams', 'players', 'team_players', 'matches', 'match_subs', 'rsvp_cutoffs',
+    'division_moves', 'team_byes', 'standings_base', 'standings_snapshots',
+    'league_nights', 'playoff_brackets'
+  ] loop
+    execute format('alter table public.%I enable row level security', t);
+
+    execute format('drop policy if exists %I on public.%I', t || '_read', t);
+    execute format('create policy %I on public.%I for select to anon, authenticated using (true)', t || '_read', t);
+
+    execute format('drop policy if exists %I on public.%I', t || '_admin_write', t);
+    execute format(
+      'create policy %I on public.%I for all to authenticated '
+        || 'using (public.has_role(''league_admin'')) with check (public.has_role(''league_admin''))',
+      t || '_admin_write',
+      t
+    );
+  end loop;
+end;
+$$;
+
+-- =============================
+-- attendance: admins set anything; a player's RSVP may only (re)derive rows no admin has set
+-- =============================
+alter table public.attendance enable row level security;
+
+drop policy if exists attendance_read on public.attendance;
+create policy attendance_read on public.attendance for select to anon, authenticated using (true);
+
+drop policy if exists attendance_admin_write on public.attendance;
+create policy attendance_admin_write on public.attendance for all to authenticated
+  using (public.has_role('league_admin'))
+  with check (public.has_role('league_admin'));
+
+drop policy if exists attendance_rsvp_insert on public.attendance;
+create policy attendance_rsvp_insert on public.attendance for insert to anon, authenticated
+  with check (source = 'rsvp');
+
+drop policy if exists attendance_rsvp_update on public.attendance;
+create policy attendance_rsvp_update on public.attendance for update to anon, authenticated
+  using (source = 'rsvp')
+  with check (source = 'rsvp');
+
+-- =============================
+-- rsvps: players answer for themselves from their device; only admins delete
+-- =============================
+alter table public.rsvps enable row level security;
+
+drop policy if exists rsvps_read on public.rsvps;
+create policy rsvps_read on public.rsvps for select to anon, authenticated using (true);
+
+drop policy if exists rsvps_insert on public.rsvps;
+create policy rsvps_insert on public.rsvps for insert to anon, authenticated with check (true);
+
+drop policy if exists rsvps_update on public.rsvps;
+create policy rsvps_update on public.rsvps for update to anon, authenticated using (true) with check (true);
+
+drop policy if exists rsvps_admin_delete on public.rsvps;
+create policy rsvps_admin_delete on public.rsvps for delete to authenticated
+  using (public.has_role('league_admin'));
+
+-- =============================
+-- announcements: community posts by anyone; admin posts and edits by league_admin only
+-- =============================
+alter table public.announcements enable row level security;
+
+drop policy if exists announcements_read on public.announcements;
+create policy announcements_read on public.announcements for select to anon, authenticated using (true);
+
+drop policy if exists announcements_insert on public.announcements;
+create policy announcements_insert on public.announcements for insert to anon, authenticated
+  with check (scope = 'community' or public.has_role('league_admin'));
+
+drop policy if exists announcements_delete on public.announcements;
+create policy announcements_delete on public.announcements for delete to anon, authenticated
+  using (scope = 'community' or public.has_role('league_admin'));
+
+drop policy if exists announcements_admin_update on public.announcements;
+create policy announcements_admin_update on public.announcements for update to authenticated
+  using (public.has_role('league_admin'))
+  with check (public.has_role('league_admin'));
+
+-- =============================
+-- match_scores: scorekeepers write directly; teams go through save_match_score()
+-- =============================
+alter table public.match_scores add column if not exists updated_at timestamptz not null default now();
+
+alter table public.match_scores enable row level security;
+
+drop policy if exists match_scores_read on public.match_scores;
+create policy match_scores_read on public.match_scores for select to anon, authenticated using (true);
+
+drop policy if exists match_scores_scorekeeper_write on public.match_scores;
+create policy match_scores_scorekeeper_write on public.match_scores for all to authenticated
+  using (public.has_role('scorekeeper'))
+  with check (public.has_role('scorekeeper'));
+
+-- The signed-in user plays for `p_team` in the match: a team role for it in user_roles, or an open
+-- roster spot (players.email → team_players) on the team that season
+create or replace function public.is_match_participant(p_match_id text, p_team text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.matches m
+    where m.id = p_match_id
+      and trim(p_team) in (trim(m.team_a), trim(m.team_b))
+      and (
+        exists (
+          select 1
+          from public.user_roles r
+          where r.email = lower(coalesce(auth.jwt() ->> 'email', ''))
+            and r.role in ('player', 'captain')
+            and trim(r.team) = trim(p_team)
+        )
+        or exists (
+          select 1
+          from public.players p
+          join public.team_players tp on tp.player_id = p.id and tp.left_at is null and tp.season = m.season
+          join public.teams t on t.id = tp.team_id
+          where p.email = lower(coalesce(auth.jwt() ->> 'email', ''))
+            and trim(t.name) = trim(p_team)
+        )
+      )
+  );
+$$;
+
+revoke all on function public.is_match_participant(text, text) from public;
+grant execute on function public.is_match_participant(text, text) to anon, authenticated;
+
+-- Saves a score row (same fields the app's upsertMatchScore sends); `verified` always follows the status.
+-- Scorekeepers / league admins may save anything. Anyone else must play in the match, and may only:
+--   submit  — while nothing is confirmed or disputed yet (as their own team)
+--   confirm — the other team's submission, scores unchanged
+--   dispute — the other team's submission
+create or replace function public.save_match_score(p_row jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_match public.matches%rowtype;
+  v_prev public.match_scores%rowtype;
+  v_exists boolean;
+  v_status text := coalesce(p_row ->> 'status', 'submitted');
+  v_team text;
+begin
+  select * into v_match from public.matches where id = p_row ->> 'match_id';
+  if not found then
+    raise exception 'Match % does not exist.', p_row ->> 'match_id';
+  end if;
+
+  select * into v_prev from public.match_scores where match_id = v_match.id;
+  v_exists := found;
+
+  if not public.has_role('scorekeeper') then
+    if v_exists and v_prev.locked_at is not null then
+      raise exception 'Scores for this match are locked.' using errcode = '42501';
+    end if;
+
+    if v_status = 'submitted' then
+      if v_exists and v_prev.status in ('confirmed', 'overridden', 'disputed') then
+        raise exception 'This score is already confirmed or disputed. Ask the league admin if it needs to change.'
+          using errcode = '42501';
+      end if;
+      v_team := p_row ->> 'submitted_by_team';
+    elsif v_status in ('confirmed', 'disputed') then
+      if not v_exists or v_prev.status is distinct from 'submitted' then
+        raise exception 'There is no submitted score to confirm or dispute.' using errcode = '42501';
+      end if;
+      -- Only the team that didn't submit answers
+      v_team := case
+        when trim(v_prev.submitted_by_team) = trim(v_match.team_a) then v_match.team_b
+        when trim(v_prev.submitted_by_team) = trim(v_match.team_b) then v_match.team_a
+      end;
+      if v_status = 'confirmed'
+        and (p_row -> 'team_a' is distinct from v_prev.team_a or p_row -> 'team_b' is distinct from v_prev.team_b) then
+        raise exception 'A confirmation must keep the submitted scores (dispute them instead).' using errcode = '42501';
+      end if;
+    else
+      raise exception 'Only a scorekeeper or league admin can make a score official.' using errcode = '42501';
+    end if;
+
+    if v_team is null or not public.is_match_participant(v_match.id, v_team) then
+      raise exception 'Sign in with an email on %''s roster to save scores for this match.', coalesce(v_team, 'the team')
+        using errcode = '42501';
+    end if;
+  end if;
+
+  insert into public.match_scores (
+    match_id, season, team_a, team_b, status,
+    submitted_by, submitted_by_team, submitted_by_player_id, submitted_by_team_id,
+    dispute, verified, verified_by, verified_by_player_id, verified_at_ms, updated_at
+  )
+  values (
+    v_match.id,
+    v_match.season,
+    p_row -> 'team_a',
+    p_row -> 'team_b',
+    v_status,
+    p_row ->> 'submitted_by',
+    p_row ->> 'submitted_by_team',
+    (p_row ->> 'submitted_by_player_id')::uuid,
+    (p_row ->> 'submitted_by_team_id')::uuid,
+    nullif(p_row -> 'dispute', 'null'::jsonb),
+    v_status in ('confirmed', 'overridden'),
+    p_row ->> 'verified_by',
+    (p_row ->> 'verified_by_player_id')::uuid,
+    -- A verified score always carries when it was verified (older clients may not send it)
+    case
+      when v_status in ('confirmed', 'overridden')
+        then coalesce((p_row ->> 'verified_at_ms')::bigint, (extract(epoch from now()) * 1000)::bigint)
+    end,
+    now()
+  )
+  on conflict (match_id) do update
+    set season = excluded.season,
+        team_a = excluded.team_a,
+        team_b = excluded.team_b,
+        status = excluded.status,
+        submitted_by = excluded.submitted_by,
+        submitted_by_team = excluded.submitted_by_team,
+        submitted_by_player_id = excluded.submitted_by_player_id,
+        submitted_by_team_id = excluded.submitted_by_team_id,
+        dispute = excluded.dispute,
+        verified = excluded.verified,
+        verified_by = excluded.verified_by,
+        verified_by_player_id = excluded.verified_by_player_id,
+        verified_at_ms = excluded.verified_at_ms,
+        updated_at = excluded.updated_at;
+end;
+$$;
+
+revoke all on function public.save_match_score(jsonb) from public;
+grant execute on function public.save_match_score(jsonb) to anon, authenticated;
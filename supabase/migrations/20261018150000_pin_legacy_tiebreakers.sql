@@ -0,0 +1,13 @@
+-- supabase/migrations/20261018150000_pin_legacy_tiebreakers.sql
+-- New seasons rank ties head-to-head first, then by point differential (DEFAULT_TIEBREAKERS).
+-- Seasons that already exist were ranked wins → losses → points for → points against, so that
+-- order is stored in their settings instead of following the new default.
+
+insert into public.season_settings (season, tiebreakers, updated_at)
+select s.id, '["fewestLosses", "pointsFor", "pointsAgainst"]'::jsonb, now()
+from public.seasons s
+on conflict (season) do update
+  set tiebreakers = excluded.tiebreakers,
+      updated_at = excluded.updated_at
+  where public.season_settings.tiebreakers is null
+     or public.season_settings.tiebreakers = '[]'::jsonb;
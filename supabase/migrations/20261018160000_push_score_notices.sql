@@ -0,0 +1,15 @@
+-- supabase/migrations/20261018160000_push_score_notices.sql
+-- One score notification per saved change: api/push.ts claims (match_id, updated_at) before sending,
+-- so retries and repeat reports of the same save don't notify a team twice. Service role only.
+
+create table if not exists public.push_score_notices (
+  match_id text not null references public.matches(id) on delete cascade,
+  updated_at timestamptz not null, -- match_scores.updated_at of the announced save
+  created_at timestamptz not null default now(),
+  primary key (match_id, updated_at)
+);
+
+alter table public.push_score_notices enable row level security;
+
+-- No policies: with RLS on, anon/authenticated can't see or change a row directly
+revoke all on table public.push_score_notices from anon, authenticated;
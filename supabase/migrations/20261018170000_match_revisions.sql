@@ -0,0 +1,31 @@
+-- supabase/migrations/20261018170000_match_revisions.sql
+-- Calendar feeds need to know when a match changed: `revision` counts edits to its slot or teams
+-- (iCalendar SEQUENCE) and `updated_at` records the last one (LAST-MODIFIED / DTSTAMP).
+-- Set by a trigger so every writer (admin screens, season planner, playoffs) bumps them the same way.
+
+alter table public.matches
+  add column if not exists revision int not null default 0,
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.bump_match_revision()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Upserts re-send unchanged rows: only a real change is a new revision
+  if (new.week, new.division, new.time, new.court, new.team_a, new.team_b)
+     is distinct from (old.week, old.division, old.time, old.court, old.team_a, old.team_b) then
+    new.revision := old.revision + 1;
+    new.updated_at := now();
+  else
+    new.revision := old.revision;
+    new.updated_at := old.updated_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists matches_bump_revision on public.matches;
+create trigger matches_bump_revision
+  before update on public.matches
+  for each row execute function public.bump_match_revision();